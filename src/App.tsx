@@ -6,6 +6,7 @@ import { HashRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AuthProvider } from "@/context/AuthContext";
 import { BotProvider } from "@/context/BotContext";
+import { BrokerLiveProvider } from "@/context/BrokerLiveContext";
 import { JournalProvider } from "@/context/JournalContext";
 
 // Pages
@@ -30,117 +31,119 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
       <BotProvider>
-        <JournalProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <HashRouter>
-              <Routes>
-                {/* Redirect root to dashboard */}
-                <Route path="/" element={<Navigate to="/dashboard" replace />} />
+        <BrokerLiveProvider>
+          <JournalProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <HashRouter>
+                <Routes>
+                  {/* Redirect root to dashboard */}
+                  <Route path="/" element={<Navigate to="/dashboard" replace />} />
 
-                {/* Bot tracking routes */}
-                <Route
-                  path="/dashboard"
-                  element={
-                    <AppLayout>
-                      <Dashboard />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/bots"
-                  element={
-                    <AppLayout>
-                      <Bots />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/bots/:id"
-                  element={
-                    <AppLayout>
-                      <BotDetail />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/bot-accounts"
-                  element={
-                    <AppLayout>
-                      <BotAccounts />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/bot-trades"
-                  element={
-                    <AppLayout>
-                      <BotTrades />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/bot-calendar"
-                  element={
-                    <AppLayout>
-                      <BotCalendar />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/bot-analytics"
-                  element={
-                    <AppLayout>
-                      <BotAnalytics />
-                    </AppLayout>
-                  }
-                />
+                  {/* Bot tracking routes */}
+                  <Route
+                    path="/dashboard"
+                    element={
+                      <AppLayout>
+                        <Dashboard />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/bots"
+                    element={
+                      <AppLayout>
+                        <Bots />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/bots/:id"
+                    element={
+                      <AppLayout>
+                        <BotDetail />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/bot-accounts"
+                    element={
+                      <AppLayout>
+                        <BotAccounts />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/bot-trades"
+                    element={
+                      <AppLayout>
+                        <BotTrades />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/bot-calendar"
+                    element={
+                      <AppLayout>
+                        <BotCalendar />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/bot-analytics"
+                    element={
+                      <AppLayout>
+                        <BotAnalytics />
+                      </AppLayout>
+                    }
+                  />
 
-                {/* Personal journal route */}
-                <Route
-                  path="/trade-journal"
-                  element={
-                    <AppLayout>
-                      <TradeJournal />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/trade-journal/*"
-                  element={
-                    <AppLayout>
-                      <TradeJournal />
-                    </AppLayout>
-                  }
-                />
-                <Route
-                  path="/reports"
-                  element={
-                    <AppLayout>
-                      <Reports />
-                    </AppLayout>
-                  }
-                />
+                  {/* Personal journal route */}
+                  <Route
+                    path="/trade-journal"
+                    element={
+                      <AppLayout>
+                        <TradeJournal />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/trade-journal/*"
+                    element={
+                      <AppLayout>
+                        <TradeJournal />
+                      </AppLayout>
+                    }
+                  />
+                  <Route
+                    path="/reports"
+                    element={
+                      <AppLayout>
+                        <Reports />
+                      </AppLayout>
+                    }
+                  />
 
-                {/* Settings */}
-                <Route
-                  path="/settings"
-                  element={
-                    <AppLayout>
-                      <Settings />
-                    </AppLayout>
-                  }
-                />
+                  {/* Settings */}
+                  <Route
+                    path="/settings"
+                    element={
+                      <AppLayout>
+                        <Settings />
+                      </AppLayout>
+                    }
+                  />
 
-                {/* Standalone Big Mitch's World - full screen, no layout */}
-                <Route path="/big-mitch" element={<BigMitchWorldPage />} />
+                  {/* Standalone Big Mitch's World - full screen, no layout */}
+                  <Route path="/big-mitch" element={<BigMitchWorldPage />} />
 
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </HashRouter>
-          </TooltipProvider>
-        </JournalProvider>
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </HashRouter>
+            </TooltipProvider>
+          </JournalProvider>
+        </BrokerLiveProvider>
       </BotProvider>
     </AuthProvider>
   </QueryClientProvider>
@@ -0,0 +1,222 @@
+/**
+ * DataBackup - Export all journal and bot data to an archive file, and import one with a preview
+ */
+
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Archive, Download, Loader2, Upload, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/context/AuthContext';
+import { useBots } from '@/context/BotContext';
+import { useJournal } from '@/context/JournalContext';
+import { useRepositories } from '@/context/RepositoryContext';
+import {
+  ARCHIVE_SECTIONS, archiveFileName, exportArchive, fetchExistingKeys, fetchOwnedKeys, importArchive, parseArchive, planImport,
+  type ArchiveSection, type DataArchive, type ImportMode,
+} from '@/lib/dataArchive';
+
+const SECTION_LABELS: Record<ArchiveSection, string> = {
+  propFirms: 'Prop firms',
+  tradingSetups: 'Setups',
+  accounts: 'Accounts',
+  trades: 'Trades',
+  payouts: 'Payouts',
+  expenses: 'Expenses',
+  dailyEntries: 'Daily entries',
+  bots: 'Bots',
+  botAccounts: 'Bot accounts',
+  botTrades: 'Bot trades',
+  calendarNotes: 'Calendar notes',
+};
+
+interface PendingImport {
+  fileName: string;
+  archive: DataArchive;
+  existing: Record<ArchiveSection, string[]>;
+  owned: Record<ArchiveSection, string[]>;       // what a replace may delete
+}
+
+export function DataBackup() {
+  const { user } = useAuth();
+  const { refreshData: refreshJournal } = useJournal();
+  const { refreshData: refreshBots } = useBots();
+  const repositories = useRepositories();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [busy, setBusy] = useState<'export' | 'read' | 'import' | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const plan = pending ? planImport(pending.archive, pending.existing, mode, pending.owned) : null;
+
+  const handleExport = async () => {
+    if (!repositories) return;
+    setBusy('export');
+    setError('');
+    setMessage('');
+    try {
+      const archive = await exportArchive(repositories);
+      const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = archiveFileName(archive);
+      a.click();
+      URL.revokeObjectURL(url);
+      const total = Object.values(archive.manifest.counts).reduce((sum, n) => sum + n, 0);
+      setMessage(`Exported ${total} records.`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !repositories || !user) return;
+    setBusy('read');
+    setError('');
+    setMessage('');
+    try {
+      const archive = await parseArchive(await file.text());
+      const [existing, owned] = await Promise.all([fetchExistingKeys(repositories), fetchOwnedKeys(repositories, user.id)]);
+      setPending({ fileName: file.name, archive, existing, owned });
+      setMode('merge');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read the archive');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!repositories || !user || !pending || !plan) return;
+    if (mode === 'replace') {
+      const removed = ARCHIVE_SECTIONS.reduce((sum, s) => sum + plan[s].removed, 0);
+      if (!confirm(`Replace your data with the archive? ${removed} of your records that aren't in it will be deleted. Teammates' bots are kept.`)) return;
+    }
+
+    setBusy('import');
+    setError('');
+    try {
+      await importArchive(repositories, pending.archive, mode, user.id);
+      await Promise.all([refreshJournal(), refreshBots()]);
+      setMessage(`Imported ${pending.fileName}.`);
+      setPending(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!user || !repositories) return null;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Archive className="h-4 w-4" />
+            Backup &amp; Restore
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={busy !== null}>
+              {busy === 'export' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={busy !== null}>
+              {busy === 'read' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+              Import
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Download all journal and bot data as one archive file, or load an archive back in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {message && <p className="text-sm text-success">{message}</p>}
+
+        {pending && plan && (
+          <div className="space-y-3 rounded-lg border border-border/60 p-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="space-y-0.5">
+                <p className="text-sm font-medium">{pending.fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  Exported {format(new Date(pending.archive.manifest.exportedAt), 'MMM d, yyyy HH:mm')}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setPending(null)} title="Cancel" disabled={busy !== null}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={mode}
+              onValueChange={value => value && setMode(value as ImportMode)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="merge">Merge</ToggleGroupItem>
+              <ToggleGroupItem value="replace">Replace</ToggleGroupItem>
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">
+              {mode === 'merge'
+                ? 'Archived records are added, or overwrite the stored record with the same id. Nothing is deleted.'
+                : 'Stored records that aren\'t in the archive are deleted, then the archive is written.'}
+            </p>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left font-normal">Section</th>
+                  <th className="text-right font-normal">In archive</th>
+                  <th className="text-right font-normal">New</th>
+                  <th className="text-right font-normal">Overwritten</th>
+                  {mode === 'replace' && <th className="text-right font-normal">Deleted</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {ARCHIVE_SECTIONS.map(section => (
+                  <tr key={section}>
+                    <td>{SECTION_LABELS[section]}</td>
+                    <td className="text-right font-mono">{plan[section].incoming}</td>
+                    <td className="text-right font-mono text-success">{plan[section].added}</td>
+                    <td className="text-right font-mono">{plan[section].updated}</td>
+                    {mode === 'replace' && (
+                      <td className="text-right font-mono text-destructive">{plan[section].removed}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <Button size="sm" onClick={handleImport} disabled={busy !== null}>
+              {busy === 'import' && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {mode === 'merge' ? 'Merge archive' : 'Replace with archive'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { DataBackup } from './DataBackup';
@@ -0,0 +1,670 @@
+/**
+ * BrokerConnect - Manage broker connections and sync their accounts
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Loader2, Link2, RefreshCw, CheckCircle2, AlertCircle, Plus, Pencil, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/context/AuthContext';
+import { useBots } from '@/context/BotContext';
+import { useBrokerLive } from '@/context/BrokerLiveContext';
+import { useRepositories } from '@/context/RepositoryContext';
+import type { TradovateCredentials } from '@/lib/tradovate';
+import { BROKERS, testBrokerClient, testBrokerConnection } from '@/lib/brokerClient';
+import { readFileAsText } from '@/lib/backtestImport';
+import {
+  createBrokerConnection,
+  createConnectionClient,
+  deleteBrokerConnection,
+  fetchBrokerConnections,
+  formToCredentials,
+  hasStoredCredentials,
+  recordConnectionSync,
+  updateBrokerConnection,
+} from '@/lib/brokerConnections';
+import {
+  deleteBrokerMapping,
+  fetchBrokerMappings,
+  saveBrokerMapping,
+  syncBrokerMapping,
+} from '@/lib/brokerSync';
+import type {
+  BrokerAccountInfo,
+  BrokerAccountMapping,
+  BrokerConnection,
+  BrokerConnectionFormData,
+  BrokerEnvironment,
+  BrokerType,
+} from '@/types/bots';
+
+interface BrokerConnectProps {
+  onTradesImported?: (count: number) => void;
+}
+
+const EMPTY_FORM: BrokerConnectionFormData = {
+  broker: 'tradovate',
+  name: '',
+  environment: 'demo',
+  username: '',
+  password: '',
+};
+
+// Credentials kept in localStorage by earlier versions, moved into
+// broker_connections on first load
+const LEGACY_CREDENTIALS_KEY = 'tradovate_credentials';
+
+export function BrokerConnect({ onTradesImported }: BrokerConnectProps) {
+  const { user } = useAuth();
+  const { botAccounts, importBotTrades, bots } = useBots();
+  const repositories = useRepositories();
+  const { refresh: refreshLive } = useBrokerLive();
+
+  const [connections, setConnections] = useState<BrokerConnection[]>([]);
+  const [mappings, setMappings] = useState<BrokerAccountMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+
+  // Add / edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<BrokerConnection | null>(null);
+  const [form, setForm] = useState<BrokerConnectionFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formFiles, setFormFiles] = useState<string[]>([]);
+
+  // File-based brokers are synced from exports picked per connection
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importTarget, setImportTarget] = useState<BrokerConnection | null>(null);
+
+  const load = useCallback(async () => {
+    if (!repositories || !user) return;
+
+    try {
+      const [rows, mappingRows] = await Promise.all([
+        fetchBrokerConnections(repositories.brokerConnections),
+        fetchBrokerMappings(repositories.brokerMappings),
+      ]);
+      setConnections(rows);
+      setMappings(mappingRows);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load broker connections');
+    }
+  }, [repositories, user]);
+
+  // Move credentials left in localStorage into an encrypted connection row.
+  // A row created for them by an earlier version (with no credentials) is
+  // filled in rather than duplicated. Credentials that don't sign in are
+  // left where they are and the user is told.
+  const migrateLegacyCredentials = useCallback(async () => {
+    const stored = localStorage.getItem(LEGACY_CREDENTIALS_KEY);
+    if (!stored || !supabase || !repositories || !user) return;
+
+    try {
+      const legacy: TradovateCredentials = JSON.parse(stored);
+      const formData: BrokerConnectionFormData = {
+        broker: 'tradovate',
+        name: legacy.name || legacy.username,
+        environment: legacy.environment,
+        username: legacy.username,
+        password: legacy.password,
+        cid: legacy.cid,
+        sec: legacy.sec,
+      };
+      const result = await testBrokerConnection({ ...legacy, broker: 'tradovate' });
+      if (!result.success) {
+        setError(`Your saved Tradovate login (${formData.name}) could not be moved to a broker connection: ${result.error}`);
+        return;
+      }
+      const accounts = result.accounts;
+
+      const existing = (await fetchBrokerConnections(repositories.brokerConnections)).find(c =>
+        c.broker === 'tradovate' && c.username === legacy.username && c.environment === legacy.environment
+      );
+      if (existing) {
+        await updateBrokerConnection(repositories.brokerConnections, supabase, existing.id, formData, accounts);
+      } else {
+        await createBrokerConnection(repositories.brokerConnections, supabase, user.id, formData, accounts || []);
+      }
+      localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+    } catch (e) {
+      console.error('Failed to migrate stored Tradovate credentials', e);
+      setError(`Your saved Tradovate login could not be moved to a broker connection: ${e instanceof Error ? e.message : 'unknown error'}`);
+    }
+  }, [repositories, user]);
+
+  useEffect(() => {
+    setLoading(true);
+    migrateLegacyCredentials()
+      .then(load)
+      .finally(() => setLoading(false));
+  }, [migrateLegacyCredentials, load]);
+
+  const brokerInfo = BROKERS[form.broker];
+
+  // A new login needs its password; so does pointing a connection at a different one
+  const needsPassword = !!brokerInfo.passwordLabel &&
+    (!editing || form.username !== editing.username || form.environment !== editing.environment);
+
+  const setConnectionBusy = (id: string, value: boolean) =>
+    setBusy(prev => ({ ...prev, [id]: value }));
+
+  const openDialog = (connection?: BrokerConnection) => {
+    setEditing(connection ?? null);
+    setForm(connection
+      ? { broker: connection.broker, name: connection.name, environment: connection.environment, username: connection.username, password: '' }
+      : EMPTY_FORM);
+    setFormFiles([]);
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const readFiles = (list: FileList | null) => Promise.all(Array.from(list || []).map(readFileAsText));
+
+  // Verify the login with the broker (or read the exports given), then
+  // store it with its account list
+  const handleSave = async () => {
+    if (!supabase || !repositories || !user) return;
+
+    setIsSaving(true);
+    setFormError(null);
+
+    try {
+      let accounts: BrokerAccountInfo[] | undefined;
+      if (brokerInfo.fileImport ? formFiles.length > 0 : !!form.password) {
+        const result = await testBrokerConnection(formToCredentials(form), formFiles);
+        if (!result.success) throw new Error(result.error || 'Connection failed');
+        accounts = result.accounts || [];
+      }
+
+      if (editing) {
+        await updateBrokerConnection(repositories.brokerConnections, supabase, editing.id, form, accounts);
+      } else {
+        await createBrokerConnection(repositories.brokerConnections, supabase, user.id, form, accounts || []);
+      }
+
+      setDialogOpen(false);
+      await load();
+      refreshLive();
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : 'Failed to save connection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (connection: BrokerConnection) => {
+    if (!repositories || !confirm(`Remove "${connection.name}"? Its account links and sync progress are removed too.`)) return;
+
+    try {
+      await deleteBrokerConnection(repositories.brokerConnections, connection.id);
+      setConnections(prev => prev.filter(c => c.id !== connection.id));
+      setMappings(prev => prev.filter(m => m.broker_connection_id !== connection.id));
+      refreshLive();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to remove connection');
+    }
+  };
+
+  // Refresh the cached broker account list
+  const handleRefreshAccounts = async (connection: BrokerConnection) => {
+    if (!supabase || !repositories) return;
+
+    setConnectionBusy(connection.id, true);
+    try {
+      const result = await testBrokerClient(createConnectionClient(supabase, connection));
+      if (!result.success) throw new Error(result.error || 'Connection failed');
+      const updated = await updateBrokerConnection(repositories.brokerConnections, supabase, connection.id, {}, result.accounts || []);
+      setConnections(prev => prev.map(c => c.id === updated.id ? updated : c));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Connection failed';
+      await recordConnectionSync(repositories.brokerConnections, connection.id, message);
+      setConnections(prev => prev.map(c => c.id === connection.id ? { ...c, last_error: message } : c));
+    } finally {
+      setConnectionBusy(connection.id, false);
+    }
+  };
+
+  // Save account mapping
+  const handleMappingChange = async (connection: BrokerConnection, account: BrokerAccountInfo, botAccountId: string) => {
+    if (!repositories) return;
+
+    const existing = mappings.find(m => m.broker_connection_id === connection.id && m.broker_account_id === account.id);
+    const others = (m: BrokerAccountMapping) =>
+      !(m.broker_connection_id === connection.id && m.broker_account_id === account.id);
+
+    try {
+      if (botAccountId === 'none') {
+        if (existing) await deleteBrokerMapping(repositories.brokerMappings, existing.id);
+        setMappings(prev => prev.filter(others));
+        refreshLive();
+        return;
+      }
+
+      const saved = await saveBrokerMapping(repositories.brokerMappings, {
+        broker_connection_id: connection.id,
+        bot_account_id: botAccountId,
+        broker_account_id: account.id,
+        broker_account_name: account.name,
+      }, existing);
+      setMappings(prev => [...prev.filter(others), saved]);
+      refreshLive();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save mapping');
+    }
+  };
+
+  // Sync trades from the broker. Each mapping only imports fills after its
+  // own cursor, so repeated syncs never duplicate trades. File-based
+  // brokers read the exports given and pick up any new accounts in them.
+  const handleSync = async (connection: BrokerConnection, files?: string[]) => {
+    if (!supabase || !repositories) return;
+
+    setConnectionBusy(connection.id, true);
+    let connectionError: string | null = null;
+    let totalImported = 0;
+
+    try {
+      const client = createConnectionClient(supabase, connection, files);
+      await client.authenticate();
+
+      if (BROKERS[connection.broker].fileImport) {
+        const known = new Set((connection.broker_accounts || []).map(a => a.id));
+        const added = (await client.getAccounts()).filter(a => !known.has(a.id));
+        if (added.length > 0) {
+          await updateBrokerConnection(repositories.brokerConnections, supabase, connection.id, {}, [...(connection.broker_accounts || []), ...added]);
+        }
+      }
+
+      const failed: string[] = [];
+      for (const mapping of mappings.filter(m => m.broker_connection_id === connection.id)) {
+        const botAccount = botAccounts.find(a => a.id === mapping.bot_account_id);
+        const bot = botAccount && bots.find(b => b.id === botAccount.bot_id);
+        if (!bot) continue;
+
+        const result = await syncBrokerMapping(repositories, client, mapping, bot.id, importBotTrades);
+        totalImported += result.imported;
+        const problem = result.error || result.warning;
+        if (problem) failed.push(`${mapping.broker_account_name}: ${problem}`);
+      }
+      if (failed.length > 0) connectionError = `Sync failed for ${failed.join('; ')}`;
+    } catch (e) {
+      connectionError = e instanceof Error ? e.message : 'Sync failed';
+    }
+
+    await recordConnectionSync(repositories.brokerConnections, connection.id, connectionError);
+    await load();
+    setConnectionBusy(connection.id, false);
+
+    if (onTradesImported) {
+      onTradesImported(totalImported);
+    }
+  };
+
+  const handleImportFiles = async (list: FileList | null) => {
+    const connection = importTarget;
+    setImportTarget(null);
+    if (!connection || !list || list.length === 0) return;
+
+    try {
+      await handleSync(connection, await readFiles(list));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read export files');
+    }
+  };
+
+  const chooseImportFiles = (connection: BrokerConnection) => {
+    setImportTarget(connection);
+    fileInputRef.current?.click();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Link2 className="h-4 w-4" />
+            Broker Connections
+          </CardTitle>
+          <CardDescription>
+            Connect your Tradovate, TradeStation or NinjaTrader logins to import trades. Add one per prop firm and environment.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Connection
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          multiple
+          className="hidden"
+          onChange={e => {
+            handleImportFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+
+        {/* Error Display */}
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 p-2 rounded flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading connections...
+          </div>
+        ) : connections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No connections yet.</p>
+        ) : (
+          connections.map(connection => {
+            const connectionMappings = mappings.filter(m => m.broker_connection_id === connection.id);
+            const isBusy = !!busy[connection.id];
+            const info = BROKERS[connection.broker];
+            const canSync = hasStoredCredentials(connection);
+
+            return (
+              <div key={connection.id} className="rounded-lg border border-border/60 p-3 space-y-3">
+                {/* Connection Status */}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {connection.last_error || !canSync ? (
+                      <AlertCircle className={cn('h-4 w-4', connection.last_error ? 'text-destructive' : 'text-warning')} />
+                    ) : (
+                      <CheckCircle2 className="h-4 w-4 text-success" />
+                    )}
+                    <span className="text-sm font-medium truncate">{connection.name}</span>
+                    <Badge variant="outline" className="text-xs">{info.label}</Badge>
+                    {info.environments && (
+                      <Badge variant={connection.environment === 'live' ? 'default' : 'secondary'} className="text-xs">
+                        {connection.environment}
+                      </Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground truncate">{connection.username}</span>
+                  </div>
+
+                  <div className="flex gap-1">
+                    {info.fileImport ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => chooseImportFiles(connection)}
+                        disabled={isBusy || !canSync}
+                        title="Executions, Accounts or Positions grid exports"
+                      >
+                        {isBusy ? (
+                          <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                        ) : (
+                          <Upload className="h-4 w-4 mr-1" />
+                        )}
+                        Import Exports
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSync(connection)}
+                        disabled={isBusy || !canSync || connectionMappings.length === 0}
+                      >
+                        {isBusy ? (
+                          <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                        )}
+                        Sync Trades
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(connection)} title="Edit connection">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(connection)} title="Remove connection">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {!canSync && (
+                  <p className="text-xs text-warning">Re-enter the password to store it encrypted before syncing.</p>
+                )}
+                {connection.last_error && (
+                  <p className="text-xs text-destructive">{connection.last_error}</p>
+                )}
+
+                {/* Account Mappings */}
+                {(connection.broker_accounts || []).length > 0 ? (
+                  <div className="space-y-2">
+                    {connection.broker_accounts!.map(account => {
+                      const mapping = connectionMappings.find(m => m.broker_account_id === account.id);
+                      return (
+                        <div
+                          key={account.id}
+                          className="flex items-center gap-3 p-2 rounded bg-muted/30"
+                        >
+                          <div className="flex-1">
+                            <p className="text-sm font-medium">{account.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {account.accountType} - ID: {account.id}
+                            </p>
+                            {mapping?.last_error ? (
+                              <p className="text-xs text-destructive">Sync failed: {mapping.last_error}</p>
+                            ) : mapping?.last_sync_at ? (
+                              <p className="text-xs text-muted-foreground">
+                                Synced {new Date(mapping.last_sync_at).toLocaleString()}
+                                {mapping.last_fill_id && ` - through fill ${mapping.last_fill_id}`}
+                              </p>
+                            ) : null}
+                          </div>
+                          <Select
+                            value={mapping?.bot_account_id || 'none'}
+                            onValueChange={v => handleMappingChange(connection, account, v)}
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue placeholder="Select bot account..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Not mapped</SelectItem>
+                              {botAccounts.map(ba => (
+                                <SelectItem key={ba.id} value={ba.id}>
+                                  {ba.account_name} ({ba.prop_firm})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {info.fileImport
+                      ? 'Import an Executions or Accounts export to list its accounts.'
+                      : `No ${info.label} accounts found for this login.`}
+                  </p>
+                )}
+
+                <div className="flex items-center justify-between">
+                  {/* Last Sync Info */}
+                  <p className="text-xs text-muted-foreground">
+                    {connection.last_sync_at
+                      ? `Last synced: ${new Date(connection.last_sync_at).toLocaleString()}`
+                      : 'Never synced'}
+                  </p>
+                  {!info.fileImport && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => handleRefreshAccounts(connection)}
+                      disabled={isBusy || !canSync}
+                    >
+                      Refresh accounts
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Connection' : `Connect ${brokerInfo.label}`}</DialogTitle>
+            <DialogDescription>
+              {brokerInfo.fileImport
+                ? 'Accounts are read from the exports you add; trades are imported from them later.'
+                : `Credentials are verified with ${brokerInfo.label}, then stored encrypted.`}
+              {brokerInfo.passwordLabel && !needsPassword &&
+                ` Leave the ${brokerInfo.passwordLabel.toLowerCase()} empty to keep the stored one.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Broker</Label>
+              <Select
+                value={form.broker}
+                onValueChange={(v: BrokerType) => setForm(f => ({ ...f, broker: v }))}
+                disabled={!!editing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BROKERS) as BrokerType[]).map(b => (
+                    <SelectItem key={b} value={b}>{BROKERS[b].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Connection Name</Label>
+              <Input
+                placeholder="e.g., Apex Account 1"
+                value={form.name}
+                onChange={e => setForm(f => ({ ...f, name: e.target.value }))}
+              />
+            </div>
+
+            {brokerInfo.environments && (
+              <div className="space-y-2">
+                <Label>Environment</Label>
+                <Select
+                  value={form.environment}
+                  onValueChange={(v: BrokerEnvironment) => setForm(f => ({ ...f, environment: v }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="demo">Demo</SelectItem>
+                    <SelectItem value="live">Live</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>{brokerInfo.usernameLabel}</Label>
+              <Input
+                placeholder={`${brokerInfo.label} ${brokerInfo.usernameLabel.toLowerCase()}`}
+                value={form.username}
+                onChange={e => setForm(f => ({ ...f, username: e.target.value }))}
+              />
+            </div>
+
+            {brokerInfo.passwordLabel && (
+              <div className="space-y-2">
+                <Label>{brokerInfo.passwordLabel}</Label>
+                <Input
+                  type="password"
+                  placeholder={needsPassword ? `${brokerInfo.label} ${brokerInfo.passwordLabel.toLowerCase()}` : 'Unchanged'}
+                  value={form.password}
+                  onChange={e => setForm(f => ({ ...f, password: e.target.value }))}
+                />
+              </div>
+            )}
+
+            {brokerInfo.secretLabel && (
+              <div className="space-y-2">
+                <Label>{brokerInfo.secretLabel}</Label>
+                <Input
+                  type="password"
+                  placeholder={needsPassword ? 'Optional' : 'Unchanged'}
+                  value={form.sec || ''}
+                  onChange={e => setForm(f => ({ ...f, sec: e.target.value || undefined }))}
+                />
+              </div>
+            )}
+
+            {brokerInfo.fileImport && (
+              <div className="space-y-2">
+                <Label>Exports</Label>
+                <Input
+                  type="file"
+                  accept=".csv,text/csv"
+                  multiple
+                  onChange={async e => setFormFiles(await readFiles(e.target.files))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional: Executions or Accounts grid exports to list the accounts now.
+                </p>
+              </div>
+            )}
+
+            {formError && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                {formError}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !form.username || (needsPassword && !form.password)}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              {editing ? 'Save' : 'Connect'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default BrokerConnect;
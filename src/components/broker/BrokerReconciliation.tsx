@@ -0,0 +1,239 @@
+/**
+ * BrokerReconciliation - Check linked accounts against their broker balance and trades
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Scale, AlertCircle, CheckCircle2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/context/AuthContext';
+import { useBots } from '@/context/BotContext';
+import { useRepositories } from '@/context/RepositoryContext';
+import { BROKERS } from '@/lib/brokerClient';
+import { createConnectionClient, fetchBrokerConnections, hasStoredCredentials } from '@/lib/brokerConnections';
+import { fetchBrokerMappings } from '@/lib/brokerSync';
+import { fetchReconciliation, hasDrift, type Reconciliation } from '@/lib/reconciliation';
+import type { BrokerAccountMapping, BrokerConnection } from '@/types/bots';
+
+const formatMoney = (val: number) =>
+  `${val < 0 ? '-' : ''}$${Math.abs(val).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDrift = (val: number) => `${val > 0 ? '+' : ''}${formatMoney(val)}`;
+
+export function BrokerReconciliation() {
+  const { user } = useAuth();
+  const { botAccounts, adjustBotAccountBalance } = useBots();
+  const repositories = useRepositories();
+
+  const [connections, setConnections] = useState<BrokerConnection[]>([]);
+  const [mappings, setMappings] = useState<BrokerAccountMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [results, setResults] = useState<Record<string, Reconciliation>>({});   // by mapping id
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+
+  const load = useCallback(async () => {
+    if (!repositories || !user) return;
+
+    try {
+      const [rows, mappingRows] = await Promise.all([
+        fetchBrokerConnections(repositories.brokerConnections),
+        fetchBrokerMappings(repositories.brokerMappings),
+      ]);
+      setConnections(rows);
+      setMappings(mappingRows);
+    } catch (e) {
+      console.error('Failed to load broker mappings', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [repositories, user]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const reconcile = async (mapping: BrokerAccountMapping) => {
+    const connection = connections.find(c => c.id === mapping.broker_connection_id);
+    if (!supabase || !repositories || !connection) return;
+
+    setBusy(prev => ({ ...prev, [mapping.id]: true }));
+    setErrors(prev => ({ ...prev, [mapping.id]: '' }));
+    try {
+      const client = createConnectionClient(supabase, connection);
+      const result = await fetchReconciliation(repositories, client, mapping);
+      setResults(prev => ({ ...prev, [mapping.id]: result }));
+    } catch (e) {
+      setErrors(prev => ({ ...prev, [mapping.id]: e instanceof Error ? e.message : 'Reconciliation failed' }));
+    } finally {
+      setBusy(prev => ({ ...prev, [mapping.id]: false }));
+    }
+  };
+
+  // Move the stored balance to the broker's and record the adjustment
+  const handleAdjust = async (mapping: BrokerAccountMapping, result: Reconciliation) => {
+    const account = botAccounts.find(a => a.id === mapping.bot_account_id);
+    if (!account) return;
+    if (!confirm(
+      `Set ${account.account_name} balance to ${formatMoney(result.brokerBalance)} ` +
+      `(${formatDrift(result.balanceDrift)})? The adjustment is recorded on the account.`
+    )) return;
+
+    try {
+      await adjustBotAccountBalance(
+        account.id,
+        result.brokerBalance,
+        `Matched ${mapping.broker_account_name} cash balance`,
+        'reconciliation'
+      );
+      await reconcile(mapping);
+    } catch (e) {
+      setErrors(prev => ({ ...prev, [mapping.id]: e instanceof Error ? e.message : 'Adjustment failed' }));
+    }
+  };
+
+  // File-based brokers only know what their last export held
+  const reconcilable = mappings.filter(m => {
+    const connection = connections.find(c => c.id === m.broker_connection_id);
+    return connection && !BROKERS[connection.broker].fileImport && hasStoredCredentials(connection);
+  });
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1.5">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Broker Reconciliation
+        </CardTitle>
+        <CardDescription>
+          Compare each linked account's balance and trades with what its broker reports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading accounts...
+          </div>
+        ) : reconcilable.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Link a broker account to a bot account to reconcile it.</p>
+        ) : (
+          reconcilable.map(mapping => {
+            const account = botAccounts.find(a => a.id === mapping.bot_account_id);
+            const result = results[mapping.id];
+            const error = errors[mapping.id];
+            const inSync = result && !hasDrift(result.balanceDrift) && !hasDrift(result.tradeDrift) && result.days.length === 0;
+
+            return (
+              <div key={mapping.id} className="rounded-lg border border-border/60 p-3 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {result && (inSync ? (
+                      <CheckCircle2 className="h-4 w-4 text-success" />
+                    ) : (
+                      <AlertCircle className="h-4 w-4 text-warning" />
+                    ))}
+                    <span className="text-sm font-medium truncate">{account?.account_name || 'Unknown account'}</span>
+                    <span className="text-xs text-muted-foreground truncate">{mapping.broker_account_name}</span>
+                  </div>
+                  <div className="flex gap-1">
+                    {result && hasDrift(result.balanceDrift) && (
+                      <Button variant="outline" size="sm" onClick={() => handleAdjust(mapping, result)} disabled={busy[mapping.id]}>
+                        Match broker balance
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => reconcile(mapping)} disabled={busy[mapping.id]}>
+                      {busy[mapping.id] ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                      )}
+                      Reconcile
+                    </Button>
+                  </div>
+                </div>
+
+                {error && <p className="text-xs text-destructive">{error}</p>}
+
+                {result && (
+                  <>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                      <div>
+                        <p className="text-muted-foreground">Broker balance</p>
+                        <p className="font-medium tabular-nums">{formatMoney(result.brokerBalance)}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Stored balance</p>
+                        <p className="font-medium tabular-nums">{formatMoney(result.ledgerBalance)}</p>
+                        {hasDrift(result.balanceDrift) && (
+                          <p className="text-warning tabular-nums">{formatDrift(result.balanceDrift)} at broker</p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">From trades</p>
+                        <p className="font-medium tabular-nums">{formatMoney(result.tradeBalance)}</p>
+                        {hasDrift(result.tradeDrift) && (
+                          <p className="text-warning tabular-nums">{formatDrift(-result.tradeDrift)} vs stored</p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Realized today</p>
+                        <p className="font-medium tabular-nums">
+                          {formatMoney(result.brokerRealizedToday)} / {formatMoney(result.ledgerRealizedToday)}
+                        </p>
+                        {hasDrift(result.realizedDrift) && (
+                          <p className="text-warning tabular-nums">{formatDrift(result.realizedDrift)} at broker</p>
+                        )}
+                      </div>
+                    </div>
+
+                    {result.days.length > 0 ? (
+                      <div className="space-y-1">
+                        <p className="text-xs text-muted-foreground">
+                          Days that don't match{result.comparedFrom && ` (since ${result.comparedFrom})`}
+                        </p>
+                        {result.days.map(day => (
+                          <div key={day.day} className="flex flex-wrap items-center justify-between gap-2 p-2 rounded bg-muted/30 text-xs">
+                            <span className="font-medium">{day.day}</span>
+                            <span className="text-muted-foreground tabular-nums">
+                              Broker {day.brokerCount} · {formatMoney(day.brokerPnl)} / Ledger {day.ledgerCount} · {formatMoney(day.ledgerPnl)}
+                            </span>
+                            <div className="flex gap-1">
+                              {day.missing.length > 0 && (
+                                <Badge variant="destructive" className="text-[10px]">{day.missing.length} missing</Badge>
+                              )}
+                              {day.duplicates.length > 0 && (
+                                <Badge variant="destructive" className="text-[10px]">{day.duplicates.length} duplicated</Badge>
+                              )}
+                              {day.unmatched.length > 0 && (
+                                <Badge variant="secondary" className="text-[10px]">{day.unmatched.length} not at broker</Badge>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className={cn('text-xs', inSync ? 'text-success' : 'text-muted-foreground')}>
+                        Every broker round trip{result.comparedFrom && ` since ${result.comparedFrom}`} is in the ledger once.
+                      </p>
+                    )}
+                  </>
+                )}
+
+                {account?.balance_adjustments && account.balance_adjustments.length > 0 && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Last adjustment: {formatDrift(account.balance_adjustments[account.balance_adjustments.length - 1].amount)} on{' '}
+                    {new Date(account.balance_adjustments[account.balance_adjustments.length - 1].at).toLocaleString()}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { AlertCircle, Radio } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useBrokerLive } from '@/context/BrokerLiveContext';
+
+interface LivePositionsProps {
+  accountId: string;              // bot account id
+  className?: string;
+}
+
+const formatPnl = (val: number) =>
+  `${val >= 0 ? '+' : '-'}$${Math.abs(val).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/**
+ * Open broker positions and unrealized P&L for a mapped account,
+ * kept current by the live feed, and the last failed sync of its fills.
+ * Renders nothing without live data.
+ */
+export function LivePositions({ accountId, className }: LivePositionsProps) {
+  const { getLiveAccount, syncErrors } = useBrokerLive();
+  const live = getLiveAccount(accountId);
+  if (!live) return null;
+  const syncError = syncErrors[accountId];
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex justify-between text-[10px]">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Radio className="h-3 w-3 text-success" />
+          Live · {live.positions.length === 0 ? 'Flat' : `${live.positions.length} open`}
+        </span>
+        {live.positions.length > 0 && (
+          <span className={cn('font-semibold tabular-nums', live.unrealizedPnl >= 0 ? 'text-success' : 'text-destructive')}>
+            {formatPnl(live.unrealizedPnl)} unrealized
+          </span>
+        )}
+      </div>
+      {live.positions.map(position => (
+        <div key={position.contractId} className="flex justify-between text-[10px] tabular-nums">
+          <span>
+            <span className={position.netPos > 0 ? 'text-success' : 'text-destructive'}>
+              {position.netPos > 0 ? 'Long' : 'Short'}
+            </span>{' '}
+            {Math.abs(position.netPos)} {position.instrument} @ {position.netPrice.toLocaleString()}
+            {position.lastPrice !== undefined && (
+              <span className="text-muted-foreground"> · last {position.lastPrice.toLocaleString()}</span>
+            )}
+          </span>
+          {position.unrealizedPnl !== undefined && (
+            <span className={position.unrealizedPnl >= 0 ? 'text-success' : 'text-destructive'}>
+              {formatPnl(position.unrealizedPnl)}
+            </span>
+          )}
+        </div>
+      ))}
+      {syncError && (
+        <div className="flex items-start gap-1 text-[10px] text-destructive">
+          <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+          Sync failed: {syncError}
+        </div>
+      )}
+    </div>
+  );
+}
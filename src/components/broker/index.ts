@@ -1 +1,3 @@
-export { TradovateConnect } from './TradovateConnect';
+export { BrokerConnect } from './BrokerConnect';
+export { LivePositions } from './LivePositions';
+export { BrokerReconciliation } from './BrokerReconciliation';
@@ -0,0 +1,137 @@
+/**
+ * ImportHistory - Past CSV imports and broker syncs, each of which can be rolled back
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { FileText, Loader2, RefreshCw, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/context/AuthContext';
+import { useRepositories } from '@/context/RepositoryContext';
+import { fetchImportBatches, type ImportBatch, type ImportTarget } from '@/lib/importBatches';
+
+interface ImportHistoryProps {
+  target: ImportTarget;
+  onRollback: (batchId: string) => Promise<void>;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export function ImportHistory({ target, onRollback }: ImportHistoryProps) {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    if (!repositories || !user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setBatches(await fetchImportBatches(repositories.importBatches, target));
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load import history');
+    } finally {
+      setLoading(false);
+    }
+  }, [repositories, user, target]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!confirm(
+      `Delete the ${plural(batch.imported_count, 'trade')} imported from ${batch.source_name} ` +
+      `on ${format(new Date(batch.created_at), 'MMM d, yyyy HH:mm')}?`
+    )) return;
+
+    setBusy(batch.id);
+    setError('');
+    try {
+      await onRollback(batch.id);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Rollback failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Rolling back an import deletes every trade it added.
+        </p>
+        <Button variant="ghost" size="icon" onClick={load} title="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {batches.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No imports yet</p>
+      ) : (
+        <div className="max-h-96 space-y-2 overflow-auto">
+          {batches.map(batch => (
+            <div key={batch.id} className="flex items-center justify-between gap-3 rounded border p-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate text-sm font-medium">{batch.source_name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {batch.source === 'broker' ? 'Broker sync' : batch.format || 'CSV'}
+                  </Badge>
+                  {batch.rolled_back_at && (
+                    <Badge variant="secondary" className="text-xs">Rolled back</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(batch.created_at), 'MMM d, yyyy HH:mm')}
+                  {' · '}{plural(batch.row_count, 'row')}
+                  {' · '}{batch.imported_count} imported
+                  {batch.skipped_count > 0 && ` · ${batch.skipped_count} unreadable`}
+                  {batch.duplicate_count > 0 && ` · ${plural(batch.duplicate_count, 'duplicate')} left out`}
+                </p>
+              </div>
+              {!batch.rolled_back_at && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRollback(batch)}
+                  disabled={busy !== null}
+                >
+                  {busy === batch.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Roll back
+                    </>
+                  )}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,596 @@
+/**
+ * ImportWizard - Step through reading a trade CSV: upload, preview, map
+ * columns, set the time format and P&L sign, then validate, check for
+ * trades already recorded and import
+ */
+
+import { useState, useMemo, type ReactNode } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle2, ChevronLeft, ChevronRight, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { readFileAsText } from '@/lib/backtestImport';
+import {
+  AUTO_PRESET,
+  FILL_FIELDS,
+  IMPORT_DATE_FORMATS,
+  IMPORT_PRESETS,
+  IMPORT_TIME_ZONES,
+  PERFORMANCE_FIELDS,
+  detectPreset,
+  guessPreset,
+  importTradesCsv,
+  mappedColumns,
+  mappingProblems,
+  parseImportCsv,
+  parseImportTime,
+  resolvePreset,
+  type ImportPreset,
+  type ImportResult,
+  type ImportedTrade,
+} from '@/lib/csvImport';
+import { deleteImportMapping, getSavedMappings, saveImportMapping } from '@/lib/importMappings';
+import type { ImportSourceInfo } from '@/lib/importBatches';
+
+const STEPS = ['Upload', 'Preview', 'Columns', 'Format', 'Validate'];
+
+// Select values for an unmapped column and the common date layouts
+const NO_COLUMN = 'none';
+const AUTO_DATE_FORMAT = 'auto';
+
+const PREVIEW_ROWS = 10;
+
+interface ImportWizardProps {
+  children?: ReactNode;         // where the trades go (account, setup...), shown on the first step
+  findDuplicates?: (trades: ImportedTrade[]) => number[];  // indexes of trades already recorded
+  onImport: (trades: ImportedTrade[], source: ImportSourceInfo) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatMoney = (val: number) => `${val >= 0 ? '+' : '-'}$${Math.abs(val).toFixed(2)}`;
+
+export function ImportWizard({ children, findDuplicates, onImport, onClose }: ImportWizardProps) {
+  const [step, setStep] = useState(0);
+  const [csvData, setCsvData] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [presetId, setPresetId] = useState(AUTO_PRESET);
+  const [mapping, setMapping] = useState<ImportPreset | null>(null);
+  const [savedMappings, setSavedMappings] = useState(getSavedMappings);
+  const [mappingName, setMappingName] = useState('');
+  const [notice, setNotice] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState('');
+
+  const parsed = useMemo(() => {
+    if (!csvData.trim()) return null;
+    const { headers, rows } = parseImportCsv(csvData);
+    return headers.length > 0 && rows.length > 0 ? { headers, rows } : null;
+  }, [csvData]);
+
+  const savedPresets = useMemo(() => savedMappings.map(m => m.preset), [savedMappings]);
+
+  // Start from the picked (or detected) preset, with its columns as this file names them
+  const startMapping = () => {
+    if (!parsed) return;
+    const base = presetId === AUTO_PRESET
+      ? detectPreset(parsed.headers, savedPresets) || guessPreset(parsed.headers)
+      : [...savedPresets, ...IMPORT_PRESETS].find(p => p.id === presetId) || guessPreset(parsed.headers);
+    setMapping(resolvePreset(base, parsed.headers));
+    setMappingName(base.platform === 'Saved mapping' ? base.label : '');
+  };
+
+  // Any edit makes the mapping the user's own
+  const editMapping = (changes: Record<string, unknown>) =>
+    setMapping(prev => prev && ({ ...prev, ...changes, id: 'custom', label: 'Custom mapping', platform: 'Custom' } as ImportPreset));
+
+  // Columns of a resolved mapping are single headers
+  const columns = useMemo(
+    () => (mapping ? mappedColumns(mapping) : {}) as Record<string, string | undefined>,
+    [mapping]
+  );
+
+  const setColumn = (key: string, header: string) => {
+    const next = { ...columns };
+    if (header === NO_COLUMN) delete next[key];
+    else next[key] = header;
+    editMapping({ columns: next });
+  };
+
+  const problems = mapping ? mappingProblems(mapping) : [];
+
+  const { result, error } = useMemo((): { result: ImportResult | null; error: string } => {
+    if (!mapping || step < 4) return { result: null, error: '' };
+    try {
+      return { result: importTradesCsv(csvData, mapping), error: '' };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : 'Could not read CSV' };
+    }
+  }, [csvData, mapping, step]);
+
+  // First time cell read with the current format and zone, to check them against
+  const sampleTime = useMemo(() => {
+    if (!mapping || !parsed) return null;
+    const header = columns.time || columns.entryTime || columns.exitTime || columns.buyTime;
+    const value = header && parsed.rows.find(r => r[header]?.trim())?.[header];
+    if (!value) return null;
+    try {
+      const iso = parseImportTime(value, mapping.timeZone, mapping.dateFormats);
+      return { value, read: format(new Date(iso), 'MMM d, yyyy HH:mm:ss'), error: '' };
+    } catch (e) {
+      return { value, read: '', error: e instanceof Error ? e.message : 'Unreadable' };
+    }
+  }, [mapping, parsed, columns]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsvData(await readFileAsText(file));
+  };
+
+  const handleSaveMapping = () => {
+    if (!mapping) return;
+    try {
+      const saved = saveImportMapping(mappingName, mapping);
+      setSavedMappings(getSavedMappings());
+      setMapping(saved.preset);
+      setNotice(`Saved as "${saved.name}"`);
+    } catch (e) {
+      setNotice(e instanceof Error ? e.message : 'Failed to save mapping');
+    }
+  };
+
+  const handleDeleteMapping = (name: string) => {
+    if (!confirm(`Delete the saved mapping "${name}"?`)) return;
+    deleteImportMapping(name);
+    setSavedMappings(getSavedMappings());
+    setPresetId(AUTO_PRESET);
+  };
+
+  const canContinue =
+    step === 0 ? !!parsed :
+    step === 2 ? problems.length === 0 :
+    true;
+
+  const next = () => {
+    if (step === 0) startMapping();
+    setNotice('');
+    setStep(s => Math.min(s + 1, STEPS.length - 1));
+  };
+
+  const selectedSaved = savedMappings.find(m => m.preset.id === presetId);
+  const fields = mapping?.report === 'fills' ? FILL_FIELDS : PERFORMANCE_FIELDS;
+
+  const duplicates = useMemo(
+    () => new Set(result && findDuplicates ? findDuplicates(result.trades) : []),
+    [result, findDuplicates]
+  );
+  const toImport = result
+    ? result.trades.filter((_, i) => !(skipDuplicates && duplicates.has(i)))
+    : [];
+  const totalPnl = toImport.reduce((sum, t) => sum + t.pnl, 0);
+
+  const handleImport = async () => {
+    if (!result || !parsed) return;
+    setImporting(true);
+    setImportError('');
+    try {
+      await onImport(toImport, {
+        source: 'csv',
+        source_name: fileName || 'Pasted data',
+        format: result.preset.label,
+        row_count: parsed.rows.length,
+        skipped_count: result.errors.length,
+        duplicate_count: result.trades.length - toImport.length,
+      });
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Steps */}
+      <div className="flex flex-wrap gap-1 text-xs">
+        {STEPS.map((label, i) => (
+          <span
+            key={label}
+            className={cn(
+              'px-2 py-1 rounded',
+              i === step ? 'bg-accent text-accent-foreground' : i < step ? 'bg-muted text-foreground' : 'text-muted-foreground'
+            )}
+          >
+            {i + 1}. {label}
+          </span>
+        ))}
+      </div>
+
+      {step === 0 && (
+        <div className="space-y-4">
+          {children}
+
+          <div className="space-y-1">
+            <Label>Upload CSV or Paste Data</Label>
+            <Input type="file" accept=".csv,.txt" onChange={handleFileUpload} />
+            <p className="text-xs text-muted-foreground">
+              Performance and orders exports from Tradovate, NinjaTrader, Rithmic R|Trader and TopstepX, or any
+              CSV you map yourself
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Or paste CSV data</Label>
+            <Textarea
+              rows={4}
+              placeholder="Paste CSV data here..."
+              value={csvData}
+              onChange={e => {
+                setCsvData(e.target.value);
+                setFileName('');
+              }}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Export Format</Label>
+            <div className="flex gap-2">
+              <Select value={presetId} onValueChange={setPresetId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_PRESET}>Auto-detect</SelectItem>
+                  {savedMappings.map(m => (
+                    <SelectItem key={m.preset.id} value={m.preset.id}>{m.name} (saved)</SelectItem>
+                  ))}
+                  {IMPORT_PRESETS.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedSaved && (
+                <Button variant="ghost" size="icon" onClick={() => handleDeleteMapping(selectedSaved.name)} title="Delete saved mapping">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {csvData.trim() && !parsed && (
+            <p className="text-sm text-destructive">CSV must have headers and at least one data row</p>
+          )}
+        </div>
+      )}
+
+      {step === 1 && parsed && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {fileName || 'Pasted data'}: {parsed.rows.length} rows, {parsed.headers.length} columns.{' '}
+            <span className="text-muted-foreground">Read as {mapping?.label}.</span>
+          </p>
+          <div className="max-h-64 overflow-auto rounded border text-xs">
+            <table className="w-full">
+              <thead className="sticky top-0 bg-background">
+                <tr className="text-muted-foreground">
+                  <th className="text-left px-2 py-1">Row</th>
+                  {parsed.headers.map(h => (
+                    <th key={h} className="text-left px-2 py-1 whitespace-nowrap">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {parsed.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i} className="border-t border-border/40">
+                    <td className="px-2 py-1 text-muted-foreground">{i + 2}</td>
+                    {parsed.headers.map(h => (
+                      <td key={h} className="px-2 py-1 whitespace-nowrap">{row[h]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {parsed.rows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-muted-foreground">... and {parsed.rows.length - PREVIEW_ROWS} more rows</p>
+          )}
+        </div>
+      )}
+
+      {step === 2 && mapping && parsed && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Report Type</Label>
+            <Select
+              value={mapping.report}
+              onValueChange={(v: ImportPreset['report']) => editMapping({ report: v, columns: {} })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="performance">One row per trade (performance)</SelectItem>
+                <SelectItem value="fills">One row per fill (orders / executions)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            {fields.map(field => {
+              const value = columns[field.key];
+              return (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select value={value || NO_COLUMN} onValueChange={v => setColumn(field.key, v)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                      {parsed.headers.filter(Boolean).map(h => (
+                        <SelectItem key={h} value={h}>{h}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+
+          {mapping.report === 'performance' && (
+            <p className="text-xs text-muted-foreground">
+              Map either a side column with entry and exit, or buy and sell legs (the earlier leg is the entry).
+            </p>
+          )}
+          {problems.map(p => (
+            <p key={p} className="text-xs text-destructive">{p}</p>
+          ))}
+        </div>
+      )}
+
+      {step === 3 && mapping && (
+        <div className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Date Format</Label>
+              <Select
+                value={mapping.dateFormats?.[0] ?? AUTO_DATE_FORMAT}
+                onValueChange={v => editMapping({ dateFormats: v === AUTO_DATE_FORMAT ? undefined : [v] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_DATE_FORMAT}>Try common formats</SelectItem>
+                  {[...new Set([...(mapping.dateFormats || []), ...IMPORT_DATE_FORMATS])].map(f => (
+                    <SelectItem key={f} value={f}>{f}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="h-8 text-xs font-mono"
+                placeholder="Or type a pattern, e.g. dd.MM.yyyy HH:mm"
+                onBlur={e => e.target.value.trim() && editMapping({ dateFormats: [e.target.value.trim()] })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Time Zone</Label>
+              <Select value={mapping.timeZone} onValueChange={v => editMapping({ timeZone: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_TIME_ZONES.map(z => (
+                    <SelectItem key={z.value} value={z.value}>{z.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Times with an offset in the file ignore this.</p>
+            </div>
+          </div>
+
+          {sampleTime && (
+            <p className={cn('text-xs', sampleTime.error ? 'text-destructive' : 'text-muted-foreground')}>
+              "{sampleTime.value}" reads as {sampleTime.error || `${sampleTime.read} (your time)`}
+            </p>
+          )}
+
+          {mapping.report === 'performance' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <Label>Losses are positive</Label>
+                  <p className="text-xs text-muted-foreground">Flip the P&L sign for exports that list losses as positive amounts.</p>
+                </div>
+                <Switch checked={!!mapping.invertPnl} onCheckedChange={v => editMapping({ invertPnl: v })} />
+              </div>
+              {columns.commission && (
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <Label>P&L is before commission</Label>
+                    <p className="text-xs text-muted-foreground">Subtract the commission column to get net P&L.</p>
+                  </div>
+                  <Switch
+                    checked={!!mapping.pnlIsGross}
+                    onCheckedChange={v => editMapping({ pnlIsGross: v })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {step === 4 && (
+        <div className="space-y-3">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {result && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {result.trades.length > 0 ? (
+                  <CheckCircle2 className="h-4 w-4 text-success" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                )}
+                <span>{toImport.length} trades to import</span>
+                <span className={cn('font-medium tabular-nums', totalPnl >= 0 ? 'text-success' : 'text-destructive')}>
+                  {formatMoney(totalPnl)}
+                </span>
+                {result.preset.report === 'fills' && (
+                  <span className="text-xs text-muted-foreground">(fills paired into round trips)</span>
+                )}
+              </div>
+
+              {duplicates.size > 0 && (
+                <div className="flex items-center justify-between gap-3 rounded border border-warning/40 p-2">
+                  <p className="text-xs text-warning">
+                    {duplicates.size} trade{duplicates.size === 1 ? ' looks' : 's look'} already recorded (same time,
+                    instrument, size and entry price).
+                  </p>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Label className="text-xs">Skip</Label>
+                    <Switch checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                  </div>
+                </div>
+              )}
+
+              {result.openContracts > 0 && (
+                <p className="text-xs text-warning">
+                  {result.openContracts} contract{result.openContracts === 1 ? '' : 's'} still open at the end of the
+                  export {result.openContracts === 1 ? 'is' : 'are'} not imported.
+                </p>
+              )}
+
+              {result.errors.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-destructive">
+                    {result.errors.length} row{result.errors.length === 1 ? '' : 's'} will be skipped:
+                  </p>
+                  <div className="max-h-32 overflow-auto rounded border text-xs">
+                    <table className="w-full">
+                      <tbody>
+                        {result.errors.map(e => (
+                          <tr key={e.row} className="border-t border-border/40 first:border-0">
+                            <td className="px-2 py-1 text-muted-foreground whitespace-nowrap">Row {e.row}</td>
+                            <td className="px-2 py-1">{e.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {result.trades.length > 0 && (
+                <div className="max-h-48 overflow-auto rounded border p-2 text-xs">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left">Date</th>
+                        <th className="text-left">Instrument</th>
+                        <th className="text-left">Side</th>
+                        <th className="text-right">Entry</th>
+                        <th className="text-right">Exit</th>
+                        <th className="text-right">Qty</th>
+                        <th className="text-right">P&L</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.trades.slice(0, PREVIEW_ROWS).map((t, i) => (
+                        <tr
+                          key={i}
+                          className={cn(duplicates.has(i) && 'text-muted-foreground', duplicates.has(i) && skipDuplicates && 'line-through')}
+                          title={duplicates.has(i) ? 'Already recorded' : undefined}
+                        >
+                          <td>{format(new Date(t.timestamp), 'MMM d HH:mm')}</td>
+                          <td>{t.instrument}</td>
+                          <td>{t.direction}</td>
+                          <td className="text-right tabular-nums">{t.entry_price ? t.entry_price.toLocaleString() : '-'}</td>
+                          <td className="text-right tabular-nums">{t.exit_price ? t.exit_price.toLocaleString() : '-'}</td>
+                          <td className="text-right">{t.contracts}</td>
+                          <td className={cn('text-right font-medium tabular-nums', t.pnl >= 0 ? 'text-success' : 'text-destructive')}>
+                            {formatMoney(t.pnl)}
+                          </td>
+                        </tr>
+                      ))}
+                      {result.trades.length > PREVIEW_ROWS && (
+                        <tr>
+                          <td colSpan={7} className="text-center text-muted-foreground">
+                            ... and {result.trades.length - PREVIEW_ROWS} more
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {mapping && (
+            <div className="space-y-1">
+              <Label>Save Mapping</Label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="e.g., My broker fills"
+                  value={mappingName}
+                  onChange={e => setMappingName(e.target.value)}
+                />
+                <Button variant="outline" onClick={handleSaveMapping} disabled={!mappingName.trim()}>
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+              {notice && <p className="text-xs text-muted-foreground">{notice}</p>}
+            </div>
+          )}
+
+          {importError && <p className="text-sm text-destructive">{importError}</p>}
+        </div>
+      )}
+
+      <div className="flex justify-between gap-3">
+        <Button type="button" variant="outline" onClick={step === 0 ? onClose : () => setStep(s => s - 1)}>
+          {step === 0 ? 'Cancel' : (
+            <>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back
+            </>
+          )}
+        </Button>
+        {step < STEPS.length - 1 ? (
+          <Button onClick={next} disabled={!canContinue}>
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleImport}
+            disabled={importing || toImport.length === 0}
+            className="bg-accent text-accent-foreground hover:bg-accent/90"
+          >
+            {importing ? 'Importing...' : `Import ${toImport.length} Trades`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
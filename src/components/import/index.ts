@@ -0,0 +1,2 @@
+export { ImportWizard } from './ImportWizard';
+export { ImportHistory } from './ImportHistory';
@@ -17,6 +17,7 @@ import {
   CalendarDays,
   Settings2,
   Loader2,
+  HardDrive,
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import {
@@ -65,7 +66,9 @@ const syncConfig: Record<SyncStatus, { icon: typeof Cloud; label: string; color:
   idle: { icon: Cloud, label: 'Cloud connected', color: 'text-sidebar-muted' },
   syncing: { icon: RefreshCw, label: 'Syncing...', color: 'text-sidebar-muted' },
   synced: { icon: CheckCircle2, label: 'Synced', color: 'text-success' },
+  pending: { icon: CloudOff, label: 'Saved on this device', color: 'text-warning' },
   error: { icon: AlertCircle, label: 'Sync error', color: 'text-destructive' },
+  disabled: { icon: HardDrive, label: 'Saved on this device', color: 'text-sidebar-muted' },
   not_configured: { icon: CloudOff, label: 'Not configured', color: 'text-sidebar-muted' },
   not_authenticated: { icon: CloudOff, label: 'Sign in to sync', color: 'text-sidebar-muted' },
 };
@@ -126,9 +129,19 @@ function ExternalLinkItem({ title, url }: { title: string; url: string }) {
 
 export function AppSidebar() {
   const location = useLocation();
-  const { syncStatus, refreshData: triggerSync } = useJournal();
+  const {
+    syncStatus, refreshData, pendingMutations, failedMutations, failedMutationError,
+    retryFailedMutations, discardFailedMutations,
+  } = useJournal();
   const sync = syncConfig[syncStatus];
   const SyncIcon = sync.icon;
+  const changes = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+  const syncLabel =
+    failedMutations > 0 ? `${changes(failedMutations)} failed` :
+    syncStatus === 'pending' ? `${changes(pendingMutations)} waiting` :
+    sync.label;
+  // Clicking retries rejected changes, or else refreshes
+  const triggerSync = failedMutations > 0 ? retryFailedMutations : refreshData;
 
   // ML Settings modal state
   const [showSettings, setShowSettings] = useState(false);
@@ -264,6 +277,7 @@ export function AppSidebar() {
         <div className="flex items-center justify-between">
           <button
             onClick={syncStatus !== 'disabled' ? triggerSync : undefined}
+            title={failedMutationError ? `Rejected: ${failedMutationError}. Click to retry.` : undefined}
             disabled={syncStatus === 'disabled' || syncStatus === 'syncing'}
             className={cn(
               "flex items-center gap-2 rounded-lg px-3 py-2 text-xs transition-colors",
@@ -273,8 +287,18 @@ export function AppSidebar() {
             )}
           >
             <SyncIcon className={cn("h-3.5 w-3.5", sync.color, syncStatus === 'syncing' && "animate-spin")} />
-            <span className={sync.color}>{sync.label}</span>
+            <span className={sync.color}>{syncLabel}</span>
           </button>
+          {failedMutations > 0 && (
+            <button
+              onClick={() => {
+                if (confirm(`Discard ${changes(failedMutations)} Supabase rejected? They'll be lost.`)) discardFailedMutations();
+              }}
+              className="rounded-lg px-2 py-2 text-xs text-sidebar-muted hover:bg-sidebar-accent"
+            >
+              Discard
+            </button>
+          )}
           <NavLink
             to="/settings"
             className="p-2 rounded-lg hover:bg-sidebar-accent transition-colors text-sidebar-muted"
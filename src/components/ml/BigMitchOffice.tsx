@@ -2,8 +2,9 @@ import { useRef, useState, useEffect, useMemo, useCallback } from "react";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { Text, Box, Plane, Html, RoundedBox } from "@react-three/drei";
 import * as THREE from "three";
-import { supabase } from "@/lib/supabase";
 import { useBots } from "@/context/BotContext";
+import { useRepositories } from "@/context/RepositoryContext";
+import type { MLSignal as MLSignalRow } from "@/types/bots";
 
 // =============================================================================
 // TYPES
@@ -2524,6 +2525,7 @@ function Controller({ locked, onEscape }: { locked?: boolean; onEscape?: () => v
 
 function BigMitchWorldInner() {
   const { botTrades, botAccounts } = useBots();
+  const repositories = useRepositories();
   const [currentRoom, setCurrentRoom] = useState<string | null>(null);
   const [isStarted, setIsStarted] = useState(false);
   const [mlSignals, setMlSignals] = useState<MLSignal[]>([]);
@@ -2653,38 +2655,34 @@ function BigMitchWorldInner() {
   }, [stats.totalPnl, stats.winRate, stats.profitFactor]);
 
   useEffect(() => {
+    if (!repositories) return;
     let mounted = true;
+    const toSignal = (d: MLSignalRow): MLSignal => ({
+      id: String(d.id), timestamp: d.timestamp, instrument: d.instrument || '', direction: d.direction || '',
+      ml_confidence: d.ml_confidence || 0, final_decision: d.final_decision || '', outcome: d.outcome ?? undefined
+    });
     const fetchSignals = async () => {
       try {
-        const { data } = await supabase.from('ml_signals').select('*').order('timestamp', { ascending: false }).limit(50);
-        if (data && mounted) {
-          setMlSignals(data.map(d => ({
-            id: d.id, timestamp: d.timestamp, instrument: d.instrument || '', direction: d.direction || '',
-            ml_confidence: d.ml_confidence || 0, final_decision: d.final_decision || '', outcome: d.outcome
-          })));
-        }
+        const data = await repositories.mlSignals.list({ order: { column: 'timestamp', ascending: false }, limit: 50 });
+        if (mounted) setMlSignals(data.map(toSignal));
       } catch (e) { /* ignore */ }
     };
     fetchSignals();
 
-    const channel = supabase.channel('ml_signals_live')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'ml_signals' }, (payload) => {
+    const unsubscribe = repositories.mlSignals.subscribe(change => {
+      if (!mounted || !change.new) return;
+      const n = change.new;
+      setIsProcessing(true);
+      setTimeout(() => {
         if (!mounted) return;
-        const n = payload.new as any;
-        setIsProcessing(true);
-        setTimeout(() => {
-          if (!mounted) return;
-          setMlSignals(prev => [{
-            id: n.id, timestamp: n.timestamp, instrument: n.instrument || '', direction: n.direction || '',
-            ml_confidence: n.ml_confidence || 0, final_decision: n.final_decision || '', outcome: n.outcome
-          }, ...prev].slice(0, 50));
-          setLastDecision(n.final_decision);
-          setIsProcessing(false);
-        }, 1500);
-      }).subscribe();
-
-    return () => { mounted = false; supabase.removeChannel(channel); };
-  }, []);
+        setMlSignals(prev => [toSignal(n), ...prev].slice(0, 50));
+        setLastDecision(n.final_decision);
+        setIsProcessing(false);
+      }, 1500);
+    }, ['INSERT']);
+
+    return () => { mounted = false; unsubscribe(); };
+  }, [repositories]);
 
   const handleExit = useCallback(() => setCurrentRoom(null), []);
 
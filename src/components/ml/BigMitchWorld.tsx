@@ -14,7 +14,8 @@ import {
 } from "@react-three/drei";
 import * as THREE from "three";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/lib/supabase";
+import { useRepositories } from "@/context/RepositoryContext";
+import type { MLSignal } from "@/types/bots";
 import {
   Brain,
   Zap,
@@ -35,29 +36,6 @@ import { Button } from "@/components/ui/button";
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-interface MLSignal {
-  id: number;
-  timestamp: string;
-  ticker: string;
-  action: string;
-  level: string;
-  session: string;
-  price: number;
-  rsi: number;
-  rsi_roc: number;
-  macd: number;
-  macd_hist: number;
-  plus_di: number;
-  minus_di: number;
-  atr_pct: number;
-  confidence: number;
-  approved: boolean;
-  reason: string;
-  outcome: string | null;
-  pnl: number | null;
-  accounts_sent: string[];
-}
-
 // Keyboard control mapping
 enum Controls {
   forward = "forward",
@@ -830,6 +808,7 @@ function Scene({
 // ═══════════════════════════════════════════════════════════════════════════
 
 export function BigMitchWorld() {
+  const repositories = useRepositories();
   const [signals, setSignals] = useState<MLSignal[]>([]);
   const [activeSignal, setActiveSignal] = useState<MLSignal | null>(null);
   const [selectedSignal, setSelectedSignal] = useState<MLSignal | null>(null);
@@ -837,50 +816,31 @@ export function BigMitchWorld() {
 
   // Fetch signals
   const fetchSignals = useCallback(async () => {
-    if (!supabase) return;
+    if (!repositories) return;
 
     try {
-      const { data, error } = await supabase
-        .from("ml_signals")
-        .select("*")
-        .order("timestamp", { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-      if (data) setSignals(data as MLSignal[]);
+      setSignals(await repositories.mlSignals.list({ order: { column: "timestamp", ascending: false }, limit: 50 }));
     } catch (err) {
       console.error("Error fetching signals:", err);
     }
-  }, []);
+  }, [repositories]);
 
   // Subscribe to real-time
   useEffect(() => {
     fetchSignals();
 
-    if (!supabase) return;
-
-    const channel = supabase
-      .channel("ml-signals-3d")
-      .on(
-        "postgres_changes",
-        { event: "INSERT", schema: "public", table: "ml_signals" },
-        (payload) => {
-          const newSignal = payload.new as MLSignal;
-          setSignals(prev => [newSignal, ...prev.slice(0, 49)]);
-          setActiveSignal(newSignal);
-        }
-      )
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "ml_signals" },
-        () => fetchSignals()
-      )
-      .subscribe();
+    if (!repositories) return;
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [fetchSignals]);
+    return repositories.mlSignals.subscribe(change => {
+      if (change.event === "INSERT" && change.new) {
+        const newSignal = change.new;
+        setSignals(prev => [newSignal, ...prev.slice(0, 49)]);
+        setActiveSignal(newSignal);
+      } else {
+        fetchSignals();
+      }
+    }, ["INSERT", "UPDATE"]);
+  }, [repositories, fetchSignals]);
 
   return (
     <div className="relative w-full h-[800px] rounded-xl overflow-hidden border border-slate-700 bg-slate-950">
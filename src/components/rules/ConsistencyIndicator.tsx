@@ -0,0 +1,50 @@
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ConsistencyState } from "@/lib/consistency";
+
+interface ConsistencyIndicatorProps {
+  state: ConsistencyState;
+  className?: string;
+}
+
+const formatMoney = (val: number) =>
+  `$${Math.abs(val).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export function ConsistencyIndicator({ state, className }: ConsistencyIndicatorProps) {
+  const hasProfit = state.totalProfit > 0;
+  const sharePct = Math.min(100, state.bestDaySharePct);
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex justify-between text-[10px]">
+        <span className="text-muted-foreground">Consistency ({state.limitPct}% max day)</span>
+        <span className={cn(
+          "font-semibold tabular-nums",
+          !hasProfit ? "text-muted-foreground" : state.eligible ? "text-success" : "text-warning"
+        )}>
+          {hasProfit ? `Best day ${state.bestDaySharePct.toFixed(0)}%` : "No profit yet"}
+        </span>
+      </div>
+      <div className="relative h-1.5 overflow-hidden rounded-full bg-secondary">
+        <div
+          className={cn("h-full rounded-full transition-all duration-500", state.eligible ? "bg-success" : "bg-warning")}
+          style={{ width: `${hasProfit ? sharePct : 0}%` }}
+        />
+        <div className="absolute inset-y-0 w-px bg-foreground/40" style={{ left: `${state.limitPct}%` }} />
+      </div>
+      {hasProfit && (
+        <p className={cn("text-[10px]", state.eligible ? "text-muted-foreground" : "text-warning")}>
+          {state.eligible
+            ? `Eligible · today can make up to ${state.todayCap === Infinity ? "any amount" : formatMoney(state.todayCap)}`
+            : `${formatMoney(state.profitNeeded)} more profit needed (best day ${formatMoney(state.bestDay?.pnl ?? 0)} on ${state.bestDay?.day})`}
+        </p>
+      )}
+      {state.todayBreaks && (
+        <p className="flex items-center gap-1 text-[10px] font-medium text-destructive">
+          <AlertTriangle className="h-3 w-3" />
+          Today's +{formatMoney(state.todayPnl)} breaks the {state.limitPct}% rule (cap {formatMoney(state.todayCap)})
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { computeDailyLoss, type DailyLossState } from "@/lib/dailyLoss";
+import type { BotAccount, BotTrade } from "@/types/bots";
+
+interface DailyLossMonitorProps {
+  accounts: BotAccount[];
+  trades: BotTrade[];
+  className?: string;
+}
+
+const levelStyles = {
+  ok: { text: "text-muted-foreground", bar: "bg-muted-foreground/40" },
+  warning: { text: "text-warning", bar: "bg-warning" },
+  breached: { text: "text-destructive", bar: "bg-destructive" },
+} as const;
+
+const formatMoney = (val: number) =>
+  `${val < 0 ? "-" : ""}$${Math.abs(val).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export function DailyLossMonitor({ accounts, trades, className }: DailyLossMonitorProps) {
+  // Re-evaluate every minute so the 18:00 ET session rollover resets the day
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const rows = useMemo(() => {
+    return accounts
+      .filter((a) => a.daily_drawdown > 0)
+      .map((account) => ({
+        account,
+        daily: computeDailyLoss(account, trades.filter((t) => t.bot_account_id === account.id), now),
+      }))
+      .sort((a, b) => b.daily.usedPct - a.daily.usedPct);
+  }, [accounts, trades, now]);
+
+  if (rows.length === 0) return null;
+
+  const flagged = rows.filter((r) => r.daily.level !== "ok").length;
+
+  return (
+    <div className={cn("rounded-lg border border-border/60 bg-card p-6", className)}>
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className={cn("h-4 w-4", flagged > 0 ? "text-warning" : "text-muted-foreground")} />
+          <div>
+            <h3 className="font-medium">Daily Loss Limits</h3>
+            <p className="text-xs text-muted-foreground">Trading day {rows[0].daily.day} · resets 18:00 ET</p>
+          </div>
+        </div>
+        {flagged > 0 && (
+          <span className="text-xs font-medium text-warning">
+            {flagged} account{flagged !== 1 ? "s" : ""} flagged
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {rows.map(({ account, daily }) => (
+          <DailyLossRow key={account.id} account={account} daily={daily} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function DailyLossRow({ account, daily }: { account: BotAccount; daily: DailyLossState }) {
+  const styles = levelStyles[daily.level];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{account.account_name}</span>
+        <span className={cn("tabular-nums", daily.pnl >= 0 ? "text-success" : "text-destructive")}>
+          {daily.pnl > 0 ? "+" : ""}{formatMoney(daily.pnl)}
+        </span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-secondary">
+        <div
+          className={cn("h-full rounded-full transition-all duration-500", styles.bar)}
+          style={{ width: `${Math.min(100, daily.usedPct)}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>
+          Low {formatMoney(daily.low)} · limit {formatMoney(daily.limit)}
+          {daily.tradeCount > 0 && ` · ${daily.tradeCount} trade${daily.tradeCount !== 1 ? "s" : ""}`}
+        </span>
+        <span className={cn("tabular-nums font-medium", styles.text)}>
+          {daily.level === "breached" ? "Daily limit hit" : `${formatMoney(daily.remaining)} left today`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Bot, CalendarClock, CheckCircle2, Wallet } from "lucide-react";
+import { useJournal } from "@/context/JournalContext";
+import { useBots } from "@/context/BotContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  buildPayoutDraft,
+  planBotAccountPayout,
+  planJournalAccountPayout,
+  type PayoutPlan,
+} from "@/lib/payouts";
+import type { Payout } from "@/types";
+
+interface PayoutPlannerProps {
+  onRequestPayout: (draft: Omit<Payout, "id">) => void;
+  className?: string;
+}
+
+interface PlannedAccount {
+  key: string;
+  name: string;
+  propFirm: string;
+  source: "bot" | "journal";
+  plan: PayoutPlan;
+  target: { propFirm: string; accountName: string; accountId?: string; botAccountId?: string };
+}
+
+const formatMoney = (val: number) =>
+  `$${val.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export function PayoutPlanner({ onRequestPayout, className }: PayoutPlannerProps) {
+  const { accounts, trades, payouts, propFirms } = useJournal();
+  const { botAccounts, botTrades } = useBots();
+
+  const planned = useMemo(() => {
+    const firmName = (id: string) => propFirms.find((f) => f.id === id)?.name ?? id;
+    const rows: PlannedAccount[] = [];
+
+    accounts.forEach((account) => {
+      const plan = planJournalAccountPayout(account, accounts, trades, payouts);
+      if (!plan) return;
+      const name = `${firmName(account.propFirm)} ${formatMoney(account.accountSize)}`;
+      rows.push({
+        key: `journal-${account.id}`,
+        name,
+        propFirm: firmName(account.propFirm),
+        source: "journal",
+        plan,
+        target: { propFirm: firmName(account.propFirm), accountName: name, accountId: account.id },
+      });
+    });
+
+    botAccounts.forEach((account) => {
+      const plan = planBotAccountPayout(account, botTrades, payouts);
+      if (!plan) return;
+      rows.push({
+        key: `bot-${account.id}`,
+        name: account.account_name,
+        propFirm: account.prop_firm,
+        source: "bot",
+        plan,
+        target: { propFirm: account.prop_firm, accountName: account.account_name, botAccountId: account.id },
+      });
+    });
+
+    // Eligible first, then soonest
+    return rows.sort((a, b) =>
+      Number(b.plan.eligible) - Number(a.plan.eligible) ||
+      a.plan.nextEligibleDate.localeCompare(b.plan.nextEligibleDate)
+    );
+  }, [accounts, trades, payouts, propFirms, botAccounts, botTrades]);
+
+  if (planned.length === 0) return null;
+
+  return (
+    <div className={cn("stat-card space-y-3", className)}>
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-muted-foreground" />
+        <h3 className="font-medium">Payout Planner</h3>
+        <span className="text-xs text-muted-foreground">
+          Funded accounts with payout rules from their firm preset
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {planned.map(({ key, name, propFirm, source, plan, target }) => (
+          <div
+            key={key}
+            className={cn(
+              "flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3 text-sm",
+              plan.eligible ? "border-success/40 bg-success/5" : "border-border/60"
+            )}
+          >
+            <div className="min-w-0 space-y-0.5">
+              <div className="flex items-center gap-2">
+                {source === "bot" ? (
+                  <Bot className="h-3.5 w-3.5 text-muted-foreground" />
+                ) : (
+                  <Wallet className="h-3.5 w-3.5 text-muted-foreground" />
+                )}
+                <span className="font-medium">{name}</span>
+                {source === "bot" && <Badge variant="secondary" className="text-xs">{propFirm}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Balance {formatMoney(plan.balance)} · keep {formatMoney(plan.floor)} ·{" "}
+                {plan.tradingDays} trading day{plan.tradingDays !== 1 ? "s" : ""} · {plan.rules.split_pct}% split
+              </p>
+              {plan.blockers.map((b) => (
+                <p key={b} className="text-xs text-warning">{b}</p>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <div className="text-right">
+                <p className={cn("font-semibold tabular-nums", plan.eligible ? "text-success" : "text-muted-foreground")}>
+                  {formatMoney(plan.traderShare)}
+                </p>
+                <p className="text-[10px] text-muted-foreground">
+                  {plan.eligible
+                    ? `of ${formatMoney(plan.withdrawable)} gross`
+                    : `earliest ${format(parseISO(plan.nextEligibleDate), "MMM d")}`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant={plan.eligible ? "default" : "outline"}
+                className={cn(plan.eligible && "bg-accent text-accent-foreground hover:bg-accent/90")}
+                disabled={!plan.eligible}
+                onClick={() => onRequestPayout(buildPayoutDraft(plan, target))}
+              >
+                <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
+                Request
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
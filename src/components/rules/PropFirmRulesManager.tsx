@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { AlertCircle, BookOpen, History, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useBots } from "@/context/BotContext";
+import {
+  getPresetFirms,
+  getPresetHistory,
+  getRulePresets,
+} from "@/lib/propFirmRules";
+import type { DrawdownModel, PropFirmRulePreset } from "@/types/bots";
+import { DRAWDOWN_MODELS } from "@/types/bots";
+
+interface PropFirmRulesManagerProps {
+  className?: string;
+}
+
+export function PropFirmRulesManager({ className }: PropFirmRulesManagerProps) {
+  // Presets resolve against the custom versions the bot context loaded, so
+  // the catalog below re-renders whenever those change
+  const { saveRulePresetVersion, deleteRulePresetVersion } = useBots();
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<PropFirmRulePreset | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const firms = getPresetFirms();
+  const history = historyFor ? getPresetHistory(historyFor) : [];
+
+  const handleSave = async (preset: PropFirmRulePreset) => {
+    const { version, custom, ...rest } = preset;
+    setError(null);
+    try {
+      await saveRulePresetVersion(rest);
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save preset");
+    }
+  };
+
+  const handleDeleteVersion = async (preset: PropFirmRulePreset) => {
+    setError(null);
+    try {
+      await deleteRulePresetVersion(preset.id, preset.version);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete version");
+    }
+  };
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Prop Firm Rules
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Rule presets used to fill in accounts. Editing a preset saves a new version; accounts keep the version in force on their start date.
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-sm text-destructive bg-destructive/10 p-2 rounded flex items-start gap-2">
+          <AlertCircle className="h-4 w-4 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {firms.map((firm) => (
+        <div key={firm} className="stat-card space-y-3">
+          <h3 className="font-medium">{firm}</h3>
+          <div className="space-y-2">
+            {getRulePresets({ firm }).map((preset) => (
+              <div
+                key={preset.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/60 p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{preset.name}</span>
+                    <Badge variant="secondary" className="text-xs">v{preset.version}</Badge>
+                    {preset.custom && <Badge variant="outline" className="text-xs">Edited</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    DD ${preset.max_drawdown.toLocaleString()} ({DRAWDOWN_MODELS.find((m) => m.value === preset.drawdown_model)?.label})
+                    {preset.daily_drawdown > 0 && ` · Daily $${preset.daily_drawdown.toLocaleString()}`}
+                    {preset.profit_target && ` · Target $${preset.profit_target.toLocaleString()}`}
+                    {` · ${preset.max_contracts} contracts`}
+                    {preset.consistency_pct && ` · ${preset.consistency_pct}% consistency`}
+                    {` · since ${preset.effective_date}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => setHistoryFor(preset.id)}>
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(preset)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {/* Edit dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing && `${editing.firm} – ${editing.name}`}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <PresetForm preset={editing} onCancel={() => setEditing(null)} onSave={handleSave} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Version history dialog */}
+      <Dialog open={!!historyFor} onOpenChange={(open) => { if (!open) setHistoryFor(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {history.map((preset) => (
+              <div key={preset.version} className="flex items-center justify-between rounded-lg border border-border/60 p-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    v{preset.version} · effective {preset.effective_date}
+                    {preset.custom && <span className="ml-2 text-xs text-muted-foreground">(edited)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    DD ${preset.max_drawdown.toLocaleString()} · Daily ${preset.daily_drawdown.toLocaleString()}
+                    {preset.profit_target && ` · Target $${preset.profit_target.toLocaleString()}`}
+                  </p>
+                </div>
+                {preset.custom && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteVersion(preset)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface PresetFormProps {
+  preset: PropFirmRulePreset;
+  onCancel: () => void;
+  onSave: (preset: PropFirmRulePreset) => void;
+}
+
+function PresetForm({ preset, onCancel, onSave }: PresetFormProps) {
+  const [formData, setFormData] = useState<PropFirmRulePreset>({
+    ...preset,
+    effective_date: new Date().toISOString().split('T')[0],
+  });
+
+  const numberField = (label: string, key: keyof PropFirmRulePreset, optional = false) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        min="0"
+        value={(formData[key] as number | undefined) ?? ''}
+        onChange={(e) => setFormData({
+          ...formData,
+          [key]: e.target.value ? parseFloat(e.target.value) : optional ? undefined : 0,
+        })}
+      />
+    </div>
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(formData);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {numberField('Max Drawdown ($)', 'max_drawdown')}
+        {numberField('Daily Loss Limit ($)', 'daily_drawdown')}
+        {numberField('Profit Target ($)', 'profit_target', true)}
+        {numberField('Min Trading Days', 'min_trading_days', true)}
+        {numberField('Max Contracts', 'max_contracts')}
+        {numberField('Consistency (%)', 'consistency_pct', true)}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Drawdown Model</Label>
+          <Select
+            value={formData.drawdown_model}
+            onValueChange={(v) => setFormData({ ...formData, drawdown_model: v as DrawdownModel })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {DRAWDOWN_MODELS.map((m) => (
+                <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Effective Date</Label>
+          <Input
+            type="date"
+            value={formData.effective_date}
+            onChange={(e) => setFormData({ ...formData, effective_date: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" className="bg-accent text-accent-foreground hover:bg-accent/90">
+          Save as v{preset.version + 1}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * SyncHistory - Saved versions of the cloud-synced data, with record count changes and restore
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  fetchSyncHistory, isR2Configured, localRecordCounts, restoreSyncSnapshot, type SyncSnapshot,
+} from '@/lib/storage';
+
+const COLLECTION_LABELS: Record<string, string> = {
+  accounts: 'Accounts',
+  trades: 'Trades',
+  payouts: 'Payouts',
+  expenses: 'Expenses',
+  propFirms: 'Prop firms',
+  dailyEntries: 'Daily entries',
+  tradingSetups: 'Setups',
+};
+
+const total = (counts: Record<string, number>) => Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+/** Per-collection changes from `before` to `after`, leaving out the ones that didn't change */
+function countChanges(after: Record<string, number>, before: Record<string, number>) {
+  return Object.keys(COLLECTION_LABELS)
+    .map(collection => ({ collection, delta: (after[collection] ?? 0) - (before[collection] ?? 0) }))
+    .filter(c => c.delta !== 0);
+}
+
+export function SyncHistory() {
+  const [snapshots, setSnapshots] = useState<SyncSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [current, setCurrent] = useState<Record<string, number>>({});
+
+  const load = useCallback(async () => {
+    if (!isR2Configured()) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setSnapshots(await fetchSyncHistory());
+      setCurrent(localRecordCounts());
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRestore = async (snapshot: SyncSnapshot) => {
+    const savedAt = format(new Date(snapshot.savedAt), 'MMM d, yyyy HH:mm:ss');
+    if (!confirm(
+      `Restore the data saved ${savedAt} (${total(snapshot.counts)} records)? ` +
+      'Changes made since then are replaced on every device. The current data stays in the history.'
+    )) return;
+
+    setBusy(snapshot.version);
+    setError('');
+    setMessage('');
+    try {
+      await restoreSyncSnapshot(snapshot.version);
+      setMessage(`Restored the version from ${savedAt}. Reload the page to see it.`);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Restore failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Sync History
+          </CardTitle>
+          {isR2Configured() && (
+            <Button variant="ghost" size="icon" onClick={load} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Every cloud sync saves a version. All versions from the last day are kept, then one a day for 30 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {message && <p className="text-sm text-success">{message}</p>}
+        {!isR2Configured() ? (
+          <p className="text-sm text-muted-foreground">
+            Cloud sync isn't set up. Add VITE_R2_API_URL and VITE_R2_AUTH_TOKEN to keep a history.
+          </p>
+        ) : loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions saved yet.</p>
+        ) : (
+          <div className="max-h-96 space-y-2 overflow-auto">
+            {snapshots.map((snapshot, i) => {
+              // Compare with the version before it; the oldest one has nothing to compare with
+              const previous = snapshots[i + 1];
+              const changes = previous ? countChanges(snapshot.counts, previous.counts) : [];
+              const vsCurrent = countChanges(current, snapshot.counts);
+
+              return (
+                <div key={snapshot.version} className="flex items-center justify-between gap-3 rounded-lg border border-border/60 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium">
+                      {format(new Date(snapshot.savedAt), 'MMM d, yyyy HH:mm:ss')}
+                      {i === 0 && <span className="ml-2 text-xs text-muted-foreground">latest</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {Object.keys(COLLECTION_LABELS)
+                        .filter(c => snapshot.counts[c] !== undefined)
+                        .map(c => `${snapshot.counts[c]} ${COLLECTION_LABELS[c].toLowerCase()}`)
+                        .join(' · ')}
+                    </p>
+                    {changes.length > 0 && (
+                      <p className="text-xs">
+                        {changes.map(({ collection, delta }) => (
+                          <span key={collection} className={cn('mr-2', delta < 0 ? 'text-destructive' : 'text-success')}>
+                            {COLLECTION_LABELS[collection]} {delta > 0 ? '+' : ''}{delta}
+                          </span>
+                        ))}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={busy !== null || (i === 0 && vsCurrent.length === 0)}
+                    title={vsCurrent.length > 0
+                      ? `Differs from this device: ${vsCurrent.map(c => `${COLLECTION_LABELS[c.collection]} ${c.delta > 0 ? '+' : ''}${c.delta}`).join(', ')}`
+                      : undefined}
+                  >
+                    {busy === snapshot.version ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </>
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
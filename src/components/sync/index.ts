@@ -0,0 +1 @@
+export { SyncHistory } from './SyncHistory';
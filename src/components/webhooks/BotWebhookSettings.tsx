@@ -0,0 +1,113 @@
+/**
+ * BotWebhookSettings - Alert URL and secret for sending TradersPost/TradingView alerts to a bot
+ */
+
+import { useState } from 'react';
+import { Check, Copy, KeyRound, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { generateWebhookSecret } from '@/lib/webhooks';
+import type { Bot, BotFormData } from '@/types/bots';
+
+const API_URL = import.meta.env.VITE_R2_API_URL || 'https://proptracker-api.ethhartwell.workers.dev';
+
+interface BotWebhookSettingsProps {
+  bot: Bot;
+  onUpdate: (id: string, data: Partial<BotFormData>) => Promise<void>;
+}
+
+export function BotWebhookSettings({ bot, onUpdate }: BotWebhookSettingsProps) {
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const url = `${API_URL.replace(/\/$/, '')}/webhook/${bot.id}`;
+  const example = JSON.stringify({
+    secret: bot.webhook_secret || '<secret>',
+    ticker: '{{ticker}}',
+    action: '{{strategy.order.action}}',
+    sentiment: '{{strategy.market_position}}',
+    quantity: '{{strategy.order.contracts}}',
+    price: '{{close}}',
+    time: '{{timenow}}',
+  }, null, 2);
+
+  const copy = async (key: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(key);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (e) {
+      console.error('Failed to copy to clipboard:', e);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (bot.webhook_secret && !confirm('Alerts sent with the current secret will be rejected. Generate a new one?')) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await onUpdate(bot.id, { webhook_secret: generateWebhookSecret() });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save secret');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const CopyButton = ({ id, value }: { id: string; value: string }) => (
+    <Button variant="outline" size="icon" onClick={() => copy(id, value)} title="Copy">
+      {copied === id ? <Check className="h-4 w-4 text-success" /> : <Copy className="h-4 w-4" />}
+    </Button>
+  );
+
+  return (
+    <div className="stat-card space-y-4">
+      <div className="space-y-2">
+        <Label>Alert URL</Label>
+        <div className="flex gap-2">
+          <Input readOnly value={url} className="font-mono text-xs" />
+          <CopyButton id="url" value={url} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Add <code>?account=&lt;bot account id&gt;</code> to book the trades to an account.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Secret</Label>
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={bot.webhook_secret || ''}
+            placeholder="No secret yet - alerts are rejected"
+            className="font-mono text-xs"
+          />
+          {bot.webhook_secret && <CopyButton id="secret" value={bot.webhook_secret} />}
+          <Button variant="outline" onClick={handleGenerate} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <KeyRound className="h-4 w-4 mr-1" />}
+            {bot.webhook_secret ? 'Regenerate' : 'Generate'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Send it as <code>secret</code> in the alert or in an <code>X-Webhook-Secret</code> header.
+        </p>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>TradingView alert message</Label>
+          <CopyButton id="example" value={example} />
+        </div>
+        <pre className="rounded border bg-muted/40 p-3 text-xs overflow-auto">{example}</pre>
+        <p className="text-xs text-muted-foreground">
+          Actions are <code>buy</code>, <code>sell</code>, <code>exit</code> and <code>cancel</code>.
+          A flat position closes the open trade.
+        </p>
+      </div>
+    </div>
+  );
+}
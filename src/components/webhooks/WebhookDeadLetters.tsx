@@ -0,0 +1,116 @@
+/**
+ * WebhookDeadLetters - Bot alerts the worker received but couldn't apply
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Inbox, Loader2, RefreshCw, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { useBots } from '@/context/BotContext';
+import { useRepositories } from '@/context/RepositoryContext';
+import { deleteDeadLetter, fetchDeadLetters, type WebhookDeadLetter } from '@/lib/webhooks';
+
+export function WebhookDeadLetters() {
+  const { user } = useAuth();
+  const { bots } = useBots();
+  const repositories = useRepositories();
+
+  const [letters, setLetters] = useState<WebhookDeadLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    if (!repositories || !user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setLetters(await fetchDeadLetters(repositories.deadLetters));
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load dead letters');
+    } finally {
+      setLoading(false);
+    }
+  }, [repositories, user]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleDismiss = async (id: string) => {
+    if (!repositories) return;
+    try {
+      await deleteDeadLetter(repositories.deadLetters, id);
+      setLetters(prev => prev.filter(l => l.id !== id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to dismiss');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Inbox className="h-4 w-4" />
+            Webhook Dead Letters
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={load} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <CardDescription>
+          Alerts that didn't match a bot or an open trade. Nothing was recorded for them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading alerts...
+          </div>
+        ) : letters.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No unmatched alerts.</p>
+        ) : (
+          <div className="max-h-96 space-y-2 overflow-auto">
+            {letters.map(letter => {
+              const bot = bots.find(b => b.id === letter.bot_id);
+              return (
+                <div key={letter.id} className="rounded-lg border border-border/60 p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <button
+                      type="button"
+                      className="min-w-0 text-left"
+                      onClick={() => setExpanded(expanded === letter.id ? null : letter.id)}
+                    >
+                      <p className="text-sm font-medium">{letter.reason}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {format(new Date(letter.received_at), 'MMM d, yyyy HH:mm:ss')}
+                        {' · '}{bot ? bot.name : `Bot ${letter.bot_id || 'unknown'}`}
+                      </p>
+                    </button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDismiss(letter.id)} title="Dismiss">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {expanded === letter.id && (
+                    <pre className="rounded border bg-muted/40 p-2 text-xs overflow-auto">
+                      {typeof letter.payload === 'string' ? letter.payload : JSON.stringify(letter.payload, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { BotWebhookSettings } from './BotWebhookSettings';
+export { WebhookDeadLetters } from './WebhookDeadLetters';
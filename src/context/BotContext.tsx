@@ -1,8 +1,13 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
-import { RealtimeChannel } from '@supabase/supabase-js';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
 import { useAuth } from './AuthContext';
-import type { Bot, BotAccount, BotTrade, BotBacktestData, BotBacktestTrade, BotFormData, BotAccountFormData, BotTradeFormData, BotBacktestFormData, BotBacktestTradeFormData } from '@/types/bots';
+import { useRepositories } from './RepositoryContext';
+import { isMissingTableError } from '@/lib/repositories';
+import { evaluateAccountStatus } from '@/lib/accountRules';
+import { createBalanceAdjustment } from '@/lib/reconciliation';
+import { createImportBatch, finishImportBatch, markImportRolledBack, type ImportSourceInfo } from '@/lib/importBatches';
+import * as rulePresetVersions from '@/lib/rulePresetVersions';
+import { getCustomRuleVersions } from '@/lib/propFirmRules';
+import type { Bot, BotAccount, BotTrade, BotBacktestData, BotBacktestTrade, BotFormData, BotAccountFormData, BotTradeFormData, BotBacktestFormData, BotBacktestTradeFormData, AccountStatusTransition, BalanceAdjustment, PropFirmRulePreset } from '@/types/bots';
 
 interface BotContextValue {
   // Data
@@ -11,6 +16,7 @@ interface BotContextValue {
   botTrades: BotTrade[];
   backtestData: BotBacktestData[];
   backtestTrades: BotBacktestTrade[];
+  customRulePresets: PropFirmRulePreset[];
   loading: boolean;
   error: string | null;
 
@@ -23,11 +29,15 @@ interface BotContextValue {
   addBotAccount: (account: BotAccountFormData) => Promise<BotAccount | null>;
   updateBotAccount: (id: string, updates: Partial<BotAccountFormData>) => Promise<void>;
   deleteBotAccount: (id: string) => Promise<void>;
+  applyStatusRules: (accountId: string) => Promise<AccountStatusTransition | null>;
+  adjustBotAccountBalance: (accountId: string, newBalance: number, reason: string, source?: BalanceAdjustment['source']) => Promise<void>;
 
   // Bot Trade CRUD
   addBotTrade: (trade: BotTradeFormData) => Promise<BotTrade | null>;
   updateBotTrade: (id: string, updates: Partial<BotTradeFormData>) => Promise<void>;
   deleteBotTrade: (id: string) => Promise<void>;
+  importBotTrades: (trades: BotTradeFormData[], source?: ImportSourceInfo) => Promise<BotTrade[]>;
+  rollbackBotImportBatch: (batchId: string) => Promise<void>;
 
   // Backtest Data CRUD
   addBacktestData: (data: BotBacktestFormData) => Promise<BotBacktestData | null>;
@@ -47,6 +57,10 @@ interface BotContextValue {
   getBacktestForBot: (botId: string) => BotBacktestData[];
   refreshData: () => Promise<void>;
 
+  // Rule presets (edited versions; built-ins ship with the app)
+  saveRulePresetVersion: (preset: Omit<PropFirmRulePreset, 'version' | 'custom'>) => Promise<PropFirmRulePreset>;
+  deleteRulePresetVersion: (id: string, version: number) => Promise<void>;
+
   // Demo data
   loadKLBSDemo: () => Promise<void>;
 }
@@ -146,20 +160,30 @@ async function loadStaticBacktestTrades(): Promise<BotBacktestTrade[]> {
   }
 }
 
-export function BotProvider({ children }: { children: ReactNode }) {
+/**
+ * Provides the bots on the app's tables, or on whichever ones a
+ * RepositoryProvider above it hands in. Tests that don't sign in pass the
+ * user id themselves.
+ */
+export function BotProvider({ userId, children }: { userId?: string; children: ReactNode }) {
   const { user } = useAuth();
+  const ownerId = userId ?? user?.id;
+  const repositories = useRepositories();
   const [bots, setBots] = useState<Bot[]>([]);
   const [botAccounts, setBotAccounts] = useState<BotAccount[]>([]);
   const [botTrades, setBotTrades] = useState<BotTrade[]>([]);
   const [backtestData, setBacktestData] = useState<BotBacktestData[]>([]);
   const [backtestTrades, setBacktestTrades] = useState<BotBacktestTrade[]>([]);
+  const [customRulePresets, setCustomRulePresets] = useState<PropFirmRulePreset[]>([]);
   const [staticBacktestLoaded, setStaticBacktestLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const reportError = (err: unknown) => setError(err instanceof Error ? err.message : String(err));
+
   // Fetch all data
   const fetchData = useCallback(async () => {
-    if (!supabase || !user) {
+    if (!repositories || !ownerId) {
       setLoading(false);
       return;
     }
@@ -168,44 +192,29 @@ export function BotProvider({ children }: { children: ReactNode }) {
       setLoading(true);
       setError(null);
 
-      const [botsRes, accountsRes, tradesRes, backtestRes, backtestTradesRes] = await Promise.all([
-        supabase.from('bots').select('*').order('created_at', { ascending: false }),
-        supabase.from('bot_accounts').select('*').order('created_at', { ascending: false }),
-        supabase.from('bot_trades').select('*').order('timestamp', { ascending: false }),
-        supabase.from('bot_backtest_data').select('*').order('period_end', { ascending: false }),
-        supabase.from('bot_backtest_trades').select('*').order('trade_date', { ascending: true }).range(0, 49999),
-      ]);
-
-      // Check for table not existing errors (code 42P01 or message contains "relation")
-      const checkTableError = (res: { error: { message?: string; code?: string } | null }) => {
-        if (res.error) {
-          const msg = res.error.message || '';
-          const code = res.error.code || '';
-          if (code === '42P01' || msg.includes('relation') || msg.includes('does not exist')) {
-            throw new Error('DATABASE_NOT_SETUP');
-          }
-          throw res.error;
-        }
+      // A missing table means the schema hasn't been run yet
+      const checkTable = (err: unknown): never => {
+        throw isMissingTableError(err) ? new Error('DATABASE_NOT_SETUP') : err;
       };
 
-      checkTableError(botsRes);
-      checkTableError(accountsRes);
-      checkTableError(tradesRes);
-      checkTableError(backtestRes);
-      // Don't error if backtest_trades table doesn't exist yet (optional)
-      if (backtestTradesRes.error && !backtestTradesRes.error.message?.includes('does not exist')) {
-        checkTableError(backtestTradesRes);
-      }
+      const [botRows, accountRows, tradeRows, backtestRows, dbBacktestTrades] = await Promise.all([
+        repositories.bots.list({ order: { column: 'created_at', ascending: false } }).catch(checkTable),
+        repositories.botAccounts.list({ order: { column: 'created_at', ascending: false } }).catch(checkTable),
+        repositories.botTrades.list({ order: { column: 'timestamp', ascending: false } }).catch(checkTable),
+        repositories.backtestData.list({ order: { column: 'period_end', ascending: false } }).catch(checkTable),
+        // Don't error if backtest_trades table doesn't exist yet (optional)
+        repositories.backtestTrades.list({ order: { column: 'trade_date', ascending: true }, limit: 50000 })
+          .catch(err => isMissingTableError(err) ? [] as BotBacktestTrade[] : checkTable(err)),
+      ]);
 
-      setBots(botsRes.data || []);
-      setBotAccounts(accountsRes.data || []);
-      setBotTrades(tradesRes.data || []);
-      setBacktestData(backtestRes.data || []);
+      setBots(botRows);
+      setBotAccounts(accountRows);
+      setBotTrades(tradeRows);
+      setBacktestData(backtestRows);
       // Merge DB backtest trades with static trades (DB takes precedence per instrument)
-      const dbBacktestTrades = backtestTradesRes.data || [];
       if (dbBacktestTrades.length > 0) {
         // Get instruments that exist in DB
-        const dbInstruments = new Set(dbBacktestTrades.map((t: BotBacktestTrade) => t.instrument));
+        const dbInstruments = new Set(dbBacktestTrades.map(t => t.instrument));
         // Use ref for static trades (may not be loaded yet, but we merge when it loads too)
         const staticTrades = staticTradesRef.current;
         const staticForMissing = staticTrades.filter(t => !dbInstruments.has(t.instrument));
@@ -223,7 +232,7 @@ export function BotProvider({ children }: { children: ReactNode }) {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [repositories, ownerId]);
 
   // Reference to static trades for merging
   const staticTradesRef = useRef<BotBacktestTrade[]>([]);
@@ -255,206 +264,225 @@ export function BotProvider({ children }: { children: ReactNode }) {
 
   // Initial fetch and real-time subscriptions
   useEffect(() => {
-    if (!isSupabaseConfigured() || !user) {
+    if (!repositories || !ownerId) {
       setLoading(false);
       return;
     }
 
     fetchData();
 
-    // Set up real-time subscriptions
-    const channels: RealtimeChannel[] = [];
-
-    if (supabase) {
-      const botsChannel = supabase
-        .channel('bots-changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'bots' }, () => fetchData())
-        .subscribe();
-      channels.push(botsChannel);
-
-      const accountsChannel = supabase
-        .channel('bot-accounts-changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'bot_accounts' }, () => fetchData())
-        .subscribe();
-      channels.push(accountsChannel);
-
-      const tradesChannel = supabase
-        .channel('bot-trades-changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'bot_trades' }, () => fetchData())
-        .subscribe();
-      channels.push(tradesChannel);
-
-      const backtestChannel = supabase
-        .channel('backtest-changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'bot_backtest_data' }, () => fetchData())
-        .subscribe();
-      channels.push(backtestChannel);
-
-      const backtestTradesChannel = supabase
-        .channel('backtest-trades-changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'bot_backtest_trades' }, () => fetchData())
-        .subscribe();
-      channels.push(backtestTradesChannel);
-    }
+    const refetch = () => fetchData();
+    const unsubscribers = [
+      repositories.bots.subscribe(refetch),
+      repositories.botAccounts.subscribe(refetch),
+      repositories.botTrades.subscribe(refetch),
+      repositories.backtestData.subscribe(refetch),
+      repositories.backtestTrades.subscribe(refetch),
+    ];
 
     return () => {
-      channels.forEach(channel => supabase?.removeChannel(channel));
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [user, fetchData]);
+  }, [repositories, ownerId, fetchData]);
+
+  // Edited rule presets, shared between users like the accounts they
+  // apply to; signed out, the cached copy is used
+  const rulePresetRepository = ownerId ? repositories?.rulePresetVersions ?? null : null;
+
+  useEffect(() => {
+    const load = () => rulePresetVersions.loadRulePresetVersions(rulePresetRepository).then(setCustomRulePresets);
+    load();
+    return rulePresetRepository?.subscribe(load);
+  }, [rulePresetRepository]);
+
+  const saveRulePresetVersion = useCallback(async (preset: Omit<PropFirmRulePreset, 'version' | 'custom'>) => {
+    const saved = await rulePresetVersions.saveRulePresetVersion(rulePresetRepository, preset);
+    setCustomRulePresets(getCustomRuleVersions());
+    return saved;
+  }, [rulePresetRepository]);
+
+  const deleteRulePresetVersion = useCallback(async (id: string, version: number) => {
+    await rulePresetVersions.deleteRulePresetVersion(rulePresetRepository, id, version);
+    setCustomRulePresets(getCustomRuleVersions());
+  }, [rulePresetRepository]);
 
   // ── Bot CRUD ──────────────────────────────────────────────────
 
   const addBot = useCallback(async (bot: BotFormData): Promise<Bot | null> => {
-    if (!supabase || !user) return null;
-
-    const { data, error } = await supabase
-      .from('bots')
-      .insert({ ...bot, created_by: user.id })
-      .select()
-      .single();
+    if (!repositories || !ownerId) return null;
 
-    if (error) {
-      setError(error.message);
+    try {
+      const created = await repositories.bots.insert({ ...bot, created_by: ownerId });
+      setBots(prev => [created, ...prev]);
+      return created;
+    } catch (err) {
+      reportError(err);
       return null;
     }
-
-    setBots(prev => [data, ...prev]);
-    return data;
-  }, [user]);
+  }, [repositories, ownerId]);
 
   const updateBot = useCallback(async (id: string, updates: Partial<BotFormData>) => {
-    if (!supabase) return;
-
-    const { error } = await supabase
-      .from('bots')
-      .update(updates)
-      .eq('id', id);
+    if (!repositories) return;
 
-    if (error) {
-      setError(error.message);
-      return;
+    try {
+      await repositories.bots.update(id, updates);
+      setBots(prev => prev.map(b => b.id === id ? { ...b, ...updates } as Bot : b));
+    } catch (err) {
+      reportError(err);
     }
-
-    setBots(prev => prev.map(b => b.id === id ? { ...b, ...updates } as Bot : b));
-  }, []);
+  }, [repositories]);
 
   const deleteBot = useCallback(async (id: string) => {
-    if (!supabase) return;
-
-    const { error } = await supabase
-      .from('bots')
-      .delete()
-      .eq('id', id);
+    if (!repositories) return;
 
-    if (error) {
-      setError(error.message);
-      return;
+    try {
+      await repositories.bots.remove(id);
+      setBots(prev => prev.filter(b => b.id !== id));
+    } catch (err) {
+      reportError(err);
     }
-
-    setBots(prev => prev.filter(b => b.id !== id));
-  }, []);
+  }, [repositories]);
 
   // ── Bot Account CRUD ──────────────────────────────────────────
 
   const addBotAccount = useCallback(async (account: BotAccountFormData): Promise<BotAccount | null> => {
-    if (!supabase) return null;
+    if (!repositories) return null;
 
-    const { data, error } = await supabase
-      .from('bot_accounts')
-      .insert(account)
-      .select()
-      .single();
-
-    if (error) {
-      setError(error.message);
+    try {
+      const created = await repositories.botAccounts.insert(account);
+      setBotAccounts(prev => [created, ...prev]);
+      return created;
+    } catch (err) {
+      reportError(err);
       return null;
     }
-
-    setBotAccounts(prev => [data, ...prev]);
-    return data;
-  }, []);
+  }, [repositories]);
 
   const updateBotAccount = useCallback(async (id: string, updates: Partial<BotAccountFormData>) => {
-    if (!supabase) return;
+    if (!repositories) return;
 
-    const { error } = await supabase
-      .from('bot_accounts')
-      .update(updates)
-      .eq('id', id);
+    try {
+      await repositories.botAccounts.update(id, updates);
+      setBotAccounts(prev => prev.map(a => a.id === id ? { ...a, ...updates } as BotAccount : a));
+    } catch (err) {
+      reportError(err);
+    }
+  }, [repositories]);
 
-    if (error) {
-      setError(error.message);
-      return;
+  const deleteBotAccount = useCallback(async (id: string) => {
+    if (!repositories) return;
+
+    try {
+      await repositories.botAccounts.remove(id);
+      setBotAccounts(prev => prev.filter(a => a.id !== id));
+    } catch (err) {
+      reportError(err);
     }
+  }, [repositories]);
 
-    setBotAccounts(prev => prev.map(a => a.id === id ? { ...a, ...updates } as BotAccount : a));
-  }, []);
+  // Store new balance figures for an account and show them
+  const setAccountBalance = useCallback(async (accountId: string, updates: Pick<BotAccount, 'current_balance'> & Partial<BotAccount>) => {
+    if (!repositories) return;
+    await repositories.botAccounts.update(accountId, updates);
+    setBotAccounts(prev => prev.map(a => a.id === accountId ? { ...a, ...updates } : a));
+  }, [repositories]);
 
-  const deleteBotAccount = useCallback(async (id: string) => {
-    if (!supabase) return;
+  // Re-evaluate an account against its rules and move it to passed/breached
+  // if needed. Reads fresh rows so it is safe to call right after a sync.
+  const applyStatusRules = useCallback(async (accountId: string): Promise<AccountStatusTransition | null> => {
+    if (!repositories) return null;
 
-    const { error } = await supabase
-      .from('bot_accounts')
-      .delete()
-      .eq('id', id);
+    try {
+      const [account, trades] = await Promise.all([
+        repositories.botAccounts.get(accountId),
+        repositories.botTrades.list({ where: { bot_account_id: accountId } }),
+      ]);
+      if (!account) throw new Error('Account not found');
 
-    if (error) {
-      setError(error.message);
-      return;
-    }
+      const transition = evaluateAccountStatus(account, trades);
+      if (!transition) return null;
+
+      const updates = {
+        status: transition.to,
+        status_history: [...(account.status_history || []), transition],
+      };
 
-    setBotAccounts(prev => prev.filter(a => a.id !== id));
-  }, []);
+      await repositories.botAccounts.update(accountId, updates);
+      setBotAccounts(prev => prev.map(a => a.id === accountId ? { ...a, ...updates } : a));
+      return transition;
+    } catch (err) {
+      reportError(err);
+      return null;
+    }
+  }, [repositories]);
+
+  // Move the stored balance and record why (e.g. a broker reconciliation).
+  // Reads the fresh row so the history isn't built on a stale copy.
+  const adjustBotAccountBalance = useCallback(async (
+    accountId: string,
+    newBalance: number,
+    reason: string,
+    source: BalanceAdjustment['source'] = 'manual'
+  ) => {
+    if (!repositories) return;
+
+    const current = await repositories.botAccounts.get(accountId);
+    if (!current) throw new Error('Account not found');
+
+    const adjustment = createBalanceAdjustment(current, newBalance, reason, source);
+    await setAccountBalance(accountId, {
+      current_balance: adjustment.new_balance,
+      high_water_mark: Math.max(current.high_water_mark, adjustment.new_balance),
+      balance_adjustments: [...(current.balance_adjustments || []), adjustment],
+    });
+    await applyStatusRules(accountId);
+  }, [repositories, setAccountBalance, applyStatusRules]);
 
   // ── Bot Trade CRUD ────────────────────────────────────────────
 
   const addBotTrade = useCallback(async (trade: BotTradeFormData): Promise<BotTrade | null> => {
-    if (!supabase) return null;
-
-    const { data, error } = await supabase
-      .from('bot_trades')
-      .insert(trade)
-      .select()
-      .single();
+    if (!repositories) return null;
 
-    if (error) {
-      setError(error.message);
+    let created: BotTrade;
+    try {
+      created = await repositories.botTrades.insert(trade);
+    } catch (err) {
+      reportError(err);
       return null;
     }
 
-    setBotTrades(prev => [data, ...prev]);
+    setBotTrades(prev => [created, ...prev]);
 
     // Update account balance if trade is closed and has an account
     if (trade.status === 'closed' && trade.bot_account_id && trade.pnl) {
       const account = botAccounts.find(a => a.id === trade.bot_account_id);
       if (account) {
         const newBalance = account.current_balance + trade.pnl;
-        const newHWM = Math.max(account.high_water_mark, newBalance);
-        await supabase
-          .from('bot_accounts')
-          .update({ current_balance: newBalance, high_water_mark: newHWM })
-          .eq('id', account.id);
-        setBotAccounts(prev => prev.map(a =>
-          a.id === account.id ? { ...a, current_balance: newBalance, high_water_mark: newHWM } : a
-        ));
+        await setAccountBalance(account.id, {
+          current_balance: newBalance,
+          high_water_mark: Math.max(account.high_water_mark, newBalance),
+        }).catch(reportError);
       }
     }
 
-    return data;
-  }, [botAccounts]);
+    // A closed trade can pass or breach the account (even a scratch trade
+    // counts towards the minimum trading days)
+    if (trade.status === 'closed' && trade.bot_account_id) {
+      await applyStatusRules(trade.bot_account_id);
+    }
+
+    return created;
+  }, [repositories, botAccounts, setAccountBalance, applyStatusRules]);
 
   const updateBotTrade = useCallback(async (id: string, updates: Partial<BotTradeFormData>) => {
-    if (!supabase) return;
+    if (!repositories) return;
 
     const existingTrade = botTrades.find(t => t.id === id);
 
-    const { error } = await supabase
-      .from('bot_trades')
-      .update(updates)
-      .eq('id', id);
-
-    if (error) {
-      setError(error.message);
+    try {
+      await repositories.botTrades.update(id, updates);
+    } catch (err) {
+      reportError(err);
       return;
     }
 
@@ -472,31 +500,25 @@ export function BotProvider({ children }: { children: ReactNode }) {
         if (oldPnl !== newPnlContribution) {
           const pnlDiff = newPnlContribution - oldPnl;
           const newBalance = account.current_balance + pnlDiff;
-          const newHWM = Math.max(account.high_water_mark, newBalance);
-          await supabase
-            .from('bot_accounts')
-            .update({ current_balance: newBalance, high_water_mark: newHWM })
-            .eq('id', account.id);
-          setBotAccounts(prev => prev.map(a =>
-            a.id === account.id ? { ...a, current_balance: newBalance, high_water_mark: newHWM } : a
-          ));
+          await setAccountBalance(account.id, {
+            current_balance: newBalance,
+            high_water_mark: Math.max(account.high_water_mark, newBalance),
+          }).catch(reportError);
+          await applyStatusRules(account.id);
         }
       }
     }
-  }, [botAccounts, botTrades]);
+  }, [repositories, botAccounts, botTrades, setAccountBalance, applyStatusRules]);
 
   const deleteBotTrade = useCallback(async (id: string) => {
-    if (!supabase) return;
+    if (!repositories) return;
 
     const existingTrade = botTrades.find(t => t.id === id);
 
-    const { error } = await supabase
-      .from('bot_trades')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      setError(error.message);
+    try {
+      await repositories.botTrades.remove(id);
+    } catch (err) {
+      reportError(err);
       return;
     }
 
@@ -506,78 +528,129 @@ export function BotProvider({ children }: { children: ReactNode }) {
     if (existingTrade?.bot_account_id && existingTrade.status === 'closed' && existingTrade.pnl) {
       const account = botAccounts.find(a => a.id === existingTrade.bot_account_id);
       if (account) {
-        const newBalance = account.current_balance - existingTrade.pnl;
-        await supabase
-          .from('bot_accounts')
-          .update({ current_balance: newBalance })
-          .eq('id', account.id);
-        setBotAccounts(prev => prev.map(a =>
-          a.id === account.id ? { ...a, current_balance: newBalance } : a
-        ));
+        await setAccountBalance(account.id, { current_balance: account.current_balance - existingTrade.pnl }).catch(reportError);
       }
     }
-  }, [botAccounts, botTrades]);
+  }, [repositories, botAccounts, botTrades, setAccountBalance]);
+
+  // Batch import (broker sync or CSV). Trades whose closing fill is already
+  // stored for the account are skipped by the unique index, so re-running an
+  // import is safe; only newly inserted trades are returned and counted
+  // towards account balances. With a source, the import is recorded as a
+  // batch that can be rolled back.
+  const importBotTrades = useCallback(async (trades: BotTradeFormData[], source?: ImportSourceInfo): Promise<BotTrade[]> => {
+    if (!repositories || trades.length === 0) return [];
+
+    const batch = source && ownerId
+      ? await createImportBatch(repositories.importBatches, { ...source, user_id: ownerId, target: 'bot', imported_count: trades.length })
+      : null;
+
+    let inserted: BotTrade[];
+    try {
+      inserted = await repositories.botTrades.upsertMany(
+        batch ? trades.map(t => ({ ...t, import_batch_id: batch.id })) : trades,
+        { onConflict: ['bot_account_id', 'tradovate_fill_id'], ignoreDuplicates: true }
+      );
+    } catch (err) {
+      if (batch) await finishImportBatch(repositories.importBatches, batch, 0);
+      throw err;
+    }
+
+    if (batch) await finishImportBatch(repositories.importBatches, batch, inserted.length);
+    if (inserted.length === 0) return [];
+    setBotTrades(prev => [...inserted, ...prev]);
+
+    const accountIds = [...new Set(inserted.filter(t => t.bot_account_id).map(t => t.bot_account_id!))];
+    for (const accountId of accountIds) {
+      const account = await repositories.botAccounts.get(accountId);
+      if (!account) continue;
+
+      // Walk the new trades in order so the high water mark sees intraday peaks
+      let balance = account.current_balance;
+      let hwm = account.high_water_mark;
+      inserted
+        .filter(t => t.bot_account_id === accountId && t.status === 'closed')
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .forEach(t => {
+          balance += t.pnl || 0;
+          hwm = Math.max(hwm, balance);
+        });
+
+      await setAccountBalance(accountId, { current_balance: balance, high_water_mark: hwm });
+      await applyStatusRules(accountId);
+    }
+
+    return inserted;
+  }, [repositories, ownerId, setAccountBalance, applyStatusRules]);
+
+  // Delete every trade of an import and take their P&L back out of the
+  // account balances
+  const rollbackBotImportBatch = useCallback(async (batchId: string) => {
+    if (!repositories) return;
+
+    const removed = await repositories.botTrades.removeWhere({ import_batch_id: batchId });
+    const removedIds = new Set(removed.map(t => t.id));
+    setBotTrades(prev => prev.filter(t => !removedIds.has(t.id)));
+
+    const accountIds = [...new Set(removed.filter(t => t.bot_account_id).map(t => t.bot_account_id!))];
+    for (const accountId of accountIds) {
+      const account = await repositories.botAccounts.get(accountId);
+      if (!account) continue;
+
+      const removedPnl = removed
+        .filter(t => t.bot_account_id === accountId && t.status === 'closed')
+        .reduce((sum, t) => sum + (t.pnl || 0), 0);
+
+      await setAccountBalance(accountId, { current_balance: account.current_balance - removedPnl });
+      await applyStatusRules(accountId);
+    }
+
+    await markImportRolledBack(repositories.importBatches, batchId);
+  }, [repositories, setAccountBalance, applyStatusRules]);
 
   // ── Backtest Data CRUD ────────────────────────────────────────
 
   const addBacktestData = useCallback(async (data: BotBacktestFormData): Promise<BotBacktestData | null> => {
-    if (!supabase) return null;
-
-    const { data: result, error } = await supabase
-      .from('bot_backtest_data')
-      .insert(data)
-      .select()
-      .single();
+    if (!repositories) return null;
 
-    if (error) {
-      setError(error.message);
+    try {
+      const created = await repositories.backtestData.insert(data);
+      setBacktestData(prev => [created, ...prev]);
+      return created;
+    } catch (err) {
+      reportError(err);
       return null;
     }
-
-    setBacktestData(prev => [result, ...prev]);
-    return result;
-  }, []);
+  }, [repositories]);
 
   const updateBacktestData = useCallback(async (id: string, updates: Partial<BotBacktestFormData>) => {
-    if (!supabase) {
+    if (!repositories) {
       console.error('updateBacktestData: supabase not available');
       return;
     }
 
     console.log('updateBacktestData:', id, updates);
 
-    const { data, error } = await supabase
-      .from('bot_backtest_data')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('updateBacktestData error:', error);
-      setError(error.message);
-      return;
+    try {
+      const data = await repositories.backtestData.update(id, updates);
+      console.log('updateBacktestData success:', data);
+      setBacktestData(prev => prev.map(d => d.id === id ? { ...d, ...updates } as BotBacktestData : d));
+    } catch (err) {
+      console.error('updateBacktestData error:', err);
+      reportError(err);
     }
-
-    console.log('updateBacktestData success:', data);
-    setBacktestData(prev => prev.map(d => d.id === id ? { ...d, ...updates } as BotBacktestData : d));
-  }, [supabase]);
+  }, [repositories]);
 
   const deleteBacktestData = useCallback(async (id: string) => {
-    if (!supabase) return;
+    if (!repositories) return;
 
-    const { error } = await supabase
-      .from('bot_backtest_data')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      setError(error.message);
-      return;
+    try {
+      await repositories.backtestData.remove(id);
+      setBacktestData(prev => prev.filter(d => d.id !== id));
+    } catch (err) {
+      reportError(err);
     }
-
-    setBacktestData(prev => prev.filter(d => d.id !== id));
-  }, []);
+  }, [repositories]);
 
   // ── Backtest Trades (granular) ──────────────────────────────
 
@@ -585,7 +658,7 @@ export function BotProvider({ children }: { children: ReactNode }) {
     trades: BotBacktestTradeFormData[],
     onProgress?: (current: number, total: number) => void
   ): Promise<{ inserted: number; errors: string[] }> => {
-    if (!supabase) return { inserted: 0, errors: ['Supabase not configured'] };
+    if (!repositories) return { inserted: 0, errors: ['Supabase not configured'] };
 
     const errors: string[] = [];
     let inserted = 0;
@@ -596,15 +669,8 @@ export function BotProvider({ children }: { children: ReactNode }) {
       const chunkNum = Math.floor(i / chunkSize) + 1;
 
       try {
-        const { error } = await supabase
-          .from('bot_backtest_trades')
-          .insert(chunk);
-
-        if (error) {
-          errors.push(`Chunk ${chunkNum}: ${error.message}`);
-        } else {
-          inserted += chunk.length;
-        }
+        await repositories.backtestTrades.insertMany(chunk);
+        inserted += chunk.length;
       } catch (e) {
         errors.push(`Chunk ${chunkNum}: ${e instanceof Error ? e.message : 'Unknown error'}`);
       }
@@ -617,23 +683,18 @@ export function BotProvider({ children }: { children: ReactNode }) {
     // Refresh data to get new trades
     await fetchData();
     return { inserted, errors };
-  }, [fetchData]);
+  }, [repositories, fetchData]);
 
   const deleteBacktestTradesForBot = useCallback(async (botId: string) => {
-    if (!supabase) return;
+    if (!repositories) return;
 
-    const { error } = await supabase
-      .from('bot_backtest_trades')
-      .delete()
-      .eq('bot_id', botId);
-
-    if (error) {
-      setError(error.message);
-      return;
+    try {
+      await repositories.backtestTrades.removeWhere({ bot_id: botId });
+      setBacktestTrades(prev => prev.filter(t => t.bot_id !== botId));
+    } catch (err) {
+      reportError(err);
     }
-
-    setBacktestTrades(prev => prev.filter(t => t.bot_id !== botId));
-  }, []);
+  }, [repositories]);
 
   const getBacktestTradesForBot = useCallback((botId: string) => {
     return backtestTrades.filter(t => t.bot_id === botId);
@@ -642,7 +703,7 @@ export function BotProvider({ children }: { children: ReactNode }) {
   // ── Load KLBS Demo Data ──────────────────────────────────────
 
   const loadKLBSDemo = useCallback(async () => {
-    if (!supabase || !user) return;
+    if (!repositories || !ownerId) return;
 
     setLoading(true);
     setError(null);
@@ -653,27 +714,21 @@ export function BotProvider({ children }: { children: ReactNode }) {
 
       for (const instrument of instruments) {
         // Check if bot already exists
-        let existingBot = bots.find(b => b.name === 'KLBS Bot' && b.instrument === instrument);
+        const existingBot = bots.find(b => b.name === 'KLBS Bot' && b.instrument === instrument);
         let botId = existingBot?.id;
 
         if (!existingBot) {
           // Create bot
-          const { data: bot, error: botError } = await supabase
-            .from('bots')
-            .insert({
-              created_by: user.id,
-              name: 'KLBS Bot',
-              version: 'v1.0',
-              instrument,
-              default_contracts: instrument === 'MNQ' ? 2 : instrument === 'MES' ? 4 : 1,
-              description: `Key Level Breakout System for ${instrument}. Retest entries on PDH/PDL/PMH/PML/LPH/LPL.`,
-              strategy_notes: `Sessions: London 03:00-08:00, NY 09:30-16:00 ET\nEntry: Retest zone (0.15-0.35 of level distance)\nExit: Fixed TP 50pts, SL 25pts (2:1 R:R)\nNo trades during Dead Zone 08:00-09:30`,
-              status: 'active',
-            })
-            .select()
-            .single();
-
-          if (botError) throw botError;
+          const bot = await repositories.bots.insert({
+            created_by: ownerId,
+            name: 'KLBS Bot',
+            version: 'v1.0',
+            instrument,
+            default_contracts: instrument === 'MNQ' ? 2 : instrument === 'MES' ? 4 : 1,
+            description: `Key Level Breakout System for ${instrument}. Retest entries on PDH/PDL/PMH/PML/LPH/LPL.`,
+            strategy_notes: `Sessions: London 03:00-08:00, NY 09:30-16:00 ET\nEntry: Retest zone (0.15-0.35 of level distance)\nExit: Fixed TP 50pts, SL 25pts (2:1 R:R)\nNo trades during Dead Zone 08:00-09:30`,
+            status: 'active',
+          });
           botId = bot.id;
         }
 
@@ -683,29 +738,25 @@ export function BotProvider({ children }: { children: ReactNode }) {
 
         // Add backtest data for this bot
         const btData = KLBS_BACKTEST_DATA[instrument];
-        const { error: btError } = await supabase
-          .from('bot_backtest_data')
-          .insert({
-            bot_id: botId,
-            period_start: '2018-01-01',
-            period_end: '2024-08-31',
-            total_trades: btData.total_trades,
-            win_count: btData.win_count,
-            loss_count: btData.loss_count,
-            gross_pnl: btData.gross_pnl,
-            net_pnl: btData.net_pnl,
-            max_drawdown: btData.max_drawdown,
-            max_daily_drawdown: btData.max_daily_drawdown,
-            avg_winner: btData.avg_winner,
-            avg_loser: btData.avg_loser,
-            largest_winner: btData.largest_winner,
-            largest_loser: btData.largest_loser,
-            avg_rr_ratio: btData.avg_rr_ratio,
-            contract_size: 1,
-            notes: `Validated backtest from Databento 1-minute bars. ${btData.total_trades} trades over 6.7 years.`,
-          });
-
-        if (btError) throw btError;
+        await repositories.backtestData.insert({
+          bot_id: botId,
+          period_start: '2018-01-01',
+          period_end: '2024-08-31',
+          total_trades: btData.total_trades,
+          win_count: btData.win_count,
+          loss_count: btData.loss_count,
+          gross_pnl: btData.gross_pnl,
+          net_pnl: btData.net_pnl,
+          max_drawdown: btData.max_drawdown,
+          max_daily_drawdown: btData.max_daily_drawdown,
+          avg_winner: btData.avg_winner,
+          avg_loser: btData.avg_loser,
+          largest_winner: btData.largest_winner,
+          largest_loser: btData.largest_loser,
+          avg_rr_ratio: btData.avg_rr_ratio,
+          contract_size: 1,
+          notes: `Validated backtest from Databento 1-minute bars. ${btData.total_trades} trades over 6.7 years.`,
+        });
       }
 
       // Refresh data to show new bots
@@ -715,7 +766,7 @@ export function BotProvider({ children }: { children: ReactNode }) {
     } finally {
       setLoading(false);
     }
-  }, [user, bots, backtestData, fetchData]);
+  }, [repositories, ownerId, bots, backtestData, fetchData]);
 
   // ── Helpers ───────────────────────────────────────────────────
 
@@ -733,6 +784,7 @@ export function BotProvider({ children }: { children: ReactNode }) {
         botTrades,
         backtestData,
         backtestTrades,
+        customRulePresets,
         loading,
         error,
         addBot,
@@ -741,9 +793,13 @@ export function BotProvider({ children }: { children: ReactNode }) {
         addBotAccount,
         updateBotAccount,
         deleteBotAccount,
+        applyStatusRules,
+        adjustBotAccountBalance,
         addBotTrade,
         updateBotTrade,
         deleteBotTrade,
+        importBotTrades,
+        rollbackBotImportBatch,
         addBacktestData,
         updateBacktestData,
         deleteBacktestData,
@@ -756,6 +812,8 @@ export function BotProvider({ children }: { children: ReactNode }) {
         getTradesForAccount,
         getBacktestForBot,
         refreshData: fetchData,
+        saveRulePresetVersion,
+        deleteRulePresetVersion,
         loadKLBSDemo,
       }}
     >
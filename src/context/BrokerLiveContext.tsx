@@ -0,0 +1,171 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { useAuth } from './AuthContext';
+import { useBots } from './BotContext';
+import { useRepositories } from './RepositoryContext';
+import { TradovateBrokerClient } from '@/lib/tradovate';
+import { BROKERS } from '@/lib/brokerClient';
+import { TradovateLiveFeed, type LiveAccountState } from '@/lib/tradovateLive';
+import type { SocketStatus } from '@/lib/tradovateSocket';
+import { openBrokerSession } from '@/lib/credentials';
+import { fetchBrokerConnections, hasStoredCredentials } from '@/lib/brokerConnections';
+import { fetchBrokerMappings, syncBrokerMapping } from '@/lib/brokerSync';
+
+// Wait for the rest of a burst of fills (partial fills, brackets) before syncing
+const FILL_SYNC_DELAY_MS = 3000;
+
+interface BrokerLiveContextValue {
+  // Live state keyed by bot account id
+  liveAccounts: Record<string, LiveAccountState>;
+  // Socket status keyed by broker connection id
+  status: Record<string, SocketStatus>;
+  // Last failed fill-triggered sync keyed by bot account id
+  syncErrors: Record<string, string>;
+  getLiveAccount: (botAccountId: string) => LiveAccountState | undefined;
+  refresh: () => Promise<void>;
+}
+
+const BrokerLiveContext = createContext<BrokerLiveContextValue | null>(null);
+
+export function BrokerLiveProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { importBotTrades, bots, botAccounts } = useBots();
+  const repositories = useRepositories();
+  const [liveAccounts, setLiveAccounts] = useState<Record<string, LiveAccountState>>({});
+  const [status, setStatus] = useState<Record<string, SocketStatus>>({});
+  const [syncErrors, setSyncErrors] = useState<Record<string, string>>({});
+
+  const feedsRef = useRef<TradovateLiveFeed[]>([]);
+  // Bumped on every stop so a refresh still signing in knows it was superseded
+  const generationRef = useRef(0);
+  const syncTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Fill-triggered syncs run later; read the latest bots and import function
+  const latestRef = useRef({ importBotTrades, bots, botAccounts });
+  latestRef.current = { importBotTrades, bots, botAccounts };
+
+  const stopFeeds = useCallback(() => {
+    generationRef.current++;
+    feedsRef.current.forEach(feed => feed.stop());
+    feedsRef.current = [];
+    syncTimersRef.current.forEach(timer => clearTimeout(timer));
+    syncTimersRef.current.clear();
+  }, []);
+
+  // Open one live feed per streaming connection that has mapped accounts
+  const refresh = useCallback(async () => {
+    stopFeeds();
+    const generation = generationRef.current;
+    setLiveAccounts({});
+    setStatus({});
+    setSyncErrors({});
+    if (!supabase || !repositories || !user) return;
+
+    try {
+      const [connections, mappings] = await Promise.all([
+        fetchBrokerConnections(repositories.brokerConnections),
+        fetchBrokerMappings(repositories.brokerMappings),
+      ]);
+
+      for (const connection of connections.filter(c => c.is_active && BROKERS[c.broker].liveFeed && hasStoredCredentials(c))) {
+        const connectionMappings = mappings.filter(m => m.broker_connection_id === connection.id);
+        if (connectionMappings.length === 0) continue;
+
+        // Signed in by the worker, which holds the connection's credentials
+        const client = new TradovateBrokerClient(connection.environment, () => openBrokerSession(supabase!, connection.id));
+        let token;
+        try {
+          token = await client.authenticate();
+        } catch (err) {
+          console.error(`Live feed sign-in failed for ${connection.name}`, err);
+          setStatus(prev => ({ ...prev, [connection.id]: 'error' }));
+          continue;
+        }
+        if (generation !== generationRef.current) return;
+
+        const feed = new TradovateLiveFeed({
+          token,
+          // Also renews the token the client's REST calls use
+          renewToken: () => client.authenticate(),
+          environment: connection.environment,
+          accountIds: connectionMappings.map(m => Number(m.broker_account_id)),
+          resolveContracts: ids => client.api.getContracts(ids),
+        });
+        feedsRef.current.push(feed);
+
+        const botAccountFor = new Map(connectionMappings.map(m => [Number(m.broker_account_id), m.bot_account_id]));
+
+        feed.onStatus(s => setStatus(prev => ({ ...prev, [connection.id]: s })));
+        feed.subscribe(states => {
+          setLiveAccounts(prev => {
+            const next = { ...prev };
+            states.forEach(state => {
+              const botAccountId = botAccountFor.get(state.accountId);
+              if (botAccountId) next[botAccountId] = state;
+            });
+            return next;
+          });
+        });
+
+        // A fill may close a round trip: sync that account once the burst settles
+        feed.onFill(accountId => {
+          const key = `${connection.id}:${accountId}`;
+          clearTimeout(syncTimersRef.current.get(key));
+          syncTimersRef.current.set(key, setTimeout(async () => {
+            syncTimersRef.current.delete(key);
+            const botAccountId = botAccountFor.get(accountId);
+            try {
+              const mapping = (await fetchBrokerMappings(repositories.brokerMappings, connection.id)).find(m => Number(m.broker_account_id) === accountId);
+              const { importBotTrades, bots, botAccounts } = latestRef.current;
+              const botAccount = mapping && botAccounts.find(a => a.id === mapping.bot_account_id);
+              const bot = botAccount && bots.find(b => b.id === botAccount.bot_id);
+              if (mapping && bot) await syncBrokerMapping(repositories, client, mapping, bot.id, importBotTrades);
+              if (botAccountId) {
+                setSyncErrors(prev => {
+                  const next = { ...prev };
+                  delete next[botAccountId];
+                  return next;
+                });
+              }
+            } catch (err) {
+              console.error(`Live sync failed for ${connection.name}`, err);
+              if (generation !== generationRef.current) return;
+              setStatus(prev => ({ ...prev, [connection.id]: 'error' }));
+              if (botAccountId) {
+                const message = err instanceof Error ? err.message : 'Sync failed';
+                setSyncErrors(prev => ({ ...prev, [botAccountId]: message }));
+              }
+            }
+          }, FILL_SYNC_DELAY_MS));
+        });
+
+        feed.start().catch(err => console.error(`Live feed failed for ${connection.name}`, err));
+      }
+    } catch (err) {
+      console.error('Failed to start live broker feeds', err);
+    }
+  }, [repositories, user, stopFeeds]);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured() || !user) return;
+    refresh();
+    return stopFeeds;
+  }, [user, refresh, stopFeeds]);
+
+  const getLiveAccount = useCallback(
+    (botAccountId: string) => liveAccounts[botAccountId],
+    [liveAccounts]
+  );
+
+  return (
+    <BrokerLiveContext.Provider value={{ liveAccounts, status, syncErrors, getLiveAccount, refresh }}>
+      {children}
+    </BrokerLiveContext.Provider>
+  );
+}
+
+export function useBrokerLive(): BrokerLiveContextValue {
+  const ctx = useContext(BrokerLiveContext);
+  if (!ctx) throw new Error('useBrokerLive must be used within a BrokerLiveProvider');
+  return ctx;
+}
@@ -0,0 +1,20 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { supabase } from '@/lib/supabase';
+import { createSupabaseRepositories, type Repositories } from '@/lib/repositories';
+
+// The app's Supabase project, or none when it isn't configured
+const defaultRepositories = supabase ? createSupabaseRepositories(supabase) : null;
+
+const RepositoryContext = createContext<Repositories | null>(defaultRepositories);
+
+/**
+ * Swaps the tables everything below reads and writes (tests pass in-memory
+ * ones); without it the app uses its Supabase project
+ */
+export function RepositoryProvider({ repositories, children }: { repositories: Repositories; children: ReactNode }) {
+  return <RepositoryContext.Provider value={repositories}>{children}</RepositoryContext.Provider>;
+}
+
+export function useRepositories(): Repositories | null {
+  return useContext(RepositoryContext);
+}
@@ -0,0 +1,37 @@
+import type { BOT_INSTRUMENTS } from '@/types/bots';
+
+type BotInstrument = (typeof BOT_INSTRUMENTS)[number];
+
+export interface ContractSpec {
+  tick_size: number;
+  tick_value: number;       // $ per tick per contract
+  commission_rt: number;    // typical prop firm round-turn commission per contract
+}
+
+// CME contract specs for the instruments bots trade. Commissions are the
+// usual Rithmic/Tradovate prop firm rates and can be overridden per sync.
+export const CONTRACT_SPECS: Record<BotInstrument, ContractSpec> = {
+  MNQ: { tick_size: 0.25, tick_value: 0.5, commission_rt: 1.24 },
+  NQ: { tick_size: 0.25, tick_value: 5, commission_rt: 4.12 },
+  MES: { tick_size: 0.25, tick_value: 1.25, commission_rt: 1.24 },
+  ES: { tick_size: 0.25, tick_value: 12.5, commission_rt: 4.12 },
+  MYM: { tick_size: 1, tick_value: 0.5, commission_rt: 1.24 },
+  YM: { tick_size: 1, tick_value: 5, commission_rt: 4.12 },
+  M2K: { tick_size: 0.1, tick_value: 0.5, commission_rt: 1.24 },
+  RTY: { tick_size: 0.1, tick_value: 5, commission_rt: 4.12 },
+  MGC: { tick_size: 0.1, tick_value: 1, commission_rt: 1.64 },
+  GC: { tick_size: 0.1, tick_value: 10, commission_rt: 4.62 },
+  MCL: { tick_size: 0.01, tick_value: 1, commission_rt: 1.54 },
+  CL: { tick_size: 0.01, tick_value: 10, commission_rt: 4.62 },
+  ZN: { tick_size: 0.015625, tick_value: 15.625, commission_rt: 3.62 },
+  ZB: { tick_size: 0.03125, tick_value: 31.25, commission_rt: 3.72 },
+  '6E': { tick_size: 0.00005, tick_value: 6.25, commission_rt: 4.62 },
+  '6J': { tick_size: 0.0000005, tick_value: 6.25, commission_rt: 4.62 },
+};
+
+/**
+ * Spec for an instrument symbol, if known
+ */
+export function getContractSpec(instrument: string): ContractSpec | undefined {
+  return CONTRACT_SPECS[instrument as BotInstrument];
+}
@@ -0,0 +1,149 @@
+import type { PropFirmRulePreset } from '@/types/bots';
+
+// Built-in prop firm rule catalog. Figures follow each firm's published
+// futures rules at `effective_date`; when a firm changes its rules, add a
+// new entry with the same `id`, a higher `version` and the new date rather
+// than editing the old one, so existing accounts keep the rules they
+// started under.
+export const PROP_FIRM_PRESETS: PropFirmRulePreset[] = [
+  // ── Apex Trader Funding ─────────────────────────────────────
+  {
+    id: 'apex-25k-eval', firm: 'Apex Trader Funding', name: '25K Evaluation', phase: 'evaluation',
+    account_size: 25000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 1500, daily_drawdown: 0, drawdown_model: 'intraday_trailing',
+    profit_target: 1500, min_trading_days: 7, max_contracts: 4,
+  },
+  {
+    id: 'apex-50k-eval', firm: 'Apex Trader Funding', name: '50K Evaluation', phase: 'evaluation',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2500, daily_drawdown: 0, drawdown_model: 'intraday_trailing',
+    profit_target: 3000, min_trading_days: 7, max_contracts: 10,
+  },
+  {
+    id: 'apex-100k-eval', firm: 'Apex Trader Funding', name: '100K Evaluation', phase: 'evaluation',
+    account_size: 100000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 3000, daily_drawdown: 0, drawdown_model: 'intraday_trailing',
+    profit_target: 6000, min_trading_days: 7, max_contracts: 14,
+  },
+  {
+    id: 'apex-50k-pa', firm: 'Apex Trader Funding', name: '50K Performance Account', phase: 'funded',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2500, daily_drawdown: 0, drawdown_model: 'trailing_lock',
+    max_contracts: 10, consistency_pct: 30,
+    scaling_rules: {
+      enabled: true,
+      rules: [
+        { profit_threshold: 0, new_contract_limit: 5, description: 'Half size until the trailing threshold stops' },
+        { profit_threshold: 2600, new_contract_limit: 10, description: 'Full size once past the safety net' },
+      ],
+    },
+    payout: { min_trading_days: 8, min_buffer: 2600, min_amount: 500, max_amount: 2000, split_pct: 100, min_days_between: 8 },
+    notes: 'Split is 100% of the first $25K, 90% after.',
+  },
+  {
+    id: 'apex-100k-pa', firm: 'Apex Trader Funding', name: '100K Performance Account', phase: 'funded',
+    account_size: 100000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 3000, daily_drawdown: 0, drawdown_model: 'trailing_lock',
+    max_contracts: 14, consistency_pct: 30,
+    scaling_rules: {
+      enabled: true,
+      rules: [
+        { profit_threshold: 0, new_contract_limit: 7, description: 'Half size until the trailing threshold stops' },
+        { profit_threshold: 3100, new_contract_limit: 14, description: 'Full size once past the safety net' },
+      ],
+    },
+    payout: { min_trading_days: 8, min_buffer: 3100, min_amount: 500, max_amount: 2500, split_pct: 100, min_days_between: 8 },
+    notes: 'Split is 100% of the first $25K, 90% after.',
+  },
+
+  // ── Topstep ─────────────────────────────────────────────────
+  {
+    id: 'topstep-50k-combine', firm: 'Topstep', name: '50K Trading Combine', phase: 'evaluation',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2000, daily_drawdown: 1000, drawdown_model: 'eod_trailing',
+    profit_target: 3000, min_trading_days: 2, max_contracts: 5, consistency_pct: 50,
+  },
+  {
+    id: 'topstep-100k-combine', firm: 'Topstep', name: '100K Trading Combine', phase: 'evaluation',
+    account_size: 100000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 3000, daily_drawdown: 2000, drawdown_model: 'eod_trailing',
+    profit_target: 6000, min_trading_days: 2, max_contracts: 10, consistency_pct: 50,
+  },
+  {
+    id: 'topstep-150k-combine', firm: 'Topstep', name: '150K Trading Combine', phase: 'evaluation',
+    account_size: 150000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 4500, daily_drawdown: 3000, drawdown_model: 'eod_trailing',
+    profit_target: 9000, min_trading_days: 2, max_contracts: 15, consistency_pct: 50,
+  },
+  {
+    id: 'topstep-50k-xfa', firm: 'Topstep', name: '50K Express Funded', phase: 'funded',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2000, daily_drawdown: 1000, drawdown_model: 'trailing_lock',
+    max_contracts: 5,
+    scaling_rules: {
+      enabled: true,
+      rules: [
+        { profit_threshold: 0, new_contract_limit: 2 },
+        { profit_threshold: 1500, new_contract_limit: 3 },
+        { profit_threshold: 2000, new_contract_limit: 5 },
+      ],
+    },
+    payout: { min_trading_days: 5, min_buffer: 0, min_amount: 125, max_amount: 5000, split_pct: 90 },
+    notes: 'Payouts capped at 50% of the account profit.',
+  },
+
+  // ── Tradeify ────────────────────────────────────────────────
+  {
+    id: 'tradeify-50k-eval', firm: 'Tradeify', name: '50K Advanced Evaluation', phase: 'evaluation',
+    account_size: 50000, version: 1, effective_date: '2024-06-01',
+    max_drawdown: 2000, daily_drawdown: 1250, drawdown_model: 'eod_trailing',
+    profit_target: 3000, min_trading_days: 3, max_contracts: 5,
+  },
+  {
+    id: 'tradeify-50k-funded', firm: 'Tradeify', name: '50K Sim Funded', phase: 'funded',
+    account_size: 50000, version: 1, effective_date: '2024-06-01',
+    max_drawdown: 2000, daily_drawdown: 1250, drawdown_model: 'trailing_lock',
+    max_contracts: 5, consistency_pct: 35,
+    payout: { min_trading_days: 10, min_buffer: 2000, min_amount: 250, max_amount: 2000, split_pct: 90, min_days_between: 7 },
+  },
+
+  // ── Take Profit Trader ──────────────────────────────────────
+  {
+    id: 'tpt-50k-test', firm: 'Take Profit Trader', name: '50K Test', phase: 'evaluation',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2000, daily_drawdown: 0, drawdown_model: 'eod_trailing',
+    profit_target: 3000, min_trading_days: 5, max_contracts: 6, consistency_pct: 50,
+  },
+  {
+    id: 'tpt-50k-pro', firm: 'Take Profit Trader', name: '50K PRO', phase: 'funded',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2000, daily_drawdown: 0, drawdown_model: 'trailing_lock',
+    max_contracts: 6,
+    payout: { min_trading_days: 0, min_buffer: 2000, split_pct: 80 },
+    notes: 'Withdrawals available from day one once the buffer is built.',
+  },
+
+  // ── Bulenox ─────────────────────────────────────────────────
+  {
+    id: 'bulenox-50k-eval', firm: 'Bulenox', name: '50K Qualification', phase: 'evaluation',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2500, daily_drawdown: 0, drawdown_model: 'intraday_trailing',
+    profit_target: 3000, min_trading_days: 1, max_contracts: 7,
+  },
+  {
+    id: 'bulenox-50k-master', firm: 'Bulenox', name: '50K Master', phase: 'funded',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2500, daily_drawdown: 1100, drawdown_model: 'trailing_lock',
+    max_contracts: 7, consistency_pct: 40,
+    payout: { min_trading_days: 10, min_buffer: 2600, min_amount: 1000, max_amount: 1500, split_pct: 90, min_days_between: 7 },
+    notes: 'First $10K of profit is 100% to the trader.',
+  },
+
+  // ── Earn2Trade ──────────────────────────────────────────────
+  {
+    id: 'e2t-50k-gauntlet', firm: 'Earn2Trade', name: '50K Gauntlet Mini', phase: 'evaluation',
+    account_size: 50000, version: 1, effective_date: '2024-01-01',
+    max_drawdown: 2000, daily_drawdown: 1100, drawdown_model: 'eod_trailing',
+    profit_target: 3000, min_trading_days: 10, max_contracts: 6, consistency_pct: 30,
+  },
+];
@@ -0,0 +1,79 @@
+/**
+ * Account Rule Evaluator
+ *
+ * Decides whether a bot account should move from evaluation to passed or
+ * breached, or from funded to breached, based on its trades and the
+ * profit target, minimum trading days, daily loss limit and max drawdown.
+ */
+
+import type { AccountStatusTransition, BotAccount, BotTrade } from '@/types/bots';
+import { computeDrawdown } from '@/lib/drawdown';
+import { findDailyLossBreach } from '@/lib/dailyLoss';
+import { groupByTradingDay } from '@/lib/tradingDay';
+
+/**
+ * Number of distinct trading days with at least one closed trade
+ */
+export function countTradingDays(trades: BotTrade[]): number {
+  return groupByTradingDay(trades.filter(t => t.status === 'closed')).size;
+}
+
+/**
+ * Evaluate an account against its rules and return the status change it
+ * should make, or null if it stays where it is. Only evaluation and
+ * funded accounts are ever moved automatically.
+ */
+export function evaluateAccountStatus(
+  account: BotAccount,
+  trades: BotTrade[]
+): AccountStatusTransition | null {
+  if (account.status !== 'evaluation' && account.status !== 'funded') return null;
+
+  const accountTrades = trades.filter(t => t.bot_account_id === account.id);
+  const now = new Date().toISOString();
+  const fmt = (n: number) => `$${Math.round(n).toLocaleString()}`;
+
+  // Breaches take priority over passing
+  const dd = computeDrawdown(account, accountTrades);
+  if (dd.breached) {
+    return {
+      from: account.status,
+      to: 'breached',
+      at: dd.breachedAt || now,
+      rule: 'max_drawdown',
+      reason: `Balance ${fmt(dd.balance)} reached the liquidation threshold ${fmt(dd.threshold)}`,
+    };
+  }
+
+  const dailyBreach = findDailyLossBreach(account, accountTrades);
+  if (dailyBreach) {
+    return {
+      from: account.status,
+      to: 'breached',
+      at: dailyBreach.breachedAt || now,
+      rule: 'daily_drawdown',
+      reason: `Lost ${fmt(-dailyBreach.low)} on ${dailyBreach.day} (daily limit ${fmt(account.daily_drawdown)})`,
+    };
+  }
+
+  if (account.status === 'evaluation' && account.profit_target && account.profit_target > 0) {
+    const pnl = dd.balance - account.starting_balance;
+    const tradingDays = countTradingDays(accountTrades);
+    const minDays = account.min_trading_days || 0;
+
+    if (pnl >= account.profit_target && tradingDays >= minDays) {
+      const lastTrade = accountTrades
+        .filter(t => t.status === 'closed')
+        .reduce<BotTrade | null>((latest, t) => (!latest || t.timestamp > latest.timestamp ? t : latest), null);
+      return {
+        from: account.status,
+        to: 'passed',
+        at: lastTrade?.timestamp || now,
+        rule: 'profit_target',
+        reason: `Reached ${fmt(pnl)} profit (target ${fmt(account.profit_target)}) over ${tradingDays} trading day${tradingDays !== 1 ? 's' : ''}`,
+      };
+    }
+  }
+
+  return null;
+}
@@ -1,12 +1,13 @@
 /**
  * Backtest CSV Import Utility
  *
- * Parses KLBS backtest trade CSV files and imports them to Supabase.
+ * Parses KLBS backtest trade CSV files and imports them into bot_backtest_trades.
  */
 
 import Papa from 'papaparse';
-import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Repository } from '@/lib/repository';
 import type {
+  BotBacktestTrade,
   BotBacktestTradeFormData,
   LevelType,
   BacktestDirection,
@@ -14,6 +15,8 @@ import type {
   TradingSession,
 } from '@/types/bots';
 
+type BacktestTradeRepository = Repository<BotBacktestTrade, BotBacktestTradeFormData>;
+
 // CSV row structure from klbs_backtest.py output
 interface CSVRow {
   date: string;
@@ -99,10 +102,10 @@ export function parseBacktestCSV(
 }
 
 /**
- * Import trades to Supabase in batches
+ * Import trades in batches
  */
 export async function importTradesToSupabase(
-  supabase: SupabaseClient,
+  backtestTrades: BacktestTradeRepository,
   trades: BotBacktestTradeFormData[],
   onProgress?: (current: number, total: number) => void,
   chunkSize: number = 500
@@ -117,16 +120,8 @@ export async function importTradesToSupabase(
     const chunkNum = Math.floor(i / chunkSize) + 1;
 
     try {
-      const { error, count } = await supabase
-        .from('bot_backtest_trades')
-        .insert(chunk)
-        .select();
-
-      if (error) {
-        errors.push(`Chunk ${chunkNum}/${totalChunks}: ${error.message}`);
-      } else {
-        inserted += chunk.length;
-      }
+      await backtestTrades.insertMany(chunk);
+      inserted += chunk.length;
     } catch (e) {
       errors.push(`Chunk ${chunkNum}/${totalChunks}: ${e instanceof Error ? e.message : 'Unknown error'}`);
     }
@@ -144,21 +139,12 @@ export async function importTradesToSupabase(
  * Delete all backtest trades for a specific bot
  */
 export async function deleteBacktestTradesForBot(
-  supabase: SupabaseClient,
+  backtestTrades: BacktestTradeRepository,
   botId: string
 ): Promise<{ deleted: number; error: string | null }> {
   try {
-    const { count, error } = await supabase
-      .from('bot_backtest_trades')
-      .delete()
-      .eq('bot_id', botId)
-      .select();
-
-    if (error) {
-      return { deleted: 0, error: error.message };
-    }
-
-    return { deleted: count || 0, error: null };
+    const removed = await backtestTrades.removeWhere({ bot_id: botId });
+    return { deleted: removed.length, error: null };
   } catch (e) {
     return { deleted: 0, error: e instanceof Error ? e.message : 'Unknown error' };
   }
@@ -168,7 +154,7 @@ export async function deleteBacktestTradesForBot(
  * Get summary stats for imported backtest trades
  */
 export async function getBacktestTradeStats(
-  supabase: SupabaseClient,
+  backtestTrades: BacktestTradeRepository,
   botId: string
 ): Promise<{
   total: number;
@@ -179,12 +165,7 @@ export async function getBacktestTradeStats(
   years_covered: number[];
 } | null> {
   try {
-    const { data, error } = await supabase
-      .from('bot_backtest_trades')
-      .select('outcome, pnl_usd, month, year')
-      .eq('bot_id', botId);
-
-    if (error || !data) return null;
+    const data = await backtestTrades.list({ where: { bot_id: botId }, columns: ['outcome', 'pnl_usd', 'month', 'year'] });
 
     const wins = data.filter(t => t.outcome === 'WIN').length;
     const losses = data.filter(t => t.outcome === 'LOSS').length;
@@ -0,0 +1,204 @@
+/**
+ * Broker Client
+ *
+ * Common interface over the supported brokers so sync, reconciliation and
+ * the connection panel don't depend on one broker's API. Each adapter
+ * signs in its own way, lists accounts and returns fills, positions and the
+ * cash balance in broker-neutral shapes; fills are paired into round trips
+ * by the shared FIFO pairing.
+ *
+ * Adapters: Tradovate (REST), TradeStation (REST v3, OAuth refresh token)
+ * and NinjaTrader (grid CSV exports, since it has no web API).
+ *
+ * A client signs in either with credentials (the worker, and the connection
+ * form before anything is stored) or by asking for a session for a stored
+ * connection, which the worker signs in to with the decrypted credentials.
+ */
+
+import type { BrokerFill, PairingOptions } from '@/lib/fillPairing';
+import { requestTradovateToken, TradovateBrokerClient } from '@/lib/tradovate';
+import { requestTradeStationToken, TradeStationClient } from '@/lib/tradestation';
+import { NinjaTraderClient } from '@/lib/ninjatrader';
+import type { BrokerAccountInfo, BrokerEnvironment, BrokerType, TradeDirection } from '@/types/bots';
+
+export interface BrokerCredentials {
+  broker: BrokerType;
+  name: string;
+  username: string;
+  password: string;
+  cid?: number;
+  sec?: string;
+  environment: BrokerEnvironment;
+}
+
+// Short-lived broker sign-in: what a stored connection's credentials are
+// exchanged for, so the credentials themselves stay with the worker
+export interface BrokerSession {
+  accessToken: string;
+  expirationTime: string;       // ISO timestamp
+  mdAccessToken?: string;       // Tradovate market data socket
+  userId?: number;              // Tradovate user, for the user sync stream
+}
+
+export interface BrokerPosition {
+  accountId: string;
+  instrument: string;
+  netPos: number;               // signed: long > 0, short < 0
+  netPrice: number;             // average entry price
+  unrealizedPnl?: number;
+}
+
+export interface BrokerBalance {
+  cashBalance: number;
+  realizedPnL: number;          // today's realized P&L
+}
+
+export interface BrokerTrade {
+  // Round-trip trade paired from fills, ready for import
+  timestamp: string;
+  exit_timestamp: string;
+  instrument: string;
+  direction: TradeDirection;
+  entry_price: number;
+  exit_price: number;
+  contracts: number;
+  gross_pnl: number;
+  pnl: number;                  // net of commission
+  commission: number;
+  status: 'closed';
+  fill_id: number;              // last exit fill (unique per round trip)
+  order_id: number;             // exit order
+  account_id: string;
+  exit_fill_ids: number[];      // fills of the exit order, oldest first
+  fill_ids: number[];           // every entry and exit fill in the round trip
+  unpriced?: boolean;           // no contract spec for the instrument: P&L unknown, not imported
+}
+
+export interface BrokerClient {
+  readonly broker: BrokerType;
+  authenticate(): Promise<BrokerSession | void>;
+  getAccounts(): Promise<BrokerAccountInfo[]>;
+  getFills(accountId: string): Promise<BrokerFill[]>;
+  /**
+   * Fills paired into round trips. All fills are paired so positions opened
+   * before `sinceDate` still close correctly; only trades that closed on or
+   * after it are returned.
+   */
+  fetchTrades(accountId: string, sinceDate?: Date, options?: PairingOptions): Promise<BrokerTrade[]>;
+  getPositions(accountId: string): Promise<BrokerPosition[]>;
+  getCashBalance(accountId: string): Promise<BrokerBalance>;
+}
+
+export interface BrokerInfo {
+  label: string;
+  usernameLabel: string;
+  passwordLabel?: string;       // no password: nothing to sign in with
+  secretLabel?: string;         // stored as `sec`
+  environments: boolean;        // separate demo and live servers
+  fileImport: boolean;          // fed from exported files, so never synced unattended
+  liveFeed: boolean;
+}
+
+export const BROKERS: Record<BrokerType, BrokerInfo> = {
+  tradovate: {
+    label: 'Tradovate',
+    usernameLabel: 'Username',
+    passwordLabel: 'Password',
+    environments: true,
+    fileImport: false,
+    liveFeed: true,
+  },
+  tradestation: {
+    label: 'TradeStation',
+    usernameLabel: 'API key',
+    passwordLabel: 'Refresh token',
+    secretLabel: 'API secret',
+    environments: true,
+    fileImport: false,
+    liveFeed: false,
+  },
+  ninjatrader: {
+    label: 'NinjaTrader',
+    usernameLabel: 'Login or machine name',
+    environments: false,
+    fileImport: true,
+    liveFeed: false,
+  },
+};
+
+/**
+ * Brokers the worker can sync without the app open
+ */
+export const UNATTENDED_BROKERS = (Object.keys(BROKERS) as BrokerType[]).filter(b => !BROKERS[b].fileImport);
+
+/**
+ * Client that signs in with credentials. NinjaTrader reads the CSV exports
+ * passed in `files` (executions, accounts and positions grids).
+ */
+export function createBrokerClient(credentials: BrokerCredentials, files: string[] = []): BrokerClient {
+  switch (credentials.broker) {
+    case 'tradovate':
+      return new TradovateBrokerClient(credentials.environment, () => requestTradovateToken(credentials));
+    case 'tradestation':
+      return new TradeStationClient(credentials.environment, () => requestTradeStationToken({
+        clientId: credentials.username,
+        clientSecret: credentials.sec,
+        refreshToken: credentials.password,
+        environment: credentials.environment,
+      }));
+    case 'ninjatrader':
+      return new NinjaTraderClient(files);
+    default:
+      throw new Error(`Unsupported broker: ${credentials.broker}`);
+  }
+}
+
+/**
+ * Client that signs in through `openSession` (called again whenever the
+ * broker rejects the current session)
+ */
+export function createSessionClient(
+  broker: BrokerType,
+  environment: BrokerEnvironment,
+  openSession: () => Promise<BrokerSession>,
+  files: string[] = []
+): BrokerClient {
+  switch (broker) {
+    case 'tradovate':
+      return new TradovateBrokerClient(environment, openSession);
+    case 'tradestation':
+      return new TradeStationClient(environment, openSession);
+    case 'ninjatrader':
+      return new NinjaTraderClient(files);
+    default:
+      throw new Error(`Unsupported broker: ${broker}`);
+  }
+}
+
+/**
+ * Sign in and list accounts to check a connection before it is saved
+ */
+export function testBrokerConnection(
+  credentials: BrokerCredentials,
+  files?: string[]
+): Promise<{ success: boolean; accounts?: BrokerAccountInfo[]; error?: string }> {
+  return testBrokerClient(createBrokerClient(credentials, files));
+}
+
+/**
+ * Sign in and list accounts with a client
+ */
+export async function testBrokerClient(
+  client: BrokerClient
+): Promise<{ success: boolean; accounts?: BrokerAccountInfo[]; error?: string }> {
+  try {
+    await client.authenticate();
+    const accounts = await client.getAccounts();
+    return { success: true, accounts };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Broker Connections
+ *
+ * CRUD for broker_connections. A user can hold several named connections
+ * (demo and live, one per prop firm login); each keeps its username in the
+ * clear and the password and API keys encrypted in credentials_encrypted,
+ * which only the worker can read (see lib/credentials). The rows are read
+ * and written through the broker_connections repository; the Supabase
+ * client is only needed to encrypt credentials and open broker sessions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { encryptCredentials, openBrokerSession } from '@/lib/credentials';
+import { createSessionClient, type BrokerClient, type BrokerCredentials } from '@/lib/brokerClient';
+import type { Repository } from '@/lib/repository';
+import type { BrokerAccountInfo, BrokerConnection, BrokerConnectionFormData } from '@/types/bots';
+
+type ConnectionRepository = Repository<BrokerConnection>;
+
+/**
+ * Whether the connection holds credentials the worker can sign in with
+ */
+export function hasStoredCredentials(connection: BrokerConnection): boolean {
+  return !!connection.credentials_encrypted;
+}
+
+/**
+ * Broker client for a stored connection, signed in by the worker.
+ * File-based brokers read `files`.
+ */
+export function createConnectionClient(supabase: SupabaseClient, connection: BrokerConnection, files?: string[]): BrokerClient {
+  return createSessionClient(connection.broker, connection.environment, () => openBrokerSession(supabase, connection.id), files);
+}
+
+/**
+ * Broker credentials from the connection form, before they are stored
+ */
+export function formToCredentials(form: BrokerConnectionFormData): BrokerCredentials {
+  return {
+    broker: form.broker,
+    name: form.name,
+    username: form.username,
+    password: form.password,
+    cid: form.cid,
+    sec: form.sec,
+    environment: form.environment,
+  };
+}
+
+/**
+ * All of the user's connections, oldest first
+ */
+export async function fetchBrokerConnections(connections: ConnectionRepository): Promise<BrokerConnection[]> {
+  return connections.list({ order: { column: 'created_at', ascending: true } });
+}
+
+/**
+ * Store a new connection with its credentials encrypted
+ */
+export async function createBrokerConnection(
+  connections: ConnectionRepository,
+  supabase: SupabaseClient,
+  userId: string,
+  form: BrokerConnectionFormData,
+  accounts: BrokerAccountInfo[]
+): Promise<BrokerConnection> {
+  return connections.insert({
+    user_id: userId,
+    broker: form.broker,
+    name: form.name || form.username,
+    environment: form.environment,
+    username: form.username,
+    credentials_encrypted: await encryptCredentials(supabase, { password: form.password, cid: form.cid, sec: form.sec }),
+    broker_accounts: accounts,
+  });
+}
+
+/**
+ * Update a connection. Credentials are re-encrypted only when a new
+ * password is given.
+ */
+export async function updateBrokerConnection(
+  connections: ConnectionRepository,
+  supabase: SupabaseClient,
+  id: string,
+  form: Partial<BrokerConnectionFormData>,
+  accounts?: BrokerAccountInfo[]
+): Promise<BrokerConnection> {
+  const { password, cid, sec, ...fields } = form;
+  const updates: Partial<BrokerConnection> = { ...fields };
+  if (password) updates.credentials_encrypted = await encryptCredentials(supabase, { password, cid, sec });
+  if (accounts) updates.broker_accounts = accounts;
+  return connections.update(id, updates);
+}
+
+/**
+ * Record the outcome of a sync on the connection
+ */
+export async function recordConnectionSync(
+  connections: ConnectionRepository,
+  id: string,
+  error: string | null
+): Promise<void> {
+  // Best effort: a sync's result stands even when it can't be recorded
+  await connections
+    .update(id, error ? { last_error: error } : { last_sync_at: new Date().toISOString(), last_error: null })
+    .catch(() => undefined);
+}
+
+/**
+ * Delete a connection (its account mappings cascade)
+ */
+export async function deleteBrokerConnection(connections: ConnectionRepository, id: string): Promise<void> {
+  await connections.remove(id);
+}
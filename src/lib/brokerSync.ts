@@ -0,0 +1,220 @@
+/**
+ * Broker Sync
+ *
+ * Incremental, idempotent import of broker round trips into bot_trades.
+ * Each broker_account_mappings row carries a fill cursor (last_fill_id):
+ * a sync imports only round trips that closed after it, skips any whose
+ * closing fill is already stored for the account, and records its progress
+ * or error on the mapping so the next sync resumes where this one stopped.
+ */
+
+import { BROKERS, type BrokerClient, type BrokerTrade } from '@/lib/brokerClient';
+import type { ImportSourceInfo } from '@/lib/importBatches';
+import type { Repository } from '@/lib/repository';
+import type {
+  BotTrade,
+  BotTradeFormData,
+  BrokerAccountMapping,
+  BrokerMappingFormData,
+  BrokerType,
+} from '@/types/bots';
+
+type MappingRepository = Repository<BrokerAccountMapping>;
+type BotTradeRepository = Repository<BotTrade, BotTradeFormData>;
+
+export interface MappingSyncResult {
+  mappingId: string;
+  imported: number;
+  skipped: number;              // already stored for the account
+  lastFillId?: number;
+  error?: string;
+  warning?: string;             // round trips left out, e.g. for want of a contract spec
+}
+
+/**
+ * Round trips that closed after the cursor. A trade with any exit fill at
+ * or below the cursor was (at least partly) imported by an earlier sync.
+ * Those already stored for the account are skipped by the caller.
+ */
+export function selectNewTrades(trades: BrokerTrade[], lastFillId: number | null | undefined): BrokerTrade[] {
+  return trades.filter(t => Math.min(...t.exit_fill_ids) > (lastFillId ?? 0));
+}
+
+/**
+ * Round trips that can be stored, and a note naming the instruments whose
+ * round trips were left out because their P&L can't be priced
+ */
+export function splitUnpriced(trades: BrokerTrade[]): { priced: BrokerTrade[]; warning?: string } {
+  const counts = new Map<string, number>();
+  trades.filter(t => t.unpriced).forEach(t => counts.set(t.instrument, (counts.get(t.instrument) || 0) + 1));
+  if (counts.size === 0) return { priced: trades };
+
+  const left = [...counts].map(([instrument, count]) => `${instrument} (${count} round trip${count === 1 ? '' : 's'})`);
+  return {
+    priced: trades.filter(t => !t.unpriced),
+    warning: `No contract spec, not imported: ${left.join(', ')}`,
+  };
+}
+
+/**
+ * Cursor after a sync: the newest closing fill of the round trips it
+ * selected, never moving backwards. It stays below the first round trip
+ * left out for want of a contract spec, so that one is selected again (and
+ * imported once a spec exists); trades after it are deduped on their fill id.
+ */
+export function nextFillCursor(trades: BrokerTrade[], lastFillId: number | null | undefined): number | undefined {
+  const newest = trades
+    .filter(t => !t.unpriced)
+    .reduce<number | undefined>((max, t) => (max === undefined || t.fill_id > max ? t.fill_id : max), lastFillId ?? undefined);
+  const held = trades.filter(t => t.unpriced).map(t => Math.min(...t.exit_fill_ids) - 1);
+  return newest === undefined || held.length === 0 ? newest : Math.min(newest, ...held);
+}
+
+/**
+ * bot_trades row for a synced round trip
+ */
+export function toBotTrade(
+  trade: BrokerTrade,
+  mapping: Pick<BrokerAccountMapping, 'bot_account_id' | 'broker_connection_id'>,
+  botId: string,
+  broker: BrokerType = 'tradovate'
+): BotTradeFormData {
+  return {
+    bot_id: botId,
+    bot_account_id: mapping.bot_account_id,
+    broker_connection_id: mapping.broker_connection_id,
+    external_id: `${broker}-${trade.fill_id}`,
+    tradovate_fill_id: trade.fill_id,
+    tradovate_order_id: trade.order_id,
+    timestamp: trade.timestamp,
+    instrument: trade.instrument,
+    direction: trade.direction,
+    entry_price: trade.entry_price,
+    exit_price: trade.exit_price,
+    contracts: trade.contracts,
+    pnl: trade.pnl,
+    commission: trade.commission,
+    status: trade.status,
+    source: 'broker',
+    raw_payload: {
+      broker,
+      fill_id: trade.fill_id,
+      order_id: trade.order_id,
+      account_id: trade.account_id,
+      exit_timestamp: trade.exit_timestamp,
+      gross_pnl: trade.gross_pnl,
+      fill_ids: trade.fill_ids,
+    },
+  };
+}
+
+/**
+ * Import batch details for a sync that found `fetched` new round trips,
+ * `duplicates` of them already stored
+ */
+export function brokerImportSource(
+  mapping: Pick<BrokerAccountMapping, 'broker_account_name'>,
+  broker: BrokerType,
+  fetched: number,
+  duplicates: number
+): ImportSourceInfo {
+  return {
+    source: 'broker',
+    source_name: `${BROKERS[broker].label} ${mapping.broker_account_name}`,
+    format: 'Broker sync',
+    row_count: fetched,
+    skipped_count: 0,
+    duplicate_count: duplicates,
+  };
+}
+
+/**
+ * Sync one mapping: pull and pair its fills, import new round trips via
+ * `importTrades` (as one import batch) and persist the cursor, or the
+ * error, on the mapping. Never throws; failures are returned and stored in
+ * last_error.
+ */
+export async function syncBrokerMapping(
+  repositories: { botTrades: BotTradeRepository; brokerMappings: MappingRepository },
+  client: BrokerClient,
+  mapping: BrokerAccountMapping,
+  botId: string,
+  importTrades: (trades: BotTradeFormData[], source?: ImportSourceInfo) => Promise<BotTrade[]>
+): Promise<MappingSyncResult> {
+  try {
+    // Pair every fill so positions opened before the cursor close correctly
+    const trades = await client.fetchTrades(mapping.broker_account_id);
+    const selected = selectNewTrades(trades, mapping.last_fill_id);
+    const { priced: candidates, warning } = splitUnpriced(selected);
+
+    const stored = new Set<number>();
+    if (candidates.length > 0) {
+      const rows = await repositories.botTrades.list({
+        where: { bot_account_id: mapping.bot_account_id },
+        whereIn: { column: 'tradovate_fill_id', values: candidates.map(t => t.fill_id) },
+        columns: ['tradovate_fill_id'],
+      });
+      rows.forEach(row => stored.add(row.tradovate_fill_id!));
+    }
+
+    const fresh = candidates.filter(t => !stored.has(t.fill_id));
+    const inserted = await importTrades(
+      fresh.map(t => toBotTrade(t, mapping, botId, client.broker)),
+      brokerImportSource(mapping, client.broker, candidates.length, stored.size)
+    );
+    const lastFillId = nextFillCursor(selected, mapping.last_fill_id);
+
+    await repositories.brokerMappings.update(mapping.id, {
+      last_fill_id: lastFillId,
+      last_sync_at: new Date().toISOString(),
+      last_error: warning ?? null,
+    });
+
+    return {
+      mappingId: mapping.id,
+      imported: inserted.length,
+      skipped: candidates.length - inserted.length,
+      lastFillId,
+      warning,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Sync failed';
+    // The error is returned even when it can't be stored
+    await repositories.brokerMappings.update(mapping.id, { last_error: message }).catch(() => undefined);
+    return { mappingId: mapping.id, imported: 0, skipped: 0, lastFillId: mapping.last_fill_id ?? undefined, error: message };
+  }
+}
+
+/**
+ * Account mappings for one connection, or for all of the user's connections
+ */
+export async function fetchBrokerMappings(
+  mappings: MappingRepository,
+  connectionId?: string
+): Promise<BrokerAccountMapping[]> {
+  return mappings.list(connectionId ? { where: { broker_connection_id: connectionId } } : {});
+}
+
+/**
+ * Link a broker account to a bot account. Re-linking to a different bot
+ * account resets the cursor so that account gets the full history.
+ */
+export async function saveBrokerMapping(
+  mappings: MappingRepository,
+  mapping: Pick<BrokerMappingFormData, 'broker_connection_id' | 'bot_account_id' | 'broker_account_id' | 'broker_account_name'>,
+  existing?: BrokerAccountMapping
+): Promise<BrokerAccountMapping> {
+  const relinked = existing && existing.bot_account_id !== mapping.bot_account_id;
+  const [saved] = await mappings.upsertMany(
+    [{ ...mapping, ...(relinked ? { last_fill_id: null, last_sync_at: null, last_error: null } : {}) }],
+    { onConflict: ['broker_connection_id', 'broker_account_id'] }
+  );
+  return saved;
+}
+
+/**
+ * Remove a broker account link
+ */
+export async function deleteBrokerMapping(mappings: MappingRepository, mappingId: string): Promise<void> {
+  await mappings.remove(mappingId);
+}
@@ -0,0 +1,147 @@
+/**
+ * Consistency Rule
+ *
+ * Many firms only pay out when no single day makes up more than a set
+ * share (e.g. 30-40%) of total profit. Evaluates that rule from daily P&L
+ * for bot accounts (grouped by CME trading day) and journal accounts
+ * (grouped by trade date, including their share of split trades).
+ */
+
+import { format } from 'date-fns';
+import type { BotAccount, BotTrade } from '@/types/bots';
+import type { Account, Trade } from '@/types';
+import { getBotAccountRules, getJournalAccountRules } from '@/lib/propFirmRules';
+import { getTradingDay, groupByTradingDay } from '@/lib/tradingDay';
+
+export interface DailyPnl {
+  day: string;
+  pnl: number;
+}
+
+export interface ConsistencyState {
+  limitPct: number;
+  totalProfit: number;
+  bestDay: DailyPnl | null;
+  bestDaySharePct: number;    // best day as a share of total profit
+  eligible: boolean;          // best day is within the limit
+  profitNeeded: number;       // more profit (without a bigger day) needed to become eligible
+  todayPnl: number;
+  todayCap: number;           // most today can make without breaking the rule
+  todayBreaks: boolean;       // today's P&L already puts it over the limit
+}
+
+/**
+ * Evaluate the consistency rule from daily P&L.
+ *
+ * With total profit P, best day B and limit p, the account is eligible
+ * when B <= p * P, so it needs B / p - P more profit. Today can make at
+ * most T where T <= p * (P_other + T), i.e. p * P_other / (1 - p).
+ */
+export function evaluateConsistency(days: DailyPnl[], limitPct: number, today: string): ConsistencyState {
+  const share = limitPct / 100;
+  const totalProfit = days.reduce((sum, d) => sum + d.pnl, 0);
+  const bestDay = days.reduce<DailyPnl | null>((best, d) => (d.pnl > 0 && (!best || d.pnl > best.pnl) ? d : best), null);
+  const todayPnl = days.find(d => d.day === today)?.pnl ?? 0;
+
+  const bestPnl = bestDay?.pnl ?? 0;
+  const bestDaySharePct = totalProfit > 0 ? (bestPnl / totalProfit) * 100 : 0;
+  const eligible = totalProfit > 0 && bestPnl <= share * totalProfit;
+  const profitNeeded = share > 0 ? Math.max(0, bestPnl / share - totalProfit) : 0;
+
+  const otherDays = days.filter(d => d.day !== today);
+  const otherProfit = otherDays.reduce((sum, d) => sum + d.pnl, 0);
+  const otherBest = otherDays.reduce((best, d) => Math.max(best, d.pnl), 0);
+  const todayCap = share >= 1 ? Infinity : Math.max(0, (share * otherProfit) / (1 - share));
+
+  return {
+    limitPct,
+    totalProfit,
+    bestDay,
+    bestDaySharePct,
+    eligible,
+    profitNeeded,
+    todayPnl,
+    todayCap,
+    // Only flag today when today itself is what breaks the rule
+    todayBreaks: todayPnl > 0 && todayPnl > otherBest && todayPnl > todayCap,
+  };
+}
+
+/**
+ * Consistency limit for a bot account: its own setting, then its preset
+ */
+export function getBotConsistencyPct(
+  account: Pick<BotAccount, 'consistency_pct' | 'rule_preset_id' | 'start_date'>
+): number | undefined {
+  return account.consistency_pct ?? getBotAccountRules(account)?.consistency_pct;
+}
+
+/**
+ * Consistency limit for a journal account: its own setting, then its preset
+ */
+export function getJournalConsistencyPct(
+  account: Pick<Account, 'consistencyPct' | 'rulePresetId' | 'startDate'>
+): number | undefined {
+  return account.consistencyPct ?? getJournalAccountRules(account)?.consistency_pct;
+}
+
+/**
+ * Consistency state for a bot account, or null if it has no rule
+ */
+export function getBotConsistency(
+  account: BotAccount,
+  trades: BotTrade[],
+  now: Date = new Date()
+): ConsistencyState | null {
+  const limitPct = getBotConsistencyPct(account);
+  if (!limitPct) return null;
+
+  const closed = trades.filter(t => t.bot_account_id === account.id && t.status === 'closed');
+  const days = [...groupByTradingDay(closed)].map(([day, dayTrades]) => ({
+    day,
+    pnl: dayTrades.reduce((sum, t) => sum + (t.pnl || 0), 0),
+  }));
+  return evaluateConsistency(days, limitPct, getTradingDay(now));
+}
+
+/**
+ * Daily P&L for a journal account. Split trades are shared equally between
+ * the accounts active at the time, the same way account P&L is recalculated.
+ */
+export function getJournalDailyPnl(account: Account, accounts: Account[], trades: Trade[]): DailyPnl[] {
+  const activeAccounts = accounts.filter(a =>
+    (a.type === 'funded' && a.status === 'active') ||
+    (a.type === 'evaluation' && a.status === 'in_progress')
+  );
+  const isActive = activeAccounts.some(a => a.id === account.id);
+
+  const byDay = new Map<string, number>();
+  trades.forEach(t => {
+    let pnl = 0;
+    if (t.accountId === account.id) {
+      pnl = t.pnl || 0;
+    } else if (t.accountId === 'split' && isActive && t.date >= account.startDate) {
+      const accountsAtTradeTime = activeAccounts.filter(a => a.startDate <= t.date).length;
+      if (accountsAtTradeTime > 0) pnl = (t.pnl || 0) / accountsAtTradeTime;
+    } else {
+      return;
+    }
+    byDay.set(t.date, (byDay.get(t.date) || 0) + pnl);
+  });
+
+  return [...byDay].map(([day, pnl]) => ({ day, pnl }));
+}
+
+/**
+ * Consistency state for a journal account, or null if it has no rule
+ */
+export function getJournalConsistency(
+  account: Account,
+  accounts: Account[],
+  trades: Trade[],
+  now: Date = new Date()
+): ConsistencyState | null {
+  const limitPct = getJournalConsistencyPct(account);
+  if (!limitPct) return null;
+  return evaluateConsistency(getJournalDailyPnl(account, accounts, trades), limitPct, format(now, 'yyyy-MM-dd'));
+}
@@ -0,0 +1,50 @@
+/**
+ * Broker Credentials
+ *
+ * Broker passwords and API keys are encrypted and decrypted by the worker,
+ * which alone holds the key (its BROKER_CREDENTIALS_KEY secret). The app
+ * sends credentials to be encrypted for broker_connections.credentials_encrypted,
+ * and asks the worker for a broker session when it needs to talk to a
+ * stored connection's broker; the decrypted credentials never reach the
+ * browser.
+ *
+ * Requests carry the user's Supabase access token, and the worker only
+ * opens sessions for the caller's own connections.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BrokerSession } from '@/lib/brokerClient';
+
+const API_URL = import.meta.env.VITE_R2_API_URL || 'https://proptracker-api.ethhartwell.workers.dev';
+
+async function post<T>(supabase: SupabaseClient, path: string, body: unknown): Promise<T> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error('Sign in to use broker connections');
+
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || `Broker credentials request failed (${response.status})`);
+  return result as T;
+}
+
+/**
+ * Encrypt a credentials object for storage
+ */
+export async function encryptCredentials(supabase: SupabaseClient, secret: Record<string, unknown>): Promise<string> {
+  const { credentials_encrypted } = await post<{ credentials_encrypted: string }>(supabase, '/broker/credentials', secret);
+  return credentials_encrypted;
+}
+
+/**
+ * Have the worker sign in to a stored connection's broker
+ */
+export function openBrokerSession(supabase: SupabaseClient, connectionId: string): Promise<BrokerSession> {
+  return post<BrokerSession>(supabase, `/broker/connections/${encodeURIComponent(connectionId)}/session`, {});
+}
@@ -0,0 +1,711 @@
+/**
+ * Trade CSV Import
+ *
+ * Reads trade exports from the common futures platforms through named
+ * presets. Each preset maps the exact column headers of one report:
+ *
+ *   - Performance reports hold one row per round trip (entry, exit, P&L).
+ *   - Orders / fills reports hold one row per execution; rows are paired
+ *     into round trips with the shared FIFO pairing, so P&L comes from the
+ *     contract specs.
+ *
+ * Export times carry no zone, so each preset names the zone its platform
+ * writes them in ('local' for the computer the export was made on); times
+ * with an explicit offset are used as they are. A preset is picked by the
+ * user or detected from the header row; exports no preset knows fall back
+ * to guessing columns by name, and the import wizard builds (and saves)
+ * custom presets from its column mapping.
+ */
+
+import Papa from 'papaparse';
+import { format, isValid, parse } from 'date-fns';
+import { pairFills, type BrokerFill } from '@/lib/fillPairing';
+import { getContractSpec } from '@/data/contractSpecs';
+import { parseInstrumentFromContract } from '@/lib/tradovate';
+import type { BotTradeFormData, TradeDirection } from '@/types/bots';
+import type { Trade } from '@/types';
+
+type Row = Record<string, string>;
+
+// A column is named by its exact header; aliases cover renamed versions
+type Column = string | string[];
+
+export type ImportReport = 'performance' | 'fills';
+
+export interface PerformanceColumns {
+  instrument: Column;
+  contracts: Column;
+  pnl: Column;
+  commission?: Column;
+  // Entry and exit with a side column...
+  direction?: Column;
+  entryPrice?: Column;
+  exitPrice?: Column;
+  entryTime?: Column;
+  exitTime?: Column;
+  // ...or buy and sell legs, whichever came first being the entry
+  buyPrice?: Column;
+  sellPrice?: Column;
+  buyTime?: Column;
+  sellTime?: Column;
+}
+
+export interface FillColumns {
+  instrument: Column;
+  side: Column;
+  qty: Column;
+  price: Column;
+  time: Column;
+  orderId?: Column;
+}
+
+interface PresetBase {
+  id: string;
+  label: string;
+  platform: string;
+  timeZone: string;             // IANA zone or 'local'
+  dateFormats?: string[];       // date-fns formats to use instead of the common ones
+  invertPnl?: boolean;          // export shows losses as positive amounts
+}
+
+export interface PerformancePreset extends PresetBase {
+  report: 'performance';
+  columns: PerformanceColumns;
+  pnlIsGross?: boolean;         // P&L before commission; net = pnl - commission
+}
+
+export interface FillsPreset extends PresetBase {
+  report: 'fills';
+  columns: FillColumns;
+}
+
+export type ImportPreset = PerformancePreset | FillsPreset;
+
+export interface ImportedTrade {
+  timestamp: string;            // entry, ISO
+  exit_timestamp?: string;
+  instrument: string;           // root symbol, e.g. 'MNQ'
+  direction: TradeDirection;
+  entry_price: number;
+  exit_price?: number;
+  contracts: number;
+  pnl: number;                  // net of commission
+  commission?: number;
+}
+
+export interface ImportRowError {
+  row: number;                  // line in the file, header row being 1
+  message: string;
+}
+
+export interface ImportResult {
+  preset: ImportPreset;
+  trades: ImportedTrade[];
+  errors: ImportRowError[];     // rows that were skipped, and why
+  openContracts: number;        // fills reports: contracts still open at the end
+}
+
+export interface SavedImportMapping {
+  name: string;
+  preset: ImportPreset;
+  saved_at: string;
+}
+
+export interface ImportField<K extends string> {
+  key: K;
+  label: string;
+  required?: boolean;
+}
+
+export const PERFORMANCE_FIELDS: ImportField<keyof PerformanceColumns>[] = [
+  { key: 'instrument', label: 'Instrument', required: true },
+  { key: 'contracts', label: 'Contracts' },
+  { key: 'pnl', label: 'P&L', required: true },
+  { key: 'commission', label: 'Commission' },
+  { key: 'direction', label: 'Side (long / short)' },
+  { key: 'entryTime', label: 'Entry time' },
+  { key: 'exitTime', label: 'Exit time' },
+  { key: 'entryPrice', label: 'Entry price' },
+  { key: 'exitPrice', label: 'Exit price' },
+  { key: 'buyTime', label: 'Buy time' },
+  { key: 'sellTime', label: 'Sell time' },
+  { key: 'buyPrice', label: 'Buy price' },
+  { key: 'sellPrice', label: 'Sell price' },
+];
+
+export const FILL_FIELDS: ImportField<keyof FillColumns>[] = [
+  { key: 'instrument', label: 'Instrument', required: true },
+  { key: 'side', label: 'Side (buy / sell)', required: true },
+  { key: 'qty', label: 'Filled quantity', required: true },
+  { key: 'price', label: 'Fill price', required: true },
+  { key: 'time', label: 'Fill time', required: true },
+  { key: 'orderId', label: 'Order ID' },
+];
+
+export interface ImportOptions {
+  timeZone?: string;            // overrides the preset's zone
+}
+
+// Picker value for "detect from the header row"
+export const AUTO_PRESET = 'auto';
+
+export const IMPORT_TIME_ZONES = [
+  { value: 'local', label: 'This computer' },
+  { value: 'America/New_York', label: 'New York (ET)' },
+  { value: 'America/Chicago', label: 'Chicago (CT)' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'tradovate-performance',
+    label: 'Tradovate Performance',
+    platform: 'Tradovate',
+    report: 'performance',
+    timeZone: 'local',
+    columns: {
+      instrument: 'symbol',
+      contracts: 'qty',
+      pnl: 'pnl',
+      buyPrice: 'buyPrice',
+      sellPrice: 'sellPrice',
+      buyTime: 'boughtTimestamp',
+      sellTime: 'soldTimestamp',
+    },
+  },
+  {
+    id: 'tradovate-orders',
+    label: 'Tradovate Orders',
+    platform: 'Tradovate',
+    report: 'fills',
+    timeZone: 'local',
+    columns: {
+      instrument: 'Contract',
+      side: 'B/S',
+      qty: ['filledQty', 'Filled Qty'],
+      price: ['avgPrice', 'Avg Fill Price'],
+      time: 'Fill Time',
+      orderId: ['orderId', 'Order ID'],
+    },
+  },
+  {
+    id: 'ninjatrader-trades',
+    label: 'NinjaTrader Trade Performance',
+    platform: 'NinjaTrader',
+    report: 'performance',
+    timeZone: 'local',
+    columns: {
+      instrument: 'Instrument',
+      contracts: 'Qty',
+      pnl: 'Profit',
+      commission: 'Commission',
+      direction: 'Market pos.',
+      entryPrice: 'Entry price',
+      exitPrice: 'Exit price',
+      entryTime: 'Entry time',
+      exitTime: 'Exit time',
+    },
+  },
+  {
+    id: 'ninjatrader-executions',
+    label: 'NinjaTrader Executions',
+    platform: 'NinjaTrader',
+    report: 'fills',
+    timeZone: 'local',
+    columns: {
+      instrument: 'Instrument',
+      side: 'Action',
+      qty: 'Quantity',
+      price: 'Price',
+      time: 'Time',
+      orderId: 'Order ID',
+    },
+  },
+  {
+    id: 'rithmic-orders',
+    label: 'Rithmic R|Trader Orders',
+    platform: 'Rithmic R|Trader Pro',
+    report: 'fills',
+    timeZone: 'America/Chicago',
+    columns: {
+      instrument: 'Symbol',
+      side: 'Buy/Sell',
+      qty: 'Qty Filled',
+      price: 'Avg Fill Price',
+      time: ['Update Time', 'Update Time (CT)', 'Update Time (CST)', 'Update Time (CDT)'],
+      orderId: 'Order Number',
+    },
+  },
+  {
+    id: 'topstepx-trades',
+    label: 'TopstepX Trades',
+    platform: 'TopstepX',
+    report: 'performance',
+    timeZone: 'America/New_York',
+    columns: {
+      instrument: 'ContractName',
+      contracts: 'Size',
+      pnl: 'PnL',
+      commission: 'Fees',
+      direction: 'Type',
+      entryPrice: 'EntryPrice',
+      exitPrice: 'ExitPrice',
+      entryTime: 'EnteredAt',
+      exitTime: 'ExitedAt',
+    },
+    pnlIsGross: true,
+  },
+  {
+    id: 'topstepx-orders',
+    label: 'TopstepX Orders',
+    platform: 'TopstepX',
+    report: 'fills',
+    timeZone: 'America/New_York',
+    columns: {
+      instrument: 'ContractName',
+      side: 'Side',
+      qty: 'Size',
+      price: 'ExecutePrice',
+      time: 'FilledAt',
+      orderId: 'Id',
+    },
+  },
+];
+
+// Common export time layouts, US month-first before day-first
+export const IMPORT_DATE_FORMATS = [
+  'M/d/yyyy H:mm:ss',
+  'M/d/yyyy H:mm:ss.SSS',
+  'M/d/yyyy h:mm:ss a',
+  'M/d/yyyy H:mm',
+  'M/d/yyyy h:mm a',
+  'M/d/yy H:mm:ss',
+  'yyyy-MM-dd HH:mm:ss',
+  "yyyy-MM-dd'T'HH:mm:ss",
+  "yyyy-MM-dd'T'HH:mm:ss.SSS",
+  'yyyy-MM-dd HH:mm',
+  'd/M/yyyy H:mm:ss',
+  'M/d/yyyy',
+  'yyyy-MM-dd',
+];
+
+// Ends in 'Z' or an offset like '-05:00' / '+0100'
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+// Layouts with an offset the JS date parser doesn't take
+const OFFSET_FORMATS = ['M/d/yyyy H:mm:ss XXX', 'M/d/yyyy h:mm:ss a XXX', 'M/d/yyyy H:mm:ss xx'];
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase();
+
+/**
+ * Amount from an export cell: '$1,234.50', '(12.50)', '-12.5'
+ */
+export function parseAmount(value: string | undefined): number {
+  if (value === undefined) return NaN;
+  const trimmed = value.trim();
+  if (!trimmed) return NaN;
+  const negative = /^\$?\(.*\)$/.test(trimmed);
+  const num = parseFloat(trimmed.replace(/[^0-9.-]/g, ''));
+  if (isNaN(num)) return NaN;
+  return negative ? -Math.abs(num) : num;
+}
+
+/**
+ * Milliseconds a zone is ahead of UTC at an instant
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  });
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (instant - (instant % 1000));
+}
+
+/**
+ * Instant a wall-clock time in `timeZone` refers to. `wallClock` holds the
+ * time in its local fields, as date-fns `parse` returns it.
+ */
+export function fromZonedTime(wallClock: Date, timeZone: string): Date {
+  if (timeZone === 'local') return wallClock;
+  const wall = Date.UTC(
+    wallClock.getFullYear(), wallClock.getMonth(), wallClock.getDate(),
+    wallClock.getHours(), wallClock.getMinutes(), wallClock.getSeconds(), wallClock.getMilliseconds()
+  );
+  // Second pass settles times next to a DST change
+  const first = wall - zoneOffset(wall, timeZone);
+  return new Date(wall - zoneOffset(first, timeZone));
+}
+
+/**
+ * ISO timestamp for an export time written in `timeZone`
+ */
+export function parseImportTime(value: string, timeZone: string, dateFormats: string[] = []): string {
+  const trimmed = value.trim();
+  if (HAS_OFFSET.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (!isNaN(date.getTime())) return date.toISOString();
+    for (const pattern of OFFSET_FORMATS) {
+      const withOffset = parse(trimmed, pattern, new Date());
+      if (isValid(withOffset)) return withOffset.toISOString();
+    }
+  }
+  for (const pattern of dateFormats.length > 0 ? dateFormats : IMPORT_DATE_FORMATS) {
+    const date = parse(trimmed, pattern, new Date());
+    if (isValid(date)) return fromZonedTime(date, timeZone).toISOString();
+  }
+  throw new Error(`Unrecognised time "${value}"`);
+}
+
+/**
+ * Root symbol for a contract as exported ('MNQZ4', 'MNQ 12-24', '/MNQZ24', 'F.US.MNQZ24')
+ */
+export function parseImportInstrument(value: string): string {
+  const symbol = value.trim().toUpperCase().split(/\s+/)[0].replace(/^[@/]/, '').replace(/^F\.US\./, '');
+  return parseInstrumentFromContract(symbol);
+}
+
+/**
+ * Side of a fill or trade as exported ('Buy', 'B', 'Bid', 'Long', 'Sell',
+ * 'SellShort', 'Ask', '-1'...); undefined when it can't be told
+ */
+export function parseSide(value: string): 'Buy' | 'Sell' | undefined {
+  const side = value.trim().toLowerCase();
+  if (/^(b|l|\+?1$)/.test(side)) return 'Buy';     // buy, bid, long
+  if (/^(s|a|-)/.test(side)) return 'Sell';         // sell, short, ask, -1
+  return undefined;
+}
+
+/**
+ * Split CSV text into its header row and rows keyed by header
+ */
+export function parseImportCsv(text: string): { headers: string[]; rows: Row[] } {
+  const { data, meta } = Papa.parse<Row>(text.trim(), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: h => h.trim(),
+  });
+  return { headers: meta.fields || [], rows: data };
+}
+
+/**
+ * Header a column is exported under, if the header row has it
+ */
+function resolveColumn(headers: string[], column: Column | undefined): string | undefined {
+  if (!column) return undefined;
+  const names = (Array.isArray(column) ? column : [column]).map(normalizeHeader);
+  return headers.find(h => names.includes(normalizeHeader(h)));
+}
+
+/**
+ * Whether every column a preset maps is in the header row
+ */
+export function matchesPreset(preset: ImportPreset, headers: string[]): boolean {
+  return Object.values(preset.columns).every(column => resolveColumn(headers, column) !== undefined);
+}
+
+/**
+ * Preset whose columns the header row holds; the most specific wins.
+ * Saved mappings can be passed in to be detected too.
+ */
+export function detectPreset(headers: string[], extra: ImportPreset[] = []): ImportPreset | undefined {
+  return [...extra, ...IMPORT_PRESETS]
+    .filter(p => matchesPreset(p, headers))
+    .sort((a, b) => Object.keys(b.columns).length - Object.keys(a.columns).length)[0];
+}
+
+/**
+ * Performance preset built by guessing columns from their names, for
+ * exports no preset knows
+ */
+export function guessPreset(headers: string[]): PerformancePreset {
+  const find = (...names: string[]) =>
+    headers.find(h => names.some(n => normalizeHeader(h).includes(n))) || '';
+
+  return {
+    id: 'guess',
+    label: 'Other (guess columns)',
+    platform: 'Other',
+    report: 'performance',
+    timeZone: 'local',
+    columns: {
+      instrument: find('instrument', 'symbol', 'ticker', 'contract'),
+      contracts: find('qty', 'quantity', 'size', 'lot', 'filled'),
+      pnl: find('pnl', 'p&l', 'profit', 'net', 'realized', 'gain'),
+      direction: find('direction', 'side', 'b/s', 'action', 'type', 'market pos'),
+      entryPrice: find('entry', 'avg', 'fill', 'price'),
+      exitPrice: find('exit', 'close'),
+      entryTime: find('date', 'exec', 'timestamp', 'time'),
+    },
+  };
+}
+
+/**
+ * A preset's columns as the headers of this file, leaving out columns the
+ * file doesn't have; the starting point for editing a mapping
+ */
+export function resolvePreset<P extends ImportPreset>(preset: P, headers: string[]): P {
+  const columns = Object.fromEntries(
+    Object.entries(preset.columns)
+      .map(([key, column]) => [key, resolveColumn(headers, column)])
+      .filter(([, header]) => header)
+  );
+  return { ...preset, columns } as P;
+}
+
+/**
+ * A preset's columns by field key
+ */
+export function mappedColumns(preset: ImportPreset): Partial<Record<string, Column>> {
+  return { ...preset.columns };
+}
+
+/**
+ * What keeps a mapping from being read: required columns left unmapped
+ */
+export function mappingProblems(preset: ImportPreset): string[] {
+  const columns = mappedColumns(preset);
+  const mapped = (key: string) => !!columns[key];
+  const fields: ImportField<string>[] = preset.report === 'fills' ? FILL_FIELDS : PERFORMANCE_FIELDS;
+  const problems = fields.filter(f => f.required && !mapped(f.key)).map(f => `Map a column to ${f.label}`);
+
+  if (preset.report === 'performance') {
+    const legs = mapped('buyPrice') || mapped('sellPrice');
+    if (legs && !(mapped('buyPrice') && mapped('sellPrice') && mapped('buyTime') && mapped('sellTime'))) {
+      problems.push('Buy and sell legs need both prices and both times');
+    } else if (!legs && !mapped('entryTime') && !mapped('exitTime')) {
+      problems.push('Map a column to Entry time or Exit time');
+    }
+  }
+  return problems;
+}
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100;
+
+const rowError = (i: number, e: unknown): ImportRowError => ({
+  row: i + 2,
+  message: e instanceof Error ? e.message : 'invalid row',
+});
+
+function readPerformance(preset: PerformancePreset, headers: string[], rows: Row[], timeZone: string) {
+  const col = (key: keyof PerformanceColumns) => resolveColumn(headers, preset.columns[key]);
+  const cell = (row: Row, key: keyof PerformanceColumns) => {
+    const header = col(key);
+    return header ? (row[header] ?? '').trim() : '';
+  };
+  const time = (value: string) => (value ? parseImportTime(value, timeZone, preset.dateFormats) : undefined);
+
+  const trades: ImportedTrade[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((row, i) => {
+    try {
+      const instrumentCell = cell(row, 'instrument');
+      if (!instrumentCell) throw new Error('no instrument');
+
+      let direction: TradeDirection;
+      let entryPrice: number;
+      let exitPrice: number;
+      let entryTime: string | undefined;
+      let exitTime: string | undefined;
+
+      if (col('buyPrice') && col('sellPrice')) {
+        const buyTime = time(cell(row, 'buyTime'));
+        const sellTime = time(cell(row, 'sellTime'));
+        direction = buyTime && sellTime && sellTime < buyTime ? 'short' : 'long';
+        const buy = parseAmount(cell(row, 'buyPrice'));
+        const sell = parseAmount(cell(row, 'sellPrice'));
+        [entryPrice, exitPrice] = direction === 'long' ? [buy, sell] : [sell, buy];
+        [entryTime, exitTime] = direction === 'long' ? [buyTime, sellTime] : [sellTime, buyTime];
+      } else {
+        const side = cell(row, 'direction');
+        if (side && !parseSide(side)) throw new Error(`Unrecognised side "${side}"`);
+        direction = parseSide(side) === 'Sell' ? 'short' : 'long';
+        entryPrice = parseAmount(cell(row, 'entryPrice'));
+        exitPrice = parseAmount(cell(row, 'exitPrice'));
+        entryTime = time(cell(row, 'entryTime'));
+        exitTime = time(cell(row, 'exitTime'));
+      }
+
+      const timestamp = entryTime || exitTime;
+      if (!timestamp) throw new Error('no trade time');
+
+      const exported = parseAmount(cell(row, 'pnl'));
+      if (isNaN(exported)) throw new Error('no P&L');
+      const pnl = preset.invertPnl ? -exported : exported;
+      const commission = parseAmount(cell(row, 'commission'));
+
+      const contracts = cell(row, 'contracts') ? Math.abs(parseAmount(cell(row, 'contracts'))) : 1;
+      if (!contracts) throw new Error(`Unrecognised contracts "${cell(row, 'contracts')}"`);
+
+      trades.push({
+        timestamp,
+        exit_timestamp: exitTime,
+        instrument: parseImportInstrument(instrumentCell),
+        direction,
+        entry_price: isNaN(entryPrice) ? 0 : entryPrice,
+        exit_price: isNaN(exitPrice) || exitPrice === 0 ? undefined : exitPrice,
+        contracts,
+        pnl: preset.pnlIsGross && !isNaN(commission) ? roundMoney(pnl - Math.abs(commission)) : pnl,
+        commission: isNaN(commission) ? undefined : Math.abs(commission),
+      });
+    } catch (e) {
+      errors.push(rowError(i, e));
+    }
+  });
+
+  return { trades, errors, openContracts: 0 };
+}
+
+function readFills(preset: FillsPreset, headers: string[], rows: Row[], timeZone: string) {
+  const col = (key: keyof FillColumns) => resolveColumn(headers, preset.columns[key]);
+  const cell = (row: Row, key: keyof FillColumns) => {
+    const header = col(key);
+    return header ? (row[header] ?? '').trim() : '';
+  };
+
+  const errors: ImportRowError[] = [];
+  const parsed: { timestamp: string; orderKey: string; fill: Omit<BrokerFill, 'id' | 'orderId'> }[] = [];
+
+  rows.forEach((row, i) => {
+    const qty = Math.abs(parseAmount(cell(row, 'qty')));
+    // Working, cancelled and rejected orders have nothing filled
+    if (!qty) return;
+    try {
+      const price = parseAmount(cell(row, 'price'));
+      if (isNaN(price)) throw new Error('no fill price');
+      const action = parseSide(cell(row, 'side'));
+      if (!action) throw new Error(`Unrecognised side "${cell(row, 'side')}"`);
+      // P&L comes from the tick value, so the contract must be known
+      const instrument = parseImportInstrument(cell(row, 'instrument'));
+      if (!getContractSpec(instrument)) throw new Error(`No contract spec for ${instrument || 'blank instrument'}`);
+      const timestamp = parseImportTime(cell(row, 'time'), timeZone, preset.dateFormats);
+      parsed.push({
+        timestamp,
+        orderKey: cell(row, 'orderId') || `row-${i}`,
+        fill: { instrument, timestamp, action, qty, price },
+      });
+    } catch (e) {
+      errors.push(rowError(i, e));
+    }
+  });
+
+  // Exports carry no usable fill ids: number fills in time order, and give
+  // each order the id of its first fill
+  const orderIds = new Map<string, number>();
+  const fills: BrokerFill[] = parsed
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map((p, i) => {
+      if (!orderIds.has(p.orderKey)) orderIds.set(p.orderKey, i + 1);
+      return { ...p.fill, id: i + 1, orderId: orderIds.get(p.orderKey)! };
+    });
+
+  const { trades, openLots } = pairFills(fills);
+
+  return {
+    trades: trades.map(t => ({
+      timestamp: t.timestamp,
+      exit_timestamp: t.exit_timestamp,
+      instrument: t.instrument,
+      direction: t.direction,
+      entry_price: t.entry_price,
+      exit_price: t.exit_price,
+      contracts: t.contracts,
+      pnl: t.pnl,
+      commission: t.commission,
+    })),
+    errors,
+    openContracts: openLots.reduce((sum, lot) => sum + lot.qty, 0),
+  };
+}
+
+/**
+ * Read an export with a preset (detected from the headers when not given)
+ */
+export function importTradesCsv(text: string, preset?: ImportPreset, options: ImportOptions = {}): ImportResult {
+  const { headers, rows } = parseImportCsv(text);
+  if (headers.length === 0 || rows.length === 0) {
+    throw new Error('CSV must have headers and at least one data row');
+  }
+
+  const selected = preset || detectPreset(headers) || guessPreset(headers);
+  const missing = Object.values(selected.columns)
+    .filter(column => !resolveColumn(headers, column))
+    .map(column => (Array.isArray(column) ? column[0] : column));
+  if (selected.id !== 'guess' && missing.length > 0) {
+    throw new Error(`Not a ${selected.label} export: missing ${missing.join(', ')}`);
+  }
+
+  const timeZone = options.timeZone || selected.timeZone;
+  const result = selected.report === 'fills'
+    ? readFills(selected, headers, rows, timeZone)
+    : readPerformance(selected, headers, rows, timeZone);
+
+  return {
+    preset: selected,
+    trades: result.trades.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    errors: result.errors,
+    openContracts: result.openContracts,
+  };
+}
+
+// Journal instruments are the full-size contracts
+const JOURNAL_INSTRUMENTS: Record<string, string> = {
+  MNQ: 'NQ', MES: 'ES', MYM: 'YM', M2K: 'RTY', MGC: 'GC', MCL: 'CL',
+};
+
+/**
+ * Journal trade for an imported trade, dated in the browser's time zone
+ */
+export function toJournalTrade(
+  trade: ImportedTrade,
+  defaults: { accountId: string; setupId: string }
+): Omit<Trade, 'id'> {
+  const at = new Date(trade.timestamp);
+  return {
+    date: format(at, 'yyyy-MM-dd'),
+    time: format(at, 'HH:mm'),
+    instrument: JOURNAL_INSTRUMENTS[trade.instrument] || trade.instrument,
+    setupId: defaults.setupId,
+    accountId: defaults.accountId,
+    direction: trade.direction,
+    entry: trade.entry_price,
+    exit: trade.exit_price,
+    contracts: trade.contracts,
+    pnl: trade.pnl,
+    result: trade.pnl > 0 ? 'win' : trade.pnl < 0 ? 'loss' : 'breakeven',
+  };
+}
+
+/**
+ * Bot trade form data for an imported trade
+ */
+export function toBotTradeForm(
+  trade: ImportedTrade,
+  defaults: { botId: string; botAccountId?: string }
+): BotTradeFormData {
+  return {
+    bot_id: defaults.botId,
+    bot_account_id: defaults.botAccountId,
+    timestamp: trade.timestamp,
+    instrument: trade.instrument,
+    direction: trade.direction,
+    entry_price: trade.entry_price,
+    exit_price: trade.exit_price,
+    contracts: trade.contracts,
+    pnl: trade.pnl,
+    commission: trade.commission,
+    status: 'closed',
+    source: 'manual',
+  };
+}
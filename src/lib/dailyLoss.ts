@@ -0,0 +1,111 @@
+/**
+ * Daily Loss Monitor
+ *
+ * Tracks each trading day's running P&L and intraday low for a bot account
+ * against its daily loss limit, so accounts that are close to or past the
+ * limit can be flagged before (or as) the firm does.
+ */
+
+import type { BotAccount, BotTrade } from '@/types/bots';
+import { getTradingDay, groupByTradingDay } from '@/lib/tradingDay';
+
+// Share of the daily limit at which an account is flagged as close
+export const DAILY_LOSS_WARNING_PCT = 70;
+
+export type DailyLossLevel = 'ok' | 'warning' | 'breached';
+
+export interface DailyLossDay {
+  day: string;             // trading day (18:00 ET rollover)
+  pnl: number;             // closing P&L for the day (running P&L so far for today)
+  low: number;             // lowest running P&L reached during the day
+  limit: number;
+  level: DailyLossLevel;
+  breachedAt?: string;     // timestamp of the trade that crossed the limit
+}
+
+export interface DailyLossState extends DailyLossDay {
+  remaining: number;       // how much more can be lost today before the limit
+  usedPct: number;         // today's loss as a share of the limit
+  tradeCount: number;
+}
+
+/**
+ * Level for a day given its current P&L and intraday low
+ */
+function levelFor(pnl: number, low: number, limit: number): DailyLossLevel {
+  if (limit <= 0) return 'ok';
+  if (low <= -limit) return 'breached';
+  if (-pnl >= limit * (DAILY_LOSS_WARNING_PCT / 100)) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Replay one day's trades (already in chronological order)
+ */
+function replayDay(day: string, trades: BotTrade[], limit: number): DailyLossDay {
+  let pnl = 0;
+  let low = 0;
+  let breachedAt: string | undefined;
+
+  for (const trade of trades) {
+    pnl += trade.pnl || 0;
+    low = Math.min(low, pnl);
+    if (!breachedAt && limit > 0 && pnl <= -limit) {
+      breachedAt = trade.timestamp;
+    }
+  }
+
+  return { day, pnl, low, limit, level: levelFor(pnl, low, limit), breachedAt };
+}
+
+/**
+ * Closed trades in chronological order
+ */
+function sortedClosedTrades(trades: BotTrade[]): BotTrade[] {
+  return trades
+    .filter(t => t.status === 'closed')
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Daily P&L and intraday low for every trading day with closed trades
+ */
+export function getDailyLossHistory(
+  account: Pick<BotAccount, 'daily_drawdown'>,
+  trades: BotTrade[]
+): DailyLossDay[] {
+  const limit = account.daily_drawdown || 0;
+  return [...groupByTradingDay(sortedClosedTrades(trades))]
+    .map(([day, dayTrades]) => replayDay(day, dayTrades, limit));
+}
+
+/**
+ * First trading day on which the daily loss limit was hit
+ */
+export function findDailyLossBreach(
+  account: Pick<BotAccount, 'daily_drawdown'>,
+  trades: BotTrade[]
+): DailyLossDay | null {
+  return getDailyLossHistory(account, trades).find(d => d.level === 'breached') ?? null;
+}
+
+/**
+ * Current trading day's state for an account
+ */
+export function computeDailyLoss(
+  account: Pick<BotAccount, 'daily_drawdown'>,
+  trades: BotTrade[],
+  now: Date = new Date()
+): DailyLossState {
+  const today = getTradingDay(now);
+  const limit = account.daily_drawdown || 0;
+  const todayTrades = sortedClosedTrades(trades).filter(t => getTradingDay(t.timestamp) === today);
+  const state = replayDay(today, todayTrades, limit);
+
+  return {
+    ...state,
+    remaining: limit > 0 ? Math.max(0, limit + state.pnl) : Infinity,
+    usedPct: limit > 0 ? (Math.max(0, -state.pnl) / limit) * 100 : 0,
+    tradeCount: todayTrades.length,
+  };
+}
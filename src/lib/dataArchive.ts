@@ -0,0 +1,313 @@
+/**
+ * Data Archive
+ *
+ * Export of everything a user keeps in Supabase (journal and bots) to one
+ * JSON file, and the importer that reads it back. The archive has a
+ * manifest with the format version, the row count of every section and a
+ * SHA-256 checksum of each section's rows, so a truncated or hand-edited
+ * file is caught before anything is written.
+ *
+ * Rows are archived as stored (snake_case columns). On import they're
+ * upserted on their id, parents before children; daily entries are matched
+ * on their date instead, since there's one per user per day. Importing in
+ * replace mode then deletes the user's own rows the archive doesn't have:
+ * bot tables are shared by the team, so teammates' bots (and their
+ * accounts, trades and notes) are never removed. Deleting only after every
+ * row is written means a failed import never leaves data half-deleted.
+ */
+
+import { JOURNAL_TABLES, type JournalEntity } from '@/lib/journalStore';
+import { isMissingTableError, type Repositories, type Repository, type StoredRow } from '@/lib/repositories';
+
+export const ARCHIVE_FORMAT = 'proptracker-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveSection = JournalEntity | 'bots' | 'botAccounts' | 'botTrades' | 'calendarNotes';
+
+// Parents first; deletes run in reverse
+export const ARCHIVE_SECTIONS: ArchiveSection[] = [
+  'propFirms', 'tradingSetups', 'accounts', 'trades', 'payouts', 'expenses', 'dailyEntries',
+  'bots', 'botAccounts', 'botTrades', 'calendarNotes',
+];
+
+const JOURNAL_SECTIONS = new Set<ArchiveSection>(Object.keys(JOURNAL_TABLES) as JournalEntity[]);
+
+export type ArchiveRow = Record<string, unknown>;
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  counts: Record<ArchiveSection, number>;
+  checksums: Record<ArchiveSection, string>;   // hex SHA-256 of JSON.stringify(rows)
+}
+
+export interface DataArchive {
+  manifest: ArchiveManifest;
+  data: Record<ArchiveSection, ArchiveRow[]>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface SectionPlan {
+  incoming: number;
+  added: number;       // not stored yet
+  updated: number;     // stored already, overwritten by the archive
+  removed: number;     // stored, owned by the user and not in the archive, deleted when replacing
+}
+
+export type ImportPlan = Record<ArchiveSection, SectionPlan>;
+
+const PAGE_SIZE = 1000;
+const WRITE_CHUNK = 500;
+
+/**
+ * What identifies a row across projects: its id, or for daily entries the day
+ */
+const keyColumn = (section: ArchiveSection) => (section === 'dailyEntries' ? 'date' : 'id');
+
+const rowKey = (section: ArchiveSection, row: ArchiveRow) => String(row[keyColumn(section)]);
+
+// The section's table; the bot sections are named after their repositories
+function sectionRepository(repositories: Repositories, section: ArchiveSection): Repository<ArchiveRow & StoredRow, ArchiveRow> {
+  const repository = JOURNAL_SECTIONS.has(section)
+    ? repositories.journal[section as JournalEntity]
+    : repositories[section as Exclude<ArchiveSection, JournalEntity>];
+  return repository as unknown as Repository<ArchiveRow & StoredRow, ArchiveRow>;
+}
+
+const rethrow = (action: string) => (err: unknown): never => {
+  throw new Error(`${action}: ${err instanceof Error ? err.message : String(err)}`);
+};
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Wrap section rows in an archive with its manifest
+ */
+export async function buildArchive(
+  data: Partial<Record<ArchiveSection, ArchiveRow[]>>,
+  exportedAt = new Date()
+): Promise<DataArchive> {
+  const sections = {} as Record<ArchiveSection, ArchiveRow[]>;
+  const counts = {} as Record<ArchiveSection, number>;
+  const checksums = {} as Record<ArchiveSection, string>;
+
+  for (const section of ARCHIVE_SECTIONS) {
+    const rows = data[section] ?? [];
+    sections[section] = rows;
+    counts[section] = rows.length;
+    checksums[section] = await sha256(JSON.stringify(rows));
+  }
+
+  return {
+    manifest: { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: exportedAt.toISOString(), counts, checksums },
+    data: sections,
+  };
+}
+
+/**
+ * Read and check an archive file. Throws with what's wrong if it isn't an
+ * archive, was made by a newer version, or a section doesn't match its
+ * count or checksum.
+ */
+export async function parseArchive(text: string): Promise<DataArchive> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const archive = parsed as Partial<DataArchive> | null;
+  const manifest = archive?.manifest;
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT || typeof archive.data !== 'object' || !archive.data) {
+    throw new Error('The file is not a PropTracker archive');
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error('The archive has no valid version');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(
+      `The archive was made by a newer version of the app (format ${manifest.version}; this one reads up to ${ARCHIVE_VERSION}). ` +
+      'Update the app before importing it.'
+    );
+  }
+
+  const data = {} as Record<ArchiveSection, ArchiveRow[]>;
+  for (const section of ARCHIVE_SECTIONS) {
+    const rows = archive.data[section] ?? [];
+    if (!Array.isArray(rows)) throw new Error(`Section "${section}" is not a list`);
+
+    const invalid = rows.findIndex(row => !row || typeof row !== 'object' || !row[keyColumn(section)]);
+    if (invalid !== -1) throw new Error(`Row ${invalid + 1} of "${section}" has no ${keyColumn(section)}`);
+
+    if (rows.length !== (manifest.counts?.[section] ?? 0)) {
+      throw new Error(`Section "${section}" has ${rows.length} rows but the manifest lists ${manifest.counts?.[section] ?? 0}`);
+    }
+    if (rows.length > 0 && (await sha256(JSON.stringify(rows))) !== manifest.checksums?.[section]) {
+      throw new Error(`Section "${section}" doesn't match its checksum; the file was changed or is incomplete`);
+    }
+    data[section] = rows;
+  }
+
+  return { manifest: manifest as ArchiveManifest, data };
+}
+
+/**
+ * What an import would do, given the keys (ids, or dates for daily entries)
+ * already stored in each section and those of them a replace may delete
+ */
+export function planImport(
+  archive: DataArchive,
+  existing: Partial<Record<ArchiveSection, string[]>>,
+  mode: ImportMode,
+  owned: Partial<Record<ArchiveSection, string[]>> = existing
+): ImportPlan {
+  const plan = {} as ImportPlan;
+  for (const section of ARCHIVE_SECTIONS) {
+    const stored = new Set(existing[section] ?? []);
+    const incoming = new Set(archive.data[section].map(row => rowKey(section, row)));
+    const updated = [...incoming].filter(key => stored.has(key)).length;
+    plan[section] = {
+      incoming: archive.data[section].length,
+      added: incoming.size - updated,
+      updated,
+      removed: mode === 'replace' ? (owned[section] ?? []).filter(key => !incoming.has(key)).length : 0,
+    };
+  }
+  return plan;
+}
+
+async function fetchRows(repositories: Repositories, section: ArchiveSection, columns?: string[]): Promise<ArchiveRow[]> {
+  const repository = sectionRepository(repositories, section);
+  const rows: ArchiveRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let page: ArchiveRow[];
+    try {
+      page = await repository.list({ columns, order: { column: keyColumn(section) }, limit: PAGE_SIZE, offset });
+    } catch (err) {
+      // Optional tables that were never created have nothing to export
+      if (isMissingTableError(err)) return [];
+      return rethrow(`Couldn't read ${repository.table}`)(err);
+    }
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Everything the signed-in user can read, as an archive
+ */
+export async function exportArchive(repositories: Repositories): Promise<DataArchive> {
+  const data: Partial<Record<ArchiveSection, ArchiveRow[]>> = {};
+  for (const section of ARCHIVE_SECTIONS) {
+    data[section] = await fetchRows(repositories, section);
+  }
+  return buildArchive(data);
+}
+
+/**
+ * Keys of the rows already stored, for planImport
+ */
+export async function fetchExistingKeys(repositories: Repositories): Promise<Record<ArchiveSection, string[]>> {
+  const keys = {} as Record<ArchiveSection, string[]>;
+  for (const section of ARCHIVE_SECTIONS) {
+    const rows = await fetchRows(repositories, section, [keyColumn(section)]);
+    keys[section] = rows.map(row => rowKey(section, row));
+  }
+  return keys;
+}
+
+/**
+ * Keys of the stored rows a replace may delete: the user's journal rows
+ * (the only ones they can read) and the bots they created, with those
+ * bots' accounts, trades and notes
+ */
+export async function fetchOwnedKeys(repositories: Repositories, userId: string): Promise<Record<ArchiveSection, string[]>> {
+  const keys = {} as Record<ArchiveSection, string[]>;
+  const bots = await fetchRows(repositories, 'bots', ['id', 'created_by']);
+  const ownBots = new Set(bots.filter(bot => bot.created_by === userId).map(bot => String(bot.id)));
+
+  for (const section of ARCHIVE_SECTIONS) {
+    if (JOURNAL_SECTIONS.has(section)) {
+      keys[section] = (await fetchRows(repositories, section, [keyColumn(section)])).map(row => rowKey(section, row));
+    } else if (section === 'bots') {
+      keys[section] = [...ownBots];
+    } else {
+      const rows = await fetchRows(repositories, section, ['id', 'bot_id']);
+      keys[section] = rows.filter(row => ownBots.has(String(row.bot_id))).map(row => rowKey(section, row));
+    }
+  }
+  return keys;
+}
+
+/**
+ * A row as it's written back: journal rows owned by the importing user,
+ * bots by whoever created them (the importer if the archive doesn't say),
+ * without the import batch it came from (batches aren't archived), and for
+ * daily entries without its id so an existing entry for the day keeps its own
+ */
+function importRow(section: ArchiveSection, row: ArchiveRow, userId: string): ArchiveRow {
+  const { import_batch_id: _batch, ...rest } = row;
+  if (section === 'dailyEntries') {
+    const { id: _id, ...entry } = rest;
+    return { ...entry, user_id: userId };
+  }
+  if (JOURNAL_SECTIONS.has(section)) return { ...rest, user_id: userId };
+  if (section === 'bots') return { ...rest, created_by: rest.created_by ?? userId };
+  return rest;
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+/**
+ * Write an archive back. Merging upserts every archived row over
+ * the stored one; replacing then deletes the user's own stored rows that
+ * aren't in the archive, children first.
+ */
+export async function importArchive(
+  repositories: Repositories,
+  archive: DataArchive,
+  mode: ImportMode,
+  userId: string
+): Promise<ImportPlan> {
+  const existing = await fetchExistingKeys(repositories);
+  const owned = mode === 'replace' ? await fetchOwnedKeys(repositories, userId) : existing;
+  const plan = planImport(archive, existing, mode, owned);
+
+  for (const section of ARCHIVE_SECTIONS) {
+    const repository = sectionRepository(repositories, section);
+    const rows = archive.data[section].map(row => importRow(section, row, userId));
+    const onConflict = section === 'dailyEntries' ? ['user_id', 'date'] : undefined;
+    for (const batch of chunks(rows, WRITE_CHUNK)) {
+      await repository.upsertMany(batch, { onConflict }).catch(rethrow(`Couldn't write ${repository.table}`));
+    }
+  }
+
+  if (mode === 'replace') {
+    for (const section of [...ARCHIVE_SECTIONS].reverse()) {
+      const repository = sectionRepository(repositories, section);
+      const keep = new Set(archive.data[section].map(row => rowKey(section, row)));
+      const stale = owned[section].filter(key => !keep.has(key));
+      for (const batch of chunks(stale, WRITE_CHUNK)) {
+        await repository
+          .removeWhere({}, { column: keyColumn(section), values: batch })
+          .catch(rethrow(`Couldn't clear ${repository.table}`));
+      }
+    }
+  }
+
+  return plan;
+}
+
+export function archiveFileName(archive: DataArchive): string {
+  return `proptracker-archive-${archive.manifest.exportedAt.slice(0, 10)}.json`;
+}
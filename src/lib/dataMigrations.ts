@@ -0,0 +1,65 @@
+/**
+ * Data Migrations
+ *
+ * Ordered, versioned changes to the shape of locally stored journal data
+ * (localStorage) and of the JSON blob synced to R2. Both record the schema
+ * version they were written at; data from an older version is brought up
+ * to date by running every later migration in order, and data from a newer
+ * version is left alone, since this build can't know what changed.
+ *
+ * To change a record shape, append a migration with the next version.
+ * Never edit or reorder one that has shipped: devices that already ran it
+ * won't run it again.
+ */
+
+export type RawRecord = Record<string, unknown>;
+
+/** Collections by name (payouts, accounts, trades, ...), in whatever shape they were stored */
+export type RawCollections = Record<string, RawRecord[] | undefined>;
+
+export interface DataMigration {
+  version: number;
+  description: string;
+  up: (data: RawCollections) => RawCollections;
+}
+
+export const MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    description: 'Accounts from before funded accounts get type "evaluation"',
+    up: data => ({
+      ...data,
+      accounts: data.accounts?.map(a => (a.type ? a : { ...a, type: 'evaluation' })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Data stored without a version predates versioning
+ */
+export function schemaVersionOf(version: unknown): number {
+  const n = Number(version);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+export function isNewerSchema(version: unknown): boolean {
+  return schemaVersionOf(version) > CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Run the migrations after `fromVersion`, oldest first
+ */
+export function migrateData(data: RawCollections, fromVersion: unknown): RawCollections {
+  const version = schemaVersionOf(fromVersion);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Data was saved by a newer version of the app (schema ${version}; this one understands up to ${CURRENT_SCHEMA_VERSION}). ` +
+      'Update the app before syncing.'
+    );
+  }
+  return MIGRATIONS
+    .filter(m => m.version > version)
+    .reduce((migrated, m) => m.up(migrated), data);
+}
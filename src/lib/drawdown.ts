@@ -0,0 +1,142 @@
+/**
+ * Drawdown Engine
+ *
+ * Replays a bot account's closed trades and balance adjustments to find its
+ * liquidation threshold
+ * under the prop firm drawdown models (intraday trailing, end-of-day
+ * trailing, static, and trailing that locks at the starting balance).
+ */
+
+import type { BotAccount, BotTrade, DrawdownModel } from '@/types/bots';
+import { getTradingDay } from '@/lib/tradingDay';
+
+export interface DrawdownState {
+  model: DrawdownModel;
+  balance: number;
+  peak: number;            // highest balance the threshold has trailed from
+  threshold: number;       // balance at which the account is liquidated
+  distance: number;        // balance - threshold (how much more can be lost)
+  used: number;            // portion of max_drawdown consumed
+  usedPct: number;         // used / max_drawdown * 100
+  locked: boolean;         // trailing_lock threshold has stopped moving
+  breached: boolean;
+  breachedAt?: string;     // timestamp of the trade or adjustment that crossed the threshold
+}
+
+/**
+ * Drawdown model for an account. Picking a preset copies its model onto
+ * the account, and the column defaults to static.
+ */
+export function getDrawdownModel(account: Pick<BotAccount, 'drawdown_model'>): DrawdownModel {
+  return account.drawdown_model ?? 'static';
+}
+
+/**
+ * Liquidation threshold for a given peak balance under a model
+ */
+export function thresholdFor(
+  model: DrawdownModel,
+  peak: number,
+  startingBalance: number,
+  maxDrawdown: number
+): number {
+  switch (model) {
+    case 'static':
+      return startingBalance - maxDrawdown;
+    case 'trailing_lock':
+      return Math.min(peak - maxDrawdown, startingBalance);
+    case 'intraday_trailing':
+    case 'eod_trailing':
+    default:
+      return peak - maxDrawdown;
+  }
+}
+
+// A change to the balance: a closed trade's P&L or an adjustment's amount
+interface LedgerEntry {
+  timestamp: string;
+  amount: number;
+}
+
+/**
+ * Closed trades and balance adjustments for an account in chronological order
+ */
+function ledgerEntries(account: BotAccount, trades: BotTrade[]): LedgerEntry[] {
+  const entries: LedgerEntry[] = [
+    ...trades.filter(t => t.status === 'closed').map(t => ({ timestamp: t.timestamp, amount: t.pnl || 0 })),
+    ...(account.balance_adjustments || []).map(a => ({ timestamp: a.at, amount: a.amount })),
+  ];
+  // Trades and adjustments can be stored with different offsets
+  return entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Compute the drawdown state of an account by replaying its closed trades,
+ * with its balance adjustments applied when they were made.
+ *
+ * The replay starts from `starting_balance`. Accounts without any closed
+ * trades fall back to the stored `current_balance` / `high_water_mark`, so
+ * manually maintained accounts still show a sensible threshold.
+ */
+export function computeDrawdown(account: BotAccount, trades: BotTrade[]): DrawdownState {
+  const model = getDrawdownModel(account);
+  const maxDD = account.max_drawdown || 0;
+  const start = account.starting_balance;
+  const hasClosedTrades = trades.some(t => t.status === 'closed');
+  const entries = ledgerEntries(account, trades);
+
+  let balance = start;
+  let peak = start;
+  let breachedAt: string | undefined;
+
+  if (!hasClosedTrades) {
+    balance = account.current_balance;
+    peak = model === 'static' ? start : Math.max(start, account.high_water_mark || start, balance);
+  } else {
+    // End-of-day models only move the threshold at the close of each day
+    let currentDay = getTradingDay(entries[0].timestamp);
+    let threshold = thresholdFor(model, peak, start, maxDD);
+
+    for (const entry of entries) {
+      const day = getTradingDay(entry.timestamp);
+      if (model === 'eod_trailing' && day !== currentDay) {
+        peak = Math.max(peak, balance);
+        threshold = thresholdFor(model, peak, start, maxDD);
+        currentDay = day;
+      }
+
+      balance += entry.amount;
+
+      if (!breachedAt && maxDD > 0 && balance <= threshold) {
+        breachedAt = entry.timestamp;
+      }
+
+      if (model !== 'eod_trailing') {
+        peak = Math.max(peak, balance);
+        threshold = thresholdFor(model, peak, start, maxDD);
+      }
+    }
+
+    // Only roll the last day into the threshold once that day has closed
+    if (model === 'eod_trailing' && currentDay < getTradingDay(new Date())) {
+      peak = Math.max(peak, balance);
+    }
+  }
+
+  const threshold = thresholdFor(model, peak, start, maxDD);
+  const distance = balance - threshold;
+  const used = maxDD > 0 ? Math.max(0, maxDD - distance) : 0;
+
+  return {
+    model,
+    balance,
+    peak,
+    threshold,
+    distance,
+    used,
+    usedPct: maxDD > 0 ? (used / maxDD) * 100 : 0,
+    locked: model === 'trailing_lock' && peak - maxDD >= start,
+    breached: maxDD > 0 && (!!breachedAt || distance <= 0),
+    breachedAt,
+  };
+}
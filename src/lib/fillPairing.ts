@@ -0,0 +1,278 @@
+/**
+ * Fill Pairing
+ *
+ * Turns broker fills into round-trip trades with FIFO position tracking
+ * per instrument. Each closing order becomes one trade: its entry price is
+ * the quantity-weighted average of the lots it closed (oldest first), so
+ * scale-ins average together, partial exits produce one trade per exit
+ * order, and a fill that crosses through flat closes the old position and
+ * opens the remainder in the other direction.
+ *
+ * Brokers only return recent fills, so a position may have been opened
+ * before the first one. carriedLots works those lots out from the position
+ * the broker reports now; round trips that close them have no known entry
+ * and are left out rather than paired with later fills into trades that
+ * never happened.
+ *
+ * Pure: no network or storage access, so it can be replayed against
+ * recorded fills in tests.
+ */
+
+import type { TradeDirection } from '@/types/bots';
+import type { BrokerTrade } from '@/lib/brokerClient';
+import { getContractSpec } from '@/data/contractSpecs';
+
+export interface BrokerFill {
+  id: number;
+  orderId: number;
+  instrument: string;       // root symbol, e.g. 'MNQ'
+  timestamp: string;
+  action: 'Buy' | 'Sell';
+  qty: number;
+  price: number;
+}
+
+export interface OpenLot {
+  fillId: number;
+  orderId: number;
+  instrument: string;
+  timestamp: string;
+  direction: TradeDirection;
+  qty: number;
+  price: number;
+  carried?: boolean;          // opened before the fills start; entry unknown
+}
+
+export interface RoundTrip {
+  instrument: string;
+  direction: TradeDirection;
+  timestamp: string;          // first entry fill
+  exit_timestamp: string;     // last exit fill
+  entry_price: number;        // quantity-weighted average
+  exit_price: number;         // quantity-weighted average
+  contracts: number;
+  gross_pnl: number;
+  commission: number;
+  pnl: number;                // gross_pnl - commission
+  entry_fill_ids: number[];
+  exit_fill_ids: number[];
+  exit_order_id: number;
+  unpriced?: boolean;         // no point value for the instrument, so P&L is left at 0
+  carried?: boolean;          // closes a lot opened before the fills start
+}
+
+export interface PairingOptions {
+  // Round-turn commission per contract; defaults to the contract spec
+  commissionRt?: number | Record<string, number>;
+  // $ per point for instruments without a contract spec
+  pointValues?: Record<string, number>;
+  // Lots still open from an earlier pairing run
+  openLots?: OpenLot[];
+}
+
+export interface PairingResult {
+  trades: RoundTrip[];
+  openLots: OpenLot[];
+}
+
+const round = (n: number, dp: number) => {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+};
+
+/**
+ * Dollar value of one point for an instrument (tick value / tick size),
+ * or undefined when it has no contract spec
+ */
+export function findPointValue(instrument: string, overrides?: Record<string, number>): number | undefined {
+  if (overrides?.[instrument]) return overrides[instrument];
+  const spec = getContractSpec(instrument);
+  return spec ? spec.tick_value / spec.tick_size : undefined;
+}
+
+/**
+ * Dollar value of one point for an instrument; throws without a contract spec
+ */
+export function pointValue(instrument: string, overrides?: Record<string, number>): number {
+  const value = findPointValue(instrument, overrides);
+  if (value === undefined) throw new Error(`No contract spec for ${instrument}`);
+  return value;
+}
+
+/**
+ * Round-turn commission per contract for an instrument
+ */
+function commissionFor(instrument: string, commissionRt: PairingOptions['commissionRt']): number {
+  if (typeof commissionRt === 'number') return commissionRt;
+  return commissionRt?.[instrument] ?? getContractSpec(instrument)?.commission_rt ?? 0;
+}
+
+/**
+ * Lots already open before the first fill: the part of each current
+ * position (signed, per instrument) that the fills don't account for
+ */
+export function carriedLots(fills: BrokerFill[], positions: { instrument: string; netPos: number }[]): OpenLot[] {
+  const start = new Map<string, number>();
+  positions.forEach(p => start.set(p.instrument, (start.get(p.instrument) || 0) + p.netPos));
+  fills.forEach(f => start.set(f.instrument, (start.get(f.instrument) || 0) - (f.action === 'Buy' ? f.qty : -f.qty)));
+
+  const first = (instrument: string) =>
+    fills.filter(f => f.instrument === instrument).map(f => f.timestamp).sort()[0];
+
+  return [...start]
+    .filter(([, netPos]) => netPos !== 0)
+    .map(([instrument, netPos]) => ({
+      fillId: 0,
+      orderId: 0,
+      instrument,
+      timestamp: first(instrument) ?? new Date(0).toISOString(),
+      direction: netPos > 0 ? 'long' as const : 'short' as const,
+      qty: Math.abs(netPos),
+      price: 0,
+      carried: true,
+    }));
+}
+
+interface Match {
+  lot: OpenLot;
+  qty: number;
+  fill: BrokerFill;
+}
+
+/**
+ * Build a round trip from the lot slices one exit order closed. Without a
+ * point value it is flagged unpriced rather than failing the whole run.
+ */
+function buildRoundTrip(matches: Match[], options: PairingOptions): RoundTrip {
+  const { instrument, direction } = matches[0].lot;
+  const contracts = matches.reduce((sum, m) => sum + m.qty, 0);
+  const entryValue = matches.reduce((sum, m) => sum + m.lot.price * m.qty, 0);
+  const exitValue = matches.reduce((sum, m) => sum + m.fill.price * m.qty, 0);
+  const sign = direction === 'long' ? 1 : -1;
+  const dollarsPerPoint = findPointValue(instrument, options.pointValues);
+
+  const grossPnl = dollarsPerPoint === undefined ? 0 : round(sign * (exitValue - entryValue) * dollarsPerPoint, 2);
+  const commission = dollarsPerPoint === undefined ? 0 : round(commissionFor(instrument, options.commissionRt) * contracts, 2);
+
+  return {
+    instrument,
+    direction,
+    timestamp: matches.reduce((min, m) => (m.lot.timestamp < min ? m.lot.timestamp : min), matches[0].lot.timestamp),
+    exit_timestamp: matches[matches.length - 1].fill.timestamp,
+    entry_price: round(entryValue / contracts, 6),
+    exit_price: round(exitValue / contracts, 6),
+    contracts,
+    gross_pnl: grossPnl,
+    commission,
+    pnl: round(grossPnl - commission, 2),
+    entry_fill_ids: [...new Set(matches.map(m => m.lot.fillId))],
+    exit_fill_ids: [...new Set(matches.map(m => m.fill.id))],
+    exit_order_id: matches[0].fill.orderId,
+    ...(dollarsPerPoint === undefined && { unpriced: true }),
+    ...(matches[0].lot.carried && { carried: true }),
+  };
+}
+
+/**
+ * Pair fills into round trips, FIFO per instrument
+ */
+export function pairFills(fills: BrokerFill[], options: PairingOptions = {}): PairingResult {
+  const positions = new Map<string, OpenLot[]>();
+  (options.openLots || []).forEach(lot => {
+    positions.set(lot.instrument, [...(positions.get(lot.instrument) || []), { ...lot }]);
+  });
+
+  const trades: RoundTrip[] = [];
+  // Slices closed by the exit order currently being filled, per instrument
+  const pending = new Map<string, Match[]>();
+
+  // An exit that closes carried and known lots makes a trade of each
+  const flush = (instrument: string) => {
+    const matches = pending.get(instrument) || [];
+    const carried = matches.filter(m => m.lot.carried);
+    const known = matches.filter(m => !m.lot.carried);
+    if (carried.length > 0) trades.push(buildRoundTrip(carried, options));
+    if (known.length > 0) trades.push(buildRoundTrip(known, options));
+    pending.delete(instrument);
+  };
+
+  const sorted = [...fills].sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id - b.id);
+
+  for (const fill of sorted) {
+    const lots = positions.get(fill.instrument) || [];
+    const fillDirection: TradeDirection = fill.action === 'Buy' ? 'long' : 'short';
+
+    // A new order on this instrument ends the previous exit order's trade
+    const current = pending.get(fill.instrument);
+    if (current && current[0].fill.orderId !== fill.orderId) flush(fill.instrument);
+
+    let remaining = fill.qty;
+    while (remaining > 0 && lots.length > 0 && lots[0].direction !== fillDirection) {
+      const lot = lots[0];
+      const qty = Math.min(remaining, lot.qty);
+      pending.set(fill.instrument, [...(pending.get(fill.instrument) || []), { lot: { ...lot }, qty, fill }]);
+      lot.qty -= qty;
+      remaining -= qty;
+      if (lot.qty === 0) lots.shift();
+    }
+
+    // Reversal: the flat-crossing part closes the old trade
+    if (remaining > 0 && pending.has(fill.instrument)) flush(fill.instrument);
+
+    if (remaining > 0) {
+      lots.push({
+        fillId: fill.id,
+        orderId: fill.orderId,
+        instrument: fill.instrument,
+        timestamp: fill.timestamp,
+        direction: fillDirection,
+        qty: remaining,
+        price: fill.price,
+      });
+    }
+    positions.set(fill.instrument, lots);
+  }
+
+  [...pending.keys()].forEach(flush);
+
+  return {
+    trades: trades.sort((a, b) => a.exit_timestamp.localeCompare(b.exit_timestamp)),
+    openLots: [...positions.values()].flat(),
+  };
+}
+
+/**
+ * Pair fills into round trips for one account. Round trips that close
+ * carried lots (passed in options.openLots) are left out.
+ */
+export function pairBrokerTrades(
+  fills: BrokerFill[],
+  accountId: string,
+  sinceDate?: Date,
+  options?: PairingOptions
+): BrokerTrade[] {
+  const { trades } = pairFills(fills, options);
+
+  return trades
+    .filter(t => !t.carried)
+    .filter(t => !sinceDate || new Date(t.exit_timestamp) >= sinceDate)
+    .map(t => ({
+      timestamp: t.timestamp,
+      exit_timestamp: t.exit_timestamp,
+      instrument: t.instrument,
+      direction: t.direction,
+      entry_price: t.entry_price,
+      exit_price: t.exit_price,
+      contracts: t.contracts,
+      gross_pnl: t.gross_pnl,
+      pnl: t.pnl,
+      commission: t.commission,
+      status: 'closed' as const,
+      fill_id: t.exit_fill_ids[t.exit_fill_ids.length - 1],
+      order_id: t.exit_order_id,
+      account_id: accountId,
+      exit_fill_ids: t.exit_fill_ids,
+      fill_ids: [...t.entry_fill_ids, ...t.exit_fill_ids],
+      ...(t.unpriced && { unpriced: true }),
+    }));
+}
@@ -0,0 +1,134 @@
+/**
+ * Import Batches
+ *
+ * Every CSV import and broker sync that stores trades is recorded as a
+ * batch: where the trades came from, how many rows were read, imported,
+ * skipped or left out as duplicates. Trades carry their batch id, so a
+ * whole import can be rolled back in one go.
+ *
+ * Before a CSV import is committed, its trades are checked against the
+ * ones already stored; a trade at the same time (within a minute) with the
+ * same instrument, size and entry price is most likely already recorded.
+ */
+
+import type { Trade } from '@/types';
+import type { BotTradeFormData } from '@/types/bots';
+import type { Repository } from '@/lib/repository';
+
+export type ImportTarget = 'journal' | 'bot';
+export type ImportSource = 'csv' | 'broker';
+
+export interface ImportBatch {
+  id: string;
+  user_id?: string;
+  target: ImportTarget;
+  source: ImportSource;
+  source_name: string;          // file name, or the broker account of a sync
+  format?: string;              // export preset or saved mapping the file was read with
+  row_count: number;            // rows read (CSV) or new round trips fetched (sync)
+  imported_count: number;
+  skipped_count: number;        // unreadable rows
+  duplicate_count: number;      // likely duplicates left out
+  rolled_back_at?: string;
+  created_at: string;
+}
+
+export type ImportBatchFormData = Omit<ImportBatch, 'id' | 'rolled_back_at' | 'created_at'>;
+
+type ImportBatchRepository = Repository<ImportBatch, ImportBatchFormData>;
+
+// What an importer knows about its trades; the store fills in the rest
+export type ImportSourceInfo = Omit<ImportBatchFormData, 'user_id' | 'target' | 'imported_count'>;
+
+export interface TradeFingerprint {
+  time: number;                 // epoch ms
+  instrument: string;
+  contracts: number;
+  price: number;                // entry
+}
+
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+const PRICE_TOLERANCE = 1e-6;
+
+/**
+ * Journal trades are stored to the minute in local time
+ */
+export function journalFingerprint(trade: Pick<Trade, 'date' | 'time' | 'instrument' | 'contracts' | 'entry'>): TradeFingerprint {
+  return {
+    time: new Date(`${trade.date}T${trade.time || '00:00'}`).getTime(),
+    instrument: trade.instrument,
+    contracts: trade.contracts,
+    price: trade.entry ?? 0,
+  };
+}
+
+export function botFingerprint(trade: Pick<BotTradeFormData, 'timestamp' | 'instrument' | 'contracts' | 'entry_price'>): TradeFingerprint {
+  return {
+    time: new Date(trade.timestamp).getTime(),
+    instrument: trade.instrument,
+    contracts: trade.contracts,
+    price: trade.entry_price,
+  };
+}
+
+/**
+ * Indexes of incoming trades that match a stored trade. Each stored trade
+ * accounts for at most one incoming trade, so two identical trades in a
+ * file against one stored copy leave one to import.
+ */
+export function findDuplicates(incoming: TradeFingerprint[], existing: TradeFingerprint[]): number[] {
+  const claimed = new Set<number>();
+  const duplicates: number[] = [];
+
+  incoming.forEach((trade, i) => {
+    const match = existing.findIndex((stored, j) =>
+      !claimed.has(j) &&
+      stored.instrument === trade.instrument &&
+      stored.contracts === trade.contracts &&
+      Math.abs(stored.price - trade.price) < PRICE_TOLERANCE &&
+      Math.abs(stored.time - trade.time) <= DUPLICATE_WINDOW_MS
+    );
+    if (match >= 0) {
+      claimed.add(match);
+      duplicates.push(i);
+    }
+  });
+
+  return duplicates;
+}
+
+/**
+ * Record a batch before its trades are inserted
+ */
+export async function createImportBatch(batches: ImportBatchRepository, batch: ImportBatchFormData): Promise<ImportBatch> {
+  return batches.insert(batch);
+}
+
+/**
+ * Settle a batch once its trades are stored: correct the imported count, or
+ * drop the batch when nothing was imported
+ */
+export async function finishImportBatch(batches: ImportBatchRepository, batch: ImportBatch, imported: number): Promise<ImportBatch | null> {
+  if (imported === 0) {
+    await batches.remove(batch.id).catch(() => {});
+    return null;
+  }
+  if (imported === batch.imported_count) return batch;
+
+  await batches.update(batch.id, { imported_count: imported });
+  return { ...batch, imported_count: imported };
+}
+
+/**
+ * Batches for the journal or the bots, newest first
+ */
+export async function fetchImportBatches(batches: ImportBatchRepository, target: ImportTarget): Promise<ImportBatch[]> {
+  return batches.list({ where: { target }, order: { column: 'created_at', ascending: false }, limit: 100 });
+}
+
+/**
+ * Flag a batch whose trades were deleted; it stays in the history
+ */
+export async function markImportRolledBack(batches: ImportBatchRepository, batchId: string, at: Date = new Date()): Promise<void> {
+  await batches.update(batchId, { rolled_back_at: at.toISOString() });
+}
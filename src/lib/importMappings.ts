@@ -0,0 +1,49 @@
+/**
+ * Saved Import Mappings
+ *
+ * Column mappings built in the import wizard, kept by name so an export
+ * layout no preset knows only has to be mapped once. Saved mappings are
+ * offered next to the built-in presets and auto-detected the same way.
+ */
+
+import type { ImportPreset, SavedImportMapping } from '@/lib/csvImport';
+import { getImportMappings, setImportMappings } from '@/lib/storage';
+
+const SAVED_PREFIX = 'saved:';
+
+/**
+ * Saved mappings, by name
+ */
+export function getSavedMappings(): SavedImportMapping[] {
+  return getImportMappings().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Presets of the saved mappings
+ */
+export function getSavedPresets(): ImportPreset[] {
+  return getSavedMappings().map(m => m.preset);
+}
+
+/**
+ * Save a mapping under a name, replacing one saved under the same name
+ */
+export function saveImportMapping(name: string, preset: ImportPreset): SavedImportMapping {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Give the mapping a name');
+
+  const saved: SavedImportMapping = {
+    name: trimmed,
+    preset: { ...preset, id: `${SAVED_PREFIX}${trimmed}`, label: trimmed, platform: 'Saved mapping' },
+    saved_at: new Date().toISOString(),
+  };
+  setImportMappings([...getImportMappings().filter(m => m.name !== trimmed), saved]);
+  return saved;
+}
+
+/**
+ * Remove a saved mapping
+ */
+export function deleteImportMapping(name: string): void {
+  setImportMappings(getImportMappings().filter(m => m.name !== name));
+}
@@ -0,0 +1,327 @@
+/**
+ * Journal
+ *
+ * The personal trading journal (payouts, expenses, accounts, prop firms,
+ * daily entries, setups and trades) independent of where it's stored.
+ * `createJournal` holds the records on screen and applies every change
+ * the same way on any backend: new ids, one daily entry per day, and
+ * account P&L and status worked out again whenever accounts or trades
+ * change. Where the records live is up to a `JournalAdapter`:
+ *
+ *   - localJournalAdapter: localStorage, synced to R2 when configured
+ *   - supabaseJournalAdapter: Supabase, through an offline write queue
+ *   - createMemoryJournalAdapter (below): nothing persisted, for tests
+ */
+
+import type { Payout, Expense, Account, PropFirm, DailyEntry, TradingSetup, Trade } from '@/types';
+import type { ImportBatch, ImportSourceInfo } from '@/lib/importBatches';
+import { JOURNAL_ENTITIES, type JournalEntity } from '@/lib/journalStore';
+
+export interface JournalRecords {
+  payouts: Payout;
+  expenses: Expense;
+  accounts: Account;
+  propFirms: PropFirm;
+  dailyEntries: DailyEntry;
+  tradingSetups: TradingSetup;
+  trades: Trade;
+}
+
+export type JournalData = { [E in JournalEntity]: JournalRecords[E][] };
+
+// disabled: kept on this device only (no R2 sync configured)
+// pending: changes saved on this device that haven't reached the backend yet
+// error: the backend rejected a change, or the last refresh failed
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'pending' | 'error' | 'disabled' | 'not_configured' | 'not_authenticated';
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: number;                // changes not sent yet
+  failed: number;                 // changes the backend rejected
+  failedError: string | null;     // why the oldest failed change was rejected
+  error: string | null;           // why the last refresh failed
+}
+
+export interface AdapterHandlers {
+  onStatus: (state: SyncState) => void;
+  // Records changed somewhere else (another device, tab or a realtime event)
+  onRemoteChange: () => void;
+}
+
+export interface JournalAdapter {
+  /** What's stored on this device, shown before the backend answers */
+  load(): Promise<JournalData>;
+  /** Catch up with the backend and return what it has. Failures are reported through onStatus. */
+  sync(): Promise<JournalData>;
+  /** Insert or replace records by id */
+  save<E extends JournalEntity>(entity: E, records: JournalRecords[E][]): Promise<void>;
+  remove(entity: JournalEntity, id: string): Promise<void>;
+  /** Send what's been saved, now or shortly */
+  flush(): Promise<void>;
+  watch(handlers: AdapterHandlers): () => void;
+  close(): void;
+
+  // Only backends that keep import batches can roll a CSV import back
+  importTrades?(trades: Trade[], source: ImportSourceInfo): Promise<ImportBatch>;
+  rollbackImportBatch?(batchId: string): Promise<void>;
+  retryFailed?(): Promise<void>;
+  discardFailed?(): Promise<void>;
+}
+
+export function emptyJournalData(): JournalData {
+  return { payouts: [], expenses: [], accounts: [], propFirms: [], dailyEntries: [], tradingSetups: [], trades: [] };
+}
+
+export function countRecords(data: JournalData): number {
+  return JOURNAL_ENTITIES.reduce((sum, entity) => sum + data[entity].length, 0);
+}
+
+const byText = (key: string, descending: boolean) => (a: object, b: object) => {
+  const order = String((a as Record<string, unknown>)[key] ?? '').localeCompare(String((b as Record<string, unknown>)[key] ?? ''));
+  return descending ? -order : order;
+};
+
+// Newest first for anything dated, by name otherwise
+const SORTS: Record<JournalEntity, (a: object, b: object) => number> = {
+  payouts: byText('date', true),
+  expenses: byText('date', true),
+  accounts: byText('startDate', true),
+  propFirms: byText('name', false),
+  dailyEntries: byText('date', true),
+  tradingSetups: byText('name', false),
+  trades: byText('date', true),
+};
+
+function sorted(data: JournalData): JournalData {
+  const result = {} as JournalData;
+  for (const entity of JOURNAL_ENTITIES) {
+    (result[entity] as object[]) = [...data[entity]].sort(SORTS[entity]);
+  }
+  return result;
+}
+
+// ── Account P&L ─────────────────────────────────────────────
+/**
+ * Account P&L from trades. Only active accounts (funded and active, or
+ * evaluations in progress) are worked out; the others keep the P&L they
+ * finished with. An active account gets its own trades plus its share of
+ * split trades made on or after it started, split between the accounts
+ * active at the time. Reaching the max drawdown fails an evaluation or
+ * breaches a funded account; reaching the profit target passes an
+ * evaluation.
+ */
+export function recalcAccountPnl(accounts: Account[], trades: Trade[], today = new Date().toISOString().split('T')[0]): Account[] {
+  const activeAccounts = accounts.filter(a =>
+    (a.type === 'funded' && a.status === 'active') ||
+    (a.type === 'evaluation' && a.status === 'in_progress')
+  );
+  const splitTrades = trades.filter(t => t.accountId === 'split');
+
+  return accounts.map(account => {
+    if (!activeAccounts.some(a => a.id === account.id)) return account;
+
+    const directPnl = trades
+      .filter(t => t.accountId === account.id)
+      .reduce((sum, t) => sum + (t.pnl || 0), 0);
+
+    let splitPnl = 0;
+    for (const trade of splitTrades) {
+      if (trade.date < account.startDate) continue;
+      const accountsAtTradeTime = activeAccounts.filter(a => a.startDate <= trade.date).length;
+      if (accountsAtTradeTime > 0) splitPnl += (trade.pnl || 0) / accountsAtTradeTime;
+    }
+
+    const profitLoss = Math.round((directPnl + splitPnl) * 100) / 100;
+    let { status, endDate } = account;
+
+    if (account.maxDrawdown != null && profitLoss <= -account.maxDrawdown) {
+      status = account.type === 'evaluation' ? 'failed' : 'breached';
+      endDate = today;
+    } else if (account.type === 'evaluation' && account.profitTarget != null && profitLoss >= account.profitTarget) {
+      status = 'passed';
+      endDate = today;
+    }
+
+    return { ...account, profitLoss, status, endDate };
+  });
+}
+
+const accountChanged = (before: Account, after: Account) =>
+  Math.abs((before.profitLoss || 0) - after.profitLoss) > 0.01 ||
+  before.status !== after.status ||
+  before.endDate !== after.endDate;
+
+// ── Journal ─────────────────────────────────────────────────
+export interface Journal {
+  data(): JournalData;
+  subscribe(listener: (data: JournalData) => void): () => void;
+  /** Show what's on this device, then catch up with the backend */
+  open(): Promise<void>;
+  refresh(): Promise<void>;
+
+  add<E extends JournalEntity>(entity: E, record: Omit<JournalRecords[E], 'id'>): Promise<JournalRecords[E]>;
+  update<E extends JournalEntity>(entity: E, record: JournalRecords[E]): Promise<void>;
+  remove(entity: JournalEntity, id: string): Promise<void>;
+  /** One entry per day: an entry for a day that has one updates it */
+  upsertDailyEntry(entry: Omit<DailyEntry, 'id'>): Promise<void>;
+
+  /** A CSV import, kept as one batch where the backend supports it */
+  importTrades(trades: Omit<Trade, 'id'>[], source: ImportSourceInfo): Promise<ImportBatch | null>;
+  rollbackImportBatch(batchId: string): Promise<void>;
+  /** Bulk copy of records that already have ids (another backend, an old export) */
+  importData(data: Partial<JournalData>): Promise<void>;
+}
+
+// Accounts and trades decide account P&L
+const AFFECTS_PNL = new Set<JournalEntity>(['accounts', 'trades']);
+
+// Sync bookkeeping of the localStorage backend, not a field of the record
+const withoutSyncStamp = <T extends object>(record: T): T => {
+  const { updatedAt: _updatedAt, ...rest } = record as T & { updatedAt?: string };
+  return rest as T;
+};
+
+export function createJournal(adapter: JournalAdapter): Journal {
+  let current = emptyJournalData();
+  const listeners = new Set<(data: JournalData) => void>();
+
+  const show = (next: JournalData) => {
+    current = sorted(next);
+    listeners.forEach(listener => listener(current));
+  };
+
+  const put = async <E extends JournalEntity>(entity: E, records: JournalRecords[E][]) => {
+    if (records.length === 0) return;
+    await adapter.save(entity, records);
+    const ids = new Set(records.map(r => r.id));
+    show({ ...current, [entity]: [...current[entity].filter(r => !ids.has(r.id)), ...records] });
+  };
+
+  // Store accounts whose P&L or status moved
+  const reconcileAccounts = async () => {
+    const updated = recalcAccountPnl(current.accounts, current.trades);
+    const changed = updated.filter((account, i) => accountChanged(current.accounts[i], account));
+    await put('accounts', changed);
+  };
+
+  const afterChange = async (entity: JournalEntity) => {
+    if (AFFECTS_PNL.has(entity)) await reconcileAccounts();
+    await adapter.flush();
+  };
+
+  const refresh = async () => {
+    show(await adapter.sync());
+    const before = current.accounts;
+    await reconcileAccounts();
+    if (current.accounts !== before) await adapter.flush();
+  };
+
+  return {
+    data: () => current,
+
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    open: async () => {
+      show(await adapter.load());
+      await refresh();
+    },
+
+    refresh,
+
+    add: async (entity, record) => {
+      const created = { ...record, id: crypto.randomUUID() } as JournalRecords[typeof entity];
+      await put(entity, [created]);
+      await afterChange(entity);
+      return created;
+    },
+
+    update: async (entity, record) => {
+      await put(entity, [record]);
+      await afterChange(entity);
+    },
+
+    remove: async (entity, id) => {
+      await adapter.remove(entity, id);
+      show({ ...current, [entity]: current[entity].filter(r => r.id !== id) });
+      await afterChange(entity);
+    },
+
+    upsertDailyEntry: async entry => {
+      const existing = current.dailyEntries.find(e => e.date === entry.date);
+      await put('dailyEntries', [{ ...existing, ...entry, id: existing?.id ?? crypto.randomUUID() }]);
+      await adapter.flush();
+    },
+
+    importTrades: async (trades, source) => {
+      if (trades.length === 0) return null;
+      const created = trades.map(t => ({ ...t, id: crypto.randomUUID() }) as Trade);
+
+      if (!adapter.importTrades) {
+        await put('trades', created);
+        await afterChange('trades');
+        return null;
+      }
+      const batch = await adapter.importTrades(created, source);
+      await refresh();
+      return batch;
+    },
+
+    rollbackImportBatch: async batchId => {
+      if (!adapter.rollbackImportBatch) throw new Error('Imports on this device are not kept as batches and can\'t be rolled back');
+      await adapter.rollbackImportBatch(batchId);
+      await refresh();
+    },
+
+    // Parents before the records that point at them
+    importData: async data => {
+      const order: JournalEntity[] = ['tradingSetups', 'propFirms', 'accounts', 'payouts', 'expenses', 'dailyEntries', 'trades'];
+      for (const entity of order) {
+        await put(entity, (data[entity] ?? []).map(withoutSyncStamp) as never[]);
+      }
+      await reconcileAccounts();
+      await adapter.flush();
+    },
+  };
+}
+
+// ── In-memory adapter ───────────────────────────────────────
+/**
+ * Adapter that keeps records in memory only, for tests. `sync` returns
+ * what it holds, so a journal on it behaves like one that's always in sync.
+ */
+export function createMemoryJournalAdapter(initial: Partial<JournalData> = {}): JournalAdapter {
+  const records = new Map<JournalEntity, Map<string, { id: string }>>(
+    JOURNAL_ENTITIES.map(entity => {
+      const rows: { id: string }[] = initial[entity] ?? [];
+      return [entity, new Map(rows.map(r => [r.id, { ...r }]))];
+    })
+  );
+
+  const snapshot = (): JournalData => {
+    const data = emptyJournalData();
+    for (const entity of JOURNAL_ENTITIES) {
+      (data[entity] as { id: string }[]) = [...records.get(entity)!.values()].map(r => ({ ...r }));
+    }
+    return data;
+  };
+
+  return {
+    load: async () => snapshot(),
+    sync: async () => snapshot(),
+    save: async (entity, rows) => {
+      rows.forEach(r => records.get(entity)!.set(r.id, { ...r }));
+    },
+    remove: async (entity, id) => {
+      records.get(entity)!.delete(id);
+    },
+    flush: async () => {},
+    watch: handlers => {
+      handlers.onStatus({ status: 'synced', pending: 0, failed: 0, failedError: null, error: null });
+      return () => {};
+    },
+    close: () => {},
+  };
+}
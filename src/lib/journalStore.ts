@@ -0,0 +1,255 @@
+/**
+ * Journal Store
+ *
+ * IndexedDB copy of the journal (one database per user) and a durable queue
+ * of writes waiting to reach Supabase. Every change is applied to the local
+ * copy and queued at once, so the journal keeps working offline; the queue
+ * is replayed in order whenever the connection is back.
+ *
+ * Inserts are queued as upserts on a client-generated id, so replaying a
+ * write whose response was lost doesn't create a second row. A write
+ * Supabase rejects (bad data, missing table, RLS) is kept in the queue as
+ * failed, since sending it again wouldn't help; network errors leave it
+ * pending for the next replay.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type JournalEntity = 'payouts' | 'expenses' | 'accounts' | 'propFirms' | 'dailyEntries' | 'tradingSetups' | 'trades';
+
+export const JOURNAL_ENTITIES: JournalEntity[] = [
+  'payouts', 'expenses', 'accounts', 'propFirms', 'dailyEntries', 'tradingSetups', 'trades',
+];
+
+export const JOURNAL_TABLES: Record<JournalEntity, string> = {
+  payouts: 'journal_payouts',
+  expenses: 'journal_expenses',
+  accounts: 'journal_accounts',
+  propFirms: 'journal_prop_firms',
+  dailyEntries: 'journal_daily_entries',
+  tradingSetups: 'journal_setups',
+  trades: 'journal_trades',
+};
+
+export type MutationOp = 'upsert' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  seq?: number;                      // set by the queue, replay order
+  entity: JournalEntity;
+  op: MutationOp;
+  id: string;
+  row?: Record<string, unknown>;     // snake_case columns, for upserts and updates
+  onConflict?: string;               // upserts on something other than id
+  queuedAt: string;
+  attempts: number;
+  error?: string;                    // set once Supabase rejects it
+}
+
+export interface QueueCounts {
+  pending: number;
+  failed: number;
+}
+
+interface StoredRecord {
+  id: string;
+}
+
+export interface JournalStore {
+  get<T extends StoredRecord>(entity: JournalEntity, id: string): Promise<T | undefined>;
+  getAll<T extends StoredRecord>(entity: JournalEntity): Promise<T[]>;
+  replaceAll<T extends StoredRecord>(entity: JournalEntity, records: T[]): Promise<void>;
+  put<T extends StoredRecord>(entity: JournalEntity, record: T): Promise<void>;
+  remove(entity: JournalEntity, id: string): Promise<void>;
+
+  enqueue(mutation: Omit<QueuedMutation, 'seq' | 'queuedAt' | 'attempts'>): Promise<void>;
+  mutations(): Promise<QueuedMutation[]>;
+  updateMutation(mutation: QueuedMutation): Promise<void>;
+  removeMutation(seq: number): Promise<void>;
+  close(): void;
+}
+
+const DB_VERSION = 1;
+const QUEUE = 'mutations';
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const entity of JOURNAL_ENTITIES) {
+        if (!db.objectStoreNames.contains(entity)) db.createObjectStore(entity, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(QUEUE)) {
+        db.createObjectStore(QUEUE, { keyPath: 'seq', autoIncrement: true });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Open the signed-in user's store
+ */
+export async function openJournalStore(userId: string): Promise<JournalStore> {
+  const db = await openDatabase(`proptracker-journal-${userId}`);
+
+  const write = async (storeName: string, fn: (store: IDBObjectStore) => void) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    fn(tx.objectStore(storeName));
+    await done(tx);
+  };
+
+  return {
+    get: <T extends StoredRecord>(entity: JournalEntity, id: string) =>
+      request(db.transaction(entity).objectStore(entity).get(id)) as Promise<T | undefined>,
+
+    getAll: <T extends StoredRecord>(entity: JournalEntity) =>
+      request(db.transaction(entity).objectStore(entity).getAll()) as Promise<T[]>,
+
+    replaceAll: (entity, records) => write(entity, store => {
+      store.clear();
+      records.forEach(r => store.put(r));
+    }),
+
+    put: (entity, record) => write(entity, store => { store.put(record); }),
+
+    remove: (entity, id) => write(entity, store => { store.delete(id); }),
+
+    enqueue: mutation => write(QUEUE, store => {
+      store.add({ ...mutation, queuedAt: new Date().toISOString(), attempts: 0 });
+    }),
+
+    mutations: () => request(db.transaction(QUEUE).objectStore(QUEUE).getAll()) as Promise<QueuedMutation[]>,
+
+    updateMutation: mutation => write(QUEUE, store => { store.put(mutation); }),
+
+    removeMutation: seq => write(QUEUE, store => { store.delete(seq); }),
+
+    close: () => db.close(),
+  };
+}
+
+/**
+ * Store kept in memory, for browsers without IndexedDB (private windows in
+ * some browsers). Works the same but is lost on reload.
+ */
+export function createMemoryJournalStore(): JournalStore {
+  const records = new Map<JournalEntity, Map<string, StoredRecord>>(JOURNAL_ENTITIES.map(e => [e, new Map()]));
+  const queue = new Map<number, QueuedMutation>();
+  let seq = 0;
+
+  return {
+    get: async <T extends StoredRecord>(entity: JournalEntity, id: string) => records.get(entity)!.get(id) as T | undefined,
+    getAll: async <T extends StoredRecord>(entity: JournalEntity) => [...records.get(entity)!.values()] as T[],
+    replaceAll: async (entity, rows) => { records.set(entity, new Map(rows.map(r => [r.id, r]))); },
+    put: async (entity, record) => { records.get(entity)!.set(record.id, record); },
+    remove: async (entity, id) => { records.get(entity)!.delete(id); },
+
+    enqueue: async mutation => {
+      seq += 1;
+      queue.set(seq, { ...mutation, seq, queuedAt: new Date().toISOString(), attempts: 0 });
+    },
+    mutations: async () => [...queue.values()],
+    updateMutation: async mutation => { queue.set(mutation.seq!, mutation); },
+    removeMutation: async s => { queue.delete(s); },
+    close: () => {},
+  };
+}
+
+export function countMutations(mutations: QueuedMutation[]): QueueCounts {
+  const failed = mutations.filter(m => m.error).length;
+  return { pending: mutations.length - failed, failed };
+}
+
+/**
+ * Supabase answers a rejected write with a Postgres or PostgREST error code;
+ * a request that never got an answer has none
+ */
+function isNetworkError(error: { code?: string }): boolean {
+  return !error.code || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
+
+async function send(supabase: SupabaseClient, mutation: QueuedMutation) {
+  const table = supabase.from(JOURNAL_TABLES[mutation.entity]);
+  switch (mutation.op) {
+    case 'upsert':
+      // Rows upserted on another key keep the id they already have on the server
+      return mutation.onConflict
+        ? table.upsert(mutation.row!, { onConflict: mutation.onConflict })
+        : table.upsert({ id: mutation.id, ...mutation.row }, { onConflict: 'id' });
+    case 'update':
+      return table.update(mutation.row!).eq('id', mutation.id);
+    case 'delete':
+      return table.delete().eq('id', mutation.id);
+  }
+}
+
+/**
+ * Send pending writes in the order they were made. Stops at the first
+ * network error, leaving the rest for the next replay; failed writes are
+ * skipped until they're retried or discarded.
+ */
+export async function replayMutations(supabase: SupabaseClient, store: JournalStore): Promise<QueueCounts> {
+  for (const mutation of await store.mutations()) {
+    if (mutation.error) continue;
+
+    let error: { message: string; code?: string } | null;
+    try {
+      ({ error } = await send(supabase, mutation));
+    } catch (e) {
+      error = { message: e instanceof Error ? e.message : String(e) };
+    }
+
+    if (!error) {
+      await store.removeMutation(mutation.seq!);
+      continue;
+    }
+
+    const attempted = { ...mutation, attempts: mutation.attempts + 1 };
+    if (isNetworkError(error)) {
+      await store.updateMutation(attempted);
+      break;
+    }
+    await store.updateMutation({ ...attempted, error: error.message });
+  }
+
+  return countMutations(await store.mutations());
+}
+
+/**
+ * Put failed writes back in line for the next replay
+ */
+export async function retryFailedMutations(store: JournalStore): Promise<void> {
+  for (const mutation of await store.mutations()) {
+    if (mutation.error) await store.updateMutation({ ...mutation, error: undefined });
+  }
+}
+
+/**
+ * Drop failed writes; the next fetch brings back what Supabase has
+ */
+export async function discardFailedMutations(store: JournalStore): Promise<void> {
+  for (const mutation of await store.mutations()) {
+    if (mutation.error) await store.removeMutation(mutation.seq!);
+  }
+}
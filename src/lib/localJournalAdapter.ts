@@ -0,0 +1,116 @@
+/**
+ * Local Journal Adapter
+ *
+ * Keeps the journal in localStorage (see storage.ts) and, when R2 is
+ * configured, pushes it to the worker's /sync 500ms after the last change.
+ * A push can come back with another device's changes merged in; those,
+ * and changes made in another tab, are reported as remote changes so the
+ * journal reloads.
+ */
+
+import {
+  initStorage, isR2Configured, pullFromR2, syncToR2,
+  getPayouts, setPayouts, getExpenses, setExpenses, getAccounts, setAccounts,
+  getPropFirms, setPropFirms, getDailyEntries, setDailyEntries,
+  getTradingSetups, setTradingSetups, getTrades, setTrades,
+} from '@/lib/storage';
+import type { AdapterHandlers, JournalAdapter, JournalData, SyncStatus } from '@/lib/journal';
+import { JOURNAL_ENTITIES, type JournalEntity } from '@/lib/journalStore';
+
+const PUSH_DELAY_MS = 500;
+
+type Collection = { id: string }[];
+
+const COLLECTIONS: Record<JournalEntity, { get: () => Collection; set: (records: never[]) => void }> = {
+  payouts: { get: getPayouts, set: setPayouts },
+  expenses: { get: getExpenses, set: setExpenses },
+  accounts: { get: getAccounts, set: setAccounts },
+  propFirms: { get: getPropFirms, set: setPropFirms },
+  dailyEntries: { get: getDailyEntries, set: setDailyEntries },
+  tradingSetups: { get: getTradingSetups, set: setTradingSetups },
+  trades: { get: getTrades, set: setTrades },
+};
+
+function read(): JournalData {
+  return Object.fromEntries(JOURNAL_ENTITIES.map(entity => [entity, COLLECTIONS[entity].get()])) as JournalData;
+}
+
+export function createLocalJournalAdapter(): JournalAdapter {
+  let handlers: AdapterHandlers | null = null;
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const report = (status: SyncStatus, error: string | null = null) =>
+    handlers?.onStatus({ status, pending: 0, failed: 0, failedError: null, error });
+
+  const push = async () => {
+    pushTimer = null;
+    report('syncing');
+    try {
+      const merged = await syncToR2();
+      report('synced');
+      if (merged) handlers?.onRemoteChange();
+    } catch (e) {
+      report('error', e instanceof Error ? e.message : 'Sync failed');
+    }
+  };
+
+  // Another tab wrote to localStorage
+  const onStorage = (e: StorageEvent) => {
+    if (e.key?.startsWith('proptracker_')) handlers?.onRemoteChange();
+  };
+
+  return {
+    load: async () => {
+      initStorage();
+      return read();
+    },
+
+    sync: async () => {
+      if (!isR2Configured()) {
+        report('disabled');
+        return read();
+      }
+      report('syncing');
+      try {
+        // Send the merged copy back, so the cloud has this device's changes too
+        if (await pullFromR2()) await syncToR2();
+        report('synced');
+      } catch (e) {
+        report('error', e instanceof Error ? e.message : 'Sync failed');
+      }
+      return read();
+    },
+
+    save: async (entity, records) => {
+      const ids = new Set(records.map(r => r.id));
+      const { get, set } = COLLECTIONS[entity];
+      set([...get().filter(r => !ids.has(r.id)), ...records] as never[]);
+    },
+
+    remove: async (entity, id) => {
+      const { get, set } = COLLECTIONS[entity];
+      set(get().filter(r => r.id !== id) as never[]);
+    },
+
+    flush: async () => {
+      if (!isR2Configured()) return;
+      if (pushTimer) clearTimeout(pushTimer);
+      pushTimer = setTimeout(push, PUSH_DELAY_MS);
+    },
+
+    watch: next => {
+      handlers = next;
+      report(isR2Configured() ? 'idle' : 'disabled');
+      window.addEventListener('storage', onStorage);
+      return () => {
+        handlers = null;
+        window.removeEventListener('storage', onStorage);
+      };
+    },
+
+    close: () => {
+      if (pushTimer) clearTimeout(pushTimer);
+      window.removeEventListener('storage', onStorage);
+    },
+  };
+}
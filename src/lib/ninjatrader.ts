@@ -0,0 +1,204 @@
+/**
+ * NinjaTrader Export Reader
+ *
+ * NinjaTrader 8 has no web API, so accounts are read from the CSV files its
+ * Control Center grids export: Executions (fills), Accounts (cash value and
+ * realized P&L) and Positions. Files are recognised by their headers, so
+ * any mix of them can be passed in.
+ *
+ * Executions carry no numeric ids. Each fill's id is derived from its
+ * execution time (epoch seconds x 1000 + its position among the account's
+ * fills in that second, ordered by execution id), so the same fill gets the
+ * same id in every export, whatever else the export holds, and ids increase
+ * over time, as the sync cursor expects. Ids are unique within an account.
+ */
+
+import Papa from 'papaparse';
+import { isValid, parse } from 'date-fns';
+import { carriedLots, pairBrokerTrades, type BrokerFill, type PairingOptions } from '@/lib/fillPairing';
+import { parseInstrumentFromContract } from '@/lib/tradovate';
+import type { BrokerBalance, BrokerClient, BrokerPosition, BrokerTrade } from '@/lib/brokerClient';
+import type { BrokerAccountInfo } from '@/types/bots';
+
+type Row = Record<string, string>;
+
+export interface NinjaTraderExecution extends BrokerFill {
+  accountId: string;
+  executionId: string;
+}
+
+interface NinjaTraderExports {
+  executions: Row[];
+  accounts: Row[];
+  positions: Row[];
+}
+
+// Grids export times in the machine's locale format; try the common ones
+const TIME_FORMATS = ['M/d/yyyy h:mm:ss a', 'M/d/yyyy H:mm:ss', 'd/M/yyyy H:mm:ss', 'yyyy-MM-dd HH:mm:ss'];
+
+// Lower-case, alphanumeric only: 'Avg. price' -> 'avgprice', 'E/X' -> 'ex'
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const toNumber = (value: string | undefined) =>
+  value === undefined || value === '' ? NaN : Number(value.replace(/[$,\s]/g, '').replace(/^\((.*)\)$/, '-$1'));
+
+/**
+ * ISO timestamp for an exported time, read in the local time zone
+ */
+export function parseNinjaTraderTime(value: string): string {
+  for (const pattern of TIME_FORMATS) {
+    const date = parse(value.trim(), pattern, new Date());
+    if (isValid(date)) return date.toISOString();
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Unrecognised NinjaTrader time: ${value}`);
+  return date.toISOString();
+}
+
+/**
+ * Sort exported CSV files into executions, accounts and positions
+ */
+export function readNinjaTraderExports(files: string[]): NinjaTraderExports {
+  const exports: NinjaTraderExports = { executions: [], accounts: [], positions: [] };
+
+  files.forEach(content => {
+    const { data, meta } = Papa.parse<Row>(content, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: normalizeHeader,
+    });
+    const headers = new Set(meta.fields || []);
+
+    if (headers.has('action') && headers.has('price') && headers.has('time')) {
+      exports.executions.push(...data);
+    } else if (headers.has('cashvalue')) {
+      exports.accounts.push(...data);
+    } else if (headers.has('avgprice') && headers.has('instrument')) {
+      exports.positions.push(...data);
+    } else {
+      throw new Error('Unrecognised NinjaTrader export: expected the Executions, Accounts or Positions grid');
+    }
+  });
+
+  return exports;
+}
+
+/**
+ * Fills from an Executions export, oldest first. An order's id is the id
+ * of its first fill.
+ */
+export function toNinjaTraderExecutions(rows: Row[]): NinjaTraderExecution[] {
+  const parsed = rows
+    .filter(r => r.instrument && r.action)
+    .map(r => ({ row: r, timestamp: parseNinjaTraderTime(r.time) }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || (a.row.id || '').localeCompare(b.row.id || ''));
+
+  const orderIds = new Map<string, number>();
+  const seqs = new Map<string, number>();       // fills so far by account and second
+
+  return parsed.map(({ row, timestamp }) => {
+    const account = row.account || '';
+    const epochSecond = Math.floor(Date.parse(timestamp) / 1000);
+    const secondKey = `${account}:${epochSecond}`;
+    const seq = seqs.get(secondKey) ?? 0;
+    seqs.set(secondKey, seq + 1);
+    const id = epochSecond * 1000 + seq;
+    const orderKey = `${account}:${row.orderid || row.id || id}`;
+    if (!orderIds.has(orderKey)) orderIds.set(orderKey, id);
+
+    return {
+      id,
+      orderId: orderIds.get(orderKey)!,
+      accountId: account,
+      executionId: row.id || '',
+      instrument: parseInstrumentFromContract(row.instrument.split(' ')[0]),
+      timestamp,
+      action: row.action.toLowerCase().startsWith('buy') ? 'Buy' as const : 'Sell' as const,
+      qty: Math.abs(toNumber(row.quantity)),
+      price: toNumber(row.price),
+    };
+  });
+}
+
+export class NinjaTraderClient implements BrokerClient {
+  readonly broker = 'ninjatrader' as const;
+  private exports: NinjaTraderExports;
+  private executions: NinjaTraderExecution[];
+
+  constructor(files: string[]) {
+    this.exports = readNinjaTraderExports(files);
+    this.executions = toNinjaTraderExecutions(this.exports.executions);
+  }
+
+  /**
+   * Nothing to sign in to; checks that there is something to read
+   */
+  async authenticate(): Promise<void> {
+    if (this.executions.length === 0 && this.exports.accounts.length === 0) {
+      throw new Error('Add a NinjaTrader Executions or Accounts export');
+    }
+  }
+
+  async getAccounts(): Promise<BrokerAccountInfo[]> {
+    const names = new Set([
+      ...this.exports.accounts.map(r => r.account || r.displayname),
+      ...this.executions.map(e => e.accountId),
+    ].filter(Boolean));
+
+    return [...names].map(name => ({
+      id: name,
+      name,
+      accountType: name.toLowerCase().startsWith('sim') ? 'Simulation' : 'Live',
+      active: true,
+    }));
+  }
+
+  async getFills(accountId: string): Promise<BrokerFill[]> {
+    return this.executions
+      .filter(e => e.accountId === accountId)
+      .map(({ accountId: _account, executionId: _execution, ...fill }) => fill);
+  }
+
+  /**
+   * Round trips from the Executions export. With a Positions export too,
+   * positions opened before the executions start are worked out from it so
+   * their closes don't pair up with later fills; without one the account is
+   * taken to be flat where the export starts.
+   */
+  async fetchTrades(accountId: string, sinceDate?: Date, options?: PairingOptions): Promise<BrokerTrade[]> {
+    const fills = await this.getFills(accountId);
+    const carried = this.exports.positions.length > 0 ? carriedLots(fills, await this.getPositions(accountId)) : [];
+    return pairBrokerTrades(fills, accountId, sinceDate, {
+      ...options,
+      openLots: [...(options?.openLots || []), ...carried],
+    });
+  }
+
+  async getPositions(accountId: string): Promise<BrokerPosition[]> {
+    return this.exports.positions
+      .filter(r => r.account === accountId)
+      .map(r => {
+        // 'Position' reads like '2 L' / '1 S'; some layouts split it into
+        // 'Market position' and 'Quantity'
+        const [qty, side] = (r.position || `${r.quantity} ${r.marketposition}`).trim().split(/\s+/);
+        const short = /^s/i.test(side || '') || toNumber(qty) < 0;
+        return {
+          accountId,
+          instrument: parseInstrumentFromContract(r.instrument.split(' ')[0]),
+          netPos: Math.abs(toNumber(qty)) * (short ? -1 : 1),
+          netPrice: toNumber(r.avgprice),
+          unrealizedPnl: r.unrealized ? toNumber(r.unrealized) : undefined,
+        };
+      })
+      .filter(p => p.netPos !== 0 && !isNaN(p.netPos));
+  }
+
+  async getCashBalance(accountId: string): Promise<BrokerBalance> {
+    const row = this.exports.accounts.find(r => (r.account || r.displayname) === accountId);
+    if (!row) throw new Error(`No NinjaTrader Accounts export row for ${accountId}`);
+    return {
+      cashBalance: toNumber(row.cashvalue),
+      realizedPnL: toNumber(row.realizedpnl ?? row.realizedprofitloss) || 0,
+    };
+  }
+}
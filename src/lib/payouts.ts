@@ -0,0 +1,206 @@
+/**
+ * Payout Planner
+ *
+ * Works out when a funded account can next request a payout and how much
+ * it can withdraw under its firm's payout rules: minimum trading days,
+ * the buffer that must stay above the drawdown threshold, per-request
+ * caps, days between requests, the consistency rule and the profit split.
+ */
+
+import { addBusinessDays, addDays, format, parseISO } from 'date-fns';
+import type { BotAccount, BotTrade, PayoutRules } from '@/types/bots';
+import type { Account, Payout, Trade } from '@/types';
+import { computeDrawdown } from '@/lib/drawdown';
+import { getBotConsistency, getJournalConsistency, getJournalDailyPnl } from '@/lib/consistency';
+import { getBotAccountRules, getJournalAccountRules } from '@/lib/propFirmRules';
+import { getTradingDay, groupByTradingDay } from '@/lib/tradingDay';
+
+export interface PayoutPlan {
+  rules: PayoutRules;
+  balance: number;            // current balance net of earlier withdrawals
+  floor: number;              // balance that has to remain after the payout
+  tradingDays: number;        // trading days since the last payout (or start)
+  tradingDaysNeeded: number;
+  lastPayoutDate?: string;
+  nextEligibleDate: string;   // earliest date the day-based rules allow a request
+  withdrawable: number;       // gross amount that can be requested now
+  traderShare: number;        // withdrawable after the profit split
+  eligible: boolean;
+  blockers: string[];         // why a payout can't be requested yet
+}
+
+interface PayoutInputs {
+  rules: PayoutRules;
+  balance: number;
+  floor: number;
+  tradingDays: number;
+  lastPayoutDate?: string;
+  consistencyBlocker?: string;
+  today: string;
+}
+
+const fmt = (n: number) => `$${Math.round(n).toLocaleString()}`;
+
+/**
+ * Gross amount taken out of the account by a payout
+ */
+export function payoutGrossAmount(payout: Payout): number {
+  return payout.grossAmount ?? payout.amount;
+}
+
+/**
+ * Apply the payout rules to an account's balance and history
+ */
+export function planPayout({
+  rules,
+  balance,
+  floor,
+  tradingDays,
+  lastPayoutDate,
+  consistencyBlocker,
+  today,
+}: PayoutInputs): PayoutPlan {
+  const blockers: string[] = [];
+  const todayDate = parseISO(today);
+
+  // Day-based requirements decide the next eligible date
+  const tradingDaysNeeded = Math.max(0, rules.min_trading_days - tradingDays);
+  let nextEligible = tradingDaysNeeded > 0 ? addBusinessDays(todayDate, tradingDaysNeeded) : todayDate;
+  if (tradingDaysNeeded > 0) {
+    blockers.push(`${tradingDaysNeeded} more trading day${tradingDaysNeeded !== 1 ? 's' : ''} needed (${tradingDays}/${rules.min_trading_days})`);
+  }
+  if (lastPayoutDate && rules.min_days_between) {
+    const intervalEnd = addDays(parseISO(lastPayoutDate), rules.min_days_between);
+    if (intervalEnd > nextEligible) nextEligible = intervalEnd;
+    if (intervalEnd > todayDate) {
+      blockers.push(`${rules.min_days_between} days must pass after the last payout (${lastPayoutDate})`);
+    }
+  }
+
+  // Amount-based requirements decide how much can come out
+  const available = Math.max(0, balance - floor);
+  const withdrawable = rules.max_amount ? Math.min(available, rules.max_amount) : available;
+  if (available <= 0) {
+    blockers.push(`Balance needs ${fmt(floor - balance)} more to clear the ${fmt(rules.min_buffer)} buffer`);
+  } else if (rules.min_amount && withdrawable < rules.min_amount) {
+    blockers.push(`Only ${fmt(withdrawable)} available, minimum request is ${fmt(rules.min_amount)}`);
+  }
+
+  if (consistencyBlocker) blockers.push(consistencyBlocker);
+
+  return {
+    rules,
+    balance,
+    floor,
+    tradingDays,
+    tradingDaysNeeded,
+    lastPayoutDate,
+    nextEligibleDate: format(nextEligible, 'yyyy-MM-dd'),
+    withdrawable,
+    traderShare: Math.round(withdrawable * rules.split_pct) / 100,
+    eligible: blockers.length === 0,
+    blockers,
+  };
+}
+
+/**
+ * Most recent payout date in a list
+ */
+function latestPayoutDate(payouts: Payout[]): string | undefined {
+  return payouts.reduce<string | undefined>((latest, p) => (!latest || p.date > latest ? p.date : latest), undefined);
+}
+
+/**
+ * Payout plan for a funded bot account, or null if its rules have no payout terms
+ */
+export function planBotAccountPayout(
+  account: BotAccount,
+  trades: BotTrade[],
+  payouts: Payout[],
+  now: Date = new Date()
+): PayoutPlan | null {
+  const rules = getBotAccountRules(account)?.payout;
+  if (!rules || account.status !== 'funded') return null;
+
+  const accountTrades = trades.filter(t => t.bot_account_id === account.id);
+  const accountPayouts = payouts.filter(p => p.botAccountId === account.id);
+  const lastPayoutDate = latestPayoutDate(accountPayouts);
+  const withdrawn = accountPayouts.reduce((sum, p) => sum + payoutGrossAmount(p), 0);
+
+  const dd = computeDrawdown(account, accountTrades);
+  const tradingDays = [...groupByTradingDay(accountTrades.filter(t => t.status === 'closed')).keys()]
+    .filter(day => !lastPayoutDate || day > lastPayoutDate)
+    .length;
+
+  const consistency = getBotConsistency(account, accountTrades, now);
+
+  return planPayout({
+    rules,
+    balance: dd.balance - withdrawn,
+    floor: Math.max(dd.threshold, account.starting_balance) + rules.min_buffer,
+    tradingDays,
+    lastPayoutDate,
+    consistencyBlocker: consistency && !consistency.eligible
+      ? `Consistency: best day is ${consistency.bestDaySharePct.toFixed(0)}% of profit (max ${consistency.limitPct}%)`
+      : undefined,
+    today: getTradingDay(now),
+  });
+}
+
+/**
+ * Payout plan for a funded journal account, or null if its rules have no payout terms
+ */
+export function planJournalAccountPayout(
+  account: Account,
+  accounts: Account[],
+  trades: Trade[],
+  payouts: Payout[],
+  now: Date = new Date()
+): PayoutPlan | null {
+  const rules = getJournalAccountRules(account)?.payout;
+  if (!rules || account.type !== 'funded' || account.status !== 'active') return null;
+
+  const accountPayouts = payouts.filter(p => p.accountId === account.id);
+  const lastPayoutDate = latestPayoutDate(accountPayouts);
+  const withdrawn = accountPayouts.reduce((sum, p) => sum + payoutGrossAmount(p), 0);
+
+  const tradingDays = getJournalDailyPnl(account, accounts, trades)
+    .filter(d => !lastPayoutDate || d.day > lastPayoutDate)
+    .length;
+
+  const consistency = getJournalConsistency(account, accounts, trades, now);
+
+  // Journal drawdown is measured from the account size, so the threshold
+  // never sits above it
+  return planPayout({
+    rules,
+    balance: account.accountSize + account.profitLoss - withdrawn,
+    floor: account.accountSize + rules.min_buffer,
+    tradingDays,
+    lastPayoutDate,
+    consistencyBlocker: consistency && !consistency.eligible
+      ? `Consistency: best day is ${consistency.bestDaySharePct.toFixed(0)}% of profit (max ${consistency.limitPct}%)`
+      : undefined,
+    today: format(now, 'yyyy-MM-dd'),
+  });
+}
+
+/**
+ * Payout record pre-filled from a plan, ready to confirm
+ */
+export function buildPayoutDraft(
+  plan: PayoutPlan,
+  target: { propFirm: string; accountName: string; accountId?: string; botAccountId?: string },
+  now: Date = new Date()
+): Omit<Payout, 'id'> {
+  return {
+    date: format(now, 'yyyy-MM-dd'),
+    amount: plan.traderShare,
+    grossAmount: plan.withdrawable,
+    propFirm: target.propFirm,
+    accountId: target.accountId,
+    botAccountId: target.botAccountId,
+    method: 'bank_transfer',
+    notes: `${target.accountName}: ${fmt(plan.withdrawable)} withdrawn at ${plan.rules.split_pct}% split`,
+  };
+}
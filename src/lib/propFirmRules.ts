@@ -0,0 +1,132 @@
+/**
+ * Prop Firm Rule Presets
+ *
+ * Resolves rule presets from the built-in catalog plus user-edited
+ * versions, and maps them onto bot accounts and journal accounts so
+ * drawdown, consistency and payout logic read rules from one place.
+ * User-edited versions are loaded and saved by lib/rulePresetVersions.
+ */
+
+import type { BotAccount, BotAccountFormData, PropFirmRulePreset } from '@/types/bots';
+import type { Account } from '@/types';
+import { PROP_FIRM_PRESETS } from '@/data/propFirmPresets';
+
+let customVersions: PropFirmRulePreset[] = [];
+
+/**
+ * Replace the user-edited versions presets resolve against
+ */
+export function setCustomRuleVersions(presets: PropFirmRulePreset[]): void {
+  customVersions = presets.map(p => ({ ...p, custom: true }));
+}
+
+export function getCustomRuleVersions(): PropFirmRulePreset[] {
+  return customVersions;
+}
+
+/**
+ * Every known version of every preset (built-in and custom)
+ */
+function allVersions(): PropFirmRulePreset[] {
+  return [...PROP_FIRM_PRESETS, ...customVersions];
+}
+
+/**
+ * All versions of a single preset, newest first
+ */
+export function getPresetHistory(id: string): PropFirmRulePreset[] {
+  return allVersions()
+    .filter(p => p.id === id)
+    .sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Version of a preset in force on a given date (defaults to today).
+ * Falls back to the oldest version for dates before the first one.
+ */
+export function getRulePreset(id: string, asOf?: string): PropFirmRulePreset | undefined {
+  const history = getPresetHistory(id);
+  if (history.length === 0) return undefined;
+  const date = asOf || new Date().toISOString().slice(0, 10);
+  return history.find(p => p.effective_date <= date) ?? history[history.length - 1];
+}
+
+/**
+ * Latest version of every preset, optionally filtered by firm/phase
+ */
+export function getRulePresets(filter?: { firm?: string; phase?: PropFirmRulePreset['phase'] }): PropFirmRulePreset[] {
+  const ids = [...new Set(allVersions().map(p => p.id))];
+  return ids
+    .map(id => getRulePreset(id)!)
+    .filter(p => (!filter?.firm || p.firm === filter.firm) && (!filter?.phase || p.phase === filter.phase))
+    .sort((a, b) => a.firm.localeCompare(b.firm) || a.account_size - b.account_size);
+}
+
+/**
+ * Firms that have at least one preset
+ */
+export function getPresetFirms(): string[] {
+  return [...new Set(allVersions().map(p => p.firm))].sort();
+}
+
+/**
+ * Next version of an edited preset (never overwrites history)
+ */
+export function nextRulePresetVersion(
+  preset: Omit<PropFirmRulePreset, 'version' | 'custom'>
+): PropFirmRulePreset {
+  const history = getPresetHistory(preset.id);
+  const version = history.length > 0 ? history[0].version + 1 : 1;
+  return { ...preset, version, custom: true };
+}
+
+/**
+ * Bot account fields filled in by a preset
+ */
+export function presetToBotAccount(preset: PropFirmRulePreset): Partial<BotAccountFormData> {
+  return {
+    rule_preset_id: preset.id,
+    prop_firm: preset.firm,
+    account_size: preset.account_size,
+    starting_balance: preset.account_size,
+    current_balance: preset.account_size,
+    high_water_mark: preset.account_size,
+    max_drawdown: preset.max_drawdown,
+    daily_drawdown: preset.daily_drawdown,
+    drawdown_model: preset.drawdown_model,
+    profit_target: preset.profit_target,
+    min_trading_days: preset.min_trading_days,
+    consistency_pct: preset.consistency_pct,
+    scaling_rules: preset.scaling_rules,
+    status: preset.phase,
+  };
+}
+
+/**
+ * Journal account fields filled in by a preset
+ */
+export function presetToJournalAccount(preset: PropFirmRulePreset): Partial<Account> {
+  return {
+    rulePresetId: preset.id,
+    propFirm: preset.firm,
+    accountSize: preset.account_size,
+    maxDrawdown: preset.max_drawdown,
+    profitTarget: preset.profit_target,
+    consistencyPct: preset.consistency_pct,
+    type: preset.phase,
+  };
+}
+
+/**
+ * Rules in force for a bot account (the version effective at its start date)
+ */
+export function getBotAccountRules(account: Pick<BotAccount, 'rule_preset_id' | 'start_date'>): PropFirmRulePreset | undefined {
+  return account.rule_preset_id ? getRulePreset(account.rule_preset_id, account.start_date) : undefined;
+}
+
+/**
+ * Rules in force for a journal account (the version effective at its start date)
+ */
+export function getJournalAccountRules(account: Pick<Account, 'rulePresetId' | 'startDate'>): PropFirmRulePreset | undefined {
+  return account.rulePresetId ? getRulePreset(account.rulePresetId, account.startDate) : undefined;
+}
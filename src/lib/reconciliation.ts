@@ -0,0 +1,211 @@
+/**
+ * Broker Reconciliation
+ *
+ * Compares a mapped account's ledger (its bot_trades and stored balance)
+ * with what its broker reports: the cash balance, today's realized P&L and
+ * the round trips paired from its fills. Differences are broken down by
+ * trading day so missing or duplicated trades can be tracked down, and the
+ * stored balance can be corrected with a recorded adjustment.
+ */
+
+import type { BrokerBalance, BrokerClient, BrokerTrade } from '@/lib/brokerClient';
+import type { Repository } from '@/lib/repository';
+import type { BalanceAdjustment, BotAccount, BotAccountFormData, BotTrade, BotTradeFormData, BrokerAccountMapping } from '@/types/bots';
+import { getTradingDay } from '@/lib/tradingDay';
+
+// Ledger trades without a fill id match a broker round trip within this window
+const MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+// Differences below a cent are rounding
+const DRIFT_TOLERANCE = 0.01;
+
+export interface ReconciliationDay {
+  day: string;
+  brokerCount: number;
+  brokerPnl: number;
+  ledgerCount: number;
+  ledgerPnl: number;
+  missing: BrokerTrade[];       // at the broker, not in bot_trades
+  duplicates: BotTrade[];       // extra copies of a broker round trip
+  unmatched: BotTrade[];        // in bot_trades, no broker round trip
+}
+
+export interface Reconciliation {
+  botAccountId: string;
+  brokerAccountId: string;
+  brokerBalance: number;
+  brokerRealizedToday: number;
+  ledgerBalance: number;        // stored current_balance
+  tradeBalance: number;         // starting balance + closed trade P&L + adjustments
+  ledgerRealizedToday: number;
+  balanceDrift: number;         // broker balance - stored balance
+  tradeDrift: number;           // stored balance - trade balance
+  realizedDrift: number;        // broker realized today - ledger realized today
+  comparedFrom?: string;        // first trading day the broker returned fills for
+  days: ReconciliationDay[];    // days with differences, newest first
+  checkedAt: string;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Whether an amount is real drift rather than rounding
+ */
+export function hasDrift(amount: number): boolean {
+  return Math.abs(amount) >= DRIFT_TOLERANCE;
+}
+
+/**
+ * Match ledger trades to broker round trips day by day. Synced trades match
+ * on their closing fill id; others (webhook or manual entries) match the
+ * nearest round trip with the same instrument, side and size. Only days
+ * from the broker's first round trip are compared, since the broker only
+ * returns recent fills.
+ */
+export function compareTrades(brokerTrades: BrokerTrade[], ledgerTrades: BotTrade[]): ReconciliationDay[] {
+  const closed = ledgerTrades.filter(t => t.status === 'closed');
+  if (brokerTrades.length === 0) return [];
+
+  const comparedFrom = brokerTrades.map(t => getTradingDay(t.timestamp)).sort()[0];
+  const inWindow = closed.filter(t => getTradingDay(t.timestamp) >= comparedFrom);
+
+  const days = new Map<string, ReconciliationDay>();
+  const dayOf = (timestamp: string) => {
+    const day = getTradingDay(timestamp);
+    if (!days.has(day)) {
+      days.set(day, {
+        day, brokerCount: 0, brokerPnl: 0, ledgerCount: 0, ledgerPnl: 0,
+        missing: [], duplicates: [], unmatched: [],
+      });
+    }
+    return days.get(day)!;
+  };
+
+  brokerTrades.forEach(t => {
+    const day = dayOf(t.timestamp);
+    day.brokerCount++;
+    day.brokerPnl = round(day.brokerPnl + t.pnl);
+  });
+  inWindow.forEach(t => {
+    const day = dayOf(t.timestamp);
+    day.ledgerCount++;
+    day.ledgerPnl = round(day.ledgerPnl + (t.pnl || 0));
+  });
+
+  const byFillId = new Map(brokerTrades.map(t => [t.fill_id, t]));
+  const matched = new Set<BrokerTrade>();
+
+  // Synced trades first so looser matches can't claim their round trips
+  const sorted = [...inWindow].sort((a, b) => Number(!!b.tradovate_fill_id) - Number(!!a.tradovate_fill_id));
+
+  sorted.forEach(t => {
+    const day = dayOf(t.timestamp);
+    let match = t.tradovate_fill_id ? byFillId.get(t.tradovate_fill_id) : undefined;
+
+    if (!match) {
+      const time = new Date(t.timestamp).getTime();
+      const candidates = brokerTrades
+        .filter(b =>
+          b.instrument === t.instrument &&
+          b.direction === t.direction &&
+          b.contracts === t.contracts &&
+          Math.abs(new Date(b.timestamp).getTime() - time) <= MATCH_WINDOW_MS
+        )
+        .sort((a, b) =>
+          Number(matched.has(a)) - Number(matched.has(b)) ||
+          Math.abs(new Date(a.timestamp).getTime() - time) - Math.abs(new Date(b.timestamp).getTime() - time)
+        );
+      match = candidates[0];
+    }
+
+    if (!match) day.unmatched.push(t);
+    else if (matched.has(match)) day.duplicates.push(t);
+    else matched.add(match);
+  });
+
+  brokerTrades.filter(t => !matched.has(t)).forEach(t => dayOf(t.timestamp).missing.push(t));
+
+  return [...days.values()]
+    .filter(d => d.missing.length > 0 || d.duplicates.length > 0 || d.unmatched.length > 0 || hasDrift(d.brokerPnl - d.ledgerPnl))
+    .sort((a, b) => b.day.localeCompare(a.day));
+}
+
+/**
+ * Compare an account's ledger with the broker's balance and round trips
+ */
+export function reconcileAccount(
+  account: BotAccount,
+  brokerAccountId: string,
+  ledgerTrades: BotTrade[],
+  snapshot: BrokerBalance,
+  brokerTrades: BrokerTrade[],
+  now: Date = new Date()
+): Reconciliation {
+  const closed = ledgerTrades.filter(t => t.status === 'closed');
+  const today = getTradingDay(now);
+
+  const tradePnl = closed.reduce((sum, t) => sum + (t.pnl || 0), 0);
+  const adjustments = (account.balance_adjustments || []).reduce((sum, a) => sum + a.amount, 0);
+  const tradeBalance = round(account.starting_balance + tradePnl + adjustments);
+  const ledgerRealizedToday = round(
+    closed.filter(t => getTradingDay(t.timestamp) === today).reduce((sum, t) => sum + (t.pnl || 0), 0)
+  );
+
+  return {
+    botAccountId: account.id,
+    brokerAccountId,
+    brokerBalance: snapshot.cashBalance,
+    brokerRealizedToday: snapshot.realizedPnL,
+    ledgerBalance: account.current_balance,
+    tradeBalance,
+    ledgerRealizedToday,
+    balanceDrift: round(snapshot.cashBalance - account.current_balance),
+    tradeDrift: round(account.current_balance - tradeBalance),
+    realizedDrift: round(snapshot.realizedPnL - ledgerRealizedToday),
+    comparedFrom: brokerTrades.length > 0
+      ? brokerTrades.map(t => getTradingDay(t.timestamp)).sort()[0]
+      : undefined,
+    days: compareTrades(brokerTrades, ledgerTrades),
+    checkedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Load a mapped account's ledger and the broker's side, then reconcile them.
+ * Reads fresh rows rather than the (possibly truncated) cached trade list.
+ */
+export async function fetchReconciliation(
+  repositories: { botAccounts: Repository<BotAccount, BotAccountFormData>; botTrades: Repository<BotTrade, BotTradeFormData> },
+  client: BrokerClient,
+  mapping: BrokerAccountMapping
+): Promise<Reconciliation> {
+  const [account, ledgerTrades, snapshot, brokerTrades] = await Promise.all([
+    repositories.botAccounts.get(mapping.bot_account_id),
+    repositories.botTrades.list({ where: { bot_account_id: mapping.bot_account_id }, limit: 50000 }),
+    client.getCashBalance(mapping.broker_account_id),
+    client.fetchTrades(mapping.broker_account_id),
+  ]);
+  if (!account) throw new Error('The mapped bot account no longer exists');
+
+  return reconcileAccount(account, mapping.broker_account_id, ledgerTrades, snapshot, brokerTrades);
+}
+
+/**
+ * Adjustment entry that moves an account's stored balance to `newBalance`
+ */
+export function createBalanceAdjustment(
+  account: BotAccount,
+  newBalance: number,
+  reason: string,
+  source: BalanceAdjustment['source'] = 'manual',
+  at: Date = new Date()
+): BalanceAdjustment {
+  return {
+    at: at.toISOString(),
+    amount: round(newBalance - account.current_balance),
+    previous_balance: account.current_balance,
+    new_balance: newBalance,
+    reason,
+    source,
+  };
+}
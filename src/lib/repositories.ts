@@ -0,0 +1,299 @@
+/**
+ * Repositories
+ *
+ * Typed access to the Supabase tables, one repository per table, so pages
+ * and contexts don't build queries themselves. A repository reads, writes
+ * and deletes rows and reports the table's realtime changes; a view's
+ * repository only reads.
+ *
+ * createMemoryRepositories keeps the same tables in memory, with the same
+ * change events, so code written against a repository runs in tests
+ * without a Supabase project. It follows the database where the app relies
+ * on it: ids and created_at are filled in, an upsert matches rows on its
+ * conflict columns (nulls never match, as with a unique index), and
+ * events arrive after the write that caused them has returned.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Bot, BotAccount, BotAccountFormData, BotBacktestData, BotBacktestFormData, BotBacktestTrade,
+  BotBacktestTradeFormData, BotCalendarDay, BotCalendarNote, BotCalendarNoteFormData, BotFormData, BotTrade,
+  BotTradeFormData, BrokerAccountMapping, BrokerConnection, MLSignal,
+} from '@/types/bots';
+import type { ImportBatch, ImportBatchFormData } from '@/lib/importBatches';
+import type { RulePresetVersionFormData, RulePresetVersionRow } from '@/lib/rulePresetVersions';
+import type { WebhookDeadLetter } from '@/lib/webhooks';
+import { JOURNAL_ENTITIES, JOURNAL_TABLES, type JournalEntity } from '@/lib/journalStore';
+import type { ChangeEvent, ListOptions, ReadOnlyRepository, Repository, RowChange, StoredRow } from '@/lib/repository';
+
+export type {
+  ChangeEvent, ListOptions, ReadOnlyRepository, Repository, RowChange, StoredRow, UpsertOptions,
+} from '@/lib/repository';
+
+// A journal_* row as stored: snake_case columns, owned by a user
+export type JournalRow = { id: string; user_id?: string } & Record<string, unknown>;
+
+export interface Repositories {
+  bots: Repository<Bot, BotFormData & { created_by: string }>;
+  botAccounts: Repository<BotAccount, BotAccountFormData>;
+  botTrades: Repository<BotTrade, BotTradeFormData>;
+  backtestData: Repository<BotBacktestData, BotBacktestFormData>;
+  backtestTrades: Repository<BotBacktestTrade, BotBacktestTradeFormData>;
+  calendarNotes: Repository<BotCalendarNote, BotCalendarNoteFormData>;
+  mlSignals: Repository<MLSignal>;
+  importBatches: Repository<ImportBatch, ImportBatchFormData>;
+  rulePresetVersions: Repository<RulePresetVersionRow, RulePresetVersionFormData>;
+  brokerConnections: Repository<BrokerConnection>;
+  brokerMappings: Repository<BrokerAccountMapping>;
+  deadLetters: Repository<WebhookDeadLetter>;
+  botCalendar: ReadOnlyRepository<BotCalendarDay>;
+  journal: { [E in JournalEntity]: Repository<JournalRow> };
+}
+
+const TABLES = {
+  bots: 'bots',
+  botAccounts: 'bot_accounts',
+  botTrades: 'bot_trades',
+  backtestData: 'bot_backtest_data',
+  backtestTrades: 'bot_backtest_trades',
+  calendarNotes: 'bot_calendar_notes',
+  mlSignals: 'ml_signals',
+  importBatches: 'import_batches',
+  rulePresetVersions: 'rule_preset_versions',
+  brokerConnections: 'broker_connections',
+  brokerMappings: 'broker_account_mappings',
+  deadLetters: 'webhook_dead_letters',
+  botCalendar: 'bot_calendar',
+} as const;
+
+type TableKey = keyof typeof TABLES;
+type RowOf<K extends TableKey> = Repositories[K] extends ReadOnlyRepository<infer R> ? R : never;
+
+export type RepositorySeed = { [K in TableKey]?: RowOf<K>[] } & { journal?: Partial<Record<JournalEntity, JournalRow[]>> };
+
+/**
+ * The table is missing: the schema hasn't been run on this project yet
+ */
+export function isMissingTableError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return message.includes('relation') || message.includes('does not exist');
+}
+
+// Views get the same repository, typed to only read
+function buildRepositories(make: (table: string, key: TableKey | JournalEntity) => Repository<StoredRow, unknown>): Repositories {
+  const tables = Object.fromEntries((Object.keys(TABLES) as TableKey[]).map(key => [key, make(TABLES[key], key)]));
+  const journal = Object.fromEntries(JOURNAL_ENTITIES.map(entity => [entity, make(JOURNAL_TABLES[entity], entity)]));
+  return { ...tables, journal } as unknown as Repositories;
+}
+
+// ── Supabase ────────────────────────────────────────────────
+// Each subscription gets its own channel, so two screens on one table
+// don't share (and unsubscribe) each other's
+let channelCount = 0;
+
+// The filter builder methods shared by selects and deletes
+interface Filterable<Q> {
+  eq(column: string, value: unknown): Q;
+  is(column: string, value: null): Q;
+  in(column: string, values: unknown[]): Q;
+}
+
+function filter<Q extends Filterable<Q>, R>(query: Q, where: Partial<R>, whereIn?: ListOptions<R>['whereIn']): Q {
+  for (const [column, value] of Object.entries(where)) {
+    query = value === null ? query.is(column, null) : query.eq(column, value);
+  }
+  return whereIn ? query.in(whereIn.column, whereIn.values) : query;
+}
+
+function supabaseRepository<R extends StoredRow, I>(supabase: SupabaseClient, table: string): Repository<R, I> {
+  const from = () => supabase.from(table);
+  const check = <T>({ data, error }: { data: T; error: { message: string } | null }): T => {
+    if (error) throw new Error(error.message);
+    return data;
+  };
+
+  return {
+    table,
+
+    list: async (options = {}) => {
+      let query = from().select(options.columns?.join(',') ?? '*');
+      query = filter(query, options.where ?? {}, options.whereIn);
+      if (options.range?.from !== undefined) query = query.gte(options.range.column, options.range.from);
+      if (options.range?.to !== undefined) query = query.lte(options.range.column, options.range.to);
+      if (options.order) query = query.order(options.order.column, { ascending: options.order.ascending ?? true });
+      if (options.limit !== undefined) {
+        const offset = options.offset ?? 0;
+        query = query.range(offset, offset + options.limit - 1);
+      }
+      return (check(await query) || []) as unknown as R[];
+    },
+
+    get: async id => check(await from().select('*').eq('id', id).maybeSingle()) as R | null,
+
+    insert: async row => check(await from().insert(row).select().single()) as R,
+
+    insertMany: async rows => {
+      if (rows.length === 0) return [];
+      return (check(await from().insert(rows).select()) || []) as R[];
+    },
+
+    upsertMany: async (rows, options = {}) => {
+      if (rows.length === 0) return [];
+      const { data, error } = await from()
+        .upsert(rows, { onConflict: options.onConflict?.join(','), ignoreDuplicates: options.ignoreDuplicates })
+        .select();
+      return (check({ data, error }) || []) as R[];
+    },
+
+    update: async (id, changes) => check(await from().update(changes).eq('id', id).select().single()) as R,
+
+    remove: async id => {
+      check(await from().delete().eq('id', id));
+    },
+
+    removeWhere: async (where, whereIn) => (check(await filter(from().delete(), where, whereIn).select()) || []) as R[],
+
+    subscribe: (listener, events) => {
+      const channel = supabase
+        .channel(`${table}-changes-${++channelCount}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+          if (events && !events.includes(payload.eventType)) return;
+          const hasRow = (row: object) => Object.keys(row).length > 0;
+          listener({
+            event: payload.eventType,
+            new: hasRow(payload.new) ? payload.new as R : null,
+            old: hasRow(payload.old) ? payload.old as Partial<R> : null,
+          });
+        })
+        .subscribe();
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export function createSupabaseRepositories(supabase: SupabaseClient): Repositories {
+  return buildRepositories(table => supabaseRepository(supabase, table));
+}
+
+// ── In memory ───────────────────────────────────────────────
+const compare = (a: unknown, b: unknown) => {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;   // nulls last
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const matches = (row: object, where: object, whereIn?: { column: string; values: unknown[] }) =>
+  Object.entries(where).every(([column, value]) => {
+    const stored = (row as Record<string, unknown>)[column];
+    return value === null ? stored == null : stored === value;
+  }) && (!whereIn || whereIn.values.includes((row as Record<string, unknown>)[whereIn.column]));
+
+const pick = <R extends object>(row: R, columns?: string[]): R =>
+  (columns ? Object.fromEntries(columns.map(c => [c, (row as Record<string, unknown>)[c]])) : { ...row }) as R;
+
+function memoryRepository<R extends StoredRow, I>(table: string, seed: R[] = []): Repository<R, I> {
+  let rows: R[] = seed.map(r => ({ ...r }));
+  const listeners = new Set<{ listener: (change: RowChange<R>) => void; events?: ChangeEvent[] }>();
+
+  const emit = (change: RowChange<R>) => {
+    const copy = { ...change, new: change.new && { ...change.new }, old: change.old && { ...change.old } };
+    setTimeout(() => listeners.forEach(({ listener, events }) => {
+      if (!events || events.includes(change.event)) listener(copy);
+    }));
+  };
+
+  // What the column defaults would fill in
+  const create = (row: I): R => {
+    const created = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row } as unknown as R;
+    rows.push(created);
+    emit({ event: 'INSERT', new: created, old: null });
+    return { ...created };
+  };
+
+  const find = (id: R['id']) => rows.find(r => r.id === id);
+
+  const update: Repository<R, I>['update'] = async (id, changes) => {
+    const before = find(id);
+    if (!before) throw new Error(`No row ${id} in ${table}`);
+    const after = { ...before, ...changes, id: before.id };
+    rows = rows.map(r => r === before ? after : r);
+    emit({ event: 'UPDATE', new: after, old: before });
+    return { ...after };
+  };
+
+  const removeWhere: Repository<R, I>['removeWhere'] = async (where, whereIn) => {
+    const removed = rows.filter(r => matches(r, where, whereIn));
+    rows = rows.filter(r => !removed.includes(r));
+    removed.forEach(r => emit({ event: 'DELETE', new: null, old: r }));
+    return removed.map(r => ({ ...r }));
+  };
+
+  return {
+    table,
+
+    list: async (options = {}) => {
+      const { where = {}, whereIn, columns, range, order, offset = 0, limit } = options;
+      let result = rows.filter(r => matches(r, where, whereIn));
+      if (range) {
+        const value = (r: R) => r[range.column] as unknown as string | number;
+        if (range.from !== undefined) result = result.filter(r => value(r) >= range.from!);
+        if (range.to !== undefined) result = result.filter(r => value(r) <= range.to!);
+      }
+      if (order) {
+        const direction = order.ascending === false ? -1 : 1;
+        result = [...result].sort((a, b) => direction * compare(a[order.column], b[order.column]));
+      }
+      return result.slice(offset, limit === undefined ? undefined : offset + limit).map(r => pick(r, columns));
+    },
+
+    get: async id => {
+      const row = find(id);
+      return row ? { ...row } : null;
+    },
+
+    insert: async row => create(row),
+
+    insertMany: async incoming => incoming.map(create),
+
+    upsertMany: async (incoming, options = {}) => {
+      const columns: string[] = options.onConflict ?? ['id'];
+      const written: R[] = [];
+      for (const row of incoming) {
+        const key = row as Record<string, unknown>;
+        const existing = columns.every(c => key[c] != null)
+          ? rows.find(r => columns.every(c => (r as Record<string, unknown>)[c] === key[c]))
+          : undefined;
+        if (!existing) written.push(create(row));
+        else if (!options.ignoreDuplicates) written.push(await update(existing.id, row as Partial<R>));
+      }
+      return written;
+    },
+
+    update,
+
+    remove: async id => {
+      await removeWhere({ id } as Partial<R>);
+    },
+
+    removeWhere,
+
+    subscribe: (listener, events) => {
+      const entry = { listener, events };
+      listeners.add(entry);
+      return () => {
+        listeners.delete(entry);
+      };
+    },
+  };
+}
+
+/**
+ * Tables kept in memory, starting from `seed`, for tests
+ */
+export function createMemoryRepositories(seed: RepositorySeed = {}): Repositories {
+  return buildRepositories((table, key) => {
+    const rows = key in TABLES ? seed[key as TableKey] : seed.journal?.[key as JournalEntity];
+    return memoryRepository(table, (rows ?? []) as StoredRow[]);
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Repository
+ *
+ * What a table offers the app, whichever store it's kept in: see
+ * repositories.ts for the tables and their Supabase and in-memory
+ * implementations.
+ */
+
+export interface StoredRow {
+  id: string | number;
+}
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RowChange<R> {
+  event: ChangeEvent;
+  new: R | null;                  // null for a delete
+  old: Partial<R> | null;         // null for an insert; Supabase may only send the id
+}
+
+export interface ListOptions<R> {
+  where?: Partial<R>;             // columns equal to these values (null: is null)
+  whereIn?: { column: keyof R & string; values: unknown[] };   // column equal to one of the values
+  columns?: (keyof R & string)[]; // only these columns of each row (default: all)
+  range?: { column: keyof R & string; from?: string | number; to?: string | number };   // inclusive
+  order?: { column: keyof R & string; ascending?: boolean };
+  limit?: number;
+  offset?: number;
+}
+
+export interface UpsertOptions<R> {
+  onConflict?: (keyof R & string)[];   // unique columns a row is matched on (default: id)
+  ignoreDuplicates?: boolean;          // leave matched rows alone instead of updating them
+}
+
+/**
+ * A view: its rows are read, never written
+ */
+export interface ReadOnlyRepository<R> {
+  readonly table: string;
+  list(options?: ListOptions<R>): Promise<R[]>;
+}
+
+export interface Repository<R extends StoredRow, I = Partial<R>> extends ReadOnlyRepository<R> {
+  get(id: R['id']): Promise<R | null>;
+  insert(row: I): Promise<R>;
+  insertMany(rows: I[]): Promise<R[]>;
+  /** Rows written; duplicates left alone aren't returned */
+  upsertMany(rows: I[], options?: UpsertOptions<R>): Promise<R[]>;
+  update(id: R['id'], changes: Partial<R>): Promise<R>;
+  remove(id: R['id']): Promise<void>;
+  /** Rows deleted */
+  removeWhere(where: Partial<R>, whereIn?: ListOptions<R>['whereIn']): Promise<R[]>;
+  /** Changes made to the table from anywhere; returns the unsubscribe */
+  subscribe(listener: (change: RowChange<R>) => void, events?: ChangeEvent[]): () => void;
+}
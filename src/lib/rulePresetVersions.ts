@@ -0,0 +1,73 @@
+/**
+ * Rule Preset Versions
+ *
+ * Edited prop firm rule presets are stored in the rule_preset_versions
+ * table, shared like the bot accounts they set rules for, so every device
+ * resolves an account's rules the same way. The last set loaded is cached
+ * in localStorage for when there is no database or it can't be reached.
+ */
+
+import type { PropFirmRulePreset } from '@/types/bots';
+import type { Repository } from '@/lib/repository';
+import { getCustomRuleVersions, nextRulePresetVersion, setCustomRuleVersions } from '@/lib/propFirmRules';
+import { getCustomRulePresets, setCustomRulePresets } from '@/lib/storage';
+
+export interface RulePresetVersionRow {
+  id: string;
+  preset_id: string;
+  version: number;
+  effective_date: string;
+  preset: PropFirmRulePreset;
+  created_by?: string;
+  created_at: string;
+}
+
+export type RulePresetVersionFormData = Pick<RulePresetVersionRow, 'preset_id' | 'version' | 'effective_date' | 'preset'>;
+
+type RulePresetVersionRepository = Repository<RulePresetVersionRow, RulePresetVersionFormData>;
+
+function applyVersions(presets: PropFirmRulePreset[]): PropFirmRulePreset[] {
+  setCustomRuleVersions(presets);
+  setCustomRulePresets(getCustomRuleVersions());
+  return getCustomRuleVersions();
+}
+
+/**
+ * Load the edited versions presets resolve against. Without a repository
+ * (or when it can't be read) the cached versions are used.
+ */
+export async function loadRulePresetVersions(repository: RulePresetVersionRepository | null): Promise<PropFirmRulePreset[]> {
+  setCustomRuleVersions(getCustomRulePresets());
+  if (!repository) return getCustomRuleVersions();
+
+  try {
+    const rows = await repository.list({ order: { column: 'version', ascending: true } });
+    return applyVersions(rows.map(r => ({ ...r.preset, id: r.preset_id, version: r.version, effective_date: r.effective_date })));
+  } catch (err) {
+    console.warn('[rulePresetVersions] Using cached rule presets:', err);
+    return getCustomRuleVersions();
+  }
+}
+
+/**
+ * Save an edited preset as a new version (never overwrites history)
+ */
+export async function saveRulePresetVersion(
+  repository: RulePresetVersionRepository | null,
+  preset: Omit<PropFirmRulePreset, 'version' | 'custom'>
+): Promise<PropFirmRulePreset> {
+  const saved = nextRulePresetVersion(preset);
+  if (repository) {
+    await repository.insert({ preset_id: saved.id, version: saved.version, effective_date: saved.effective_date, preset: saved });
+  }
+  applyVersions([...getCustomRuleVersions(), saved]);
+  return saved;
+}
+
+/**
+ * Remove a user-edited version (built-in versions cannot be deleted)
+ */
+export async function deleteRulePresetVersion(repository: RulePresetVersionRepository | null, id: string, version: number): Promise<void> {
+  if (repository) await repository.removeWhere({ preset_id: id, version });
+  applyVersions(getCustomRuleVersions().filter(p => !(p.id === id && p.version === version)));
+}
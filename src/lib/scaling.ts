@@ -0,0 +1,107 @@
+/**
+ * Scaling Plan
+ *
+ * Derives a bot account's allowed contract size from its profit using its
+ * ScalingRules (own setting, then its rule preset), and flags trades that
+ * were sized above the limit in force when they were placed.
+ */
+
+import type { BotAccount, BotTrade, ScalingRule, ScalingRules } from '@/types/bots';
+import { getBotAccountRules } from '@/lib/propFirmRules';
+
+export interface ScalingState {
+  profit: number;
+  allowedContracts: number;
+  currentStep?: ScalingRule;
+  nextStep?: ScalingRule;       // next threshold to unlock more contracts
+  profitToNext?: number;
+}
+
+export interface SizingViolation {
+  tradeId: string;
+  contracts: number;
+  allowedContracts: number;
+  profit: number;               // realized profit when the trade was placed
+}
+
+/**
+ * Active scaling rules for an account, sorted by threshold, or null if
+ * it has none
+ */
+export function getScalingRules(
+  account: Pick<BotAccount, 'scaling_rules' | 'rule_preset_id' | 'start_date'>
+): ScalingRule[] | null {
+  const scaling: ScalingRules | undefined = account.scaling_rules ?? getBotAccountRules(account)?.scaling_rules;
+  if (!scaling?.enabled || scaling.rules.length === 0) return null;
+  return [...scaling.rules].sort((a, b) => a.profit_threshold - b.profit_threshold);
+}
+
+/**
+ * Contract limit at a given profit. Below the first threshold the first
+ * step's limit applies.
+ */
+export function getScalingState(rules: ScalingRule[], profit: number): ScalingState {
+  const reached = rules.filter(r => profit >= r.profit_threshold);
+  const currentStep = reached.length > 0 ? reached[reached.length - 1] : undefined;
+  const nextStep = rules.find(r => r.profit_threshold > profit);
+
+  return {
+    profit,
+    allowedContracts: (currentStep ?? rules[0]).new_contract_limit,
+    currentStep,
+    nextStep,
+    profitToNext: nextStep ? nextStep.profit_threshold - profit : undefined,
+  };
+}
+
+/**
+ * Current scaling state for an account from its closed trades, or null if
+ * it has no scaling plan
+ */
+export function getAccountScaling(account: BotAccount, trades: BotTrade[]): ScalingState | null {
+  const rules = getScalingRules(account);
+  if (!rules) return null;
+
+  const closed = trades.filter(t => t.bot_account_id === account.id && t.status === 'closed');
+  const profit = closed.length > 0
+    ? closed.reduce((sum, t) => sum + (t.pnl || 0), 0)
+    : account.current_balance - account.starting_balance;
+  return getScalingState(rules, profit);
+}
+
+/**
+ * Trades sized above the contract limit in force when they were placed.
+ * The limit uses profit realized by earlier closed trades on the account.
+ */
+export function findSizingViolations(account: BotAccount, trades: BotTrade[]): SizingViolation[] {
+  const rules = getScalingRules(account);
+  if (!rules) return [];
+
+  const accountTrades = trades
+    .filter(t => t.bot_account_id === account.id && t.status !== 'cancelled')
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const violations: SizingViolation[] = [];
+  let profit = 0;
+
+  for (const trade of accountTrades) {
+    const { allowedContracts } = getScalingState(rules, profit);
+    if (trade.contracts > allowedContracts) {
+      violations.push({ tradeId: trade.id, contracts: trade.contracts, allowedContracts, profit });
+    }
+    if (trade.status === 'closed') profit += trade.pnl || 0;
+  }
+
+  return violations;
+}
+
+/**
+ * Sizing violations across all accounts, keyed by trade id
+ */
+export function getSizingViolationMap(accounts: BotAccount[], trades: BotTrade[]): Map<string, SizingViolation> {
+  const map = new Map<string, SizingViolation>();
+  accounts.forEach(account => {
+    findSizingViolations(account, trades).forEach(v => map.set(v.tradeId, v));
+  });
+  return map;
+}
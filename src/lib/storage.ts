@@ -1,4 +1,7 @@
 import { Payout, Expense, Account, PropFirm, DailyEntry, TradingSetup, Trade } from '@/types';
+import type { PropFirmRulePreset } from '@/types/bots';
+import type { SavedImportMapping } from '@/lib/csvImport';
+import { CURRENT_SCHEMA_VERSION, isNewerSchema, migrateData, schemaVersionOf, type RawCollections } from '@/lib/dataMigrations';
 import { mockPayouts, mockExpenses, mockAccounts, mockPropFirms, mockDailyEntries, mockTradingSetups, mockTrades } from '@/data/mockData';
 
 const STORAGE_PREFIX = 'proptracker_';
@@ -11,6 +14,11 @@ const KEYS = {
   dailyEntries: `${STORAGE_PREFIX}daily_entries`,
   tradingSetups: `${STORAGE_PREFIX}trading_setups`,
   trades: `${STORAGE_PREFIX}trades`,
+  rulePresets: `${STORAGE_PREFIX}rule_presets`,
+  importMappings: `${STORAGE_PREFIX}import_mappings`,
+  tombstones: `${STORAGE_PREFIX}tombstones`,
+  syncEtag: `${STORAGE_PREFIX}sync_etag`,
+  schemaVersion: `${STORAGE_PREFIX}schema_version`,
   initialized: `${STORAGE_PREFIX}initialized`,
 } as const;
 
@@ -28,6 +36,107 @@ function write<T>(key: string, data: T): void {
   localStorage.setItem(key, JSON.stringify(data));
 }
 
+// ── Change tracking for sync ────────────────────────────────
+// Collections synced to R2 keep an `updatedAt` on every record and a
+// tombstone per deleted id, so two devices' edits can be merged record by
+// record instead of the last push winning.
+
+const SYNCED = ['payouts', 'expenses', 'accounts', 'propFirms', 'dailyEntries', 'tradingSetups', 'trades'] as const;
+type SyncedCollection = typeof SYNCED[number];
+
+interface SyncRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+/** Deletion times by collection and record id */
+export type Tombstones = Partial<Record<SyncedCollection, Record<string, string>>>;
+
+export interface SyncPayload {
+  payouts?: Payout[];
+  expenses?: Expense[];
+  accounts?: Account[];
+  propFirms?: PropFirm[];
+  dailyEntries?: DailyEntry[];
+  tradingSetups?: TradingSetup[];
+  trades?: Trade[];
+  deleted?: Tombstones;
+  schemaVersion?: number;           // see lib/dataMigrations
+}
+
+// Tombstones older than this are dropped; a device offline for longer may bring deleted records back
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+const withoutStamp = ({ updatedAt: _updatedAt, ...rest }: SyncRecord) => JSON.stringify(rest);
+
+/** Write a synced collection, stamping changed records and tombstoning removed ones */
+function writeTracked<T extends SyncRecord>(collection: SyncedCollection, next: T[]): void {
+  const previous = new Map((read<T[]>(KEYS[collection]) ?? []).map((r) => [r.id, r]));
+  const now = new Date().toISOString();
+
+  const stamped = next.map((record) => {
+    const old = previous.get(record.id);
+    previous.delete(record.id);
+    if (old && withoutStamp(old) === withoutStamp(record)) return { ...record, updatedAt: old.updatedAt };
+    return { ...record, updatedAt: now };
+  });
+
+  if (previous.size > 0) {
+    const tombstones = read<Tombstones>(KEYS.tombstones) ?? {};
+    const deleted = { ...tombstones[collection] };
+    previous.forEach((_, id) => { deleted[id] = now; });
+    write(KEYS.tombstones, { ...tombstones, [collection]: deleted });
+  }
+  write(KEYS[collection], stamped);
+}
+
+const stampOf = (record: SyncRecord) => record.updatedAt ?? '';
+
+/**
+ * Merge one collection: the later `updatedAt` wins for records on both
+ * sides (remote on a tie), and a record deleted after its last edit stays
+ * deleted
+ */
+export function mergeRecords<T extends SyncRecord>(local: T[], remote: T[], deleted: Record<string, string> = {}): T[] {
+  const remoteById = new Map(remote.map((r) => [r.id, r]));
+  const merged: T[] = [];
+
+  for (const record of local) {
+    const theirs = remoteById.get(record.id);
+    remoteById.delete(record.id);
+    merged.push(theirs && stampOf(theirs) >= stampOf(record) ? theirs : record);
+  }
+  merged.push(...remoteById.values());
+
+  return merged.filter((r) => !deleted[r.id] || stampOf(r) > deleted[r.id]);
+}
+
+/** Merge two devices' data, keeping the newer tombstone for each id */
+export function mergeSyncPayloads(local: SyncPayload, remote: SyncPayload, now: Date = new Date()): SyncPayload {
+  const cutoff = new Date(now.getTime() - TOMBSTONE_TTL_MS).toISOString();
+  const deleted: Tombstones = {};
+
+  for (const collection of SYNCED) {
+    const times: Record<string, string> = {};
+    for (const side of [local.deleted?.[collection], remote.deleted?.[collection]]) {
+      for (const [id, at] of Object.entries(side ?? {})) {
+        if (at >= cutoff && (!times[id] || at > times[id])) times[id] = at;
+      }
+    }
+    deleted[collection] = times;
+  }
+
+  const merged: SyncPayload = { deleted };
+  for (const collection of SYNCED) {
+    (merged as Record<string, SyncRecord[]>)[collection] = mergeRecords<SyncRecord>(
+      local[collection] ?? [],
+      remote[collection] ?? [],
+      deleted[collection]
+    );
+  }
+  return merged;
+}
+
 /** Seed localStorage with mock data on first visit */
 function seedIfNeeded(): void {
   if (localStorage.getItem(KEYS.initialized)) return;
@@ -38,20 +147,28 @@ function seedIfNeeded(): void {
   write(KEYS.dailyEntries, mockDailyEntries);
   write(KEYS.tradingSetups, mockTradingSetups);
   write(KEYS.trades, mockTrades);
+  localStorage.setItem(KEYS.schemaVersion, String(CURRENT_SCHEMA_VERSION));
   localStorage.setItem(KEYS.initialized, '1');
 }
 
-/** Migrate accounts that lack the `type` field (pre-funded-accounts update) */
-function migrateAccounts(): void {
-  const accounts = read<Record<string, unknown>[]>(KEYS.accounts);
-  if (!accounts || accounts.length === 0) return;
-  const needsMigration = accounts.some((a) => !a.type);
-  if (!needsMigration) return;
-  const migrated = accounts.map((a) => ({
-    ...a,
-    type: a.type ?? 'evaluation',
-  }));
-  write(KEYS.accounts, migrated);
+/** Bring stored collections up to the current schema version; data from a newer build is left as it is */
+function migrateLocalData(): void {
+  const version = schemaVersionOf(localStorage.getItem(KEYS.schemaVersion));
+  if (version >= CURRENT_SCHEMA_VERSION) return;
+
+  const data: RawCollections = Object.fromEntries(SYNCED.map((c) => [c, read<RawCollections[string]>(KEYS[c]) ?? undefined]));
+  const migrated = migrateData(data, version);
+  for (const collection of SYNCED) {
+    if (migrated[collection]) write(KEYS[collection], migrated[collection]);
+  }
+  localStorage.setItem(KEYS.schemaVersion, String(CURRENT_SCHEMA_VERSION));
+}
+
+/** Bring a cloud copy up to the current schema version; throws if a newer build saved it */
+function upgradePayload(payload: Record<string, unknown>): SyncPayload {
+  const { schemaVersion, ...collections } = payload;
+  const migrated = migrateData(collections as RawCollections, schemaVersion);
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION } as unknown as SyncPayload;
 }
 
 
@@ -59,56 +176,72 @@ function migrateAccounts(): void {
 
 export function initStorage(): void {
   seedIfNeeded();
-  migrateAccounts();
+  migrateLocalData();
 }
 
 export function getPayouts(): Payout[] {
   return read<Payout[]>(KEYS.payouts) ?? [];
 }
 export function setPayouts(data: Payout[]): void {
-  write(KEYS.payouts, data);
+  writeTracked('payouts', data);
 }
 
 export function getExpenses(): Expense[] {
   return read<Expense[]>(KEYS.expenses) ?? [];
 }
 export function setExpenses(data: Expense[]): void {
-  write(KEYS.expenses, data);
+  writeTracked('expenses', data);
 }
 
 export function getAccounts(): Account[] {
   return read<Account[]>(KEYS.accounts) ?? [];
 }
 export function setAccounts(data: Account[]): void {
-  write(KEYS.accounts, data);
+  writeTracked('accounts', data);
 }
 
 export function getPropFirms(): PropFirm[] {
   return read<PropFirm[]>(KEYS.propFirms) ?? [];
 }
 export function setPropFirms(data: PropFirm[]): void {
-  write(KEYS.propFirms, data);
+  writeTracked('propFirms', data);
 }
 
 export function getDailyEntries(): DailyEntry[] {
   return read<DailyEntry[]>(KEYS.dailyEntries) ?? [];
 }
 export function setDailyEntries(data: DailyEntry[]): void {
-  write(KEYS.dailyEntries, data);
+  writeTracked('dailyEntries', data);
 }
 
 export function getTradingSetups(): TradingSetup[] {
   return read<TradingSetup[]>(KEYS.tradingSetups) ?? [];
 }
 export function setTradingSetups(data: TradingSetup[]): void {
-  write(KEYS.tradingSetups, data);
+  writeTracked('tradingSetups', data);
 }
 
 export function getTrades(): Trade[] {
   return read<Trade[]>(KEYS.trades) ?? [];
 }
 export function setTrades(data: Trade[]): void {
-  write(KEYS.trades, data);
+  writeTracked('trades', data);
+}
+
+/** Cached copy of the edited rule preset versions (the rule_preset_versions table holds them) */
+export function getCustomRulePresets(): PropFirmRulePreset[] {
+  return read<PropFirmRulePreset[]>(KEYS.rulePresets) ?? [];
+}
+export function setCustomRulePresets(data: PropFirmRulePreset[]): void {
+  write(KEYS.rulePresets, data);
+}
+
+/** Column mappings saved from the CSV import wizard */
+export function getImportMappings(): SavedImportMapping[] {
+  return read<SavedImportMapping[]>(KEYS.importMappings) ?? [];
+}
+export function setImportMappings(data: SavedImportMapping[]): void {
+  write(KEYS.importMappings, data);
 }
 
 /** Clear all stored data and re-seed from mock data */
@@ -127,9 +260,8 @@ export function isR2Configured(): boolean {
   return Boolean(R2_API_URL && R2_AUTH_TOKEN);
 }
 
-export async function syncToR2(): Promise<void> {
-  if (!R2_API_URL || !R2_AUTH_TOKEN) return;
-  const payload = {
+function localPayload(): SyncPayload {
+  return {
     payouts: getPayouts(),
     expenses: getExpenses(),
     accounts: getAccounts(),
@@ -137,16 +269,59 @@ export async function syncToR2(): Promise<void> {
     dailyEntries: getDailyEntries(),
     tradingSetups: getTradingSetups(),
     trades: getTrades(),
+    deleted: read<Tombstones>(KEYS.tombstones) ?? {},
+    schemaVersion: CURRENT_SCHEMA_VERSION,
   };
-  const res = await fetch(`${R2_API_URL}/sync`, {
-    method: 'PUT',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${R2_AUTH_TOKEN}`,
-    },
-    body: JSON.stringify(payload),
-  });
-  if (!res.ok) throw new Error(`Sync failed: ${res.status}`);
+}
+
+/** Merge the cloud copy into localStorage, leaving the merged records' stamps as they are */
+function mergeRemote(remote: Record<string, unknown>, etag: string | null): void {
+  const merged = mergeSyncPayloads(localPayload(), upgradePayload(remote));
+  for (const collection of SYNCED) write(KEYS[collection], merged[collection]);
+  write(KEYS.tombstones, merged.deleted);
+  if (etag) localStorage.setItem(KEYS.syncEtag, etag);
+  else localStorage.removeItem(KEYS.syncEtag);
+}
+
+const MAX_SYNC_ATTEMPTS = 3;
+
+/**
+ * Push local data to R2. The worker only accepts the write if nothing was
+ * pushed since our last read (If-Match); otherwise it sends back its copy,
+ * which is merged in before trying again. Resolves to true when remote
+ * changes were merged, so callers can reload what they show.
+ */
+export async function syncToR2(): Promise<boolean> {
+  if (!R2_API_URL || !R2_AUTH_TOKEN) return false;
+  if (isNewerSchema(localStorage.getItem(KEYS.schemaVersion))) {
+    throw new Error('Local data was saved by a newer version of the app. Update the app before syncing.');
+  }
+  let merged = false;
+
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const etag = localStorage.getItem(KEYS.syncEtag);
+    const res = await fetch(`${R2_API_URL}/sync`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${R2_AUTH_TOKEN}`,
+        ...(etag ? { 'If-Match': etag } : {}),
+      },
+      body: JSON.stringify(localPayload()),
+    });
+
+    if (res.status === 409) {
+      mergeRemote(await res.json(), res.headers.get('ETag'));
+      merged = true;
+      continue;
+    }
+    if (!res.ok) throw new Error(`Sync failed: ${res.status}`);
+
+    const written = res.headers.get('ETag');
+    if (written) localStorage.setItem(KEYS.syncEtag, written);
+    return merged;
+  }
+  throw new Error('Sync failed: data kept changing on another device');
 }
 
 export async function pullFromR2(): Promise<boolean> {
@@ -156,16 +331,73 @@ export async function pullFromR2(): Promise<boolean> {
       headers: { 'Authorization': `Bearer ${R2_AUTH_TOKEN}` },
     });
     if (!res.ok) return false;
-    const data = await res.json();
-    if (data.payouts) setPayouts(data.payouts);
-    if (data.expenses) setExpenses(data.expenses);
-    if (data.accounts) setAccounts(data.accounts);
-    if (data.propFirms) setPropFirms(data.propFirms);
-    if (data.dailyEntries) setDailyEntries(data.dailyEntries);
-    if (data.tradingSetups) setTradingSetups(data.tradingSetups);
-    if (data.trades) setTrades(data.trades);
+    mergeRemote(await res.json(), res.headers.get('ETag'));
     return true;
-  } catch {
+  } catch (err) {
+    console.error('Failed to pull from R2', err);
     return false;
   }
 }
+
+// ── R2 Snapshot History ─────────────────────────────────────
+
+/** A saved version of the cloud copy, as listed by GET /sync/history */
+export interface SyncSnapshot {
+  version: string;
+  savedAt: string;
+  size: number;
+  counts: Record<string, number>;   // records per collection
+}
+
+/** Record counts of the data on this device, to compare snapshots against */
+export function localRecordCounts(): Record<string, number> {
+  const payload = localPayload();
+  return Object.fromEntries(SYNCED.map((collection) => [collection, payload[collection]?.length ?? 0]));
+}
+
+export async function fetchSyncHistory(): Promise<SyncSnapshot[]> {
+  if (!R2_API_URL || !R2_AUTH_TOKEN) return [];
+  const res = await fetch(`${R2_API_URL}/sync/history`, {
+    headers: { 'Authorization': `Bearer ${R2_AUTH_TOKEN}` },
+  });
+  if (!res.ok) throw new Error(`Failed to load history: ${res.status}`);
+  const { snapshots } = await res.json();
+  return snapshots as SyncSnapshot[];
+}
+
+/**
+ * Replace local data with a restored snapshot. Restored records are stamped
+ * now and everything else is tombstoned, so other devices' merges converge
+ * on the restore instead of bringing newer or deleted records back.
+ */
+function replaceLocal(snapshot: Record<string, unknown>, etag: string | null): void {
+  const restored = upgradePayload(snapshot);
+  const now = new Date().toISOString();
+  const current = localPayload();
+  const deleted: Tombstones = { ...current.deleted };
+
+  for (const collection of SYNCED) {
+    const records: SyncRecord[] = restored[collection] ?? [];
+    const kept = new Set(records.map((r) => r.id));
+    const removed = (current[collection] ?? []).filter((r) => !kept.has(r.id));
+    deleted[collection] = {
+      ...deleted[collection],
+      ...Object.fromEntries(removed.map((r) => [r.id, now])),
+    };
+    write(KEYS[collection], records.map((r) => ({ ...r, updatedAt: now })));
+  }
+  write(KEYS.tombstones, deleted);
+  if (etag) localStorage.setItem(KEYS.syncEtag, etag);
+}
+
+/** Make a snapshot the current data, here and in the cloud */
+export async function restoreSyncSnapshot(version: string): Promise<void> {
+  if (!R2_API_URL || !R2_AUTH_TOKEN) return;
+  const res = await fetch(`${R2_API_URL}/sync/restore/${version}`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${R2_AUTH_TOKEN}` },
+  });
+  if (!res.ok) throw new Error(`Restore failed: ${res.status}`);
+  replaceLocal(await res.json(), res.headers.get('ETag'));
+  await syncToR2();
+}
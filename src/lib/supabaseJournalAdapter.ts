@@ -0,0 +1,220 @@
+/**
+ * Supabase Journal Adapter
+ *
+ * Keeps the signed-in user's journal in the journal_* tables. Changes go
+ * to the local journal store first and reach Supabase through its write
+ * queue (see journalStore.ts), so the journal keeps working offline. A
+ * refresh sends what's queued and then reads every table, unless writes
+ * are still waiting: until they're sent, Supabase is behind this device.
+ *
+ * CSV imports and their rollbacks are the exception: they write to Supabase
+ * directly, as one batch, so they need a connection. What they change is
+ * copied into the local store, which a refresh may be reading from.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  JOURNAL_ENTITIES, countMutations, createMemoryJournalStore, discardFailedMutations,
+  isIndexedDbAvailable, openJournalStore, replayMutations, retryFailedMutations,
+  type JournalStore, type QueueCounts,
+} from '@/lib/journalStore';
+import { createImportBatch, finishImportBatch, markImportRolledBack } from '@/lib/importBatches';
+import { createSupabaseRepositories, isMissingTableError, type JournalRow } from '@/lib/repositories';
+import type { AdapterHandlers, JournalAdapter, JournalData, SyncStatus } from '@/lib/journal';
+
+// Helper to convert camelCase to snake_case for DB
+function toSnakeCase(obj: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const key in obj) {
+    const snakeKey = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+    result[snakeKey] = obj[key];
+  }
+  return result;
+}
+
+// Helper to convert snake_case to camelCase from DB
+function toCamelCase<T>(obj: Record<string, unknown>): T {
+  const result: Record<string, unknown> = {};
+  for (const key in obj) {
+    const camelKey = key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+    result[camelKey] = obj[key];
+  }
+  return result as T;
+}
+
+async function openStore(userId: string): Promise<JournalStore> {
+  if (!isIndexedDbAvailable()) return createMemoryJournalStore();
+  try {
+    return await openJournalStore(userId);
+  } catch (err) {
+    console.error('Failed to open the local journal store', err);
+    return createMemoryJournalStore();
+  }
+}
+
+export function createSupabaseJournalAdapter(supabase: SupabaseClient, userId: string): JournalAdapter {
+  let opening: Promise<JournalStore> | null = null;
+  const store = () => (opening ??= openStore(userId));
+
+  const repositories = createSupabaseRepositories(supabase);
+  let handlers: AdapterHandlers | null = null;
+  let unsubscribers: (() => void)[] = [];
+
+  const readLocal = async (): Promise<JournalData> => {
+    const local = await store();
+    const data = {} as JournalData;
+    for (const entity of JOURNAL_ENTITIES) {
+      (data[entity] as { id: string }[]) = await local.getAll(entity);
+    }
+    return data;
+  };
+
+  // Report the queue; a failed write outweighs one still waiting
+  const report = async (counts?: QueueCounts, error: string | null = null, status?: SyncStatus) => {
+    const mutations = await (await store()).mutations();
+    const queue = counts ?? countMutations(mutations);
+    handlers?.onStatus({
+      status: status ?? (error || queue.failed > 0 ? 'error' : queue.pending > 0 ? 'pending' : 'synced'),
+      pending: queue.pending,
+      failed: queue.failed,
+      failedError: mutations.find(m => m.error)?.error ?? null,
+      error,
+    });
+  };
+
+  // Send queued changes; offline they just stay queued
+  const flush = async () => {
+    const local = await store();
+    const counts = navigator.onLine ? await replayMutations(supabase, local) : countMutations(await local.mutations());
+    await report(counts);
+  };
+
+  const fetchAll = async (): Promise<JournalData> => {
+    let results;
+    try {
+      results = await Promise.all(JOURNAL_ENTITIES.map(entity => repositories.journal[entity].list()));
+    } catch (err) {
+      if (isMissingTableError(err)) {
+        throw new Error('Journal tables not found. Please run supabase/journal_schema.sql in your Supabase SQL Editor.');
+      }
+      throw err;
+    }
+
+    const data = {} as JournalData;
+    JOURNAL_ENTITIES.forEach((entity, i) => {
+      (data[entity] as { id: string }[]) = results[i].map(r => toCamelCase<{ id: string }>(r));
+    });
+    return data;
+  };
+
+  const onOnline = () => handlers?.onRemoteChange();
+
+  const requireOnline = (action: string) => {
+    if (!navigator.onLine) throw new Error(`You're offline. ${action} needs a connection; try again once you're back online.`);
+  };
+
+  return {
+    load: readLocal,
+
+    sync: async () => {
+      const local = await store();
+      await report(undefined, null, 'syncing');
+      try {
+        await flush();
+        if (countMutations(await local.mutations()).pending > 0) return readLocal();
+
+        const fetched = await fetchAll();
+        for (const entity of JOURNAL_ENTITIES) await local.replaceAll<{ id: string }>(entity, fetched[entity]);
+        await report();
+        return fetched;
+      } catch (err) {
+        await report(undefined, err instanceof Error ? err.message : 'Failed to fetch data');
+        return readLocal();
+      }
+    },
+
+    // Queued as upserts on the record's id, or for daily entries on the day
+    // (an entry made offline keeps the id the server already has for it)
+    save: async (entity, records) => {
+      const local = await store();
+      for (const record of records) {
+        const { id, ...rest } = record as unknown as { id: string } & Record<string, unknown>;
+        await local.put(entity, record);
+        await local.enqueue({
+          entity,
+          op: 'upsert',
+          id,
+          row: { ...toSnakeCase(rest), user_id: userId },
+          onConflict: entity === 'dailyEntries' ? 'user_id,date' : undefined,
+        });
+      }
+    },
+
+    remove: async (entity, id) => {
+      const local = await store();
+      await local.remove(entity, id);
+      await local.enqueue({ entity, op: 'delete', id });
+    },
+
+    flush,
+
+    watch: next => {
+      handlers = next;
+      unsubscribers = JOURNAL_ENTITIES.map(entity => repositories.journal[entity].subscribe(() => handlers?.onRemoteChange()));
+      window.addEventListener('online', onOnline);
+      report();
+
+      return () => {
+        handlers = null;
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        unsubscribers = [];
+        window.removeEventListener('online', onOnline);
+      };
+    },
+
+    close: () => {
+      opening?.then(local => local.close());
+      opening = null;
+    },
+
+    // A CSV import goes in as one batch so it can be rolled back as a whole
+    importTrades: async (trades, source) => {
+      requireOnline('Importing trades');
+      const batch = await createImportBatch(repositories.importBatches, {
+        ...source,
+        user_id: userId,
+        target: 'journal',
+        imported_count: trades.length,
+      });
+
+      let inserted;
+      try {
+        inserted = await repositories.journal.trades.insertMany(trades.map(t => ({
+          user_id: userId,
+          ...toSnakeCase({ ...t, importBatchId: batch.id } as unknown as Record<string, unknown>),
+        }) as JournalRow));
+      } catch (err) {
+        await finishImportBatch(repositories.importBatches, batch, 0);
+        throw err;
+      }
+
+      const local = await store();
+      for (const row of inserted) await local.put('trades', toCamelCase<{ id: string }>(row));
+      return finishImportBatch(repositories.importBatches, batch, inserted.length);
+    },
+
+    rollbackImportBatch: async batchId => {
+      requireOnline('Rolling back an import');
+      await repositories.journal.trades.removeWhere({ import_batch_id: batchId });
+      await markImportRolledBack(repositories.importBatches, batchId);
+
+      const local = await store();
+      const imported = (await local.getAll<{ id: string; importBatchId?: string }>('trades')).filter(t => t.importBatchId === batchId);
+      for (const trade of imported) await local.remove('trades', trade.id);
+    },
+
+    retryFailed: async () => retryFailedMutations(await store()),
+
+    discardFailed: async () => discardFailedMutations(await store()),
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * TradeStation API Client
+ *
+ * Reads futures accounts through TradeStation's v3 brokerage API. Signs in
+ * with an OAuth refresh token (issued once through TradeStation's consent
+ * flow for the user's API key) and exchanges it for short-lived access
+ * tokens. Filled orders are turned into fills for the shared pairing.
+ */
+
+import { format, subDays } from 'date-fns';
+import { carriedLots, pairBrokerTrades, type BrokerFill, type PairingOptions } from '@/lib/fillPairing';
+import { parseInstrumentFromContract } from '@/lib/tradovate';
+import type { BrokerBalance, BrokerClient, BrokerPosition, BrokerSession, BrokerTrade } from '@/lib/brokerClient';
+import type { BrokerAccountInfo, BrokerEnvironment } from '@/types/bots';
+
+const TRADESTATION_API = {
+  demo: 'https://sim-api.tradestation.com/v3',
+  live: 'https://api.tradestation.com/v3',
+};
+
+const TRADESTATION_TOKEN_URL = 'https://signin.tradestation.com/oauth/token';
+
+// Historical orders only reach back 90 days
+const HISTORY_DAYS = 90;
+
+export interface TradeStationCredentials {
+  clientId: string;
+  clientSecret?: string;
+  refreshToken: string;
+  environment: BrokerEnvironment;
+}
+
+interface TradeStationAccount {
+  AccountID: string;
+  AccountType: string;
+  Status: string;
+}
+
+interface TradeStationOrderLeg {
+  BuyOrSell: string;           // 'Buy', 'Sell', 'SellShort', 'BuyToCover'
+  Symbol: string;
+  ExecQuantity: string;
+  ExecutionPrice?: string;
+}
+
+export interface TradeStationOrder {
+  OrderID: string;
+  AccountID: string;
+  Status: string;
+  ClosedDateTime?: string;
+  OpenedDateTime: string;
+  FilledPrice?: string;
+  Legs: TradeStationOrderLeg[];
+}
+
+interface TradeStationPosition {
+  AccountID: string;
+  Symbol: string;
+  Quantity: string;
+  AveragePrice: string;
+  LongShort: 'Long' | 'Short';
+  UnrealizedProfitLoss?: string;
+}
+
+interface TradeStationBalance {
+  AccountID: string;
+  CashBalance: string;
+  TodaysProfitLoss?: string;
+  BalanceDetail?: { RealizedProfitLoss?: string };
+}
+
+/**
+ * Root symbol for a TradeStation futures symbol ('MNQZ24', '@MNQ')
+ */
+export function parseTradeStationSymbol(symbol: string): string {
+  return parseInstrumentFromContract(symbol.replace(/^@/, '').split(' ')[0]);
+}
+
+/**
+ * Fills from filled (or partly filled) orders, one per leg. Orders carry
+ * no separate fill ids, so a leg's id is its order id with the leg index
+ * appended, which keeps ids increasing with the order ids.
+ */
+export function toTradeStationFills(orders: TradeStationOrder[]): BrokerFill[] {
+  return orders.flatMap(order =>
+    order.Legs
+      .map((leg, i) => ({ leg, i }))
+      .filter(({ leg }) => Number(leg.ExecQuantity) > 0)
+      .map(({ leg, i }) => ({
+        id: Number(order.OrderID) * 10 + i,
+        orderId: Number(order.OrderID),
+        instrument: parseTradeStationSymbol(leg.Symbol),
+        timestamp: order.ClosedDateTime || order.OpenedDateTime,
+        action: leg.BuyOrSell.startsWith('Buy') ? 'Buy' as const : 'Sell' as const,
+        qty: Number(leg.ExecQuantity),
+        price: Number(leg.ExecutionPrice ?? order.FilledPrice),
+      }))
+  );
+}
+
+/**
+ * Exchange the refresh token for an access token
+ */
+export async function requestTradeStationToken(credentials: TradeStationCredentials): Promise<BrokerSession> {
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    client_id: credentials.clientId,
+    refresh_token: credentials.refreshToken,
+  });
+  if (credentials.clientSecret) body.set('client_secret', credentials.clientSecret);
+
+  const response = await fetch(TRADESTATION_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`TradeStation auth failed: ${error}`);
+  }
+
+  const data: { access_token: string; expires_in: number } = await response.json();
+  return {
+    accessToken: data.access_token,
+    expirationTime: new Date(Date.now() + data.expires_in * 1000).toISOString(),
+  };
+}
+
+export class TradeStationClient implements BrokerClient {
+  readonly broker = 'tradestation' as const;
+  private signIn: () => Promise<BrokerSession>;
+  private accessToken: string | null = null;
+  private baseUrl: string;
+
+  constructor(environment: BrokerEnvironment, signIn: () => Promise<BrokerSession>) {
+    this.signIn = signIn;
+    this.baseUrl = TRADESTATION_API[environment];
+  }
+
+  /**
+   * Sign in and keep the access token for later requests
+   */
+  async authenticate(): Promise<BrokerSession> {
+    const session = await this.signIn();
+    this.accessToken = session.accessToken;
+    return session;
+  }
+
+  /**
+   * Make authenticated API request
+   */
+  private async request<T>(endpoint: string, retried = false): Promise<T> {
+    if (!this.accessToken) {
+      await this.authenticate();
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+
+    if (response.status === 401 && !retried) {
+      // Token expired, re-authenticate
+      await this.authenticate();
+      return this.request(endpoint, true);
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`TradeStation API error: ${error}`);
+    }
+
+    return response.json();
+  }
+
+  async getAccounts(): Promise<BrokerAccountInfo[]> {
+    const { Accounts } = await this.request<{ Accounts: TradeStationAccount[] }>('/brokerage/accounts');
+    return (Accounts || []).map(a => ({
+      id: a.AccountID,
+      name: a.AccountID,
+      accountType: a.AccountType,
+      active: a.Status === 'Active',
+    }));
+  }
+
+  /**
+   * Every page of an orders listing, following NextToken until none is returned
+   */
+  private async listOrders(endpoint: string): Promise<TradeStationOrder[]> {
+    const orders: TradeStationOrder[] = [];
+    let nextToken: string | undefined;
+    do {
+      const page = await this.request<{ Orders: TradeStationOrder[]; NextToken?: string }>(
+        nextToken ? `${endpoint}${endpoint.includes('?') ? '&' : '?'}nextToken=${encodeURIComponent(nextToken)}` : endpoint
+      );
+      orders.push(...(page.Orders || []));
+      nextToken = page.NextToken || undefined;
+    } while (nextToken);
+    return orders;
+  }
+
+  /**
+   * Filled orders from the last 90 days plus today's (historical orders
+   * exclude the current day)
+   */
+  async getOrders(accountId: string): Promise<TradeStationOrder[]> {
+    const since = format(subDays(new Date(), HISTORY_DAYS), 'yyyy-MM-dd');
+    const [history, today] = await Promise.all([
+      this.listOrders(`/brokerage/accounts/${accountId}/historicalorders?since=${since}`),
+      this.listOrders(`/brokerage/accounts/${accountId}/orders`),
+    ]);
+
+    const byId = new Map<string, TradeStationOrder>();
+    [...history, ...today].forEach(o => byId.set(o.OrderID, o));
+    return [...byId.values()];
+  }
+
+  async getFills(accountId: string): Promise<BrokerFill[]> {
+    return toTradeStationFills(await this.getOrders(accountId));
+  }
+
+  /**
+   * Round trips from the order history. Positions opened before it starts
+   * are worked out from the current positions so their closes don't pair up
+   * with later fills.
+   */
+  async fetchTrades(accountId: string, sinceDate?: Date, options?: PairingOptions): Promise<BrokerTrade[]> {
+    const [fills, positions] = await Promise.all([this.getFills(accountId), this.getPositions(accountId)]);
+    return pairBrokerTrades(fills, accountId, sinceDate, {
+      ...options,
+      openLots: [...(options?.openLots || []), ...carriedLots(fills, positions)],
+    });
+  }
+
+  async getPositions(accountId: string): Promise<BrokerPosition[]> {
+    const { Positions } = await this.request<{ Positions: TradeStationPosition[] }>(
+      `/brokerage/accounts/${accountId}/positions`
+    );
+    return (Positions || []).map(p => ({
+      accountId,
+      instrument: parseTradeStationSymbol(p.Symbol),
+      netPos: Math.abs(Number(p.Quantity)) * (p.LongShort === 'Short' ? -1 : 1),
+      netPrice: Number(p.AveragePrice),
+      unrealizedPnl: p.UnrealizedProfitLoss !== undefined ? Number(p.UnrealizedProfitLoss) : undefined,
+    }));
+  }
+
+  async getCashBalance(accountId: string): Promise<BrokerBalance> {
+    const { Balances } = await this.request<{ Balances: TradeStationBalance[] }>(
+      `/brokerage/accounts/${accountId}/balances`
+    );
+    const balance = (Balances || []).find(b => b.AccountID === accountId);
+    if (!balance) throw new Error(`TradeStation returned no balance for ${accountId}`);
+    return {
+      cashBalance: Number(balance.CashBalance),
+      realizedPnL: Number(balance.BalanceDetail?.RealizedProfitLoss ?? balance.TodaysProfitLoss ?? 0),
+    };
+  }
+}
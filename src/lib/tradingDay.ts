@@ -0,0 +1,53 @@
+/**
+ * CME Trading Day
+ *
+ * Futures sessions roll over at 18:00 America/New_York, so a trade placed
+ * at 19:00 ET on Monday belongs to Tuesday's session. Prop firm daily loss
+ * limits, trading day counts and end-of-day drawdowns all use this day,
+ * not the calendar date of the timestamp.
+ */
+
+const SESSION_ROLLOVER_HOUR = 18;
+
+const etFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  hourCycle: 'h23',
+});
+
+/**
+ * Trading day (yyyy-MM-dd) a timestamp belongs to
+ */
+export function getTradingDay(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (isNaN(date.getTime())) {
+    return typeof value === 'string' ? value.slice(0, 10) : '';
+  }
+
+  const parts: Record<string, number> = {};
+  etFormatter.formatToParts(date).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  });
+
+  const dayOffset = parts.hour >= SESSION_ROLLOVER_HOUR ? 1 : 0;
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day + dayOffset))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Group items by trading day, keeping their original order within a day
+ */
+export function groupByTradingDay<T extends { timestamp: string }>(items: T[]): Map<string, T[]> {
+  const days = new Map<string, T[]>();
+  items.forEach(item => {
+    const day = getTradingDay(item.timestamp);
+    const existing = days.get(day);
+    if (existing) existing.push(item);
+    else days.set(day, [item]);
+  });
+  return days;
+}
@@ -5,6 +5,10 @@
  * Supports both demo and live environments.
  */
 
+import { pairBrokerTrades, type BrokerFill, type PairingOptions } from '@/lib/fillPairing';
+import type { BrokerBalance, BrokerClient, BrokerPosition, BrokerSession, BrokerTrade } from '@/lib/brokerClient';
+import type { BrokerAccountInfo, BrokerEnvironment } from '@/types/bots';
+
 // Tradovate API endpoints
 const TRADOVATE_API = {
   demo: 'https://demo.tradovateapi.com/v1',
@@ -28,9 +32,7 @@ export interface TradovateCredentials {
   environment: 'demo' | 'live';
 }
 
-export interface TradovateToken {
-  accessToken: string;
-  expirationTime: string;
+export interface TradovateToken extends BrokerSession {
   userId: number;
   userStatus: string;
   name: string;
@@ -101,71 +103,60 @@ export interface TradovateContract {
   providerTickSize: number;
 }
 
-export interface TradovateTrade {
-  // Parsed trade ready for import
-  timestamp: string;
-  instrument: string;
-  direction: 'long' | 'short';
-  entry_price: number;
-  exit_price?: number;
-  contracts: number;
-  pnl?: number;
-  commission?: number;
-  status: 'open' | 'closed';
-  tradovate_fill_id: number;
-  tradovate_order_id: number;
-  tradovate_account_id: number;
+/**
+ * Sign in to Tradovate with a username and password (plus API key, if any)
+ */
+export async function requestTradovateToken(credentials: TradovateCredentials): Promise<TradovateToken> {
+  const body: Record<string, string | number | undefined> = {
+    name: credentials.username,
+    password: credentials.password,
+    appId: credentials.appId || 'PropTracker',
+    appVersion: credentials.appVersion || '1.0',
+    deviceId: credentials.deviceId || crypto.randomUUID(),
+  };
+
+  // Add API credentials if provided (for programmatic access)
+  if (credentials.cid && credentials.sec) {
+    body.cid = credentials.cid;
+    body.sec = credentials.sec;
+  }
+
+  const response = await fetch(TRADOVATE_AUTH[credentials.environment], {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Tradovate auth failed: ${error}`);
+  }
+
+  return response.json();
 }
 
 class TradovateClient {
-  private credentials: TradovateCredentials;
-  private token: TradovateToken | null = null;
+  private signIn: () => Promise<BrokerSession>;
+  private token: BrokerSession | null = null;
   private baseUrl: string;
 
-  constructor(credentials: TradovateCredentials) {
-    this.credentials = credentials;
-    this.baseUrl = TRADOVATE_API[credentials.environment];
+  constructor(environment: BrokerEnvironment, signIn: () => Promise<BrokerSession>) {
+    this.signIn = signIn;
+    this.baseUrl = TRADOVATE_API[environment];
   }
 
   /**
-   * Authenticate with Tradovate and get access token
+   * Sign in and keep the access token for later requests
    */
-  async authenticate(): Promise<TradovateToken> {
-    const authUrl = TRADOVATE_AUTH[this.credentials.environment];
-
-    const body: Record<string, string | number | undefined> = {
-      name: this.credentials.username,
-      password: this.credentials.password,
-      appId: this.credentials.appId || 'PropTracker',
-      appVersion: this.credentials.appVersion || '1.0',
-      deviceId: this.credentials.deviceId || crypto.randomUUID(),
-    };
-
-    // Add API credentials if provided (for programmatic access)
-    if (this.credentials.cid && this.credentials.sec) {
-      body.cid = this.credentials.cid;
-      body.sec = this.credentials.sec;
-    }
-
-    const response = await fetch(authUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Tradovate auth failed: ${error}`);
-    }
-
-    this.token = await response.json();
-    return this.token!;
+  async authenticate(): Promise<BrokerSession> {
+    this.token = await this.signIn();
+    return this.token;
   }
 
   /**
    * Make authenticated API request
    */
-  private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  private async request<T>(endpoint: string, options?: RequestInit, retried = false): Promise<T> {
     if (!this.token) {
       await this.authenticate();
     }
@@ -179,10 +170,10 @@ class TradovateClient {
       },
     });
 
-    if (response.status === 401) {
+    if (response.status === 401 && !retried) {
       // Token expired, re-authenticate
       await this.authenticate();
-      return this.request(endpoint, options);
+      return this.request(endpoint, options, true);
     }
 
     if (!response.ok) {
@@ -239,27 +230,37 @@ class TradovateClient {
   }
 
   /**
-   * Get cash balance for account
+   * Get cash balance and today's realized P&L for an account
    */
   async getCashBalance(accountId: number): Promise<{ cashBalance: number; realizedPnL: number }> {
     const result = await this.request<{
-      cashBalance: number;
-      realizedPnL: number;
+      totalCashValue?: number;
+      cashBalance?: number;
+      realizedPnL?: number;
+      errorText?: string;
     }>(`/cashBalance/getcashbalancesnapshot`, {
       method: 'POST',
       body: JSON.stringify({ accountId }),
     });
-    return result;
+    if (result.errorText) throw new Error(`Tradovate API error: ${result.errorText}`);
+    // The snapshot reports the balance as totalCashValue
+    return {
+      cashBalance: result.totalCashValue ?? result.cashBalance ?? 0,
+      realizedPnL: result.realizedPnL ?? 0,
+    };
   }
 
   /**
-   * Fetch and parse all trades for an account since a given date
+   * Fetch fills for an account and pair them into round-trip trades.
+   * All fills are paired so positions opened before `sinceDate` still
+   * close correctly; only trades that closed on or after it are returned.
    */
-  async fetchTrades(accountId: number, sinceDate?: Date): Promise<TradovateTrade[]> {
-    const [fills, orders] = await Promise.all([
-      this.getFills(accountId),
-      this.getOrders(accountId),
-    ]);
+  async fetchTrades(
+    accountId: number,
+    sinceDate?: Date,
+    options?: PairingOptions
+  ): Promise<BrokerTrade[]> {
+    const fills = (await this.getFills(accountId)).filter(f => f.active !== false);
 
     // Get unique contract IDs
     const contractIds = [...new Set(fills.map(f => f.contractId))];
@@ -267,61 +268,87 @@ class TradovateClient {
       ? await this.getContracts(contractIds)
       : [];
 
-    const contractMap = new Map(contracts.map(c => [c.id, c]));
-    const orderMap = new Map(orders.map(o => [o.id, o]));
-
-    // Filter by date if provided
-    const filteredFills = sinceDate
-      ? fills.filter(f => new Date(f.timestamp) >= sinceDate)
-      : fills;
-
-    // Convert fills to trades
-    return filteredFills.map(fill => {
-      const contract = contractMap.get(fill.contractId);
-      const order = orderMap.get(fill.orderId);
-
-      // Parse instrument from contract name (e.g., "MNQH5" -> "MNQ")
-      const instrument = contract?.name?.replace(/[A-Z]\d+$/, '') || 'UNKNOWN';
-
-      return {
-        timestamp: fill.timestamp,
-        instrument,
-        direction: fill.action === 'Buy' ? 'long' : 'short',
-        entry_price: fill.price,
-        contracts: fill.qty,
-        status: 'closed' as const, // Fills are always executed
-        tradovate_fill_id: fill.id,
-        tradovate_order_id: fill.orderId,
-        tradovate_account_id: accountId,
-      };
-    });
+    return pairBrokerTrades(toBrokerFills(fills, contracts), String(accountId), sinceDate, options);
   }
 }
 
 /**
- * Create a new Tradovate client instance
+ * Tradovate behind the common broker interface. Account ids are Tradovate's
+ * numeric ids as strings.
  */
-export function createTradovateClient(credentials: TradovateCredentials): TradovateClient {
-  return new TradovateClient(credentials);
+export class TradovateBrokerClient implements BrokerClient {
+  readonly broker = 'tradovate' as const;
+  readonly api: TradovateClient;
+
+  constructor(environment: BrokerEnvironment, signIn: () => Promise<BrokerSession>) {
+    this.api = new TradovateClient(environment, signIn);
+  }
+
+  authenticate(): Promise<BrokerSession> {
+    return this.api.authenticate();
+  }
+
+  async getAccounts(): Promise<BrokerAccountInfo[]> {
+    return (await this.api.getAccounts()).map(a => ({
+      id: String(a.id),
+      name: a.name,
+      accountType: a.accountType,
+      active: a.active,
+    }));
+  }
+
+  async getFills(accountId: string): Promise<BrokerFill[]> {
+    const fills = (await this.api.getFills(Number(accountId))).filter(f => f.active !== false);
+    const contractIds = [...new Set(fills.map(f => f.contractId))];
+    const contracts = contractIds.length > 0 ? await this.api.getContracts(contractIds) : [];
+    return toBrokerFills(fills, contracts);
+  }
+
+  fetchTrades(accountId: string, sinceDate?: Date, options?: PairingOptions): Promise<BrokerTrade[]> {
+    return this.api.fetchTrades(Number(accountId), sinceDate, options);
+  }
+
+  async getPositions(accountId: string): Promise<BrokerPosition[]> {
+    const positions = (await this.api.getPositions(Number(accountId))).filter(p => p.netPos !== 0);
+    const contractIds = [...new Set(positions.map(p => p.contractId))];
+    const contracts = new Map(
+      (contractIds.length > 0 ? await this.api.getContracts(contractIds) : []).map(c => [c.id, c])
+    );
+    return positions.map(p => ({
+      accountId,
+      instrument: parseInstrumentFromContract(contracts.get(p.contractId)?.name || 'UNKNOWN'),
+      netPos: p.netPos,
+      netPrice: p.netPrice,
+    }));
+  }
+
+  getCashBalance(accountId: string): Promise<BrokerBalance> {
+    return this.api.getCashBalance(Number(accountId));
+  }
 }
 
 /**
- * Test connection to Tradovate with given credentials
+ * Map Tradovate fills to broker-neutral fills for pairing
  */
-export async function testTradovateConnection(
-  credentials: TradovateCredentials
-): Promise<{ success: boolean; accounts?: TradovateAccount[]; error?: string }> {
-  try {
-    const client = createTradovateClient(credentials);
-    await client.authenticate();
-    const accounts = await client.getAccounts();
-    return { success: true, accounts };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
+export function toBrokerFills(fills: TradovateFill[], contracts: TradovateContract[]): BrokerFill[] {
+  const contractMap = new Map(contracts.map(c => [c.id, c]));
+  return fills.map(fill => ({
+    id: fill.id,
+    orderId: fill.orderId,
+    // Parse instrument from contract name (e.g., "MNQH5" -> "MNQ")
+    instrument: parseInstrumentFromContract(contractMap.get(fill.contractId)?.name || 'UNKNOWN'),
+    timestamp: fill.timestamp,
+    action: fill.action,
+    qty: fill.qty,
+    price: fill.price,
+  }));
+}
+
+/**
+ * Create a new Tradovate client instance
+ */
+export function createTradovateClient(credentials: TradovateCredentials): TradovateClient {
+  return new TradovateClient(credentials.environment, () => requestTradovateToken(credentials));
 }
 
 /**
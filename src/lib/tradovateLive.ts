@@ -0,0 +1,335 @@
+/**
+ * Tradovate Live Feed
+ *
+ * Keeps open positions, cash balances and unrealized P&L for a set of
+ * Tradovate accounts current from two sockets: the user sync stream
+ * (positions, fills, orders, cash balances) and the market data stream
+ * (last trade price for each contract with an open position).
+ *
+ * Access tokens are short-lived: with renewToken the feed signs in again
+ * shortly before the session expires, and sockets that reconnect later
+ * authorize with the renewed tokens.
+ */
+
+import { TradovateSocket, TRADOVATE_WS, type SocketStatus } from '@/lib/tradovateSocket';
+import { parseInstrumentFromContract, type TradovateContract, type TradovateFill, type TradovateOrder, type TradovatePosition } from '@/lib/tradovate';
+import type { BrokerSession } from '@/lib/brokerClient';
+import { pointValue } from '@/lib/fillPairing';
+
+export interface LivePosition {
+  accountId: number;
+  contractId: number;
+  instrument: string;
+  netPos: number;              // signed: long > 0, short < 0
+  netPrice: number;            // average entry price
+  lastPrice?: number;
+  unrealizedPnl?: number;
+  timestamp: string;
+}
+
+export interface LiveAccountState {
+  accountId: number;
+  positions: LivePosition[];   // open positions only
+  cashBalance?: number;
+  realizedPnl?: number;        // today's realized P&L from the cash balance
+  unrealizedPnl: number;
+  updatedAt: string;
+}
+
+export interface TradovateCashBalance {
+  id: number;
+  accountId: number;
+  timestamp: string;
+  amount: number;
+  realizedPnL?: number;
+}
+
+interface PropsEvent {
+  entityType: string;
+  eventType: 'Created' | 'Updated' | 'Deleted';
+  entity: Record<string, unknown>;
+}
+
+interface SyncResponse {
+  positions?: TradovatePosition[];
+  cashBalances?: TradovateCashBalance[];
+  orders?: TradovateOrder[];
+  contracts?: TradovateContract[];
+}
+
+interface Quote {
+  contractId: number;
+  entries: Record<string, { price?: number }>;
+}
+
+// Renew this long before the session expires, but no more often than every 30s
+const RENEW_BEFORE_MS = 5 * 60 * 1000;
+const MIN_RENEW_DELAY_MS = 30 * 1000;
+
+export interface LiveFeedOptions {
+  token: BrokerSession;
+  renewToken?: () => Promise<BrokerSession>;   // a fresh session for the same user
+  environment: 'demo' | 'live';
+  accountIds: number[];
+  resolveContracts: (ids: number[]) => Promise<TradovateContract[]>;
+  urls?: { user?: string; md?: string };
+  WebSocketImpl?: typeof WebSocket;
+  reconnectMs?: number;
+}
+
+export class TradovateLiveFeed {
+  private options: LiveFeedOptions;
+  private session: BrokerSession;
+  private renewal: Promise<BrokerSession> | null = null;
+  private renewTimer: ReturnType<typeof setTimeout> | null = null;
+  private user: TradovateSocket;
+  private md: TradovateSocket | null;
+  private accounts = new Set<number>();
+  private positions = new Map<number, TradovatePosition>();         // by position id
+  private cash = new Map<number, TradovateCashBalance>();           // by account id
+  private orderAccounts = new Map<number, number>();                // order id -> account id
+  private contracts = new Map<number, TradovateContract>();
+  private prices = new Map<number, number>();                       // contract id -> last price
+  private quoted = new Set<number>();
+  private listeners = new Set<(states: LiveAccountState[]) => void>();
+  private fillListeners = new Set<(accountId: number, fill: TradovateFill) => void>();
+  private statusListeners = new Set<(status: SocketStatus) => void>();
+
+  constructor(options: LiveFeedOptions) {
+    this.options = options;
+    this.session = options.token;
+    this.accounts = new Set(options.accountIds);
+
+    this.user = new TradovateSocket({
+      url: options.urls?.user ?? TRADOVATE_WS[options.environment],
+      token: async () => (await this.currentSession()).accessToken,
+      WebSocketImpl: options.WebSocketImpl,
+      reconnectMs: options.reconnectMs,
+    });
+    this.md = options.token.mdAccessToken
+      ? new TradovateSocket({
+          url: options.urls?.md ?? TRADOVATE_WS.md,
+          token: async () => (await this.currentSession()).mdAccessToken ?? '',
+          WebSocketImpl: options.WebSocketImpl,
+          reconnectMs: options.reconnectMs,
+        })
+      : null;
+
+    // (Re)load the full state on every authorization, then follow pushes
+    this.user.onOpen(async () => {
+      const sync = await this.user.request<SyncResponse>('user/syncrequest', { users: [this.session.userId] });
+      this.positions.clear();
+      (sync?.positions || []).forEach(p => this.positions.set(p.id, p));
+      (sync?.cashBalances || []).forEach(c => this.cash.set(c.accountId, c));
+      (sync?.orders || []).forEach(o => this.orderAccounts.set(o.id, o.accountId));
+      (sync?.contracts || []).forEach(c => this.contracts.set(c.id, c));
+      await this.refreshQuotes();
+      this.emit();
+    });
+    this.user.on<PropsEvent>('props', event => this.applyProps(event));
+    this.user.onStatus(status => this.statusListeners.forEach(l => l(status)));
+
+    if (this.md) {
+      // Subscriptions don't survive a reconnect
+      this.md.onOpen(async () => {
+        this.quoted.clear();
+        await this.refreshQuotes();
+      });
+      this.md.on<{ quotes?: Quote[] }>('md', data => this.applyQuotes(data.quotes || []));
+    }
+  }
+
+  async start(): Promise<void> {
+    this.scheduleRenewal();
+    await Promise.all([this.user.connect(), this.md?.connect()]);
+  }
+
+  stop() {
+    if (this.renewTimer) clearTimeout(this.renewTimer);
+    this.renewTimer = null;
+    this.user.close();
+    this.md?.close();
+  }
+
+  /**
+   * The session to authorize with, renewed first if it is about to expire
+   */
+  private async currentSession(): Promise<BrokerSession> {
+    const remaining = Date.parse(this.session.expirationTime) - Date.now();
+    if (!this.options.renewToken || remaining > RENEW_BEFORE_MS) return this.session;
+    return this.renew();
+  }
+
+  private renew(): Promise<BrokerSession> {
+    this.renewal ??= this.options.renewToken!()
+      .then(session => {
+        this.session = session;
+        this.scheduleRenewal();
+        return session;
+      })
+      .finally(() => {
+        this.renewal = null;
+      });
+    return this.renewal;
+  }
+
+  private scheduleRenewal() {
+    if (this.renewTimer) clearTimeout(this.renewTimer);
+    this.renewTimer = null;
+    if (!this.options.renewToken) return;
+
+    const remaining = Date.parse(this.session.expirationTime) - Date.now();
+    // setTimeout can't wait longer than ~24.8 days
+    const delay = Math.min(Math.max(remaining - RENEW_BEFORE_MS, MIN_RENEW_DELAY_MS), 2 ** 31 - 1);
+    this.renewTimer = setTimeout(() => {
+      // A failed renewal is tried again by the next reconnect
+      this.renew().catch(err => console.error('Tradovate token renewal failed', err));
+    }, delay);
+  }
+
+  /**
+   * Receive the current state of every tracked account after each change
+   */
+  subscribe(listener: (states: LiveAccountState[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStates());
+    return () => this.listeners.delete(listener);
+  }
+
+  onFill(listener: (accountId: number, fill: TradovateFill) => void): () => void {
+    this.fillListeners.add(listener);
+    return () => this.fillListeners.delete(listener);
+  }
+
+  onStatus(listener: (status: SocketStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private applyProps({ entityType, eventType, entity }: PropsEvent) {
+    switch (entityType) {
+      case 'position': {
+        const position = entity as unknown as TradovatePosition;
+        if (eventType === 'Deleted') this.positions.delete(position.id);
+        else this.positions.set(position.id, position);
+        this.refreshQuotes().catch(err => console.error('Quote subscription failed', err));
+        break;
+      }
+      case 'cashBalance': {
+        const balance = entity as unknown as TradovateCashBalance;
+        this.cash.set(balance.accountId, balance);
+        break;
+      }
+      case 'order': {
+        const order = entity as unknown as TradovateOrder;
+        this.orderAccounts.set(order.id, order.accountId);
+        return;
+      }
+      case 'contract': {
+        const contract = entity as unknown as TradovateContract;
+        this.contracts.set(contract.id, contract);
+        return;
+      }
+      case 'fill': {
+        const fill = entity as unknown as TradovateFill;
+        const accountId = this.orderAccounts.get(fill.orderId);
+        if (accountId !== undefined && this.accounts.has(accountId) && eventType === 'Created') {
+          this.fillListeners.forEach(l => l(accountId, fill));
+        }
+        return;
+      }
+      default:
+        return;
+    }
+    this.emit();
+  }
+
+  private applyQuotes(quotes: Quote[]) {
+    let changed = false;
+    quotes.forEach(q => {
+      const entries = q.entries || {};
+      const bid = entries.Bid?.price;
+      const offer = entries.Offer?.price;
+      const price = entries.Trade?.price ?? (bid !== undefined && offer !== undefined ? (bid + offer) / 2 : undefined);
+      if (price !== undefined) {
+        this.prices.set(q.contractId, price);
+        changed = true;
+      }
+    });
+    if (changed) this.emit();
+  }
+
+  /**
+   * Make sure contracts are known and quoted for every open position
+   */
+  private async refreshQuotes() {
+    const open = [...this.positions.values()].filter(p => p.netPos !== 0 && this.accounts.has(p.accountId));
+    const missing = [...new Set(open.map(p => p.contractId))].filter(id => !this.contracts.has(id));
+    if (missing.length > 0) {
+      (await this.options.resolveContracts(missing)).forEach(c => this.contracts.set(c.id, c));
+    }
+    for (const p of open) {
+      if (!this.quoted.has(p.contractId)) await this.subscribeQuote(p.contractId);
+    }
+  }
+
+  private async subscribeQuote(contractId: number) {
+    // Picked up by the market data socket's open handler otherwise
+    if (!this.md?.isOpen) return;
+    this.quoted.add(contractId);
+    try {
+      await this.md.request('md/subscribeQuote', { symbol: this.contracts.get(contractId)?.name ?? contractId });
+    } catch (err) {
+      // Retried after the next (re)connect or position change
+      this.quoted.delete(contractId);
+      console.error('Quote subscription failed', err);
+    }
+  }
+
+  getStates(): LiveAccountState[] {
+    const updatedAt = new Date().toISOString();
+
+    return [...this.accounts].map(accountId => {
+      const positions: LivePosition[] = [...this.positions.values()]
+        .filter(p => p.accountId === accountId && p.netPos !== 0)
+        .map(p => {
+          const instrument = parseInstrumentFromContract(this.contracts.get(p.contractId)?.name || 'UNKNOWN');
+          const lastPrice = this.prices.get(p.contractId);
+          let unrealizedPnl: number | undefined;
+          if (lastPrice !== undefined) {
+            try {
+              unrealizedPnl = Math.round((lastPrice - p.netPrice) * p.netPos * pointValue(instrument) * 100) / 100;
+            } catch {
+              unrealizedPnl = undefined;
+            }
+          }
+          return {
+            accountId,
+            contractId: p.contractId,
+            instrument,
+            netPos: p.netPos,
+            netPrice: p.netPrice,
+            lastPrice,
+            unrealizedPnl,
+            timestamp: p.timestamp,
+          };
+        });
+
+      const cash = this.cash.get(accountId);
+      return {
+        accountId,
+        positions,
+        cashBalance: cash?.amount,
+        realizedPnl: cash?.realizedPnL,
+        unrealizedPnl: positions.reduce((sum, p) => sum + (p.unrealizedPnl || 0), 0),
+        updatedAt,
+      };
+    });
+  }
+
+  private emit() {
+    if (this.listeners.size === 0) return;
+    const states = this.getStates();
+    this.listeners.forEach(l => l(states));
+  }
+}
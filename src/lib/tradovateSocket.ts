@@ -0,0 +1,295 @@
+/**
+ * Tradovate WebSocket Client
+ *
+ * Speaks Tradovate's WebSocket framing: the server sends 'o' (open),
+ * 'h' (heartbeat), 'c' (close) or 'a' followed by a JSON array of
+ * messages. Requests go out as "endpoint\nid\n\nbody" and are answered by
+ * {i: id, s: status, d: data}; server pushes arrive as {e: event, d: data}.
+ *
+ * The socket authorizes with an access token, keeps itself alive with
+ * heartbeats and reconnects with backoff, re-running its open handlers so
+ * subscriptions are restored. Only a token the server refuses stops it;
+ * a lost connection or a failed open handler is retried.
+ */
+
+export const TRADOVATE_WS = {
+  demo: 'wss://demo.tradovateapi.com/v1/websocket',
+  live: 'wss://live.tradovateapi.com/v1/websocket',
+  md: 'wss://md.tradovateapi.com/v1/websocket',
+};
+
+export type SocketStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+export interface SocketFrame {
+  type: 'o' | 'h' | 'c' | 'a';
+  messages: unknown[];
+}
+
+export interface SocketResponse<T = unknown> {
+  i: number;
+  s: number;
+  d?: T;
+}
+
+export interface SocketEvent<T = unknown> {
+  e: string;
+  d: T;
+}
+
+export interface TradovateSocketOptions {
+  url: string;
+  token: string | (() => Promise<string>);  // a function is asked again on every (re)connect
+  heartbeatMs?: number;
+  requestTimeoutMs?: number;
+  reconnectMs?: number;                 // base backoff delay; 0 disables reconnects
+  WebSocketImpl?: typeof WebSocket;     // for tests and non-browser runtimes
+}
+
+/**
+ * Parse a raw server frame
+ */
+export function parseFrame(data: string): SocketFrame {
+  const type = data[0] as SocketFrame['type'];
+  if (type === 'a') return { type, messages: JSON.parse(data.slice(1)) };
+  return { type, messages: [] };
+}
+
+/**
+ * Format a request frame
+ */
+export function formatRequest(endpoint: string, id: number, body?: unknown): string {
+  return `${endpoint}\n${id}\n\n${body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body)}`;
+}
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class TradovateSocket {
+  private options: Required<Omit<TradovateSocketOptions, 'WebSocketImpl'>> & Pick<TradovateSocketOptions, 'WebSocketImpl'>;
+  private ws: WebSocket | null = null;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+  private eventHandlers = new Map<string, Set<(data: unknown) => void>>();
+  private openHandlers = new Set<() => void | Promise<void>>();
+  private statusHandlers = new Set<(status: SocketStatus) => void>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closedByUser = false;
+  private authorized = false;
+  private connecting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  constructor(options: TradovateSocketOptions) {
+    this.options = {
+      heartbeatMs: 2500,
+      requestTimeoutMs: 10000,
+      reconnectMs: 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Connect and authorize. Resolves once the first connection is authorized
+   * and its open handlers have run.
+   */
+  connect(): Promise<void> {
+    this.closedByUser = false;
+    return new Promise((resolve, reject) => {
+      this.connecting = { resolve, reject };
+      this.open();
+    });
+  }
+
+  private settleConnect(error?: Error) {
+    const connecting = this.connecting;
+    this.connecting = null;
+    if (error) connecting?.reject(error);
+    else connecting?.resolve();
+  }
+
+  private open() {
+    const Impl = this.options.WebSocketImpl ?? WebSocket;
+    this.setStatus('connecting');
+    const ws = new Impl(this.options.url);
+    this.ws = ws;
+
+    ws.onmessage = (event: MessageEvent) => {
+      const frame = parseFrame(String(event.data));
+      if (frame.type === 'o') {
+        this.authorize(ws);
+      } else if (frame.type === 'a') {
+        frame.messages.forEach(message => this.dispatch(message));
+      } else if (frame.type === 'c') {
+        ws.close();
+      }
+    };
+
+    ws.onerror = () => {
+      this.setStatus('error');
+    };
+
+    ws.onclose = () => {
+      this.authorized = false;
+      this.stopHeartbeat();
+      this.rejectPending(new Error('Tradovate socket closed'));
+      this.setStatus('closed');
+      if (this.closedByUser || this.options.reconnectMs <= 0) {
+        this.settleConnect(new Error('Tradovate socket closed before it was authorized'));
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private async authorize(ws: WebSocket) {
+    let response: SocketResponse;
+    try {
+      const { token } = this.options;
+      response = await this.send('authorize', typeof token === 'function' ? await token() : token);
+    } catch (err) {
+      // No token or no answer: try again on a new connection
+      console.warn('Tradovate socket could not authorize, reconnecting', err);
+      ws.close();
+      return;
+    }
+
+    if (response.s !== 200) {
+      // A rejected token won't work on retry either
+      this.closedByUser = true;
+      this.setStatus('error');
+      this.settleConnect(new Error(`Tradovate socket authorization failed (${response.s}): ${JSON.stringify(response.d ?? '')}`));
+      ws.close();
+      return;
+    }
+
+    this.authorized = true;
+    this.attempts = 0;
+    this.startHeartbeat();
+    this.setStatus('open');
+    try {
+      for (const handler of this.openHandlers) await handler();
+      this.settleConnect();
+    } catch (err) {
+      // The token was fine; whatever failed (e.g. a timed-out sync) may not fail again
+      console.warn('Tradovate socket open handler failed, reconnecting', err);
+      this.setStatus('error');
+      ws.close();
+    }
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(this.options.reconnectMs * 2 ** this.attempts, 30000);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeat = setInterval(() => {
+      if (this.ws?.readyState === 1) this.ws.send('[]');
+    }, this.options.heartbeatMs);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+
+  private rejectPending(error: Error) {
+    this.pending.forEach(p => {
+      clearTimeout(p.timer);
+      p.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  private setStatus(status: SocketStatus) {
+    this.statusHandlers.forEach(handler => handler(status));
+  }
+
+  private dispatch(message: unknown) {
+    const msg = message as Partial<SocketResponse & SocketEvent>;
+
+    if (typeof msg.i === 'number' && this.pending.has(msg.i)) {
+      const pending = this.pending.get(msg.i)!;
+      this.pending.delete(msg.i);
+      clearTimeout(pending.timer);
+      pending.resolve(msg);
+      return;
+    }
+
+    if (msg.e) {
+      this.eventHandlers.get(msg.e)?.forEach(handler => handler(msg.d));
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.ws?.readyState === 1 && this.authorized;
+  }
+
+  /**
+   * Send a request and wait for its response, whatever its status
+   */
+  private send(endpoint: string, body?: unknown): Promise<SocketResponse> {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== 1) {
+      return Promise.reject(new Error('Tradovate socket is not open'));
+    }
+
+    const id = this.nextId++;
+    return new Promise<SocketResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Tradovate socket request timed out: ${endpoint}`));
+      }, this.options.requestTimeoutMs);
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+      ws.send(formatRequest(endpoint, id, body));
+    });
+  }
+
+  /**
+   * Send a request and wait for its response data
+   */
+  async request<T = unknown>(endpoint: string, body?: unknown): Promise<T> {
+    const response = await this.send(endpoint, body);
+    if (response.s !== 200) {
+      throw new Error(`Tradovate socket request failed (${response.s}): ${JSON.stringify(response.d ?? '')}`);
+    }
+    return response.d as T;
+  }
+
+  /**
+   * Listen for server pushes of one event type ('props', 'md', ...)
+   */
+  on<T = unknown>(event: string, handler: (data: T) => void): () => void {
+    if (!this.eventHandlers.has(event)) this.eventHandlers.set(event, new Set());
+    const handlers = this.eventHandlers.get(event)!;
+    handlers.add(handler as (data: unknown) => void);
+    return () => handlers.delete(handler as (data: unknown) => void);
+  }
+
+  /**
+   * Run after every successful (re)authorization, e.g. to subscribe
+   */
+  onOpen(handler: () => void | Promise<void>): () => void {
+    this.openHandlers.add(handler);
+    return () => this.openHandlers.delete(handler);
+  }
+
+  onStatus(handler: (status: SocketStatus) => void): () => void {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  close() {
+    this.closedByUser = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopHeartbeat();
+    this.ws?.close();
+    this.ws = null;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Bot Webhooks
+ *
+ * TradersPost and TradingView alerts are posted to the worker's
+ * /webhook/:botId route. Each bot has its own secret, sent as `secret` in
+ * the alert JSON or in an X-Webhook-Secret header. An alert is read as an
+ * entry, exit or cancel signal: an entry opens a bot_trades row, an exit
+ * closes the bot's open trade in that instrument and a cancel drops it.
+ * Alerts that can't be matched to a bot or an open trade are kept in
+ * webhook_dead_letters to be looked at from the app.
+ */
+
+import type { Repository } from '@/lib/repository';
+import type { BotTrade, BotTradeFormData, TradeDirection } from '@/types/bots';
+import { getContractSpec } from '@/data/contractSpecs';
+import { pointValue } from '@/lib/fillPairing';
+import { parseInstrumentFromContract } from '@/lib/tradovate';
+
+export type WebhookSignalKind = 'entry' | 'exit' | 'cancel';
+
+export interface WebhookSignal {
+  kind: WebhookSignalKind;
+  instrument: string;
+  direction?: TradeDirection;   // entries
+  contracts?: number;
+  price?: number;
+  timestamp: string;
+  externalId?: string;
+}
+
+export interface WebhookDeadLetter {
+  id: string;
+  bot_id?: string;              // as given in the URL, which may not be a bot
+  reason: string;
+  payload: unknown;
+  received_at: string;
+}
+
+type Payload = Record<string, unknown>;
+
+const text = (payload: Payload, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = payload[key];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return undefined;
+};
+
+const number = (payload: Payload, ...keys: string[]) => {
+  const value = text(payload, ...keys);
+  const n = value === undefined ? NaN : Number(value.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Root symbol of an alert ticker ('MNQ1!', 'CME_MINI:MNQZ2024', 'MNQ')
+ */
+export function parseAlertTicker(ticker: string): string {
+  const symbol = ticker.trim().toUpperCase().split(':').pop()!.replace(/\d*!$/, '');
+  return parseInstrumentFromContract(symbol);
+}
+
+/**
+ * Read a TradersPost or TradingView alert. TradersPost sends `action`
+ * (buy, sell, exit, cancel, add) with an optional `sentiment`; TradingView
+ * strategy alerts usually send `action` from {{strategy.order.action}} and
+ * `market_position`. A flat position after the order makes it an exit.
+ */
+export function parseWebhookSignal(payload: unknown, now: Date = new Date()): WebhookSignal {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new Error('Alert is not a JSON object');
+  }
+  const body = payload as Payload;
+
+  const ticker = text(body, 'ticker', 'symbol', 'instrument');
+  if (!ticker) throw new Error('Alert has no ticker');
+  const action = text(body, 'action', 'side')?.toLowerCase();
+  if (!action) throw new Error('Alert has no action');
+  const position = text(body, 'sentiment', 'market_position', 'marketPosition')?.toLowerCase();
+
+  const time = text(body, 'time', 'timestamp', 'timenow');
+  const at = time ? new Date(/^\d+$/.test(time) ? Number(time) : time) : now;
+  if (isNaN(at.getTime())) throw new Error(`Unrecognised time "${time}"`);
+
+  const signal: WebhookSignal = {
+    kind: 'entry',
+    instrument: parseAlertTicker(ticker),
+    contracts: number(body, 'quantity', 'contracts', 'qty'),
+    price: number(body, 'price', 'signalPrice', 'close'),
+    timestamp: at.toISOString(),
+    externalId: text(body, 'id', 'order_id', 'orderId'),
+  };
+
+  if (action === 'cancel') return { ...signal, kind: 'cancel' };
+  if (action === 'exit' || action === 'close' || action === 'flat' || position === 'flat') {
+    if (signal.price === undefined) throw new Error('Exit has no price');
+    return { ...signal, kind: 'exit' };
+  }
+  if (action !== 'buy' && action !== 'sell' && action !== 'add') {
+    throw new Error(`Unknown action "${action}"`);
+  }
+
+  const direction: TradeDirection | undefined =
+    position === 'long' || position === 'bullish' ? 'long' :
+    position === 'short' || position === 'bearish' ? 'short' :
+    action === 'buy' ? 'long' :
+    action === 'sell' ? 'short' :
+    undefined;
+  if (!direction) throw new Error('Add signal has no sentiment');
+  if (signal.price === undefined) throw new Error('Entry has no price');
+
+  return { ...signal, direction };
+}
+
+/**
+ * bot_trades row an entry signal opens
+ */
+export function toOpenTrade(
+  signal: WebhookSignal,
+  bot: { id: string; default_contracts: number },
+  botAccountId: string | undefined,
+  payload: unknown
+): BotTradeFormData {
+  return {
+    bot_id: bot.id,
+    bot_account_id: botAccountId,
+    external_id: signal.externalId,
+    timestamp: signal.timestamp,
+    instrument: signal.instrument,
+    direction: signal.direction!,
+    entry_price: signal.price!,
+    contracts: signal.contracts || bot.default_contracts || 1,
+    status: 'open',
+    source: 'webhook',
+    raw_payload: { entry: payload },
+  };
+}
+
+/**
+ * Changes that close an open trade at an exit signal's price, with P&L net
+ * of the usual round-turn commission. P&L is left empty for instruments
+ * without a contract spec.
+ */
+export function closeTradeUpdate(trade: BotTrade, signal: WebhookSignal, payload: unknown): Partial<BotTradeFormData> {
+  const exitPrice = signal.price!;
+  const spec = getContractSpec(trade.instrument);
+  const update: Partial<BotTradeFormData> = {
+    exit_price: exitPrice,
+    status: 'closed',
+    raw_payload: { ...trade.raw_payload, exit: payload },
+  };
+  if (!spec) return update;
+
+  const points = trade.direction === 'long' ? exitPrice - trade.entry_price : trade.entry_price - exitPrice;
+  const commission = spec.commission_rt * trade.contracts;
+  return {
+    ...update,
+    commission,
+    pnl: Math.round((points * pointValue(trade.instrument) * trade.contracts - commission) * 100) / 100,
+  };
+}
+
+/**
+ * The open trade a signal acts on: the bot's oldest open trade in the
+ * instrument, on the given account when there is one
+ */
+export function findOpenTrade(openTrades: BotTrade[], signal: WebhookSignal, botAccountId?: string): BotTrade | undefined {
+  return openTrades
+    .filter(t =>
+      t.status === 'open' &&
+      t.instrument === signal.instrument &&
+      (!botAccountId || t.bot_account_id === botAccountId)
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))[0];
+}
+
+/**
+ * Random secret for a bot's alerts
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Alerts the worker couldn't apply, newest first
+ */
+export async function fetchDeadLetters(deadLetters: Repository<WebhookDeadLetter>): Promise<WebhookDeadLetter[]> {
+  return deadLetters.list({ order: { column: 'received_at', ascending: false }, limit: 200 });
+}
+
+/**
+ * Dismiss a dead letter once it's dealt with
+ */
+export async function deleteDeadLetter(deadLetters: Repository<WebhookDeadLetter>, id: string): Promise<void> {
+  await deadLetters.remove(id);
+}
@@ -14,6 +14,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { getRulePreset, getRulePresets, presetToJournalAccount } from "@/lib/propFirmRules";
+import { getJournalConsistency } from "@/lib/consistency";
+import { ConsistencyIndicator } from "@/components/rules/ConsistencyIndicator";
 
 const evalStatusConfig = {
   passed: { icon: CheckCircle2, color: 'text-success', bg: 'bg-success/10', label: 'Passed' },
@@ -43,7 +46,7 @@ function getStatusConfig(account: Account) {
 }
 
 const Accounts = () => {
-  const { accounts, addAccount, updateAccount, deleteAccount } = useJournal();
+  const { accounts, trades, addAccount, updateAccount, deleteAccount } = useJournal();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [defaultType, setDefaultType] = useState<AccountType>('evaluation');
@@ -82,6 +85,7 @@ const Accounts = () => {
   const renderAccountCard = (account: Account) => {
     const config = getStatusConfig(account);
     const StatusIcon = config.icon;
+    const consistency = account.type !== 'demo' ? getJournalConsistency(account, accounts, trades) : null;
 
     return (
       <div key={account.id} className="stat-card group relative">
@@ -180,6 +184,9 @@ const Accounts = () => {
               </div>
             </div>
           )}
+
+          {/* Consistency rule (best day share of total profit) */}
+          {consistency && <ConsistencyIndicator state={consistency} />}
         </div>
 
         {account.notes && (
@@ -386,6 +393,16 @@ function AccountForm({ onClose, onSave, initialData, defaultType = 'evaluation'
   );
 
   const accountType = formData.type || 'evaluation';
+  const firmPresets = accountType === 'demo' ? [] : getRulePresets({ firm: formData.propFirm });
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = presetId === 'custom' ? undefined : getRulePreset(presetId);
+    if (!preset) {
+      setFormData({ ...formData, rulePresetId: undefined });
+      return;
+    }
+    setFormData({ ...formData, ...presetToJournalAccount(preset), status: getDefaultStatus(preset.phase) });
+  };
 
   const handleTypeChange = (type: AccountType) => {
     const newStatus = getDefaultStatus(type);
@@ -421,7 +438,7 @@ function AccountForm({ onClose, onSave, initialData, defaultType = 'evaluation'
               placeholder="e.g. Demo Account 1"
             />
           ) : (
-            <Select value={formData.propFirm} onValueChange={(value) => setFormData({ ...formData, propFirm: value })}>
+            <Select value={formData.propFirm} onValueChange={(value) => setFormData({ ...formData, propFirm: value, rulePresetId: undefined })}>
               <SelectTrigger><SelectValue placeholder="Select firm" /></SelectTrigger>
               <SelectContent>
                 {propFirms.map((firm) => (
@@ -443,7 +460,23 @@ function AccountForm({ onClose, onSave, initialData, defaultType = 'evaluation'
           </Select>
         </div>
       </div>
-      <div className={cn("grid gap-4", (accountType === 'evaluation' || accountType === 'demo') ? "sm:grid-cols-2" : "sm:grid-cols-1")}>
+      {firmPresets.length > 0 && (
+        <div className="space-y-2">
+          <Label>Rule Preset</Label>
+          <Select value={formData.rulePresetId ?? 'custom'} onValueChange={handlePresetChange}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="custom">Custom rules</SelectItem>
+              {firmPresets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name} (v{preset.version})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className={cn("grid gap-4", accountType === 'evaluation' ? "sm:grid-cols-3" : "sm:grid-cols-2")}>
         <div className="space-y-2">
           <Label htmlFor="maxDrawdown">Max Drawdown ($) {accountType === 'demo' && <span className="text-muted-foreground">(optional)</span>}</Label>
           <Input
@@ -472,6 +505,21 @@ function AccountForm({ onClose, onSave, initialData, defaultType = 'evaluation'
             <p className="text-[10px] text-muted-foreground">{accountType === 'demo' ? 'Track against a profit goal' : 'Auto-passes when profit reaches this amount'}</p>
           </div>
         )}
+        {accountType !== 'demo' && (
+          <div className="space-y-2">
+            <Label htmlFor="consistencyPct">Consistency (%) <span className="text-muted-foreground">(optional)</span></Label>
+            <Input
+              id="consistencyPct"
+              type="number"
+              min="1"
+              max="100"
+              placeholder="e.g. 30"
+              value={formData.consistencyPct ?? ''}
+              onChange={(e) => setFormData({ ...formData, consistencyPct: e.target.value ? parseFloat(e.target.value) : undefined })}
+            />
+            <p className="text-[10px] text-muted-foreground">Max share of total profit from a single day</p>
+          </div>
+        )}
       </div>
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="space-y-2">
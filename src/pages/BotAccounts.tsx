@@ -3,8 +3,8 @@ import { format } from "date-fns";
 import { Plus, Pencil, Trash2, CheckCircle2, Clock, Wallet, AlertTriangle, LogOut, Eye, EyeOff } from "lucide-react";
 import { useBots } from "@/context/BotContext";
 import { useAuth } from "@/context/AuthContext";
-import type { BotAccount, BotAccountFormData, BotAccountStatus } from "@/types/bots";
-import { BOT_PROP_FIRMS } from "@/types/bots";
+import type { BotAccount, BotAccountFormData, BotAccountStatus, DrawdownModel } from "@/types/bots";
+import { BOT_PROP_FIRMS, DRAWDOWN_MODELS } from "@/types/bots";
 import { Button } from "@/components/ui/button";
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle,
@@ -15,7 +15,13 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
+import { computeDrawdown } from "@/lib/drawdown";
+import { getBotConsistency } from "@/lib/consistency";
+import { findSizingViolations, getAccountScaling } from "@/lib/scaling";
+import { getRulePreset, getRulePresets, presetToBotAccount } from "@/lib/propFirmRules";
 import { LoginForm } from "@/components/auth/LoginForm";
+import { ConsistencyIndicator } from "@/components/rules/ConsistencyIndicator";
+import { LivePositions } from "@/components/broker";
 
 const statusConfig = {
   demo: { icon: Wallet, color: 'text-accent', bg: 'bg-accent/10', label: 'Demo' },
@@ -28,7 +34,7 @@ const statusConfig = {
 
 const BotAccounts = () => {
   const { user, isConfigured } = useAuth();
-  const { bots, botAccounts, addBotAccount, updateBotAccount, deleteBotAccount, loading } = useBots();
+  const { bots, botAccounts, addBotAccount, updateBotAccount, deleteBotAccount, getTradesForAccount, loading } = useBots();
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<BotAccount | null>(null);
@@ -89,9 +95,15 @@ const BotAccounts = () => {
     const config = statusConfig[account.status] || statusConfig.evaluation;
     const StatusIcon = config.icon;
     const pnl = account.current_balance - account.starting_balance;
-    const ddUsed = Math.max(0, account.starting_balance - account.current_balance);
-    const ddPercent = account.max_drawdown > 0 ? (ddUsed / account.max_drawdown) * 100 : 0;
+    const accountTrades = getTradesForAccount(account.id);
+    const dd = computeDrawdown(account, accountTrades);
+    const consistency = getBotConsistency(account, accountTrades);
+    const scaling = getAccountScaling(account, accountTrades);
+    const sizingViolations = scaling ? findSizingViolations(account, accountTrades).length : 0;
+    const ddUsed = dd.used;
+    const ddPercent = dd.usedPct;
     const targetProgress = account.profit_target && pnl > 0 ? (pnl / account.profit_target) * 100 : 0;
+    const lastTransition = account.status_history?.[account.status_history.length - 1];
 
     return (
       <div key={account.id} className="stat-card group relative">
@@ -125,14 +137,32 @@ const BotAccounts = () => {
           </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Contracts</span>
-            <span className="font-medium">{account.contract_size}</span>
+            <span className={cn("font-medium", scaling && account.contract_size > scaling.allowedContracts && "text-destructive")}>
+              {account.contract_size}
+              {scaling && <span className="text-muted-foreground"> / {scaling.allowedContracts} allowed</span>}
+            </span>
           </div>
+          {scaling && (
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>
+                {scaling.nextStep
+                  ? `${scaling.nextStep.new_contract_limit} contracts at +$${scaling.nextStep.profit_threshold.toLocaleString()} ($${scaling.profitToNext!.toLocaleString()} to go)`
+                  : "Fully scaled"}
+              </span>
+              {sizingViolations > 0 && (
+                <span className="font-semibold text-destructive">
+                  {sizingViolations} oversized trade{sizingViolations !== 1 ? "s" : ""}
+                </span>
+              )}
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-muted-foreground">Profit/Loss</span>
             <span className={cn("font-bold", pnl >= 0 ? "text-success" : "text-destructive")}>
               {pnl >= 0 ? '+' : ''}${pnl.toLocaleString()}
             </span>
           </div>
+          <LivePositions accountId={account.id} />
 
           {/* Drawdown progress */}
           {account.max_drawdown > 0 && (
@@ -155,6 +185,15 @@ const BotAccounts = () => {
                   style={{ width: `${Math.min(100, ddPercent)}%` }}
                 />
               </div>
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>
+                  Liquidation ${dd.threshold.toLocaleString()}
+                  {dd.locked && " (locked)"}
+                </span>
+                <span className={cn("tabular-nums", dd.breached && "text-destructive font-semibold")}>
+                  {dd.breached ? "Breached" : `$${dd.distance.toLocaleString()} to breach`}
+                </span>
+              </div>
             </div>
           )}
 
@@ -181,6 +220,19 @@ const BotAccounts = () => {
               </div>
             </div>
           )}
+
+          {/* Consistency rule (best day share of total profit) */}
+          {consistency && <ConsistencyIndicator state={consistency} />}
+
+          {/* Why the account last changed status */}
+          {lastTransition && lastTransition.to === account.status && (
+            <div className={cn("rounded-md px-2.5 py-2 text-[11px]", config.bg)}>
+              <p className={cn("font-medium", config.color)}>
+                {statusConfig[lastTransition.from]?.label} → {config.label} · {format(new Date(lastTransition.at), 'MMM d, h:mm a')}
+              </p>
+              <p className="text-muted-foreground">{lastTransition.reason}</p>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -377,8 +429,11 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
       status: initialData.status,
       max_drawdown: initialData.max_drawdown,
       daily_drawdown: initialData.daily_drawdown,
+      drawdown_model: initialData.drawdown_model ?? 'static',
+      rule_preset_id: initialData.rule_preset_id,
       profit_target: initialData.profit_target,
       min_trading_days: initialData.min_trading_days,
+      consistency_pct: initialData.consistency_pct,
       scaling_rules: initialData.scaling_rules,
       start_date: initialData.start_date,
       starting_balance: initialData.starting_balance,
@@ -393,6 +448,7 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
       status: defaultStatus,
       max_drawdown: 2500,
       daily_drawdown: 1500,
+      drawdown_model: 'intraday_trailing',
       profit_target: defaultStatus === 'evaluation' ? 3000 : undefined,
       min_trading_days: 7,
       start_date: new Date().toISOString().split('T')[0],
@@ -404,6 +460,17 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const firmPresets = getRulePresets({ firm: formData.prop_firm });
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = presetId === 'custom' ? undefined : getRulePreset(presetId);
+    if (!preset) {
+      setFormData({ ...formData, rule_preset_id: undefined });
+      return;
+    }
+    setFormData({ ...formData, ...presetToBotAccount(preset) });
+  };
+
   const handleStatusChange = (status: BotAccountStatus) => {
     const updates: Partial<BotAccountFormData> = { status };
     // Set profit target for evaluations
@@ -461,7 +528,10 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
         </div>
         <div className="space-y-2">
           <Label>Prop Firm</Label>
-          <Select value={formData.prop_firm} onValueChange={(v) => setFormData({ ...formData, prop_firm: v })}>
+          <Select
+            value={formData.prop_firm}
+            onValueChange={(v) => setFormData({ ...formData, prop_firm: v, rule_preset_id: undefined })}
+          >
             <SelectTrigger><SelectValue /></SelectTrigger>
             <SelectContent>
               {BOT_PROP_FIRMS.map((firm) => (
@@ -472,6 +542,24 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
         </div>
       </div>
 
+      {firmPresets.length > 0 && (
+        <div className="space-y-2">
+          <Label>Rule Preset</Label>
+          <Select value={formData.rule_preset_id ?? 'custom'} onValueChange={handlePresetChange}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="custom">Custom rules</SelectItem>
+              {firmPresets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name} (v{preset.version})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[10px] text-muted-foreground">Fills drawdown, target, trading days and scaling from the firm's rules</p>
+        </div>
+      )}
+
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="space-y-2">
           <Label>Account Size ($)</Label>
@@ -497,7 +585,7 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
         </div>
       </div>
 
-      <div className={cn("grid gap-4", formData.status === 'evaluation' ? "sm:grid-cols-2" : "sm:grid-cols-1")}>
+      <div className={cn("grid gap-4", formData.status === 'evaluation' ? "sm:grid-cols-3" : "sm:grid-cols-2")}>
         <div className="space-y-2">
           <Label>Max Drawdown ($)</Label>
           <Input
@@ -511,6 +599,23 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
           />
           <p className="text-[10px] text-muted-foreground">Auto-breaches when loss hits this amount</p>
         </div>
+        <div className="space-y-2">
+          <Label>Drawdown Model</Label>
+          <Select
+            value={formData.drawdown_model ?? 'static'}
+            onValueChange={(v) => setFormData({ ...formData, drawdown_model: v as DrawdownModel })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {DRAWDOWN_MODELS.map((m) => (
+                <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[10px] text-muted-foreground">
+            {DRAWDOWN_MODELS.find((m) => m.value === (formData.drawdown_model ?? 'static'))?.description}
+          </p>
+        </div>
         {formData.status === 'evaluation' && (
           <div className="space-y-2">
             <Label>Profit Target ($)</Label>
@@ -527,6 +632,40 @@ function AccountForm({ bots, onClose, onSave, initialData, defaultStatus = 'eval
         )}
       </div>
 
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Daily Loss Limit ($)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0 = none"
+            value={formData.daily_drawdown}
+            onChange={(e) => setFormData({ ...formData, daily_drawdown: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Min Trading Days</Label>
+          <Input
+            type="number"
+            min="0"
+            value={formData.min_trading_days ?? ''}
+            onChange={(e) => setFormData({ ...formData, min_trading_days: e.target.value ? parseInt(e.target.value) : undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Consistency (%)</Label>
+          <Input
+            type="number"
+            min="1"
+            max="100"
+            placeholder="None"
+            value={formData.consistency_pct ?? ''}
+            onChange={(e) => setFormData({ ...formData, consistency_pct: e.target.value ? parseFloat(e.target.value) : undefined })}
+          />
+        </div>
+      </div>
+
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="space-y-2">
           <Label>Start Date</Label>
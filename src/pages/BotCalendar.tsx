@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from "react";
+import React, { useState, useMemo, useEffect, useCallback } from "react";
 import {
   format,
   startOfMonth,
@@ -19,6 +19,7 @@ import {
   Bot,
   Wallet,
   CrosshairIcon,
+  ShieldAlert,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -38,43 +39,18 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import { useBots } from "@/context/BotContext";
-import { supabase } from "@/lib/supabase";
-
-interface BotCalendarDay {
-  bot_id: string;
-  bot_name: string;
-  instrument: string;
-  bot_account_id: string | null;
-  account_name: string | null;
-  prop_firm: string | null;
-  trade_date: string;
-  daily_pnl: number;
-  trade_count: number;
-  win_count: number;
-  loss_count: number;
-  be_count: number;
-  contracts_traded: number;
-  commissions: number;
-  best_trade: number;
-  worst_trade: number;
-  win_rate: number;
-  note: string | null;
-}
-
-interface CalendarNote {
-  id: string;
-  bot_id: string | null;
-  bot_account_id: string | null;
-  note_date: string;
-  note: string;
-}
+import { useRepositories } from "@/context/RepositoryContext";
+import { computeDrawdown } from "@/lib/drawdown";
+import { getDailyLossHistory, type DailyLossDay } from "@/lib/dailyLoss";
+import { DRAWDOWN_MODELS, type BotCalendarDay, type BotCalendarNote } from "@/types/bots";
 
 const BotCalendar = () => {
-  const { bots, botAccounts } = useBots();
+  const { bots, botAccounts, getTradesForAccount } = useBots();
+  const repositories = useRepositories();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [calendarData, setCalendarData] = useState<BotCalendarDay[]>([]);
-  const [notes, setNotes] = useState<CalendarNote[]>([]);
+  const [notes, setNotes] = useState<BotCalendarNote[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isNoteDialogOpen, setIsNoteDialogOpen] = useState(false);
   const [noteText, setNoteText] = useState("");
@@ -89,6 +65,56 @@ const BotCalendar = () => {
     return botAccounts.filter((a) => a.bot_id === selectedBotId);
   }, [botAccounts, selectedBotId]);
 
+  // Drawdown for the selected account, or the active account closest to breach
+  const drawdownSummary = useMemo(() => {
+    const candidates = selectedAccountId !== "all"
+      ? filteredAccounts.filter((a) => a.id === selectedAccountId)
+      : filteredAccounts.filter((a) => a.status === "funded" || a.status === "evaluation");
+    const states = candidates
+      .filter((a) => a.max_drawdown > 0)
+      .map((a) => ({ account: a, dd: computeDrawdown(a, getTradesForAccount(a.id)) }));
+    if (states.length === 0) return null;
+    return states.reduce((closest, s) => (s.dd.distance < closest.dd.distance ? s : closest));
+  }, [filteredAccounts, selectedAccountId, getTradesForAccount]);
+
+  // Days where an account came close to or hit its daily loss limit
+  const dailyLossByDate = useMemo(() => {
+    const map = new Map<string, { accountName: string; day: DailyLossDay }[]>();
+    const accounts = selectedAccountId !== "all"
+      ? filteredAccounts.filter((a) => a.id === selectedAccountId)
+      : filteredAccounts;
+    accounts
+      .filter((a) => a.daily_drawdown > 0)
+      .forEach((a) => {
+        getDailyLossHistory(a, getTradesForAccount(a.id))
+          .filter((d) => d.level !== "ok")
+          .forEach((d) => {
+            map.set(d.day, [...(map.get(d.day) || []), { accountName: a.account_name, day: d }]);
+          });
+      });
+    return map;
+  }, [filteredAccounts, selectedAccountId, getTradesForAccount]);
+
+  // Notes of the month: the selected bot's and the ones for every bot
+  const fetchNotes = useCallback(async (): Promise<BotCalendarNote[]> => {
+    if (!repositories) return [];
+    try {
+      const monthNotes = await repositories.calendarNotes.list({
+        range: {
+          column: "note_date",
+          from: format(startOfMonth(currentMonth), "yyyy-MM-dd"),
+          to: format(endOfMonth(currentMonth), "yyyy-MM-dd"),
+        },
+      });
+      return selectedBotId === "all"
+        ? monthNotes
+        : monthNotes.filter((n) => n.bot_id === selectedBotId || n.bot_id === null);
+    } catch (err) {
+      console.error("Error fetching calendar notes:", err);
+      return [];
+    }
+  }, [repositories, currentMonth, selectedBotId]);
+
   // Fetch calendar data from Supabase view
   useEffect(() => {
     const fetchCalendarData = async () => {
@@ -96,45 +122,25 @@ const BotCalendar = () => {
       const monthStart = format(startOfMonth(currentMonth), "yyyy-MM-dd");
       const monthEnd = format(endOfMonth(currentMonth), "yyyy-MM-dd");
 
-      let query = supabase
-        .from("bot_calendar")
-        .select("*")
-        .gte("trade_date", monthStart)
-        .lte("trade_date", monthEnd);
-
-      if (selectedBotId !== "all") {
-        query = query.eq("bot_id", selectedBotId);
-      }
-      if (selectedAccountId !== "all") {
-        query = query.eq("bot_account_id", selectedAccountId);
-      }
-
-      const { data, error } = await query;
-      if (error) {
-        console.error("Error fetching bot calendar:", error);
-      } else {
-        setCalendarData(data || []);
-      }
-
-      // Fetch notes
-      let notesQuery = supabase
-        .from("bot_calendar_notes")
-        .select("*")
-        .gte("note_date", monthStart)
-        .lte("note_date", monthEnd);
+      const where: Partial<BotCalendarDay> = {};
+      if (selectedBotId !== "all") where.bot_id = selectedBotId;
+      if (selectedAccountId !== "all") where.bot_account_id = selectedAccountId;
 
-      if (selectedBotId !== "all") {
-        notesQuery = notesQuery.or(`bot_id.eq.${selectedBotId},bot_id.is.null`);
+      try {
+        setCalendarData(repositories
+          ? await repositories.botCalendar.list({ where, range: { column: "trade_date", from: monthStart, to: monthEnd } })
+          : []);
+      } catch (err) {
+        console.error("Error fetching bot calendar:", err);
       }
 
-      const { data: notesData } = await notesQuery;
-      setNotes(notesData || []);
+      setNotes(await fetchNotes());
 
       setIsLoading(false);
     };
 
     fetchCalendarData();
-  }, [currentMonth, selectedBotId, selectedAccountId]);
+  }, [repositories, currentMonth, selectedBotId, selectedAccountId, fetchNotes]);
 
   // Build lookup map for calendar data by date
   const dataByDate = useMemo(() => {
@@ -149,7 +155,7 @@ const BotCalendar = () => {
 
   // Build lookup map for notes by date
   const notesByDate = useMemo(() => {
-    const map = new Map<string, CalendarNote>();
+    const map = new Map<string, BotCalendarNote>();
     notes.forEach((n) => map.set(n.note_date, n));
     return map;
   }, [notes]);
@@ -198,6 +204,7 @@ const BotCalendar = () => {
   const selectedDayPnl = selectedDayData.reduce((sum, d) => sum + d.daily_pnl, 0);
   const selectedDayTrades = selectedDayData.reduce((sum, d) => sum + d.trade_count, 0);
   const selectedDayNote = selectedDateStr ? notesByDate.get(selectedDateStr) : null;
+  const selectedDayLimits = selectedDateStr ? dailyLossByDate.get(selectedDateStr) || [] : [];
 
   const handleSaveNote = async () => {
     if (!selectedDateStr) return;
@@ -209,24 +216,20 @@ const BotCalendar = () => {
       note: noteText,
     };
 
-    if (selectedDayNote) {
-      await supabase
-        .from("bot_calendar_notes")
-        .update({ note: noteText, updated_at: new Date().toISOString() })
-        .eq("id", selectedDayNote.id);
-    } else {
-      await supabase.from("bot_calendar_notes").insert(noteData);
+    if (repositories) {
+      try {
+        if (selectedDayNote) {
+          await repositories.calendarNotes.update(selectedDayNote.id, { note: noteText, updated_at: new Date().toISOString() });
+        } else {
+          await repositories.calendarNotes.insert(noteData);
+        }
+      } catch (err) {
+        console.error("Error saving calendar note:", err);
+      }
     }
 
     // Refresh notes
-    const monthStart = format(startOfMonth(currentMonth), "yyyy-MM-dd");
-    const monthEnd = format(endOfMonth(currentMonth), "yyyy-MM-dd");
-    const { data: notesData } = await supabase
-      .from("bot_calendar_notes")
-      .select("*")
-      .gte("note_date", monthStart)
-      .lte("note_date", monthEnd);
-    setNotes(notesData || []);
+    setNotes(await fetchNotes());
     setIsNoteDialogOpen(false);
   };
 
@@ -305,6 +308,38 @@ const BotCalendar = () => {
         </div>
       </div>
 
+      {/* Distance to breach */}
+      {drawdownSummary && (
+        <div
+          className={cn(
+            "flex flex-wrap items-center justify-between gap-2 rounded-lg border px-4 py-3 text-sm",
+            drawdownSummary.dd.breached
+              ? "border-destructive/40 bg-destructive/5"
+              : drawdownSummary.dd.usedPct >= 70
+              ? "border-warning/40 bg-warning/5"
+              : "border-border bg-card/50"
+          )}
+        >
+          <div>
+            <p className="font-medium">
+              {selectedAccountId === "all" ? "Closest to breach: " : ""}{drawdownSummary.account.account_name}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {DRAWDOWN_MODELS.find((m) => m.value === drawdownSummary.dd.model)?.label} · Liquidation at $
+              {drawdownSummary.dd.threshold.toLocaleString()}
+            </p>
+          </div>
+          <p
+            className={cn(
+              "text-lg font-bold tabular-nums",
+              drawdownSummary.dd.breached ? "text-destructive" : drawdownSummary.dd.usedPct >= 70 ? "text-warning" : "text-foreground"
+            )}
+          >
+            {drawdownSummary.dd.breached ? "Breached" : `$${drawdownSummary.dd.distance.toLocaleString()} to breach`}
+          </p>
+        </div>
+      )}
+
       {/* Calendar Grid */}
       <div className="stat-card p-4 sm:p-6">
         {/* Month navigation */}
@@ -338,6 +373,8 @@ const BotCalendar = () => {
               const dateStr = format(day, "yyyy-MM-dd");
               const dayData = dataByDate.get(dateStr) || [];
               const dayNote = notesByDate.get(dateStr);
+              const dayLimits = dailyLossByDate.get(dateStr) || [];
+              const limitHit = dayLimits.some((l) => l.day.level === "breached");
               const inMonth = isSameMonth(day, currentMonth);
               const selected = selectedDate && isSameDay(day, selectedDate);
               const today = isToday(day);
@@ -362,9 +399,19 @@ const BotCalendar = () => {
                       : isRed
                       ? "border-destructive/30 bg-destructive/[0.06]"
                       : "border-border bg-card/50",
-                    today && !selected && !isGreen && !isRed && "border-accent/40"
+                    today && !selected && !isGreen && !isRed && "border-accent/40",
+                    limitHit && !selected && "border-destructive ring-1 ring-destructive/60"
                   )}
                 >
+                  {dayLimits.length > 0 && (
+                    <ShieldAlert
+                      className={cn(
+                        "absolute right-1.5 top-1.5 h-3.5 w-3.5",
+                        limitHit ? "text-destructive" : "text-warning"
+                      )}
+                    />
+                  )}
+
                   <span
                     className={cn(
                       "mb-1 text-xs font-medium sm:text-sm",
@@ -430,6 +477,28 @@ const BotCalendar = () => {
                 </div>
               )}
 
+              {/* Daily loss limit flags */}
+              {selectedDayLimits.length > 0 && (
+                <div className="space-y-1.5">
+                  {selectedDayLimits.map(({ accountName, day }) => (
+                    <div
+                      key={accountName}
+                      className={cn(
+                        "flex items-center justify-between rounded-lg border px-3 py-2 text-xs",
+                        day.level === "breached" ? "border-destructive/40 bg-destructive/5" : "border-warning/40 bg-warning/5"
+                      )}
+                    >
+                      <span className="font-medium">
+                        {accountName}: {day.level === "breached" ? "daily loss limit hit" : "near daily loss limit"}
+                      </span>
+                      <span className="tabular-nums text-muted-foreground">
+                        low -${Math.abs(day.low).toLocaleString()} / -${day.limit.toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Bot breakdown */}
               {selectedDayData.length > 0 && (
                 <div>
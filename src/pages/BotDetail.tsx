@@ -3,7 +3,7 @@ import { useParams, useNavigate, Link } from "react-router-dom";
 import { format } from "date-fns";
 import {
   ArrowLeft, Pencil, Trash2, Bot, Play, Pause, Archive,
-  History, ExternalLink, Wallet, ArrowRightLeft, BarChart3
+  History, ExternalLink, Wallet, ArrowRightLeft, BarChart3, Webhook
 } from "lucide-react";
 import { useBots } from "@/context/BotContext";
 import { useAuth } from "@/context/AuthContext";
@@ -19,6 +19,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { BotWebhookSettings } from "@/components/webhooks";
 import { cn } from "@/lib/utils";
 
 const BotDetail = () => {
@@ -291,6 +292,15 @@ const BotDetail = () => {
         </section>
       )}
 
+      {/* Alert Webhook */}
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Alert Webhook
+        </h2>
+        <BotWebhookSettings bot={bot} onUpdate={updateBot} />
+      </section>
+
       {/* Strategy Notes */}
       {bot.strategy_notes && (
         <section className="space-y-4">
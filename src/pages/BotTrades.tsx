@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import { useSearchParams } from "react-router-dom";
 import { format } from "date-fns";
 import {
@@ -10,6 +10,8 @@ import {
   Download,
   Upload,
   Bot,
+  AlertTriangle,
+  History,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useBots } from "@/context/BotContext";
@@ -43,6 +45,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { getSizingViolationMap } from "@/lib/scaling";
+import { toBotTradeForm, type ImportedTrade } from "@/lib/csvImport";
+import { botFingerprint, findDuplicates, type ImportSourceInfo } from "@/lib/importBatches";
+import { ImportHistory, ImportWizard } from "@/components/import";
 
 const BotTrades = () => {
   const [searchParams] = useSearchParams();
@@ -56,15 +62,19 @@ const BotTrades = () => {
     addBotTrade,
     updateBotTrade,
     deleteBotTrade,
+    importBotTrades,
+    rollbackBotImportBatch,
     loading,
   } = useBots();
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [editingTrade, setEditingTrade] = useState<BotTrade | null>(null);
   const [filterBot, setFilterBot] = useState(botIdParam || "all");
   const [filterResult, setFilterResult] = useState("all");
   const [filterInstrument, setFilterInstrument] = useState("all");
+  const [filterSizing, setFilterSizing] = useState("all");
 
   // Build lookup maps
   const botMap = useMemo(() => {
@@ -79,6 +89,12 @@ const BotTrades = () => {
     return map;
   }, [botAccounts]);
 
+  // Trades sized above the account's scaling plan limit
+  const sizingViolations = useMemo(
+    () => getSizingViolationMap(botAccounts, botTrades),
+    [botAccounts, botTrades]
+  );
+
   // Filter trades
   const filteredTrades = useMemo(() => {
     let result = [...botTrades];
@@ -93,10 +109,13 @@ const BotTrades = () => {
     if (filterInstrument !== "all") {
       result = result.filter((t) => t.instrument === filterInstrument);
     }
+    if (filterSizing !== "all") {
+      result = result.filter((t) => sizingViolations.has(t.id) === (filterSizing === "violations"));
+    }
     return result.sort(
       (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
-  }, [botTrades, filterBot, filterResult, filterInstrument]);
+  }, [botTrades, filterBot, filterResult, filterInstrument, filterSizing, sizingViolations]);
 
   // Calculate stats
   const stats = useMemo(() => {
@@ -204,6 +223,10 @@ const BotTrades = () => {
             <Upload className="mr-2 h-4 w-4" />
             Import
           </Button>
+          <Button variant="outline" onClick={() => setIsHistoryOpen(true)}>
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
           <Button variant="outline" onClick={handleExportCSV}>
             <Download className="mr-2 h-4 w-4" />
             Export
@@ -248,23 +271,31 @@ const BotTrades = () => {
           </Dialog>
           {/* Import Dialog */}
           <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
-            <DialogContent className="max-w-lg">
+            <DialogContent className="max-w-3xl">
               <DialogHeader>
                 <DialogTitle>Import Trades from CSV</DialogTitle>
               </DialogHeader>
               <ImportForm
                 bots={bots}
                 accounts={botAccounts}
-                onImport={async (trades) => {
-                  for (const t of trades) {
-                    await addBotTrade(t);
-                  }
+                existingTrades={botTrades}
+                onImport={async (trades, source) => {
+                  await importBotTrades(trades, source);
                   setIsImportDialogOpen(false);
                 }}
                 onClose={() => setIsImportDialogOpen(false)}
               />
             </DialogContent>
           </Dialog>
+          {/* Import History Dialog */}
+          <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Import History</DialogTitle>
+              </DialogHeader>
+              <ImportHistory target="bot" onRollback={rollbackBotImportBatch} />
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
 
@@ -353,6 +384,20 @@ const BotTrades = () => {
             </SelectContent>
           </Select>
         </div>
+        <div className="w-44">
+          <Select value={filterSizing} onValueChange={setFilterSizing}>
+            <SelectTrigger>
+              <SelectValue placeholder="Sizing" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Sizing</SelectItem>
+              <SelectItem value="violations">
+                Over Scaling Limit{sizingViolations.size > 0 ? ` (${sizingViolations.size})` : ""}
+              </SelectItem>
+              <SelectItem value="within">Within Limit</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Trades Table */}
@@ -419,7 +464,20 @@ const BotTrades = () => {
                   <TableCell className="text-right tabular-nums">
                     {trade.exit_price?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) ?? "-"}
                   </TableCell>
-                  <TableCell className="text-right">{trade.contracts}</TableCell>
+                  <TableCell className="text-right">
+                    {sizingViolations.has(trade.id) ? (
+                      <span
+                        className="inline-flex items-center gap-1 font-medium text-destructive"
+                        title={`Scaling plan allowed ${sizingViolations.get(trade.id)!.allowedContracts} at $${sizingViolations.get(trade.id)!.profit.toLocaleString()} profit`}
+                      >
+                        <AlertTriangle className="h-3 w-3" />
+                        {trade.contracts}
+                        <span className="text-xs text-muted-foreground">/ {sizingViolations.get(trade.id)!.allowedContracts}</span>
+                      </span>
+                    ) : (
+                      trade.contracts
+                    )}
+                  </TableCell>
                   <TableCell className={cn("text-right font-bold tabular-nums", (trade.pnl || 0) > 0 ? "text-success" : (trade.pnl || 0) < 0 ? "text-destructive" : "")}>
                     {(trade.pnl || 0) >= 0 ? "+" : ""}${Math.abs(trade.pnl || 0).toLocaleString()}
                   </TableCell>
@@ -696,163 +754,30 @@ function TradeForm({ bots, accounts, initialData, defaultBotId, onSave, onClose
 interface ImportFormProps {
   bots: { id: string; name: string; version: string; instrument: string; default_contracts: number }[];
   accounts: { id: string; bot_id: string; account_name: string }[];
-  onImport: (trades: BotTradeFormData[]) => void;
+  existingTrades: BotTrade[];
+  onImport: (trades: BotTradeFormData[], source: ImportSourceInfo) => Promise<void>;
   onClose: () => void;
 }
 
-function ImportForm({ bots, accounts, onImport, onClose }: ImportFormProps) {
+function ImportForm({ bots, accounts, existingTrades, onImport, onClose }: ImportFormProps) {
   const [botId, setBotId] = useState(bots[0]?.id || "");
   const [accountId, setAccountId] = useState("");
-  const [csvData, setCsvData] = useState("");
-  const [parsedTrades, setParsedTrades] = useState<BotTradeFormData[]>([]);
-  const [error, setError] = useState("");
+
+  const existing = useMemo(() => existingTrades.map(botFingerprint), [existingTrades]);
+  const duplicatesOf = useCallback(
+    (imported: ImportedTrade[]) => findDuplicates(imported.map(t => botFingerprint(toBotTradeForm(t, { botId }))), existing),
+    [existing, botId]
+  );
 
   // Show all accounts (not filtered by bot - user can pick any)
   const allAccounts = accounts;
-  const selectedBot = bots.find((b) => b.id === botId);
-
-  const parseNumber = (str: string): number => {
-    if (!str) return 0;
-    const trimmed = str.trim();
-    const isNegative = trimmed.startsWith("(") && trimmed.endsWith(")");
-    const cleaned = trimmed.replace(/[^0-9.-]/g, "");
-    const num = parseFloat(cleaned) || 0;
-    return isNegative ? -Math.abs(num) : num;
-  };
-
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-
-      if (inQuotes) {
-        if (char === '"' && nextChar === '"') {
-          current += '"';
-          i++;
-        } else if (char === '"') {
-          inQuotes = false;
-        } else {
-          current += char;
-        }
-      } else {
-        if (char === '"') {
-          inQuotes = true;
-        } else if (char === ',') {
-          result.push(current.trim());
-          current = "";
-        } else {
-          current += char;
-        }
-      }
-    }
-    result.push(current.trim());
-    return result;
-  };
-
-  const parseCSV = (text: string) => {
-    setError("");
-    const lines = text.trim().split("\n").map((l) => l.replace(/\r$/, ""));
-    if (lines.length < 2) {
-      setError("CSV must have headers and at least one data row");
-      return;
-    }
-
-    const headers = parseCSVLine(lines[0]).map((h) => h.toLowerCase().replace(/['"]/g, ""));
-    const findCol = (...names: string[]) => headers.findIndex((h) => names.some((n) => h.includes(n)));
-
-    const cols = {
-      instrument: findCol("instrument", "symbol", "ticker", "contract"),
-      contracts: findCol("qty", "quantity", "size", "lot", "filled"),
-      entry: findCol("entry", "avg", "fill", "price"),
-      exit: findCol("exit", "close"),
-      pnl: findCol("pnl", "p&l", "profit", "net", "realized", "gain"),
-      date: findCol("date", "exec", "timestamp"),
-      direction: findCol("direction", "side", "b/s", "action", "type"),
-    };
-
-    const trades: BotTradeFormData[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]).map((v) => v.replace(/^["']|["']$/g, ""));
-      if (values.length < 2 || values.every((v) => !v.trim())) continue;
-
-      let pnl = 0;
-      if (cols.pnl >= 0 && values[cols.pnl]) pnl = parseNumber(values[cols.pnl]);
-
-      let contracts = selectedBot?.default_contracts || 1;
-      if (cols.contracts >= 0 && values[cols.contracts]) contracts = Math.abs(parseInt(values[cols.contracts])) || 1;
-
-      let entry_price = 0;
-      let exit_price: number | undefined;
-      if (cols.entry >= 0 && values[cols.entry]) entry_price = parseNumber(values[cols.entry]);
-      if (cols.exit >= 0 && values[cols.exit]) {
-        const exitVal = parseNumber(values[cols.exit]);
-        exit_price = exitVal !== 0 ? exitVal : undefined;
-      }
-
-      let timestamp = new Date().toISOString();
-      if (cols.date >= 0 && values[cols.date]) {
-        const dateStr = values[cols.date];
-        const parsed = new Date(dateStr);
-        if (!isNaN(parsed.getTime())) timestamp = parsed.toISOString();
-      }
-
-      let instrument = selectedBot?.instrument || "MNQ";
-      if (cols.instrument >= 0 && values[cols.instrument]) {
-        const sym = values[cols.instrument].toUpperCase();
-        if (sym.includes("NQ") || sym.includes("MNQ")) instrument = "MNQ";
-        else if (sym.includes("ES") || sym.includes("MES")) instrument = "MES";
-        else instrument = sym.slice(0, 6);
-      }
-
-      let direction: "long" | "short" = "long";
-      if (cols.direction >= 0 && values[cols.direction]) {
-        const dir = values[cols.direction].toLowerCase().trim();
-        if (dir === "s" || dir === "short" || dir === "sell" || dir === "-1") direction = "short";
-      }
-
-      trades.push({
-        bot_id: botId,
-        bot_account_id: accountId || undefined,
-        timestamp,
-        instrument,
-        direction,
-        entry_price,
-        exit_price,
-        contracts,
-        pnl,
-        status: "closed",
-        source: "manual",
-      });
-    }
-
-    if (trades.length === 0) {
-      setError("No valid trades found in CSV");
-      return;
-    }
-
-    setParsedTrades(trades);
-  };
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-      const text = evt.target?.result as string;
-      setCsvData(text);
-      parseCSV(text);
-    };
-    reader.readAsText(file);
-  };
 
   return (
-    <div className="space-y-4">
+    <ImportWizard
+      findDuplicates={duplicatesOf}
+      onImport={(trades, source) => onImport(trades.map((t) => toBotTradeForm(t, { botId, botAccountId: accountId || undefined })), source)}
+      onClose={onClose}
+    >
       <div className="grid gap-3 sm:grid-cols-2">
         <div className="space-y-1">
           <Label>Bot</Label>
@@ -886,95 +811,7 @@ function ImportForm({ bots, accounts, onImport, onClose }: ImportFormProps) {
           </Select>
         </div>
       </div>
-
-      <div className="space-y-1">
-        <Label>Upload CSV or Paste Data</Label>
-        <Input type="file" accept=".csv,.txt" onChange={handleFileUpload} />
-        <p className="text-xs text-muted-foreground">
-          Supports most broker exports. Looks for: instrument, contracts, entry, exit, pnl, date
-        </p>
-      </div>
-
-      <div className="space-y-1">
-        <Label>Or paste CSV data</Label>
-        <Textarea
-          rows={4}
-          placeholder="Paste CSV data here..."
-          value={csvData}
-          onChange={(e) => {
-            setCsvData(e.target.value);
-            if (e.target.value.trim()) parseCSV(e.target.value);
-            else setParsedTrades([]);
-          }}
-          className="font-mono text-xs"
-        />
-      </div>
-
-      {error && <p className="text-sm text-destructive">{error}</p>}
-
-      {parsedTrades.length > 0 && (
-        <div className="space-y-2">
-          <p className="text-sm font-medium">Preview: {parsedTrades.length} trades to import</p>
-          <div className="max-h-48 overflow-auto rounded border p-2 text-xs">
-            <table className="w-full">
-              <thead>
-                <tr className="text-muted-foreground">
-                  <th className="text-left">Date</th>
-                  <th className="text-left">Instrument</th>
-                  <th className="text-right">Entry</th>
-                  <th className="text-right">Exit</th>
-                  <th className="text-right">Qty</th>
-                  <th className="text-right">P&L</th>
-                </tr>
-              </thead>
-              <tbody>
-                {parsedTrades.slice(0, 10).map((t, i) => (
-                  <tr key={i}>
-                    <td>{format(new Date(t.timestamp), "MMM d")}</td>
-                    <td>{t.instrument}</td>
-                    <td className="text-right tabular-nums">{t.entry_price ? t.entry_price.toLocaleString() : "-"}</td>
-                    <td className="text-right tabular-nums">{t.exit_price ? t.exit_price.toLocaleString() : "-"}</td>
-                    <td className="text-right">{t.contracts}</td>
-                    <td className={cn("text-right font-medium tabular-nums", (t.pnl || 0) >= 0 ? "text-success" : "text-destructive")}>
-                      {(t.pnl || 0) >= 0 ? "+" : ""}${(t.pnl || 0).toFixed(2)}
-                    </td>
-                  </tr>
-                ))}
-                {parsedTrades.length > 10 && (
-                  <tr>
-                    <td colSpan={6} className="text-center text-muted-foreground">
-                      ... and {parsedTrades.length - 10} more
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            Total P&L:{" "}
-            <span className={cn("font-medium", parsedTrades.reduce((s, t) => s + (t.pnl || 0), 0) >= 0 ? "text-success" : "text-destructive")}>
-              ${parsedTrades.reduce((s, t) => s + (t.pnl || 0), 0).toFixed(2)}
-            </span>
-          </p>
-        </div>
-      )}
-
-      <div className="flex justify-end gap-3">
-        <Button type="button" variant="outline" onClick={onClose}>
-          Cancel
-        </Button>
-        <Button
-          onClick={() => {
-            const finalTrades = parsedTrades.map((t) => ({ ...t, bot_id: botId, bot_account_id: accountId || undefined }));
-            onImport(finalTrades);
-          }}
-          disabled={parsedTrades.length === 0}
-          className="bg-accent text-accent-foreground hover:bg-accent/90"
-        >
-          Import {parsedTrades.length} Trades
-        </Button>
-      </div>
-    </div>
+    </ImportWizard>
   );
 }
 
@@ -26,8 +26,11 @@ import { Link } from "react-router-dom";
 import { useBots } from "@/context/BotContext";
 import { useAuth } from "@/context/AuthContext";
 import { cn } from "@/lib/utils";
+import { computeDrawdown, type DrawdownState } from "@/lib/drawdown";
 import { Button } from "@/components/ui/button";
+import { LivePositions } from "@/components/broker";
 import { LoginForm } from "@/components/auth/LoginForm";
+import { DailyLossMonitor } from "@/components/rules/DailyLossMonitor";
 
 const Dashboard = () => {
   const { user, isConfigured } = useAuth();
@@ -35,9 +38,18 @@ const Dashboard = () => {
 
   // Active accounts
   const activeAccounts = useMemo(() => {
-    return botAccounts.filter(a => a.status === "active" || a.status === "evaluation");
+    return botAccounts.filter(a => a.status === "funded" || a.status === "evaluation");
   }, [botAccounts]);
 
+  // Drawdown state per active account (distance to liquidation)
+  const drawdownByAccount = useMemo(() => {
+    const m = new Map<string, DrawdownState>();
+    activeAccounts.forEach(a => {
+      m.set(a.id, computeDrawdown(a, botTrades.filter(t => t.bot_account_id === a.id)));
+    });
+    return m;
+  }, [activeAccounts, botTrades]);
+
   // Closed trades only
   const closedTrades = useMemo(() => {
     return botTrades.filter(t => t.status === "closed");
@@ -487,6 +499,9 @@ const Dashboard = () => {
             </div>
           </div>
 
+          {/* Daily loss limits (live, per trading day) */}
+          <DailyLossMonitor accounts={activeAccounts} trades={botTrades} />
+
           {/* Active Accounts */}
           {activeAccounts.length > 0 && (
             <div>
@@ -500,29 +515,54 @@ const Dashboard = () => {
                 </Link>
               </div>
               <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-                {activeAccounts.slice(0, 6).map((account) => (
-                  <div key={account.id} className="stat-card !p-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium">{account.account_name}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {account.prop_firm} · {account.status}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm font-semibold tabular-nums">
-                          ${account.current_balance.toLocaleString()}
-                        </p>
-                        <p className={cn(
-                          "text-xs font-medium tabular-nums",
-                          (account.current_balance - account.starting_balance) >= 0 ? "text-success" : "text-destructive"
-                        )}>
-                          {formatCurrency(account.current_balance - account.starting_balance)}
-                        </p>
+                {activeAccounts.slice(0, 6).map((account) => {
+                  const dd = drawdownByAccount.get(account.id);
+                  return (
+                    <div key={account.id} className="stat-card !p-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium">{account.account_name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {account.prop_firm} · {account.status}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-semibold tabular-nums">
+                            ${account.current_balance.toLocaleString()}
+                          </p>
+                          <p className={cn(
+                            "text-xs font-medium tabular-nums",
+                            (account.current_balance - account.starting_balance) >= 0 ? "text-success" : "text-destructive"
+                          )}>
+                            {formatCurrency(account.current_balance - account.starting_balance)}
+                          </p>
+                        </div>
                       </div>
+                      {dd && account.max_drawdown > 0 && (
+                        <div className="mt-2 space-y-1">
+                          <div className="h-1 overflow-hidden rounded-full bg-secondary">
+                            <div
+                              className={cn(
+                                "h-full rounded-full",
+                                dd.usedPct >= 100 ? "bg-destructive" : dd.usedPct >= 70 ? "bg-warning" : "bg-muted-foreground/40"
+                              )}
+                              style={{ width: `${Math.min(100, dd.usedPct)}%` }}
+                            />
+                          </div>
+                          <p className={cn(
+                            "text-[10px] tabular-nums",
+                            dd.breached ? "text-destructive" : dd.usedPct >= 70 ? "text-warning" : "text-muted-foreground"
+                          )}>
+                            {dd.breached
+                              ? "Drawdown breached"
+                              : `$${dd.distance.toLocaleString(undefined, { maximumFractionDigits: 0 })} to breach`}
+                          </p>
+                        </div>
+                      )}
+                      <LivePositions accountId={account.id} className="mt-2" />
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
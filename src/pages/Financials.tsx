@@ -18,6 +18,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { PayoutPlanner } from "@/components/rules/PayoutPlanner";
 
 const Financials = () => {
   const {
@@ -28,6 +29,7 @@ const Financials = () => {
   const [tab, setTab] = useState<"payouts" | "expenses">("payouts");
   const [isPayoutDialogOpen, setIsPayoutDialogOpen] = useState(false);
   const [editingPayout, setEditingPayout] = useState<Payout | null>(null);
+  const [payoutDraft, setPayoutDraft] = useState<Omit<Payout, "id"> | null>(null);
   const [isExpenseDialogOpen, setIsExpenseDialogOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [filterFirm, setFilterFirm] = useState("all");
@@ -134,6 +136,16 @@ const Financials = () => {
         </div>
       </div>
 
+      {/* Upcoming payouts from firm rules */}
+      <PayoutPlanner
+        onRequestPayout={(draft) => {
+          setTab("payouts");
+          setEditingPayout(null);
+          setPayoutDraft(draft);
+          setIsPayoutDialogOpen(true);
+        }}
+      />
+
       {/* Tab Switcher + Filters */}
       <div className="flex flex-wrap items-center gap-3">
         <Tabs value={tab} onValueChange={(v) => setTab(v as "payouts" | "expenses")}>
@@ -285,21 +297,23 @@ const Financials = () => {
       </div>
 
       {/* Payout Dialog */}
-      <Dialog open={isPayoutDialogOpen} onOpenChange={(open) => { setIsPayoutDialogOpen(open); if (!open) setEditingPayout(null); }}>
+      <Dialog open={isPayoutDialogOpen} onOpenChange={(open) => { setIsPayoutDialogOpen(open); if (!open) { setEditingPayout(null); setPayoutDraft(null); } }}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>{editingPayout ? "Edit Payout" : "Add Payout"}</DialogTitle>
+            <DialogTitle>{editingPayout ? "Edit Payout" : payoutDraft ? "Confirm Payout" : "Add Payout"}</DialogTitle>
           </DialogHeader>
           <PayoutForm
             propFirms={propFirms}
             initialData={editingPayout}
+            draft={payoutDraft}
             onSave={(p) => {
               if (editingPayout) updatePayout(p);
               else addPayout(p);
               setIsPayoutDialogOpen(false);
               setEditingPayout(null);
+              setPayoutDraft(null);
             }}
-            onClose={() => { setIsPayoutDialogOpen(false); setEditingPayout(null); }}
+            onClose={() => { setIsPayoutDialogOpen(false); setEditingPayout(null); setPayoutDraft(null); }}
           />
         </DialogContent>
       </Dialog>
@@ -332,13 +346,14 @@ const Financials = () => {
 interface PayoutFormProps {
   propFirms: { id: string; name: string }[];
   initialData?: Payout | null;
+  draft?: Omit<Payout, "id"> | null; // pre-filled from the payout planner
   onSave: (payout: Payout) => void;
   onClose: () => void;
 }
 
-function PayoutForm({ propFirms, initialData, onSave, onClose }: PayoutFormProps) {
+function PayoutForm({ propFirms, initialData, draft, onSave, onClose }: PayoutFormProps) {
   const [formData, setFormData] = useState<Partial<Payout>>(
-    initialData || { date: new Date().toISOString().split("T")[0], amount: 0, propFirm: "", method: "bank_transfer", notes: "" }
+    initialData || draft || { date: new Date().toISOString().split("T")[0], amount: 0, propFirm: "", method: "bank_transfer", notes: "" }
   );
   const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onSave(formData as Payout); };
   return (
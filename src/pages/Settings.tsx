@@ -1,6 +1,11 @@
 import { useAuth } from "@/context/AuthContext";
 import { LoginForm } from "@/components/auth/LoginForm";
 import { AccountSizingManager } from "@/components/ml/AccountSizingManager";
+import { PropFirmRulesManager } from "@/components/rules/PropFirmRulesManager";
+import { BrokerConnect, BrokerReconciliation } from "@/components/broker";
+import { WebhookDeadLetters } from "@/components/webhooks";
+import { SyncHistory } from "@/components/sync";
+import { DataBackup } from "@/components/backup";
 import { Settings2 } from "lucide-react";
 
 const Settings = () => {
@@ -36,11 +41,29 @@ const Settings = () => {
           <Settings2 className="h-6 w-6" />
           Settings
         </h1>
-        <p className="page-subtitle">Manage ML trading accounts, position sizing, and configuration</p>
+        <p className="page-subtitle">Manage ML trading accounts, position sizing, prop firm rules, broker connections, and configuration</p>
       </div>
 
       {/* Account Sizing Manager */}
       <AccountSizingManager />
+
+      {/* Prop Firm Rule Presets */}
+      <PropFirmRulesManager />
+
+      {/* Broker Connections */}
+      <BrokerConnect />
+
+      {/* Broker vs ledger balances */}
+      <BrokerReconciliation />
+
+      {/* Bot alerts the worker couldn't apply */}
+      <WebhookDeadLetters />
+
+      {/* R2 cloud sync versions */}
+      <SyncHistory />
+
+      {/* Full data export and import */}
+      <DataBackup />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import { format } from "date-fns";
 import {
   Plus,
@@ -9,6 +9,7 @@ import {
   Star,
   Download,
   Upload,
+  History,
 } from "lucide-react";
 import { useJournal } from "@/context/JournalContext";
 import { Trade, INSTRUMENTS } from "@/types";
@@ -39,9 +40,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { toJournalTrade, type ImportedTrade } from "@/lib/csvImport";
+import { findDuplicates, journalFingerprint, type ImportSourceInfo } from "@/lib/importBatches";
+import { ImportHistory, ImportWizard } from "@/components/import";
 
 const Trades = () => {
-  const { trades, tradingSetups, accounts, addTrade, updateTrade, deleteTrade } =
+  const { trades, tradingSetups, accounts, addTrade, updateTrade, deleteTrade, importTrades, rollbackImportBatch } =
     useJournal();
   const tradingAccounts = useMemo(() => {
     const active = accounts.filter(
@@ -66,6 +70,7 @@ const Trades = () => {
   }, [accounts]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
   const [filterSetup, setFilterSetup] = useState("all");
   const [filterResult, setFilterResult] = useState("all");
@@ -199,6 +204,10 @@ const Trades = () => {
             <Upload className="mr-2 h-4 w-4" />
             Import
           </Button>
+          <Button variant="outline" onClick={() => setIsHistoryOpen(true)}>
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
           <Button variant="outline" onClick={handleExportCSV}>
             <Download className="mr-2 h-4 w-4" />
             Export
@@ -244,7 +253,7 @@ const Trades = () => {
           </Dialog>
           {/* Import Dialog */}
           <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
-            <DialogContent className="max-w-lg">
+            <DialogContent className="max-w-3xl">
               <DialogHeader>
                 <DialogTitle>Import Trades from CSV</DialogTitle>
               </DialogHeader>
@@ -252,14 +261,24 @@ const Trades = () => {
                 tradingSetups={tradingSetups}
                 tradingAccounts={tradingAccounts}
                 allAccounts={accounts}
-                onImport={(newTrades) => {
-                  newTrades.forEach(t => addTrade(t));
+                existingTrades={trades}
+                onImport={async (newTrades, source) => {
+                  await importTrades(newTrades, source);
                   setIsImportDialogOpen(false);
                 }}
                 onClose={() => setIsImportDialogOpen(false)}
               />
             </DialogContent>
           </Dialog>
+          {/* Import History Dialog */}
+          <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Import History</DialogTitle>
+              </DialogHeader>
+              <ImportHistory target="journal" onRollback={rollbackImportBatch} />
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
 
@@ -833,7 +852,8 @@ interface ImportFormProps {
   tradingSetups: { id: string; name: string }[];
   tradingAccounts: { id: string; propFirm: string; accountSize: number; label: string }[];
   allAccounts: { id: string; propFirm: string; accountSize: number; type: string; status: string }[];
-  onImport: (trades: Omit<Trade, "id">[]) => void;
+  existingTrades: Trade[];
+  onImport: (trades: Omit<Trade, "id">[], source: ImportSourceInfo) => Promise<void>;
   onClose: () => void;
 }
 
@@ -841,14 +861,20 @@ function ImportForm({
   tradingSetups,
   tradingAccounts,
   allAccounts,
+  existingTrades,
   onImport,
   onClose,
 }: ImportFormProps) {
   const [accountId, setAccountId] = useState(tradingAccounts[0]?.id ?? "");
   const [setupId, setSetupId] = useState(tradingSetups[0]?.id ?? "");
-  const [csvData, setCsvData] = useState("");
-  const [parsedTrades, setParsedTrades] = useState<Omit<Trade, "id">[]>([]);
-  const [error, setError] = useState("");
+
+  // Compared as journal trades, so micros match their full-size entries
+  const existing = useMemo(() => existingTrades.map(journalFingerprint), [existingTrades]);
+  const duplicatesOf = useCallback(
+    (imported: ImportedTrade[]) =>
+      findDuplicates(imported.map(t => journalFingerprint(toJournalTrade(t, { accountId, setupId }))), existing),
+    [existing, accountId, setupId]
+  );
 
   // All accounts for selection (not just active)
   const allAccountOptions = useMemo(() => {
@@ -858,225 +884,12 @@ function ImportForm({
     }));
   }, [allAccounts]);
 
-  // Helper to parse numbers, handling accounting format (123.45) = -123.45
-  const parseNumber = (str: string): number => {
-    if (!str) return 0;
-    const trimmed = str.trim();
-    // Check for accounting format: (123.45) means negative
-    const isNegative = trimmed.startsWith("(") && trimmed.endsWith(")");
-    // Remove everything except digits, decimal, and minus (strips commas, $, etc.)
-    const cleaned = trimmed.replace(/[^0-9.-]/g, "");
-    const num = parseFloat(cleaned) || 0;
-    return isNegative ? -Math.abs(num) : num;
-  };
-
-  // Proper CSV line parser that handles quoted fields with commas
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-
-      if (inQuotes) {
-        if (char === '"' && nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i++;
-        } else if (char === '"') {
-          // End of quoted field
-          inQuotes = false;
-        } else {
-          current += char;
-        }
-      } else {
-        if (char === '"') {
-          // Start of quoted field
-          inQuotes = true;
-        } else if (char === ',') {
-          // Field separator
-          result.push(current.trim());
-          current = "";
-        } else {
-          current += char;
-        }
-      }
-    }
-    // Don't forget the last field
-    result.push(current.trim());
-    return result;
-  };
-
-  const parseCSV = (text: string) => {
-    setError("");
-    const lines = text.trim().split("\n").map(l => l.replace(/\r$/, "")); // Handle Windows line endings
-    if (lines.length < 2) {
-      setError("CSV must have headers and at least one data row");
-      return;
-    }
-
-    // Parse headers (case-insensitive) using proper CSV parsing
-    const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/['"]/g, ""));
-
-    // Find column indices
-    const findCol = (...names: string[]) =>
-      headers.findIndex(h => names.some(n => h.includes(n)));
-
-    const cols = {
-      instrument: findCol("instrument", "symbol", "ticker", "contract"),
-      contracts: findCol("qty", "quantity", "size", "lot", "filled"),
-      entry: findCol("entry", "avg", "fill", "price"),
-      exit: findCol("exit", "close"),
-      pnl: findCol("pnl", "p&l", "profit", "net", "realized", "gain"),
-      date: findCol("date", "exec", "timestamp"),
-      time: findCol("time", "exec time"),
-      direction: findCol("direction", "side", "b/s", "action", "type"),
-    };
-
-    const trades: Omit<Trade, "id">[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      // Use proper CSV parsing that handles quoted fields with commas
-      const values = parseCSVLine(lines[i]).map(v => v.replace(/^["']|["']$/g, "")); // Strip outer quotes only
-      if (values.length < 2 || values.every(v => !v.trim())) continue;
-
-      // Parse P&L - handles (50.00) as -50.00 and -50.00 as -50.00
-      let pnl = 0;
-      if (cols.pnl >= 0 && values[cols.pnl]) {
-        pnl = parseNumber(values[cols.pnl]);
-      }
-
-      // Parse contracts
-      let contracts = 1;
-      if (cols.contracts >= 0 && values[cols.contracts]) {
-        contracts = Math.abs(parseInt(values[cols.contracts])) || 1;
-      }
-
-      // Parse entry/exit - preserve negatives for prices (though rare)
-      let entry = 0;
-      let exit: number | undefined;
-      if (cols.entry >= 0 && values[cols.entry]) {
-        entry = parseNumber(values[cols.entry]);
-      }
-      if (cols.exit >= 0 && values[cols.exit]) {
-        const exitVal = parseNumber(values[cols.exit]);
-        exit = exitVal !== 0 ? exitVal : undefined;
-      }
-
-      // Parse date
-      let date = new Date().toISOString().split("T")[0];
-      let time = "";
-      if (cols.date >= 0 && values[cols.date]) {
-        const dateStr = values[cols.date];
-
-        // Try ISO format first: YYYY-MM-DD or YYYY/MM/DD
-        const isoMatch = dateStr.match(/(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
-        if (isoMatch) {
-          const [, y, m, d] = isoMatch;
-          date = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
-        } else {
-          // Try MM/DD/YYYY or MM-DD-YYYY format
-          const usMatch = dateStr.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/);
-          if (usMatch) {
-            const [, m, d, y] = usMatch;
-            const year = y.length === 2 ? `20${y}` : y;
-            date = `${year}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
-          }
-        }
-
-        // Parse time from date column
-        const timeMatch = dateStr.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-        if (timeMatch) {
-          time = `${timeMatch[1].padStart(2, "0")}:${timeMatch[2]}`;
-        }
-      }
-
-      // Check separate time column
-      if (!time && cols.time >= 0 && values[cols.time]) {
-        const timeStr = values[cols.time];
-        const timeMatch = timeStr.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-        if (timeMatch) {
-          time = `${timeMatch[1].padStart(2, "0")}:${timeMatch[2]}`;
-        }
-      }
-
-      // Parse instrument
-      let instrument = "NQ";
-      if (cols.instrument >= 0 && values[cols.instrument]) {
-        const sym = values[cols.instrument].toUpperCase();
-        if (sym.includes("NQ") || sym.includes("MNQ")) instrument = "NQ";
-        else if (sym.includes("ES") || sym.includes("MES")) instrument = "ES";
-        else if (sym.includes("GC") || sym.includes("MGC")) instrument = "GC";
-        else if (sym.includes("CL") || sym.includes("MCL")) instrument = "CL";
-        else if (sym.includes("YM") || sym.includes("MYM")) instrument = "YM";
-        else if (sym.includes("RTY") || sym.includes("M2K")) instrument = "RTY";
-        else instrument = sym.slice(0, 6);
-      }
-
-      // Determine direction from explicit column
-      let direction: "long" | "short" = "long";
-      if (cols.direction >= 0 && values[cols.direction]) {
-        const dir = values[cols.direction].toLowerCase().trim();
-        // Check for short: "short", "sell", "s", "-1", "-"
-        if (dir === "s" || dir === "short" || dir === "sell" || dir === "-1" || dir === "-" || dir.startsWith("sell") || dir.startsWith("short")) {
-          direction = "short";
-        }
-      }
-
-      // Determine result
-      const result: "win" | "loss" | "breakeven" =
-        pnl > 0 ? "win" : pnl < 0 ? "loss" : "breakeven";
-
-      trades.push({
-        date,
-        time,
-        instrument,
-        setupId,
-        accountId,
-        direction,
-        entry,
-        exit,
-        contracts,
-        pnl,
-        result,
-      });
-    }
-
-    if (trades.length === 0) {
-      setError("No valid trades found in CSV");
-      return;
-    }
-
-    setParsedTrades(trades);
-  };
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-      const text = evt.target?.result as string;
-      setCsvData(text);
-      parseCSV(text);
-    };
-    reader.readAsText(file);
-  };
-
-  const handlePaste = (text: string) => {
-    setCsvData(text);
-    if (text.trim()) {
-      parseCSV(text);
-    } else {
-      setParsedTrades([]);
-    }
-  };
-
-
   return (
-    <div className="space-y-4">
+    <ImportWizard
+      findDuplicates={duplicatesOf}
+      onImport={(imported, source) => onImport(imported.map(t => toJournalTrade(t, { accountId, setupId })), source)}
+      onClose={onClose}
+    >
       <div className="grid gap-3 sm:grid-cols-2">
         <div className="space-y-1">
           <Label>Account</Label>
@@ -1105,108 +918,7 @@ function ImportForm({
           </Select>
         </div>
       </div>
-
-      <div className="space-y-1">
-        <Label>Upload CSV or Paste Data</Label>
-        <div className="flex gap-2">
-          <Input
-            type="file"
-            accept=".csv,.txt"
-            onChange={handleFileUpload}
-            className="flex-1"
-          />
-        </div>
-        <p className="text-xs text-muted-foreground">
-          Supports most broker exports. Looks for: instrument, contracts, entry, exit, pnl, date
-        </p>
-      </div>
-
-      <div className="space-y-1">
-        <Label>Or paste CSV data</Label>
-        <Textarea
-          rows={4}
-          placeholder="Paste CSV data here..."
-          value={csvData}
-          onChange={(e) => handlePaste(e.target.value)}
-          className="font-mono text-xs"
-        />
-      </div>
-
-      {error && (
-        <p className="text-sm text-destructive">{error}</p>
-      )}
-
-      {parsedTrades.length > 0 && (
-        <div className="space-y-2">
-          <p className="text-sm font-medium">
-            Preview: {parsedTrades.length} trades to import
-          </p>
-          <div className="max-h-48 overflow-auto rounded border p-2 text-xs">
-            <table className="w-full">
-              <thead>
-                <tr className="text-muted-foreground">
-                  <th className="text-left">Date</th>
-                  <th className="text-left">Instrument</th>
-                  <th className="text-right">Entry</th>
-                  <th className="text-right">Exit</th>
-                  <th className="text-right">Qty</th>
-                  <th className="text-right">P&L</th>
-                </tr>
-              </thead>
-              <tbody>
-                {parsedTrades.slice(0, 10).map((t, i) => (
-                  <tr key={i}>
-                    <td>{t.date}</td>
-                    <td>{t.instrument}</td>
-                    <td className="text-right tabular-nums">{t.entry ? t.entry.toLocaleString() : "-"}</td>
-                    <td className="text-right tabular-nums">{t.exit ? t.exit.toLocaleString() : "-"}</td>
-                    <td className="text-right">{t.contracts}</td>
-                    <td className={cn(
-                      "text-right font-medium tabular-nums",
-                      t.pnl >= 0 ? "text-success" : "text-destructive"
-                    )}>
-                      {t.pnl >= 0 ? "+" : ""}${t.pnl.toFixed(2)}
-                    </td>
-                  </tr>
-                ))}
-                {parsedTrades.length > 10 && (
-                  <tr>
-                    <td colSpan={6} className="text-center text-muted-foreground">
-                      ... and {parsedTrades.length - 10} more
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            Total P&L: <span className={cn(
-              "font-medium",
-              parsedTrades.reduce((s, t) => s + t.pnl, 0) >= 0 ? "text-success" : "text-destructive"
-            )}>
-              ${parsedTrades.reduce((s, t) => s + t.pnl, 0).toFixed(2)}
-            </span>
-          </p>
-        </div>
-      )}
-
-      <div className="flex justify-end gap-3">
-        <Button type="button" variant="outline" onClick={onClose}>
-          Cancel
-        </Button>
-        <Button
-          onClick={() => {
-            // Apply current account/setup to all trades before importing
-            const finalTrades = parsedTrades.map(t => ({ ...t, accountId, setupId }));
-            onImport(finalTrades);
-          }}
-          disabled={parsedTrades.length === 0}
-          className="bg-accent text-accent-foreground hover:bg-accent/90"
-        >
-          Import {parsedTrades.length} Trades
-        </Button>
-      </div>
-    </div>
+    </ImportWizard>
   );
 }
 
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { syncBrokerMapping } from "@/lib/brokerSync";
+import { createMemoryRepositories, type Repositories } from "@/lib/repositories";
+import type { BrokerClient, BrokerTrade } from "@/lib/brokerClient";
+import type { BotTrade, BotTradeFormData, BrokerAccountMapping } from "@/types/bots";
+
+const mapping: BrokerAccountMapping = {
+  id: "map-1", broker_connection_id: "conn-1", bot_account_id: "acc-1", broker_account_id: "123",
+  broker_account_name: "APEX-123", auto_sync: true, sync_interval_minutes: 15, created_at: "2026-03-01T00:00:00Z",
+};
+
+const roundTrip = (fillId: number, minute: number): BrokerTrade => ({
+  timestamp: `2026-03-02T14:${String(minute).padStart(2, "0")}:00Z`,
+  exit_timestamp: `2026-03-02T14:${String(minute + 1).padStart(2, "0")}:00Z`,
+  instrument: "MNQ", direction: "long", entry_price: 20000, exit_price: 20010, contracts: 1,
+  gross_pnl: 20, pnl: 18.76, commission: 1.24, status: "closed",
+  fill_id: fillId, order_id: fillId + 1000, account_id: "123", exit_fill_ids: [fillId], fill_ids: [fillId - 1, fillId],
+});
+
+const storedTrade = (id: string, accountId: string, fillId: number) =>
+  ({ id, bot_id: "bot-1", bot_account_id: accountId, tradovate_fill_id: fillId, source: "broker" }) as BotTrade;
+
+const client = (trades: BrokerTrade[] | Error): BrokerClient => ({
+  broker: "tradovate",
+  authenticate: async () => undefined,
+  getAccounts: async () => [],
+  getFills: async () => [],
+  fetchTrades: async () => {
+    if (trades instanceof Error) throw trades;
+    return trades;
+  },
+  getPositions: async () => [],
+  getCashBalance: async () => ({ cashBalance: 0, realizedPnL: 0 }),
+});
+
+const importInto = (repositories: Repositories) => (trades: BotTradeFormData[]) => repositories.botTrades.insertMany(trades);
+
+describe("syncBrokerMapping", () => {
+  it("imports new round trips, skips those stored for the account and moves the cursor", async () => {
+    const repositories = createMemoryRepositories({
+      brokerMappings: [mapping],
+      // Fill 12 is stored for another account, which doesn't make it a duplicate here
+      botTrades: [storedTrade("t-11", "acc-1", 11), storedTrade("t-12", "acc-2", 12)],
+    });
+    const broker = client([roundTrip(11, 1), roundTrip(12, 3), roundTrip(13, 5)]);
+
+    const result = await syncBrokerMapping(repositories, broker, mapping, "bot-1", importInto(repositories));
+    expect(result).toMatchObject({ mappingId: "map-1", imported: 2, skipped: 1, lastFillId: 13 });
+
+    const synced = await repositories.botTrades.list({ where: { bot_account_id: "acc-1" }, order: { column: "tradovate_fill_id" } });
+    expect(synced.map(t => t.tradovate_fill_id)).toEqual([11, 12, 13]);
+    expect(await repositories.brokerMappings.get("map-1")).toMatchObject({ last_fill_id: 13, last_error: null });
+
+    // Resuming from the stored cursor finds nothing new
+    const saved = (await repositories.brokerMappings.get("map-1"))!;
+    expect(await syncBrokerMapping(repositories, broker, saved, "bot-1", importInto(repositories)))
+      .toMatchObject({ imported: 0, skipped: 0, lastFillId: 13 });
+  });
+
+  it("stores the error on the mapping and keeps its cursor when the broker fails", async () => {
+    const repositories = createMemoryRepositories({ brokerMappings: [{ ...mapping, last_fill_id: 9 }] });
+
+    const result = await syncBrokerMapping(
+      repositories, client(new Error("Session expired")), { ...mapping, last_fill_id: 9 }, "bot-1", importInto(repositories)
+    );
+    expect(result).toEqual({ mappingId: "map-1", imported: 0, skipped: 0, lastFillId: 9, error: "Session expired" });
+    expect(await repositories.brokerMappings.get("map-1")).toMatchObject({ last_fill_id: 9, last_error: "Session expired" });
+    expect(await repositories.botTrades.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectPreset,
+  fromZonedTime,
+  importTradesCsv,
+  mappingProblems,
+  parseAmount,
+  parseImportCsv,
+  parseImportTime,
+  resolvePreset,
+  type PerformancePreset,
+} from "@/lib/csvImport";
+
+const tradovatePerformance = [
+  "symbol,_priceFormat,_priceFormatType,_tickSize,buyFillId,sellFillId,qty,buyPrice,sellPrice,pnl,boughtTimestamp,soldTimestamp,duration",
+  "MNQZ4,-2,0,0.25,2201,2202,2,20150.25,20160.50,$41.00,11/07/2024 09:31:05,11/07/2024 09:35:40,4min 35sec",
+  "MNQZ4,-2,0,0.25,2204,2203,1,20140.00,20150.00,$(20.00),11/07/2024 10:02:11,11/07/2024 10:01:02,1min 9sec",
+].join("\n");
+
+const ninjaExecutions = [
+  "Instrument,Action,Quantity,Price,Time,ID,E/X,Position,Order ID,Name,Commission,Rate,Account,Connection",
+  "MNQ 12-24,Buy,1,20150.25,11/7/2024 9:31:05 AM,a1,Entry,1 L,o1,Entry,0.62,1,Sim101,Sim",
+  "MNQ 12-24,Buy,1,20152.25,11/7/2024 9:32:00 AM,a2,Entry,2 L,o2,Entry,0.62,1,Sim101,Sim",
+  "MNQ 12-24,Sell,2,20160.25,11/7/2024 9:40:00 AM,a3,Exit,-,o3,Exit,1.24,1,Sim101,Sim",
+  "MNQ 12-24,Sell,1,20170.00,11/7/2024 9:45:00 AM,a4,Entry,1 S,o4,Entry,0.62,1,Sim101,Sim",
+].join("\n");
+
+describe("detectPreset", () => {
+  it("recognises exports by their exact header row", () => {
+    expect(detectPreset(parseImportCsv(tradovatePerformance).headers)?.id).toBe("tradovate-performance");
+    expect(detectPreset(parseImportCsv(ninjaExecutions).headers)?.id).toBe("ninjatrader-executions");
+    expect(
+      detectPreset(["Id", "ContractName", "EnteredAt", "ExitedAt", "EntryPrice", "ExitPrice", "Fees", "PnL", "Size", "Type"])?.id
+    ).toBe("topstepx-trades");
+  });
+
+  it("finds nothing for an unknown layout", () => {
+    expect(detectPreset(["when", "what", "result"])).toBeUndefined();
+  });
+});
+
+describe("importTradesCsv", () => {
+  it("reads performance rows, taking the earlier leg as the entry", () => {
+    const { trades, errors } = importTradesCsv(tradovatePerformance, undefined, { timeZone: "America/New_York" });
+
+    expect(errors).toEqual([]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      timestamp: "2024-11-07T14:31:05.000Z",
+      instrument: "MNQ",
+      direction: "long",
+      entry_price: 20150.25,
+      exit_price: 20160.5,
+      contracts: 2,
+      pnl: 41,
+    });
+    expect(trades[1]).toMatchObject({
+      timestamp: "2024-11-07T15:01:02.000Z",
+      direction: "short",
+      entry_price: 20150,
+      exit_price: 20140,
+      pnl: -20,
+    });
+  });
+
+  it("pairs fills exports into round trips and reports what is left open", () => {
+    const { preset, trades, openContracts } = importTradesCsv(ninjaExecutions, undefined, { timeZone: "America/New_York" });
+
+    expect(preset.report).toBe("fills");
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      direction: "long",
+      entry_price: 20151.25,
+      exit_price: 20160.25,
+      contracts: 2,
+      pnl: 33.52,          // 9 pts x 2 x $2 - 2 x $1.24
+    });
+    expect(openContracts).toBe(1);
+  });
+
+  it("rejects a file that lacks the picked preset's columns", () => {
+    const ninja = detectPreset(parseImportCsv(ninjaExecutions).headers);
+    expect(() => importTradesCsv(tradovatePerformance, ninja)).toThrow(/missing Instrument/);
+  });
+
+  it("skips rows it can't read and says why", () => {
+    const broken = tradovatePerformance.replace("11/07/2024 09:31:05,11/07/2024 09:35:40", "soon,later");
+    const { trades, errors } = importTradesCsv(broken);
+    expect(trades).toHaveLength(1);
+    expect(errors[0]).toEqual({ row: 2, message: expect.stringMatching(/^Unrecognised time/) });
+  });
+});
+
+describe("custom mappings", () => {
+  const custom: PerformancePreset = {
+    id: "custom",
+    label: "Custom mapping",
+    platform: "Custom",
+    report: "performance",
+    timeZone: "UTC",
+    dateFormats: ["dd.MM.yyyy HH:mm"],
+    invertPnl: true,
+    columns: { instrument: "Market", direction: "Side", entryPrice: "Open", exitPrice: "Close", contracts: "Lots", pnl: "Loss", entryTime: "Opened" },
+  };
+  const csv = [
+    "Market,Side,Open,Close,Lots,Loss,Opened",
+    "ESZ4,Short,6010,6012,1,100,07.11.2024 14:31",
+  ].join("\n");
+
+  it("reads times with the given format and flips the P&L sign", () => {
+    const { trades, errors } = importTradesCsv(csv, custom);
+    expect(errors).toEqual([]);
+    expect(trades[0]).toMatchObject({ timestamp: "2024-11-07T14:31:00.000Z", direction: "short", pnl: -100 });
+  });
+
+  it("lists required fields left unmapped", () => {
+    expect(mappingProblems({ ...custom, columns: { ...custom.columns, pnl: "" } })).toEqual([expect.stringMatching(/P&L/)]);
+    expect(mappingProblems(resolvePreset(custom, parseImportCsv(csv).headers))).toEqual([]);
+  });
+});
+
+describe("export times", () => {
+  it("converts wall-clock times from the export's zone, across DST", () => {
+    expect(fromZonedTime(new Date(2024, 6, 1, 9, 30), "America/Chicago").toISOString()).toBe("2024-07-01T14:30:00.000Z");
+    expect(fromZonedTime(new Date(2024, 11, 2, 9, 30), "America/Chicago").toISOString()).toBe("2024-12-02T15:30:00.000Z");
+  });
+
+  it("keeps explicit offsets", () => {
+    expect(parseImportTime("11/07/2024 09:31:05 -05:00", "UTC")).toBe("2024-11-07T14:31:05.000Z");
+    expect(parseImportTime("2024-11-07T14:31:05Z", "America/Chicago")).toBe("2024-11-07T14:31:05.000Z");
+  });
+
+  it("reads accounting-style amounts", () => {
+    expect(parseAmount("$(1,234.50)")).toBe(-1234.5);
+    expect(parseAmount("-12.5")).toBe(-12.5);
+    expect(parseAmount("")).toBeNaN();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { computeDailyLoss, findDailyLossBreach, getDailyLossHistory } from "@/lib/dailyLoss";
+import type { BotTrade } from "@/types/bots";
+
+const account = { daily_drawdown: 1000 };
+
+let nextId = 0;
+const trade = (timestamp: string, pnl: number): BotTrade => ({
+  id: `t${++nextId}`, bot_id: "bot-1", bot_account_id: "acc-1", timestamp, instrument: "MNQ", direction: "long",
+  entry_price: 20000, contracts: 1, pnl, status: "closed", source: "manual", created_at: timestamp,
+});
+
+describe("daily loss", () => {
+  it("breaches on the intraday low even when the day recovers", () => {
+    const trades = [
+      trade("2026-03-02T14:00:00Z", -600),
+      trade("2026-03-02T15:00:00Z", -500),
+      trade("2026-03-02T16:00:00Z", 800),
+    ];
+    expect(findDailyLossBreach(account, trades)).toMatchObject({
+      day: "2026-03-02", pnl: -300, low: -1100, level: "breached", breachedAt: "2026-03-02T15:00:00Z",
+    });
+  });
+
+  it("counts an evening loss towards the next session", () => {
+    const trades = [
+      trade("2026-03-02T20:00:00Z", -600),   // 15:00 ET, Monday's session
+      trade("2026-03-02T23:30:00Z", -600),   // 18:30 ET, Tuesday's session
+    ];
+    expect(getDailyLossHistory(account, trades).map(d => [d.day, d.level])).toEqual([
+      ["2026-03-02", "ok"],
+      ["2026-03-03", "ok"],
+    ]);
+    expect(findDailyLossBreach(account, trades)).toBeNull();
+  });
+
+  it("warns at 70% of the limit and reports what's left today", () => {
+    const state = computeDailyLoss(account, [trade("2026-03-02T14:00:00Z", -700)], new Date("2026-03-02T16:00:00Z"));
+    expect(state).toMatchObject({ level: "warning", remaining: 300, usedPct: 70, tradeCount: 1 });
+  });
+
+  it("ignores open trades and accounts without a limit", () => {
+    const open = { ...trade("2026-03-02T14:00:00Z", -2000), status: "open" as const };
+    expect(findDailyLossBreach(account, [open])).toBeNull();
+    expect(findDailyLossBreach({ daily_drawdown: 0 }, [trade("2026-03-02T14:00:00Z", -5000)])).toBeNull();
+  });
+});
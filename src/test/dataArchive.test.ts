@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { ARCHIVE_VERSION, buildArchive, importArchive, parseArchive, planImport } from "@/lib/dataArchive";
+import { createMemoryRepositories } from "@/lib/repositories";
+import type { Bot, BotTrade } from "@/types/bots";
+
+const data = {
+  accounts: [{ id: "a1", prop_firm: "Apex", account_size: 50000 }],
+  trades: [
+    { id: "t1", account_id: "a1", pnl: 120 },
+    { id: "t2", account_id: "a1", pnl: -40 },
+  ],
+  dailyEntries: [{ id: "d1", date: "2026-03-02", pnl: 80 }],
+  bots: [{ id: "b1", name: "KLBS" }],
+};
+
+describe("data archive", () => {
+  it("round-trips with counts and checksums for every section", async () => {
+    const archive = await buildArchive(data, new Date("2026-03-03T12:00:00Z"));
+
+    expect(archive.manifest.version).toBe(ARCHIVE_VERSION);
+    expect(archive.manifest.counts.trades).toBe(2);
+    expect(archive.manifest.counts.calendarNotes).toBe(0);
+    expect(archive.manifest.checksums.trades).toMatch(/^[0-9a-f]{64}$/);
+
+    const parsed = await parseArchive(JSON.stringify(archive));
+    expect(parsed.data.trades).toEqual(data.trades);
+    expect(parsed.data.payouts).toEqual([]);
+  });
+
+  it("rejects edited, truncated and newer archives", async () => {
+    const archive = await buildArchive(data);
+
+    const edited = structuredClone(archive);
+    edited.data.trades[0].pnl = 1200;
+    await expect(parseArchive(JSON.stringify(edited))).rejects.toThrow(/checksum/);
+
+    const truncated = structuredClone(archive);
+    truncated.data.trades.pop();
+    await expect(parseArchive(JSON.stringify(truncated))).rejects.toThrow(/manifest lists 2/);
+
+    const newer = { ...archive, manifest: { ...archive.manifest, version: ARCHIVE_VERSION + 1 } };
+    await expect(parseArchive(JSON.stringify(newer))).rejects.toThrow(/newer version/);
+
+    await expect(parseArchive("{\"accounts\": []}")).rejects.toThrow(/not a PropTracker archive/);
+  });
+
+  it("previews what a merge or replace would do", async () => {
+    const archive = await buildArchive(data);
+    const existing = { trades: ["t1", "t9"], dailyEntries: ["2026-03-02"], bots: ["b2"] };
+
+    const merge = planImport(archive, existing, "merge");
+    expect(merge.trades).toEqual({ incoming: 2, added: 1, updated: 1, removed: 0 });
+    // Daily entries match on the day, not the id
+    expect(merge.dailyEntries).toEqual({ incoming: 1, added: 0, updated: 1, removed: 0 });
+
+    const replace = planImport(archive, existing, "replace");
+    expect(replace.trades.removed).toBe(1);
+    expect(replace.bots).toEqual({ incoming: 1, added: 1, updated: 0, removed: 1 });
+  });
+
+  it("only plans to delete rows the importing user owns when replacing", async () => {
+    const archive = await buildArchive(data);
+    const existing = { bots: ["b2", "teammate-bot"] };
+
+    const replace = planImport(archive, existing, "replace", { bots: ["b2"] });
+    expect(replace.bots).toEqual({ incoming: 1, added: 1, updated: 0, removed: 1 });
+  });
+});
+
+describe("importArchive", () => {
+  const mine = (id: string) => ({ id, name: id, created_by: "u1" }) as Bot;
+
+  it("replaces only the user's own rows, matching daily entries on the day", async () => {
+    const repositories = createMemoryRepositories({
+      journal: {
+        trades: [{ id: "t1", user_id: "u1", account_id: "a1", pnl: 10 }, { id: "t9", user_id: "u1", account_id: "a1", pnl: 5 }],
+        dailyEntries: [{ id: "d-local", user_id: "u1", date: "2026-03-02", pnl: 20 }],
+      },
+      bots: [mine("b2"), { id: "teammate-bot", name: "Theirs", created_by: "u2" } as Bot],
+      botTrades: [{ id: "bt-b2", bot_id: "b2" } as BotTrade, { id: "bt-teammate", bot_id: "teammate-bot" } as BotTrade],
+    });
+    const archive = await buildArchive({ ...data, trades: data.trades.map(t => ({ ...t, import_batch_id: "batch-1" })) });
+
+    const plan = await importArchive(repositories, archive, "replace", "u1");
+    expect(plan.trades).toEqual({ incoming: 2, added: 1, updated: 1, removed: 1 });
+
+    const trades = await repositories.journal.trades.list({ order: { column: "id" } });
+    expect(trades.map(t => [t.id, t.pnl, t.user_id, t.import_batch_id])).toEqual([
+      ["t1", 120, "u1", undefined],
+      ["t2", -40, "u1", undefined],
+    ]);
+    // The day's entry keeps its own id
+    expect(await repositories.journal.dailyEntries.list()).toEqual([expect.objectContaining({ id: "d-local", pnl: 80 })]);
+
+    const bots = await repositories.bots.list({ order: { column: "id" } });
+    expect(bots.map(b => [b.id, b.created_by])).toEqual([["b1", "u1"], ["teammate-bot", "u2"]]);
+    expect((await repositories.botTrades.list()).map(t => t.id)).toEqual(["bt-teammate"]);
+  });
+
+  it("leaves rows missing from the archive alone when merging", async () => {
+    const repositories = createMemoryRepositories({ bots: [mine("b2")] });
+
+    await importArchive(repositories, await buildArchive(data), "merge", "u1");
+    expect((await repositories.bots.list({ order: { column: "id" } })).map(b => b.id)).toEqual(["b1", "b2"]);
+  });
+});
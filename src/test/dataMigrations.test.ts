@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, isNewerSchema, migrateData } from "@/lib/dataMigrations";
+
+const migration = (version: number) => MIGRATIONS.find((m) => m.version === version)!;
+
+describe("MIGRATIONS", () => {
+  it("are numbered 1, 2, 3... in order", () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it("1: gives accounts without a type the evaluation type", () => {
+    const data = { accounts: [{ id: "a1" }, { id: "a2", type: "funded" }], trades: [{ id: "t1" }] };
+    expect(migration(1).up(data)).toEqual({
+      accounts: [{ id: "a1", type: "evaluation" }, { id: "a2", type: "funded" }],
+      trades: [{ id: "t1" }],
+    });
+    expect(migration(1).up({ trades: [] })).toEqual({ trades: [], accounts: undefined });
+  });
+});
+
+describe("migrateData", () => {
+  it("treats unversioned data as version 0 and skips migrations already run", () => {
+    const data = { accounts: [{ id: "a1" }] };
+    expect(migrateData(data, undefined).accounts).toEqual([{ id: "a1", type: "evaluation" }]);
+    expect(migrateData(data, CURRENT_SCHEMA_VERSION)).toBe(data);
+  });
+
+  it("refuses data from a newer schema", () => {
+    expect(isNewerSchema(CURRENT_SCHEMA_VERSION + 1)).toBe(true);
+    expect(isNewerSchema(CURRENT_SCHEMA_VERSION)).toBe(false);
+    expect(() => migrateData({}, CURRENT_SCHEMA_VERSION + 1)).toThrow("newer version of the app");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { computeDrawdown } from "@/lib/drawdown";
+import { evaluateAccountStatus } from "@/lib/accountRules";
+import type { BotAccount, BotTrade, DrawdownModel } from "@/types/bots";
+
+const account = (drawdown_model: DrawdownModel, extra: Partial<BotAccount> = {}): BotAccount => ({
+  id: "acc-1", account_name: "Apex 50K", prop_firm: "Apex", account_size: 50000, contract_size: 1,
+  status: "funded", max_drawdown: 2000, daily_drawdown: 0, drawdown_model, start_date: "2026-03-01",
+  current_balance: 50000, high_water_mark: 50000, starting_balance: 50000,
+  created_at: "2026-03-01T00:00:00Z", updated_at: "2026-03-01T00:00:00Z", ...extra,
+});
+
+let nextId = 0;
+const trade = (timestamp: string, pnl: number): BotTrade => ({
+  id: `t${++nextId}`, bot_id: "bot-1", bot_account_id: "acc-1", timestamp, instrument: "MNQ", direction: "long",
+  entry_price: 20000, contracts: 1, pnl, status: "closed", source: "manual", created_at: timestamp,
+});
+
+// A run up and a give-back inside one session
+const sameDay = [trade("2026-03-02T14:00:00Z", 1500), trade("2026-03-02T15:00:00Z", -1000)];
+
+describe("computeDrawdown", () => {
+  it("trails the intraday peak", () => {
+    expect(computeDrawdown(account("intraday_trailing"), sameDay)).toMatchObject({
+      balance: 50500, peak: 51500, threshold: 49500, distance: 1000, breached: false,
+    });
+  });
+
+  it("only trails end-of-day balances, once the day has closed", () => {
+    expect(computeDrawdown(account("eod_trailing"), sameDay)).toMatchObject({
+      balance: 50500, peak: 50500, threshold: 48500, distance: 2000,
+    });
+  });
+
+  it("breaches an end-of-day account on the balance of the day it trails from", () => {
+    const trades = [
+      trade("2026-03-02T14:00:00Z", 1500),
+      trade("2026-03-03T14:00:00Z", 1800),   // 53300 intraday, threshold still 49500
+      trade("2026-03-03T15:00:00Z", -1900),  // closes at 51400, below the first day's 51500
+      trade("2026-03-04T14:00:00Z", -2000),  // 49400 against 51500 - 2000
+    ];
+    expect(computeDrawdown(account("eod_trailing"), trades)).toMatchObject({
+      breached: true, breachedAt: "2026-03-04T14:00:00Z",
+    });
+  });
+
+  it("stops trailing at the starting balance under trailing_lock", () => {
+    const state = computeDrawdown(account("trailing_lock"), [trade("2026-03-02T14:00:00Z", 3000), trade("2026-03-02T15:00:00Z", -500)]);
+    expect(state).toMatchObject({ peak: 53000, threshold: 50000, distance: 2500, locked: true });
+  });
+
+  it("keeps a static threshold at the starting balance less the drawdown", () => {
+    const state = computeDrawdown(account("static"), [trade("2026-03-02T14:00:00Z", 3000), trade("2026-03-02T15:00:00Z", -4500)]);
+    expect(state).toMatchObject({ threshold: 48000, balance: 48500, breached: false });
+  });
+
+  it("records the trade that crossed the threshold", () => {
+    const state = computeDrawdown(account("intraday_trailing"), [...sameDay, trade("2026-03-02T16:00:00Z", -1200)]);
+    expect(state).toMatchObject({ breached: true, breachedAt: "2026-03-02T16:00:00Z", balance: 49300 });
+  });
+
+  it("applies balance adjustments when they were made", () => {
+    const corrected = account("intraday_trailing", {
+      balance_adjustments: [{
+        at: "2026-03-02T14:30:00.000Z", amount: -1000, previous_balance: 51500, new_balance: 50500,
+        reason: "Missed fill", source: "reconciliation",
+      }],
+    });
+    const state = computeDrawdown(corrected, [trade("2026-03-02T14:00:00Z", 1500), trade("2026-03-02T15:00:00Z", -1200)]);
+    expect(state).toMatchObject({ balance: 49300, peak: 51500, breached: true, breachedAt: "2026-03-02T15:00:00Z" });
+  });
+});
+
+describe("evaluateAccountStatus", () => {
+  it("breaches on max drawdown before looking at the profit target", () => {
+    const evaluation = account("intraday_trailing", { status: "evaluation", profit_target: 1000 });
+    const transition = evaluateAccountStatus(evaluation, [trade("2026-03-02T14:00:00Z", 1500), trade("2026-03-02T15:00:00Z", -2000)]);
+    expect(transition).toMatchObject({ from: "evaluation", to: "breached", rule: "max_drawdown" });
+  });
+
+  it("passes an evaluation once the target and minimum days are met", () => {
+    const evaluation = account("static", { status: "evaluation", profit_target: 1000, min_trading_days: 2 });
+    const first = trade("2026-03-02T14:00:00Z", 1200);
+    expect(evaluateAccountStatus(evaluation, [first])).toBeNull();
+    expect(evaluateAccountStatus(evaluation, [first, trade("2026-03-03T14:00:00Z", 50)])).toMatchObject({
+      to: "passed", rule: "profit_target", at: "2026-03-03T14:00:00Z",
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { carriedLots, pairBrokerTrades, pairFills, type BrokerFill } from "@/lib/fillPairing";
+import { nextFillCursor, selectNewTrades, splitUnpriced } from "@/lib/brokerSync";
+import { toBrokerFills, type TradovateContract, type TradovateFill } from "@/lib/tradovate";
+import recorded from "./fixtures/tradovate-fills.json";
+
+const fills = toBrokerFills(
+  recorded.fills as TradovateFill[],
+  recorded.contracts as TradovateContract[]
+);
+
+const fill = (id: number, orderId: number, action: "Buy" | "Sell", qty: number, price: number, minute: number): BrokerFill => ({
+  id,
+  orderId,
+  instrument: "MNQ",
+  timestamp: `2024-11-07T14:${String(minute).padStart(2, "0")}:00.000Z`,
+  action,
+  qty,
+  price,
+});
+
+describe("pairFills", () => {
+  it("maps Tradovate contracts to instrument roots", () => {
+    expect(new Set(fills.map((f) => f.instrument))).toEqual(new Set(["MNQ", "ES"]));
+  });
+
+  it("pairs a simple round trip with gross P&L from tick value and commission", () => {
+    const { trades } = pairFills(fills);
+    const [first] = trades;
+
+    expect(first).toMatchObject({
+      instrument: "MNQ",
+      direction: "long",
+      entry_price: 20150.25,
+      exit_price: 20160.5,
+      contracts: 2,
+      gross_pnl: 41,         // 10.25 pts x 2 contracts x $2/pt
+      commission: 2.48,
+      pnl: 38.52,
+      entry_fill_ids: [2201],
+      exit_fill_ids: [2202],
+    });
+  });
+
+  it("combines partial fills of one exit order into a single trade", () => {
+    const es = pairFills(fills).trades.find((t) => t.instrument === "ES");
+
+    expect(es).toMatchObject({
+      direction: "short",
+      contracts: 3,
+      entry_price: 5725.5,
+      gross_pnl: 350,        // 7 pts across 3 contracts x $50/pt
+      commission: 12.36,
+      pnl: 337.64,
+      exit_fill_ids: [2204, 2205],
+      exit_order_id: 9104,
+    });
+    expect(es!.exit_price).toBeCloseTo(5723.1667, 4);
+  });
+
+  it("closes scale-in lots first in, first out on partial exits", () => {
+    const nov5 = pairFills(fills).trades.filter((t) => t.timestamp.startsWith("2024-11-05"));
+
+    expect(nov5.map((t) => [t.entry_price, t.exit_price, t.gross_pnl])).toEqual([
+      [20200, 20210, 20],
+      [20190, 20180, -20],
+    ]);
+  });
+
+  it("splits a reversal into a closing trade and a new position", () => {
+    const nov6 = pairFills(fills).trades.filter((t) => t.exit_timestamp.startsWith("2024-11-06"));
+
+    expect(nov6.map((t) => [t.direction, t.contracts, t.entry_price, t.exit_price, t.pnl])).toEqual([
+      ["long", 2, 20300, 20290, -42.48],
+      ["short", 1, 20290, 20280, 18.76],
+    ]);
+  });
+
+  it("leaves unmatched fills as open lots", () => {
+    const { trades, openLots } = pairFills(fills);
+
+    expect(trades).toHaveLength(6);
+    expect(openLots).toEqual([
+      expect.objectContaining({ fillId: 2213, instrument: "ES", direction: "long", qty: 1, price: 5810.25 }),
+    ]);
+  });
+
+  it("averages scale-in entries closed by one exit order", () => {
+    const { trades } = pairFills([
+      fill(1, 1, "Sell", 1, 20000, 0),
+      fill(2, 2, "Sell", 2, 20010, 5),
+      fill(3, 3, "Buy", 3, 19990, 10),
+    ], { commissionRt: 0 });
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0].entry_price).toBeCloseTo(20006.6667, 4);
+    expect(trades[0].gross_pnl).toBe(100); // (10 + 20 + 20) pts x $2/pt
+  });
+
+  it("continues from open lots of an earlier run", () => {
+    const full = pairFills(fills).trades;
+    const firstHalf = pairFills(fills.slice(0, 6));
+    const secondHalf = pairFills(fills.slice(6), { openLots: firstHalf.openLots });
+
+    expect([...firstHalf.trades, ...secondHalf.trades]).toEqual(full);
+  });
+
+  it("does not depend on fill order in the input", () => {
+    expect(pairFills([...fills].reverse())).toEqual(pairFills(fills));
+  });
+
+  it("leaves out closes of a position opened before the first fill", () => {
+    // Long 1 from before the window: sold, then a real round trip, then flat
+    const window = [fill(1, 1, "Sell", 1, 20010, 0), fill(2, 2, "Buy", 1, 20000, 5), fill(3, 3, "Sell", 1, 20020, 10)];
+
+    // Taken as flat at the start, the first sell opens a short that never existed
+    expect(pairBrokerTrades(window, "acc-1", undefined, { commissionRt: 0 }).map((t) => t.direction)).toEqual(["short"]);
+
+    const openLots = carriedLots(window, []);
+    expect(openLots).toEqual([expect.objectContaining({ instrument: "MNQ", direction: "long", qty: 1, carried: true })]);
+    const trades = pairBrokerTrades(window, "acc-1", undefined, { commissionRt: 0, openLots });
+    expect(trades.map((t) => [t.direction, t.entry_price, t.exit_price, t.pnl])).toEqual([["long", 20000, 20020, 40]]);
+  });
+
+  it("keeps the part of an exit that closes lots opened in the window", () => {
+    // Long 1 from before the window, 1 more bought, both sold in one order
+    const window = [fill(1, 1, "Buy", 1, 20000, 0), fill(2, 2, "Sell", 2, 20010, 5)];
+    const openLots = carriedLots(window, []);
+
+    const trades = pairBrokerTrades(window, "acc-1", undefined, { commissionRt: 0, openLots });
+    expect(trades.map((t) => [t.contracts, t.entry_price, t.pnl])).toEqual([[1, 20000, 20]]);
+  });
+
+  it("flags round trips on instruments without a contract spec instead of failing", () => {
+    const unknown = (f: BrokerFill): BrokerFill => ({ ...f, id: f.id + 100, orderId: f.orderId + 100, instrument: "XYZ" });
+    const mixed = [fill(1, 1, "Buy", 1, 20000, 0), fill(2, 2, "Sell", 1, 20010, 5)];
+    const trades = pairBrokerTrades([...mixed, ...mixed.map(unknown)], "acc-1", undefined, { commissionRt: 0 });
+
+    expect(trades.map(t => [t.instrument, t.pnl, t.unpriced])).toEqual([["MNQ", 20, undefined], ["XYZ", 0, true]]);
+    expect(splitUnpriced(trades)).toEqual({
+      priced: [trades[0]],
+      warning: "No contract spec, not imported: XYZ (1 round trip)",
+    });
+  });
+
+  it("holds the sync cursor below an unpriced round trip until it can be imported", () => {
+    const round = (buy: number, sell: number, instrument: string, minute: number) => [
+      { ...fill(buy, buy, "Buy", 1, 20000, minute), instrument },
+      { ...fill(sell, sell, "Sell", 1, 20010, minute + 1), instrument },
+    ];
+    const all = [...round(1, 2, "MNQ", 0), ...round(3, 4, "XYZ", 2), ...round(5, 6, "MNQ", 4)];
+    const trades = pairBrokerTrades(all, "acc-1", undefined, { commissionRt: 0 });
+
+    const cursor = nextFillCursor(selectNewTrades(trades, undefined), undefined);
+    expect(cursor).toBe(3);
+    // The next sync still sees the XYZ round trip (and the MNQ one after it, stored already)
+    expect(selectNewTrades(trades, cursor).map((t) => t.fill_id)).toEqual([4, 6]);
+
+    const priced = trades.map((t) => ({ ...t, unpriced: undefined }));
+    expect(nextFillCursor(selectNewTrades(priced, cursor), cursor)).toBe(6);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { botFingerprint, findDuplicates, journalFingerprint } from "@/lib/importBatches";
+
+const stored = botFingerprint({ timestamp: "2024-11-07T14:31:05Z", instrument: "MNQ", contracts: 2, entry_price: 20150.25 });
+
+describe("findDuplicates", () => {
+  it("flags trades at the same minute, instrument, size and price", () => {
+    const incoming = [
+      botFingerprint({ timestamp: "2024-11-07T14:31:40Z", instrument: "MNQ", contracts: 2, entry_price: 20150.25 }),
+      botFingerprint({ timestamp: "2024-11-07T14:31:05Z", instrument: "MNQ", contracts: 1, entry_price: 20150.25 }),
+      botFingerprint({ timestamp: "2024-11-07T14:35:05Z", instrument: "MNQ", contracts: 2, entry_price: 20150.25 }),
+    ];
+    expect(findDuplicates(incoming, [stored])).toEqual([0]);
+  });
+
+  it("lets each stored trade account for one incoming copy", () => {
+    expect(findDuplicates([stored, stored], [stored])).toEqual([0]);
+  });
+
+  it("compares journal trades to the minute", () => {
+    const trade = { date: "2024-11-07", time: "09:31", instrument: "NQ", contracts: 1, entry: 20150 };
+    expect(findDuplicates([journalFingerprint(trade)], [journalFingerprint({ ...trade })])).toEqual([0]);
+    expect(findDuplicates([journalFingerprint(trade)], [journalFingerprint({ ...trade, time: "09:33" })])).toEqual([]);
+  });
+});
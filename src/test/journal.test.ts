@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Account, Trade } from "@/types";
+import { createJournal, createMemoryJournalAdapter, recalcAccountPnl, type JournalAdapter } from "@/lib/journal";
+import { createLocalJournalAdapter } from "@/lib/localJournalAdapter";
+
+const account = (id: string, startDate: string, extra: Partial<Account> = {}): Account => ({
+  id, type: "funded", propFirm: "Apex", accountSize: 50000, startDate, status: "active", profitLoss: 0, ...extra,
+});
+
+const trade = (accountId: string, date: string, pnl: number): Omit<Trade, "id"> => ({
+  date, instrument: "MNQ", accountId, direction: "long", contracts: 1, pnl, result: pnl >= 0 ? "win" : "loss",
+} as Omit<Trade, "id">);
+
+describe("recalcAccountPnl", () => {
+  it("splits shared trades between the accounts active at the time and leaves inactive ones alone", () => {
+    const accounts = [
+      account("a", "2026-03-01"),
+      account("b", "2026-03-10"),
+      account("c", "2026-01-01", { status: "withdrawn", profitLoss: 900 }),
+    ];
+    const trades = [
+      { ...trade("a", "2026-03-02", 100), id: "t1" },
+      { ...trade("split", "2026-03-05", 300), id: "t2" },   // only a was active
+      { ...trade("split", "2026-03-12", 200), id: "t3" },   // a and b
+    ] as Trade[];
+
+    expect(recalcAccountPnl(accounts, trades, "2026-03-12").map(a => a.profitLoss)).toEqual([500, 100, 900]);
+  });
+
+  it("fails, breaches and passes accounts at their limits", () => {
+    const accounts = [
+      account("eval-fail", "2026-03-01", { type: "evaluation", status: "in_progress", maxDrawdown: 2000 }),
+      account("funded", "2026-03-01", { maxDrawdown: 2000 }),
+      account("eval-pass", "2026-03-01", { type: "evaluation", status: "in_progress", profitTarget: 3000 }),
+    ];
+    const trades = [
+      { ...trade("eval-fail", "2026-03-02", -2000), id: "t1" },
+      { ...trade("funded", "2026-03-02", -2500), id: "t2" },
+      { ...trade("eval-pass", "2026-03-02", 3100), id: "t3" },
+    ] as Trade[];
+
+    expect(recalcAccountPnl(accounts, trades, "2026-03-02").map(a => [a.status, a.endDate])).toEqual([
+      ["failed", "2026-03-02"],
+      ["breached", "2026-03-02"],
+      ["passed", "2026-03-02"],
+    ]);
+  });
+});
+
+// The same journal operations, checked on each backend that runs without a server
+const backends: [string, () => JournalAdapter][] = [
+  ["memory", () => createMemoryJournalAdapter()],
+  ["localStorage", () => createLocalJournalAdapter()],
+];
+
+describe.each(backends)("journal on the %s adapter", (_name, makeAdapter) => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem("proptracker_initialized", "1");   // no demo data
+  });
+
+  it("keeps account P&L in step with trades and persists it", async () => {
+    const adapter = makeAdapter();
+    const journal = createJournal(adapter);
+    await journal.open();
+
+    const { id: _id, ...fields } = account("new", "2026-03-01");
+    const created = await journal.add("accounts", fields);
+    await journal.add("trades", trade(created.id, "2026-03-02", 250));
+    const loss = await journal.add("trades", trade(created.id, "2026-03-03", -100));
+    expect(journal.data().accounts[0].profitLoss).toBe(150);
+
+    await journal.remove("trades", loss.id);
+    expect(journal.data().accounts[0].profitLoss).toBe(250);
+
+    // What the backend stored matches what's shown
+    const stored = await adapter.load();
+    expect(stored.accounts[0].profitLoss).toBe(250);
+    expect(stored.trades).toHaveLength(1);
+  });
+
+  it("keeps one daily entry per day and imports trades without a batch", async () => {
+    const adapter = makeAdapter();
+    const journal = createJournal(adapter);
+    await journal.open();
+
+    await journal.upsertDailyEntry({ date: "2026-03-02", pnl: 100 });
+    await journal.upsertDailyEntry({ date: "2026-03-02", pnl: 150, notes: "late fill" });
+    expect(journal.data().dailyEntries).toEqual([expect.objectContaining({ date: "2026-03-02", pnl: 150, notes: "late fill" })]);
+
+    const batch = await journal.importTrades([trade("split", "2026-03-02", 80), trade("split", "2026-03-03", 20)], {
+      source: "csv", source_name: "trades.csv", row_count: 2, skipped_count: 0, duplicate_count: 0,
+    });
+    expect(batch).toBeNull();
+    expect((await adapter.load()).trades.map(t => t.date).sort()).toEqual(["2026-03-02", "2026-03-03"]);
+    await expect(journal.rollbackImportBatch("any")).rejects.toThrow(/can't be rolled back/);
+  });
+});
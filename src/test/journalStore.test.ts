@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createMemoryJournalStore, replayMutations, retryFailedMutations } from "@/lib/journalStore";
+
+type Result = { error: { message: string; code?: string } | null };
+
+// Answers each write with the next result and records what was sent
+function fakeSupabase(results: Result[]) {
+  const sent: string[] = [];
+  const answer = (what: string) => {
+    sent.push(what);
+    return Promise.resolve(results.shift() ?? { error: null });
+  };
+  const client = {
+    from: (table: string) => ({
+      upsert: () => answer(`upsert ${table}`),
+      update: () => ({ eq: (_: string, id: string) => answer(`update ${table} ${id}`) }),
+      delete: () => ({ eq: (_: string, id: string) => answer(`delete ${table} ${id}`) }),
+    }),
+  };
+  return { client: client as unknown as SupabaseClient, sent };
+}
+
+describe("replayMutations", () => {
+  it("sends writes in order, keeps rejected ones as failed and stops at a network error", async () => {
+    const store = createMemoryJournalStore();
+    await store.enqueue({ entity: "trades", op: "upsert", id: "t1", row: { pnl: 100 } });
+    await store.enqueue({ entity: "trades", op: "update", id: "t2", row: { pnl: "oops" } });
+    await store.enqueue({ entity: "accounts", op: "delete", id: "a1" });
+    await store.enqueue({ entity: "payouts", op: "delete", id: "p1" });
+
+    const { client, sent } = fakeSupabase([
+      { error: null },
+      { error: { message: "invalid input syntax for type numeric", code: "22P02" } },
+      { error: { message: "TypeError: Failed to fetch", code: "" } },
+    ]);
+    const counts = await replayMutations(client, store);
+
+    expect(sent).toEqual(["upsert journal_trades", "update journal_trades t2", "delete journal_accounts a1"]);
+    expect(counts).toEqual({ pending: 2, failed: 1 });
+    const [failed, waiting] = await store.mutations();
+    expect(failed.error).toBe("invalid input syntax for type numeric");
+    expect(waiting).toMatchObject({ id: "a1", attempts: 1 });
+    expect(waiting.error).toBeUndefined();
+  });
+
+  it("sends failed writes again once they're retried", async () => {
+    const store = createMemoryJournalStore();
+    await store.enqueue({ entity: "trades", op: "delete", id: "t1" });
+    await replayMutations(fakeSupabase([{ error: { message: "denied", code: "42501" } }]).client, store);
+
+    await retryFailedMutations(store);
+    expect(await replayMutations(fakeSupabase([]).client, store)).toEqual({ pending: 0, failed: 0 });
+  });
+});
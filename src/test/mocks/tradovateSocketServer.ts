@@ -0,0 +1,82 @@
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+
+/**
+ * Local stand-in for Tradovate's WebSocket API: speaks its framing
+ * ('o' / 'h' / 'a[...]'), accepts one access token and answers
+ * requests from canned handlers (a handler that throws answers 500).
+ * Tests push server events with `push`.
+ */
+export class MockTradovateServer {
+  readonly requests: { endpoint: string; body: string }[] = [];
+  private handlers = new Map<string, (body: string) => unknown>();
+
+  private constructor(private wss: WebSocketServer, public token: string) {
+    wss.on("connection", (socket) => {
+      socket.send("o");
+      socket.on("message", (raw) => this.handle(socket, raw.toString()));
+    });
+  }
+
+  static async start(token = "mock-token"): Promise<MockTradovateServer> {
+    const wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => wss.once("listening", () => resolve()));
+    return new MockTradovateServer(wss, token);
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.wss.address() as AddressInfo).port}`;
+  }
+
+  get clientCount(): number {
+    return this.wss.clients.size;
+  }
+
+  /** Answer requests to an endpoint with the handler's result (status 200) */
+  reply(endpoint: string, handler: (body: string) => unknown) {
+    this.handlers.set(endpoint, handler);
+  }
+
+  /** Push an event to every connected client */
+  push(event: string, data: unknown) {
+    const frame = `a${JSON.stringify([{ e: event, d: data }])}`;
+    this.wss.clients.forEach((client) => client.send(frame));
+  }
+
+  /** Drop every connection (the server keeps listening) */
+  disconnectAll() {
+    this.wss.clients.forEach((client) => client.terminate());
+  }
+
+  close(): Promise<void> {
+    this.disconnectAll();
+    return new Promise((resolve) => this.wss.close(() => resolve()));
+  }
+
+  private handle(socket: WebSocket, message: string) {
+    if (message === "[]") return; // heartbeat
+
+    const [endpoint, id, , ...rest] = message.split("\n");
+    const body = rest.join("\n");
+    this.requests.push({ endpoint, body });
+
+    const respond = (s: number, d?: unknown) =>
+      socket.send(`a${JSON.stringify([{ i: Number(id), s, d }])}`);
+
+    if (endpoint === "authorize") {
+      respond(body === this.token ? 200 : 401, body === this.token ? undefined : "Access is denied");
+      return;
+    }
+
+    const handler = this.handlers.get(endpoint);
+    if (!handler) {
+      respond(404, `Unknown endpoint ${endpoint}`);
+      return;
+    }
+    try {
+      respond(200, handler(body));
+    } catch (err) {
+      respond(500, (err as Error).message);
+    }
+  }
+}
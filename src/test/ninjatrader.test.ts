@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { toNinjaTraderExecutions } from "@/lib/ninjatrader";
+
+const row = (account: string, id: string, time = "3/2/2026 9:30:00 AM") => ({
+  account, id, orderid: `o-${id}`, time, instrument: "MNQ 03-26", action: "Buy", quantity: "1", price: "20000",
+});
+
+describe("toNinjaTraderExecutions", () => {
+  it("gives a fill the same id whatever other accounts' fills are exported with it", () => {
+    const alone = toNinjaTraderExecutions([row("Sim101", "b2")]);
+    const mixed = toNinjaTraderExecutions([row("Sim101", "b2"), row("Apex1", "a1"), row("Apex1", "a3")]);
+
+    const id = (fills: typeof alone) => fills.find((f) => f.executionId === "b2")!.id;
+    expect(id(mixed)).toBe(id(alone));
+    expect(mixed.filter((f) => f.accountId === "Apex1").map((f) => f.id - id(alone))).toEqual([0, 1]);
+  });
+
+  it("numbers an account's fills within a second by execution id", () => {
+    const fills = toNinjaTraderExecutions([row("Sim101", "c9"), row("Sim101", "c1"), row("Sim101", "c5", "3/2/2026 9:30:01 AM")]);
+    const first = fills[0].id;
+
+    expect(fills.map((f) => [f.executionId, f.id - first])).toEqual([["c1", 0], ["c9", 1], ["c5", 1000]]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { evaluateConsistency } from "@/lib/consistency";
+import { planPayout } from "@/lib/payouts";
+import type { PayoutRules } from "@/types/bots";
+
+describe("evaluateConsistency", () => {
+  it("works out the profit still needed when one day is too big a share", () => {
+    const days = [{ day: "2026-03-02", pnl: 600 }, { day: "2026-03-03", pnl: 200 }, { day: "2026-03-04", pnl: 200 }];
+    const state = evaluateConsistency(days, 40, "2026-03-04");
+
+    expect(state).toMatchObject({ totalProfit: 1000, bestDaySharePct: 60, eligible: false, profitNeeded: 500, todayBreaks: false });
+    // Today can add at most 40% of the other days' 800 over 60%
+    expect(state.todayCap).toBeCloseTo(533.33, 2);
+  });
+
+  it("flags today when today is the day that breaks the rule", () => {
+    const days = [{ day: "2026-03-02", pnl: 300 }, { day: "2026-03-03", pnl: 300 }, { day: "2026-03-04", pnl: 700 }];
+    expect(evaluateConsistency(days, 40, "2026-03-04")).toMatchObject({ todayCap: 400, todayBreaks: true, eligible: false });
+  });
+
+  it("is eligible when the best day is within the limit", () => {
+    const days = [{ day: "2026-03-02", pnl: 400 }, { day: "2026-03-03", pnl: 300 }, { day: "2026-03-04", pnl: 300 }];
+    expect(evaluateConsistency(days, 40, "2026-03-05")).toMatchObject({ eligible: true, profitNeeded: 0 });
+  });
+});
+
+describe("planPayout", () => {
+  const rules: PayoutRules = { min_trading_days: 5, min_buffer: 100, min_amount: 500, max_amount: 1500, split_pct: 90, min_days_between: 7 };
+
+  it("lists every rule that blocks a request and the next date it could be made", () => {
+    const plan = planPayout({
+      rules, balance: 52000, floor: 52100, tradingDays: 3, lastPayoutDate: "2026-03-01", today: "2026-03-05",
+      consistencyBlocker: "Consistency: best day is 60% of profit (max 40%)",
+    });
+
+    expect(plan.eligible).toBe(false);
+    expect(plan.blockers).toEqual([
+      "2 more trading days needed (3/5)",
+      "7 days must pass after the last payout (2026-03-01)",
+      "Balance needs $100 more to clear the $100 buffer",
+      "Consistency: best day is 60% of profit (max 40%)",
+    ]);
+    // Two business days after Thursday the 5th, which is later than the 8th
+    expect(plan.nextEligibleDate).toBe("2026-03-09");
+  });
+
+  it("caps the request and applies the split", () => {
+    const plan = planPayout({ rules, balance: 54000, floor: 52100, tradingDays: 6, lastPayoutDate: "2026-02-20", today: "2026-03-05" });
+    expect(plan).toMatchObject({ eligible: true, withdrawable: 1500, traderShare: 1350, blockers: [] });
+  });
+
+  it("blocks a request under the firm's minimum", () => {
+    const plan = planPayout({ rules, balance: 52400, floor: 52100, tradingDays: 6, today: "2026-03-05" });
+    expect(plan.blockers).toEqual(["Only $300 available, minimum request is $500"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { compareTrades, reconcileAccount } from "@/lib/reconciliation";
+import type { BrokerTrade } from "@/lib/brokerClient";
+import type { BotAccount, BotTrade } from "@/types/bots";
+
+const account = (extra: Partial<BotAccount> = {}): BotAccount => ({
+  id: "acc-1", account_name: "Apex 50K", prop_firm: "Apex", account_size: 50000, contract_size: 1,
+  status: "funded", max_drawdown: 2000, daily_drawdown: 0, start_date: "2026-03-01",
+  current_balance: 50000, high_water_mark: 50000, starting_balance: 50000,
+  created_at: "2026-03-01T00:00:00Z", updated_at: "2026-03-01T00:00:00Z", ...extra,
+});
+
+const brokerTrade = (fill_id: number, timestamp: string, pnl: number): BrokerTrade => ({
+  timestamp, exit_timestamp: timestamp, instrument: "MNQ", direction: "long", entry_price: 20000, exit_price: 20000,
+  contracts: 1, gross_pnl: pnl, pnl, commission: 0, status: "closed", fill_id, order_id: fill_id, account_id: "101",
+  exit_fill_ids: [fill_id], fill_ids: [fill_id],
+});
+
+let nextId = 0;
+const ledgerTrade = (timestamp: string, pnl: number, extra: Partial<BotTrade> = {}): BotTrade => ({
+  id: `t${++nextId}`, bot_id: "bot-1", bot_account_id: "acc-1", timestamp, instrument: "MNQ", direction: "long",
+  entry_price: 20000, contracts: 1, pnl, status: "closed", source: "webhook", created_at: timestamp, ...extra,
+});
+
+describe("compareTrades", () => {
+  it("matches synced trades on their fill id and others on the nearest round trip", () => {
+    const broker = [brokerTrade(1, "2026-03-02T14:00:00Z", 100), brokerTrade(2, "2026-03-02T15:00:00Z", -50)];
+    const ledger = [
+      ledgerTrade("2026-03-02T14:00:05Z", 100, { source: "broker", tradovate_fill_id: 1 }),
+      ledgerTrade("2026-03-02T15:01:00Z", -50),
+    ];
+
+    expect(compareTrades(broker, ledger)).toEqual([]);
+  });
+
+  it("reports missing, duplicated and unmatched trades by trading day", () => {
+    const broker = [
+      brokerTrade(1, "2026-03-02T14:00:00Z", 100),
+      brokerTrade(2, "2026-03-03T14:00:00Z", 200),
+    ];
+    const ledger = [
+      ledgerTrade("2026-03-02T14:00:00Z", 100, { source: "broker", tradovate_fill_id: 1 }),
+      ledgerTrade("2026-03-02T14:00:30Z", 100),                     // a webhook copy of the same round trip
+      ledgerTrade("2026-03-03T18:00:00Z", 75, { instrument: "MES" }), // nothing like it at the broker
+    ];
+
+    const [second, first] = compareTrades(broker, ledger);
+    expect(first).toMatchObject({ day: "2026-03-02", brokerCount: 1, ledgerCount: 2, brokerPnl: 100, ledgerPnl: 200 });
+    expect(first.duplicates).toHaveLength(1);
+    expect(second).toMatchObject({ day: "2026-03-03", missing: [expect.objectContaining({ fill_id: 2 })] });
+    expect(second.unmatched).toEqual([expect.objectContaining({ instrument: "MES" })]);
+  });
+
+  it("ignores ledger trades from before the broker's first round trip", () => {
+    const broker = [brokerTrade(1, "2026-03-03T14:00:00Z", 100)];
+    const ledger = [ledgerTrade("2026-03-02T14:00:00Z", 500), ledgerTrade("2026-03-03T14:00:00Z", 100)];
+
+    expect(compareTrades(broker, ledger)).toEqual([]);
+  });
+});
+
+describe("reconcileAccount", () => {
+  it("counts adjustments in the trade balance and measures drift against the broker", () => {
+    const adjusted = account({
+      current_balance: 50300,
+      balance_adjustments: [{
+        at: "2026-03-02T20:00:00Z", amount: 100, previous_balance: 50150, new_balance: 50250,
+        reason: "Fee refund", source: "manual",
+      }],
+    });
+    const ledger = [ledgerTrade("2026-03-02T14:00:00Z", 150), ledgerTrade("2026-03-03T14:00:00Z", -20)];
+    const broker = [brokerTrade(1, "2026-03-02T14:00:00Z", 150), brokerTrade(2, "2026-03-03T14:00:00Z", -20)];
+
+    const result = reconcileAccount(adjusted, "101", ledger, { cashBalance: 50230, realizedPnL: -30 }, broker, new Date("2026-03-03T16:00:00Z"));
+
+    expect(result).toMatchObject({
+      tradeBalance: 50230,
+      tradeDrift: 70,
+      balanceDrift: -70,
+      ledgerRealizedToday: -20,
+      realizedDrift: -10,
+      comparedFrom: "2026-03-02",
+      days: [],
+    });
+  });
+});
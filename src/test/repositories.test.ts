@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { createElement, type ReactNode } from "react";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { AuthProvider } from "@/context/AuthContext";
+import { BotProvider, useBots } from "@/context/BotContext";
+import { RepositoryProvider } from "@/context/RepositoryContext";
+import { createMemoryRepositories, type RowChange, type Repositories } from "@/lib/repositories";
+import type { BotAccount, BotTrade, BotTradeFormData } from "@/types/bots";
+
+const account: BotAccount = {
+  id: "acc-1", account_name: "Apex 50K", prop_firm: "Apex", account_size: 50000, contract_size: 1,
+  status: "funded", max_drawdown: 2500, daily_drawdown: 1000, start_date: "2026-03-01",
+  current_balance: 50000, high_water_mark: 50000, starting_balance: 50000,
+  created_at: "2026-03-01T00:00:00Z", updated_at: "2026-03-01T00:00:00Z",
+};
+
+const trade = (fillId: number | undefined, timestamp: string, pnl: number): BotTradeFormData => ({
+  bot_id: "bot-1", bot_account_id: "acc-1", timestamp, instrument: "MNQ", direction: "long",
+  entry_price: 20000, contracts: 1, pnl, status: "closed", source: "manual", tradovate_fill_id: fillId,
+});
+
+const source = { source: "csv" as const, source_name: "fills.csv", row_count: 2, skipped_count: 0, duplicate_count: 0 };
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve));
+
+describe("memory repositories", () => {
+  it("matches upserts on their conflict columns, treating nulls as distinct", async () => {
+    const { botTrades } = createMemoryRepositories();
+    const options = { onConflict: ["bot_account_id", "tradovate_fill_id"] as (keyof BotTrade & string)[], ignoreDuplicates: true };
+
+    expect(await botTrades.upsertMany([trade(1, "2026-03-02T14:00:00Z", 100), trade(undefined, "2026-03-02T15:00:00Z", 50)], options)).toHaveLength(2);
+    expect(await botTrades.upsertMany([trade(1, "2026-03-02T14:00:00Z", 100), trade(undefined, "2026-03-02T15:00:00Z", 50)], options)).toHaveLength(1);
+    expect(await botTrades.list({ order: { column: "timestamp" } })).toHaveLength(3);
+  });
+
+  it("reports changes once the write has returned", async () => {
+    const { botAccounts } = createMemoryRepositories({ botAccounts: [account] });
+    const changes: RowChange<BotAccount>[] = [];
+    const unsubscribe = botAccounts.subscribe(change => changes.push(change), ["UPDATE", "DELETE"]);
+
+    await botAccounts.update("acc-1", { current_balance: 50100 });
+    expect(changes).toHaveLength(0);
+    await nextTick();
+    expect(changes).toEqual([expect.objectContaining({ event: "UPDATE", new: expect.objectContaining({ current_balance: 50100 }) })]);
+
+    unsubscribe();
+    await botAccounts.remove("acc-1");
+    await nextTick();
+    expect(changes).toHaveLength(1);
+  });
+});
+
+describe("BotProvider on memory repositories", () => {
+  const renderBots = (repositories: Repositories) => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(AuthProvider, null,
+        createElement(RepositoryProvider, {
+          repositories,
+          children: createElement(BotProvider, { userId: "user-1", children }),
+        }));
+    return renderHook(() => useBots(), { wrapper });
+  };
+
+  it("imports a batch once, then rolls it back out of the balance", async () => {
+    const repositories = createMemoryRepositories({ botAccounts: [account] });
+    const { result } = renderBots(repositories);
+    await waitFor(() => expect(result.current.botAccounts).toHaveLength(1));
+
+    const trades = [trade(1, "2026-03-02T14:00:00Z", 300), trade(2, "2026-03-02T15:00:00Z", -100)];
+    await act(async () => {
+      expect(await result.current.importBotTrades(trades, source)).toHaveLength(2);
+      expect(await result.current.importBotTrades(trades, source)).toHaveLength(0);
+    });
+
+    const [batch] = await repositories.importBatches.list();
+    expect(batch).toMatchObject({ user_id: "user-1", target: "bot", imported_count: 2 });
+    expect(await repositories.botAccounts.get("acc-1")).toMatchObject({ current_balance: 50200, high_water_mark: 50300 });
+
+    await act(async () => {
+      await result.current.rollbackBotImportBatch(batch.id);
+    });
+
+    expect(await repositories.botTrades.list()).toHaveLength(0);
+    expect((await repositories.importBatches.get(batch.id))?.rolled_back_at).toBeTruthy();
+    await waitFor(() => expect(result.current.botAccounts[0].current_balance).toBe(50000));
+  });
+
+  it("picks up rows written elsewhere through change events", async () => {
+    const repositories = createMemoryRepositories();
+    const { result } = renderBots(repositories);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await repositories.bots.insert({
+        created_by: "user-2", name: "KLBS Bot", version: "v1.0", instrument: "MNQ", default_contracts: 1, status: "active",
+      });
+    });
+
+    await waitFor(() => expect(result.current.bots.map(b => b.name)).toEqual(["KLBS Bot"]));
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMemoryRepositories } from "@/lib/repositories";
+import { deleteRulePresetVersion, loadRulePresetVersions, saveRulePresetVersion } from "@/lib/rulePresetVersions";
+import { getRulePreset, setCustomRuleVersions } from "@/lib/propFirmRules";
+
+const builtIn = () => {
+  const { version, custom, ...rest } = getRulePreset("apex-50k-eval", "2024-01-01")!;
+  return rest;
+};
+
+describe("rule preset versions", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setCustomRuleVersions([]);
+  });
+
+  it("saves edited versions to the table, where another device loads them", async () => {
+    const { rulePresetVersions } = createMemoryRepositories();
+    const saved = await saveRulePresetVersion(rulePresetVersions, { ...builtIn(), effective_date: "2026-06-01", max_drawdown: 2000 });
+    expect(saved).toMatchObject({ version: 2, custom: true });
+
+    localStorage.clear();
+    setCustomRuleVersions([]);
+    await loadRulePresetVersions(rulePresetVersions);
+
+    expect(getRulePreset("apex-50k-eval", "2026-07-01")).toMatchObject({ version: 2, max_drawdown: 2000, custom: true });
+    expect(getRulePreset("apex-50k-eval", "2026-05-01")).toMatchObject({ version: 1, max_drawdown: 2500 });
+  });
+
+  it("deletes a version from the table and the cache", async () => {
+    const { rulePresetVersions } = createMemoryRepositories();
+    await saveRulePresetVersion(rulePresetVersions, { ...builtIn(), effective_date: "2026-06-01", max_drawdown: 2000 });
+    await deleteRulePresetVersion(rulePresetVersions, "apex-50k-eval", 2);
+
+    expect(await rulePresetVersions.list()).toHaveLength(0);
+    expect(await loadRulePresetVersions(null)).toHaveLength(0);
+  });
+
+  it("falls back to the cached versions when the table can't be read", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { rulePresetVersions } = createMemoryRepositories();
+    await saveRulePresetVersion(rulePresetVersions, { ...builtIn(), effective_date: "2026-06-01", max_drawdown: 2000 });
+    vi.spyOn(rulePresetVersions, "list").mockRejectedValue(new Error("offline"));
+
+    expect(await loadRulePresetVersions(rulePresetVersions)).toEqual([expect.objectContaining({ version: 2 })]);
+  });
+});
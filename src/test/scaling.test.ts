@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { findSizingViolations, getScalingState } from "@/lib/scaling";
+import type { BotAccount, BotTrade, ScalingRule } from "@/types/bots";
+
+const rules: ScalingRule[] = [
+  { profit_threshold: 0, new_contract_limit: 2 },
+  { profit_threshold: 1500, new_contract_limit: 4 },
+  { profit_threshold: 3000, new_contract_limit: 6 },
+];
+
+const account: BotAccount = {
+  id: "acc-1", account_name: "Apex 50K", prop_firm: "Apex", account_size: 50000, contract_size: 1,
+  status: "funded", max_drawdown: 2500, daily_drawdown: 0, start_date: "2026-03-01",
+  scaling_rules: { enabled: true, rules: [...rules].reverse() },
+  current_balance: 50000, high_water_mark: 50000, starting_balance: 50000,
+  created_at: "2026-03-01T00:00:00Z", updated_at: "2026-03-01T00:00:00Z",
+};
+
+const trade = (id: string, timestamp: string, contracts: number, pnl: number, status: BotTrade["status"] = "closed"): BotTrade => ({
+  id, bot_id: "bot-1", bot_account_id: "acc-1", timestamp, instrument: "MNQ", direction: "long",
+  entry_price: 20000, contracts, pnl, status, source: "manual", created_at: timestamp,
+});
+
+describe("scaling plan", () => {
+  it("unlocks contracts at each profit threshold", () => {
+    expect(getScalingState(rules, -200)).toMatchObject({ allowedContracts: 2, profitToNext: 200 });
+    expect(getScalingState(rules, 2000)).toMatchObject({ allowedContracts: 4, nextStep: rules[2], profitToNext: 1000 });
+    expect(getScalingState(rules, 3500)).toMatchObject({ allowedContracts: 6, nextStep: undefined });
+  });
+
+  it("flags trades sized above the limit in force when they were placed", () => {
+    const trades = [
+      trade("a", "2026-03-02T14:00:00Z", 3, 2000),   // at no profit: 2 allowed
+      trade("b", "2026-03-02T15:00:00Z", 4, -100),   // at 2000: 4 allowed
+      trade("c", "2026-03-02T16:00:00Z", 5, 0, "open"),
+      trade("d", "2026-03-02T17:00:00Z", 9, 0, "cancelled"),
+    ];
+    expect(findSizingViolations(account, trades)).toEqual([
+      { tradeId: "a", contracts: 3, allowedContracts: 2, profit: 0 },
+      { tradeId: "c", contracts: 5, allowedContracts: 4, profit: 1900 },
+    ]);
+  });
+
+  it("doesn't flag anything without an enabled plan", () => {
+    const disabled = { ...account, scaling_rules: { enabled: false, rules } };
+    expect(findSizingViolations(disabled, [trade("a", "2026-03-02T14:00:00Z", 10, 0)])).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { mergeRecords, mergeSyncPayloads } from "@/lib/storage";
+
+const expense = (id: string, amount: number, updatedAt?: string) => ({
+  id, date: "2024-11-07", amount, category: "software" as const, updatedAt,
+});
+
+describe("mergeRecords", () => {
+  it("keeps the later edit of each record and records from both sides", () => {
+    const local = [expense("a", 10, "2024-11-07T10:00:00Z"), expense("b", 20, "2024-11-07T12:00:00Z")];
+    const remote = [expense("a", 15, "2024-11-07T11:00:00Z"), expense("b", 25, "2024-11-07T11:00:00Z"), expense("c", 30)];
+
+    expect(mergeRecords(local, remote).map((e) => [e.id, e.amount])).toEqual([["a", 15], ["b", 20], ["c", 30]]);
+  });
+
+  it("keeps a deletion unless the record was edited after it", () => {
+    const remote = [expense("a", 10, "2024-11-07T10:00:00Z"), expense("b", 20, "2024-11-07T12:00:00Z")];
+    const deleted = { a: "2024-11-07T11:00:00Z", b: "2024-11-07T11:00:00Z" };
+
+    expect(mergeRecords([], remote, deleted).map((e) => e.id)).toEqual(["b"]);
+  });
+});
+
+describe("mergeSyncPayloads", () => {
+  it("merges tombstones from both devices and drops expired ones", () => {
+    const now = new Date("2024-11-07T12:00:00Z");
+    const merged = mergeSyncPayloads(
+      { expenses: [expense("a", 10, "2024-11-01T00:00:00Z")], deleted: { expenses: { old: "2024-01-01T00:00:00Z" } } },
+      { expenses: [], deleted: { expenses: { a: "2024-11-02T00:00:00Z" } } },
+      now
+    );
+
+    expect(merged.expenses).toEqual([]);
+    expect(merged.deleted?.expenses).toEqual({ a: "2024-11-02T00:00:00Z" });
+  });
+});
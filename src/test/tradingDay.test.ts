@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { getTradingDay, groupByTradingDay } from "@/lib/tradingDay";
+
+describe("getTradingDay", () => {
+  it("rolls over to the next session at 18:00 New York time", () => {
+    // 2026-03-02 is in EST (UTC-5)
+    expect(getTradingDay("2026-03-02T22:59:00Z")).toBe("2026-03-02");
+    expect(getTradingDay("2026-03-02T23:00:00Z")).toBe("2026-03-03");
+  });
+
+  it("follows the clock change into daylight saving time", () => {
+    // After 2026-03-08 New York is on EDT (UTC-4): 18:00 is 22:00 UTC
+    expect(getTradingDay("2026-03-09T21:59:00Z")).toBe("2026-03-09");
+    expect(getTradingDay("2026-03-09T22:00:00Z")).toBe("2026-03-10");
+  });
+
+  it("follows the clock change back to standard time", () => {
+    // On 2026-11-01 New York goes back to EST: 22:30 UTC is 17:30 again
+    expect(getTradingDay("2026-10-30T22:30:00Z")).toBe("2026-10-31");
+    expect(getTradingDay("2026-11-02T22:30:00Z")).toBe("2026-11-02");
+    expect(getTradingDay("2026-11-02T23:00:00Z")).toBe("2026-11-03");
+  });
+
+  it("groups an evening trade with the next day's session", () => {
+    const days = groupByTradingDay([
+      { timestamp: "2026-03-02T15:00:00Z" },
+      { timestamp: "2026-03-02T23:30:00Z" },
+      { timestamp: "2026-03-03T14:00:00Z" },
+    ]);
+    expect([...days].map(([day, items]) => [day, items.length])).toEqual([["2026-03-02", 1], ["2026-03-03", 2]]);
+  });
+});
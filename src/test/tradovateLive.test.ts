@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { TradovateSocket, parseFrame, formatRequest } from "@/lib/tradovateSocket";
+import { TradovateLiveFeed, type LiveAccountState } from "@/lib/tradovateLive";
+import type { TradovateToken } from "@/lib/tradovate";
+import { MockTradovateServer } from "./mocks/tradovateSocketServer";
+
+const token: TradovateToken = {
+  accessToken: "mock-token",
+  mdAccessToken: "mock-token",
+  expirationTime: "2099-01-01T00:00:00Z",
+  userId: 7,
+  userStatus: "Active",
+  name: "mock",
+};
+
+const position = (netPos: number) => ({
+  id: 1,
+  accountId: 101,
+  contractId: 3570918,
+  timestamp: "2024-11-04T15:00:00Z",
+  netPos,
+  netPrice: 20150,
+});
+
+describe("TradovateSocket", () => {
+  it("parses frames and formats requests", () => {
+    expect(parseFrame("o").type).toBe("o");
+    expect(parseFrame('a[{"e":"props","d":{}}]').messages).toEqual([{ e: "props", d: {} }]);
+    expect(formatRequest("md/subscribeQuote", 3, { symbol: "MNQZ4" })).toBe('md/subscribeQuote\n3\n\n{"symbol":"MNQZ4"}');
+  });
+
+  it("rejects a token the server does not accept", async () => {
+    const server = await MockTradovateServer.start();
+    const socket = new TradovateSocket({ url: server.url, token: "wrong", reconnectMs: 0 });
+
+    await expect(socket.connect()).rejects.toThrow(/401/);
+    socket.close();
+    await server.close();
+  });
+
+  it("reconnects rather than giving up when an open handler fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const server = await MockTradovateServer.start();
+    let syncs = 0;
+    server.reply("user/syncrequest", () => {
+      if (++syncs === 1) throw new Error("busy");
+      return {};
+    });
+    const socket = new TradovateSocket({ url: server.url, token: async () => "mock-token", reconnectMs: 10 });
+    socket.onOpen(async () => {
+      await socket.request("user/syncrequest");
+    });
+
+    await socket.connect();
+    expect(syncs).toBe(2);
+    expect(socket.isOpen).toBe(true);
+    socket.close();
+    await server.close();
+  });
+});
+
+describe("TradovateLiveFeed token renewal", () => {
+  it("renews an expiring token before authorizing and on reconnect", async () => {
+    const server = await MockTradovateServer.start("renewed-1");
+    server.reply("user/syncrequest", () => ({}));
+    const expiresIn = (ms: number) => new Date(Date.now() + ms).toISOString();
+    let renewals = 0;
+    const renewToken = vi.fn(async () => {
+      renewals++;
+      return { ...token, accessToken: `renewed-${renewals}`, mdAccessToken: `renewed-${renewals}`, expirationTime: expiresIn(3600_000) };
+    });
+
+    const feed = new TradovateLiveFeed({
+      token: { ...token, accessToken: "expiring", mdAccessToken: "expiring", expirationTime: expiresIn(60_000) },
+      renewToken,
+      environment: "demo",
+      accountIds: [101],
+      resolveContracts: async () => [],
+      urls: { user: server.url, md: server.url },
+      reconnectMs: 10,
+    });
+    await feed.start();
+    // Both sockets share one renewal
+    expect(renewToken).toHaveBeenCalledTimes(1);
+
+    // An hour later the renewed token has run out too
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 3600_000);
+    server.token = "renewed-2";
+    server.disconnectAll();
+    await vi.waitFor(() => expect(server.requests.filter((r) => r.body === "renewed-2")).toHaveLength(2), { timeout: 2000 });
+    expect(renewToken).toHaveBeenCalledTimes(2);
+
+    vi.useRealTimers();
+    feed.stop();
+    await server.close();
+  });
+});
+
+describe("TradovateLiveFeed", () => {
+  let server: MockTradovateServer;
+  let feed: TradovateLiveFeed;
+  let states: LiveAccountState[];
+
+  beforeEach(async () => {
+    server = await MockTradovateServer.start();
+    server.reply("user/syncrequest", () => ({
+      positions: [position(2)],
+      cashBalances: [{ id: 1, accountId: 101, timestamp: "2024-11-04T15:00:00Z", amount: 50000, realizedPnL: 120 }],
+      orders: [{ id: 9001, accountId: 101 }],
+      contracts: [{ id: 3570918, name: "MNQZ4" }],
+    }));
+    server.reply("md/subscribeQuote", () => ({}));
+
+    feed = new TradovateLiveFeed({
+      token,
+      environment: "demo",
+      accountIds: [101],
+      resolveContracts: async () => [],
+      urls: { user: server.url, md: server.url },
+      reconnectMs: 10,
+    });
+    feed.subscribe((s) => (states = s));
+    await feed.start();
+  });
+
+  afterEach(async () => {
+    feed.stop();
+    await server.close();
+  });
+
+  it("loads open positions and cash balances from the sync request", async () => {
+    await vi.waitFor(() => expect(server.requests.some((r) => r.endpoint === "md/subscribeQuote")).toBe(true));
+
+    expect(states[0]).toMatchObject({ accountId: 101, cashBalance: 50000, realizedPnl: 120 });
+    expect(states[0].positions).toEqual([
+      expect.objectContaining({ instrument: "MNQ", netPos: 2, netPrice: 20150 }),
+    ]);
+    expect(server.requests.find((r) => r.endpoint === "md/subscribeQuote")!.body).toBe('{"symbol":"MNQZ4"}');
+  });
+
+  it("prices unrealized P&L from market data", async () => {
+    await vi.waitFor(() => expect(server.requests.some((r) => r.endpoint === "md/subscribeQuote")).toBe(true));
+    server.push("md", { quotes: [{ contractId: 3570918, entries: { Trade: { price: 20160 } } }] });
+
+    // 10 pts x 2 contracts x $2/pt
+    await vi.waitFor(() => expect(states[0].unrealizedPnl).toBe(40));
+    expect(states[0].positions[0].lastPrice).toBe(20160);
+  });
+
+  it("applies pushed position and cash balance changes", async () => {
+    server.push("props", { entityType: "position", eventType: "Updated", entity: position(0) });
+    server.push("props", {
+      entityType: "cashBalance",
+      eventType: "Updated",
+      entity: { id: 1, accountId: 101, timestamp: "2024-11-04T15:05:00Z", amount: 50040, realizedPnL: 160 },
+    });
+
+    await vi.waitFor(() => expect(states[0].cashBalance).toBe(50040));
+    expect(states[0].positions).toEqual([]);
+    expect(states[0].unrealizedPnl).toBe(0);
+  });
+
+  it("reports fills on tracked accounts only", async () => {
+    const fills: number[] = [];
+    feed.onFill((accountId, fill) => fills.push(accountId, fill.id));
+
+    server.push("props", { entityType: "order", eventType: "Created", entity: { id: 9002, accountId: 202 } });
+    server.push("props", { entityType: "fill", eventType: "Created", entity: { id: 5001, orderId: 9002 } });
+    server.push("props", { entityType: "fill", eventType: "Created", entity: { id: 5002, orderId: 9001 } });
+
+    await vi.waitFor(() => expect(fills).toEqual([101, 5002]));
+  });
+
+  it("reconnects and resyncs after the connection drops", async () => {
+    const syncs = () => server.requests.filter((r) => r.endpoint === "user/syncrequest").length;
+    expect(syncs()).toBe(1);
+
+    server.disconnectAll();
+
+    await vi.waitFor(() => expect(syncs()).toBe(2), { timeout: 2000 });
+    expect(states[0].positions).toHaveLength(1);
+  });
+});
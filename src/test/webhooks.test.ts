@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { closeTradeUpdate, parseWebhookSignal } from "@/lib/webhooks";
+import type { BotTrade } from "@/types/bots";
+
+const now = new Date("2024-11-07T14:31:05Z");
+
+describe("parseWebhookSignal", () => {
+  it("reads TradersPost entries, exits and cancels", () => {
+    expect(parseWebhookSignal({ ticker: "MNQ1!", action: "buy", quantity: "2", price: "20150.25" }, now)).toMatchObject({
+      kind: "entry", instrument: "MNQ", direction: "long", contracts: 2, price: 20150.25, timestamp: now.toISOString(),
+    });
+    expect(parseWebhookSignal({ ticker: "CME_MINI:MNQZ2024", action: "exit", price: 20160 }, now).kind).toBe("exit");
+    expect(parseWebhookSignal({ ticker: "MNQ", action: "cancel" }, now).kind).toBe("cancel");
+  });
+
+  it("treats a TradingView order to a flat position as an exit", () => {
+    const signal = parseWebhookSignal({ ticker: "MNQ1!", action: "sell", market_position: "flat", price: 20160 }, now);
+    expect(signal.kind).toBe("exit");
+  });
+
+  it("rejects alerts it can't act on", () => {
+    expect(() => parseWebhookSignal("buy MNQ", now)).toThrow("not a JSON object");
+    expect(() => parseWebhookSignal({ ticker: "MNQ", action: "hold" }, now)).toThrow('Unknown action "hold"');
+    expect(() => parseWebhookSignal({ ticker: "MNQ", action: "buy" }, now)).toThrow("Entry has no price");
+  });
+});
+
+describe("closeTradeUpdate", () => {
+  it("books P&L net of commission and keeps both payloads", () => {
+    const trade = {
+      id: "t1", bot_id: "b1", timestamp: now.toISOString(), instrument: "MNQ", direction: "short",
+      entry_price: 20150, contracts: 2, status: "open", source: "webhook", raw_payload: { entry: { action: "sell" } },
+      created_at: now.toISOString(),
+    } as BotTrade;
+    const signal = parseWebhookSignal({ ticker: "MNQ", action: "exit", price: 20140 }, now);
+    const update = closeTradeUpdate(trade, signal, { action: "exit" });
+
+    expect(update.status).toBe("closed");
+    expect(update.commission).toBeCloseTo(2.48);
+    expect(update.pnl).toBe(37.52);
+    expect(update.raw_payload).toEqual({ entry: { action: "sell" }, exit: { action: "exit" } });
+  });
+});
@@ -4,8 +4,9 @@
 export type BotStatus = 'active' | 'paused' | 'retired';
 export type BotAccountStatus = 'evaluation' | 'funded' | 'breached' | 'passed' | 'withdrawn' | 'demo';
 export type BotTradeStatus = 'open' | 'closed' | 'cancelled';
-export type BotTradeSource = 'webhook' | 'manual';
+export type BotTradeSource = 'webhook' | 'manual' | 'broker';
 export type TradeDirection = 'long' | 'short';
+export type DrawdownModel = 'intraday_trailing' | 'eod_trailing' | 'static' | 'trailing_lock';
 
 export interface Bot {
   id: string;
@@ -18,6 +19,7 @@ export interface Bot {
   strategy_notes?: string;
   strategy_code?: string;  // Pine Script or strategy source code
   webhook_url?: string;    // TradersPost webhook URL
+  webhook_secret?: string; // checked by the worker's /webhook/:botId route
   status: BotStatus;
   created_at: string;
   updated_at: string;
@@ -34,9 +36,14 @@ export interface BotAccount {
   // Drawdown rules
   max_drawdown: number;
   daily_drawdown: number;
+  drawdown_model?: DrawdownModel; // copied from the rule preset when one is picked; defaults to 'static'
+  rule_preset_id?: string; // PropFirmRulePreset the rules were filled from
+  consistency_pct?: number; // max share of total profit from a single day (payout rule)
   profit_target?: number; // for evaluations
   min_trading_days?: number;
   scaling_rules?: ScalingRules;
+  status_history?: AccountStatusTransition[]; // automatic status changes, oldest first
+  balance_adjustments?: BalanceAdjustment[]; // manual balance corrections, oldest first
   // Balance tracking
   start_date: string;
   current_balance: number;
@@ -44,12 +51,28 @@ export interface BotAccount {
   starting_balance: number;
   // Calculated fields (from trades)
   total_pnl?: number;
-  current_daily_pnl?: number;
   trading_days_count?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface AccountStatusTransition {
+  from: BotAccountStatus;
+  to: BotAccountStatus;
+  at: string;          // timestamp of the trade that triggered it
+  rule: 'max_drawdown' | 'daily_drawdown' | 'profit_target';
+  reason: string;
+}
+
+export interface BalanceAdjustment {
+  at: string;
+  amount: number;      // new balance - previous balance
+  previous_balance: number;
+  new_balance: number;
+  reason: string;
+  source: 'reconciliation' | 'manual';
+}
+
 export interface ScalingRules {
   enabled: boolean;
   rules: ScalingRule[];
@@ -78,6 +101,10 @@ export interface BotTrade {
   source: BotTradeSource;
   raw_payload?: Record<string, unknown>; // original webhook data
   notes?: string;
+  tradovate_fill_id?: number;   // closing broker fill of a synced round trip (dedupe key, any broker)
+  tradovate_order_id?: number;  // closing broker order
+  broker_connection_id?: string;
+  import_batch_id?: string;     // CSV import or broker sync the trade came from
   created_at: string;
 }
 
@@ -157,6 +184,68 @@ export interface BotBacktestTrade {
   created_at: string;
 }
 
+// A note on a day of the bot calendar, for one bot or (bot_id null) all of them
+export interface BotCalendarNote {
+  id: string;
+  bot_id: string | null;
+  bot_account_id: string | null;
+  note_date: string;            // YYYY-MM-DD
+  note: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A day of one bot account in the bot_calendar view
+export interface BotCalendarDay {
+  bot_id: string;
+  bot_name: string;
+  instrument: string;
+  bot_account_id: string | null;
+  account_name: string | null;
+  prop_firm: string | null;
+  trade_date: string;
+  daily_pnl: number;
+  trade_count: number;
+  win_count: number;
+  loss_count: number;
+  be_count: number;
+  contracts_traded: number;
+  commissions: number;
+  best_trade: number;
+  worst_trade: number;
+  win_rate: number;
+  note: string | null;
+}
+
+// A signal scored by the ML gate (ml_signals). The decision columns at the
+// end, read by the office view, aren't set on every row.
+export interface MLSignal {
+  id: number;
+  timestamp: string;
+  ticker: string;
+  action: string;
+  level: string;
+  session: string;
+  price: number;
+  rsi: number;
+  rsi_roc: number;
+  macd: number;
+  macd_hist: number;
+  plus_di: number;
+  minus_di: number;
+  atr_pct: number;
+  confidence: number;
+  approved: boolean;
+  reason: string;
+  outcome: string | null;
+  pnl: number | null;
+  accounts_sent: string[];
+  instrument?: string;
+  direction?: string;
+  ml_confidence?: number;
+  final_decision?: string;
+}
+
 // Monthly benchmark aggregate (from view)
 export interface MonthlyBenchmark {
   bot_id: string;
@@ -246,10 +335,11 @@ export interface PortfolioBenchmark {
 
 // Form types for creating/editing
 export type BotFormData = Omit<Bot, 'id' | 'created_by' | 'created_at' | 'updated_at'>;
-export type BotAccountFormData = Omit<BotAccount, 'id' | 'created_at' | 'updated_at' | 'total_pnl' | 'current_daily_pnl' | 'trading_days_count'>;
+export type BotAccountFormData = Omit<BotAccount, 'id' | 'created_at' | 'updated_at' | 'total_pnl' | 'trading_days_count'>;
 export type BotTradeFormData = Omit<BotTrade, 'id' | 'created_at'>;
 export type BotBacktestFormData = Omit<BotBacktestData, 'id' | 'created_at'>;
 export type BotBacktestTradeFormData = Omit<BotBacktestTrade, 'id' | 'created_at'>;
+export type BotCalendarNoteFormData = Omit<BotCalendarNote, 'id' | 'created_at' | 'updated_at'>;
 
 // Common instruments for bots (including bonds and currencies)
 export const BOT_INSTRUMENTS = [
@@ -278,6 +368,50 @@ export const BOT_PROP_FIRMS = [
   'Elite Trader Funding',
 ] as const;
 
+// Drawdown models for bot accounts
+export const DRAWDOWN_MODELS = [
+  { value: 'intraday_trailing', label: 'Intraday Trailing', description: 'Threshold trails the peak balance after every trade' },
+  { value: 'eod_trailing', label: 'End-of-Day Trailing', description: 'Threshold trails the highest end-of-day balance' },
+  { value: 'trailing_lock', label: 'Trailing (Locks at Start)', description: 'Trails until the threshold reaches the starting balance, then stops' },
+  { value: 'static', label: 'Static', description: 'Threshold fixed at starting balance minus max drawdown' },
+] as const;
+
+// ============================================
+// PROP FIRM RULE PRESETS
+// ============================================
+
+export type PresetPhase = 'evaluation' | 'funded';
+
+export interface PayoutRules {
+  min_trading_days: number;     // trading days required before the first/next payout
+  min_buffer: number;           // profit that must stay above the drawdown threshold
+  min_amount?: number;          // smallest withdrawal the firm accepts
+  max_amount?: number;          // cap per payout request
+  split_pct: number;            // trader share of withdrawn profit (0-100)
+  min_days_between?: number;    // calendar days between payout requests
+}
+
+export interface PropFirmRulePreset {
+  id: string;                   // stable across versions, e.g. 'apex-50k-eval'
+  firm: string;                 // matches BOT_PROP_FIRMS
+  name: string;                 // e.g. '50K Evaluation'
+  phase: PresetPhase;
+  account_size: number;
+  version: number;
+  effective_date: string;       // YYYY-MM-DD the rules took effect
+  max_drawdown: number;
+  daily_drawdown: number;       // 0 = no daily loss limit
+  drawdown_model: DrawdownModel;
+  profit_target?: number;
+  min_trading_days?: number;
+  max_contracts: number;        // mini contracts (10 micros = 1 mini)
+  scaling_rules?: ScalingRules;
+  consistency_pct?: number;     // max share of total profit from a single day
+  payout?: PayoutRules;
+  notes?: string;
+  custom?: boolean;             // user-edited version (not from the built-in catalog)
+}
+
 // ============================================
 // BROKER INTEGRATION TYPES
 // ============================================
@@ -303,7 +437,7 @@ export interface BrokerConnection {
 }
 
 export interface BrokerAccountInfo {
-  id: number;
+  id: string;          // broker's account id (Tradovate's numeric id as a string)
   name: string;
   accountType: string;
   active: boolean;
@@ -313,12 +447,13 @@ export interface BrokerAccountMapping {
   id: string;
   broker_connection_id: string;
   bot_account_id: string;
-  broker_account_id: number;
+  broker_account_id: string;
   broker_account_name: string;
   auto_sync: boolean;
   sync_interval_minutes: number;
-  last_sync_at?: string;
-  last_fill_id?: number;
+  last_sync_at?: string | null;
+  last_fill_id?: number | null; // closing fill of the newest imported round trip
+  last_error?: string | null;   // error from the most recent sync, cleared on success
   created_at: string;
 }
 
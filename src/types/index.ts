@@ -4,6 +4,9 @@ export interface Payout {
   amount: number;
   propFirm: string;
   method: 'bank_transfer' | 'crypto' | 'paypal' | 'other';
+  grossAmount?: number;    // amount withdrawn from the account before the profit split
+  accountId?: string;      // journal account the payout came from
+  botAccountId?: string;   // bot account the payout came from
   notes?: string;
 }
 
@@ -32,6 +35,8 @@ export interface Account {
   profitLoss: number;
   maxDrawdown?: number;    // max loss $ before auto-breach/fail
   profitTarget?: number;   // profit $ to auto-pass (evaluations) or optional demo target
+  rulePresetId?: string;   // prop firm rule preset the limits were filled from
+  consistencyPct?: number; // max share of total profit from a single day (payout rule)
   notes?: string;
 }
 
@@ -107,6 +112,7 @@ export interface Trade {
   riskReward?: number;
   rating?: number; // 1-5 execution quality
   notes?: string;
+  importBatchId?: string; // CSV import the trade came from
 }
 
 export const INSTRUMENTS = [
@@ -115,7 +121,7 @@ export const INSTRUMENTS = [
 ] as const;
 
 export const ACCOUNT_SIZES = [
-  5000, 10000, 25000, 50000, 100000, 200000, 400000
+  5000, 10000, 25000, 50000, 100000, 150000, 200000, 400000
 ] as const;
 
 // Economic Calendar Types
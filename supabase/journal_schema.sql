@@ -47,6 +47,8 @@ CREATE TABLE IF NOT EXISTS journal_accounts (
   profit_loss DECIMAL(12,2) NOT NULL DEFAULT 0,
   max_drawdown DECIMAL(12,2),
   profit_target DECIMAL(12,2),
+  rule_preset_id TEXT, -- prop firm rule preset (src/data/propFirmPresets.ts)
+  consistency_pct NUMERIC CHECK (consistency_pct > 0 AND consistency_pct <= 100), -- max % of profit from one day
   notes TEXT,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -77,12 +79,14 @@ CREATE TABLE IF NOT EXISTS journal_trades (
   risk_reward DECIMAL(6,2),
   rating INTEGER CHECK (rating >= 1 AND rating <= 5),
   notes TEXT,
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL, -- CSV import it came from
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
 CREATE INDEX IF NOT EXISTS idx_journal_trades_user ON journal_trades(user_id);
 CREATE INDEX IF NOT EXISTS idx_journal_trades_date ON journal_trades(date);
 CREATE INDEX IF NOT EXISTS idx_journal_trades_account ON journal_trades(account_id);
+CREATE INDEX IF NOT EXISTS idx_journal_trades_import_batch ON journal_trades(import_batch_id);
 
 -- ============================================
 -- JOURNAL PAYOUTS
@@ -94,6 +98,9 @@ CREATE TABLE IF NOT EXISTS journal_payouts (
   amount DECIMAL(12,2) NOT NULL,
   prop_firm TEXT NOT NULL,
   method TEXT NOT NULL CHECK (method IN ('bank_transfer', 'crypto', 'paypal', 'other')),
+  gross_amount DECIMAL(12,2), -- withdrawn before the profit split
+  account_id UUID, -- journal account the payout came from
+  bot_account_id UUID, -- bot account the payout came from
   notes TEXT,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -0,0 +1,7 @@
+-- Migration: Add drawdown_model to bot_accounts
+-- Run this in your Supabase SQL Editor to enable trailing drawdown tracking
+
+ALTER TABLE bot_accounts ADD COLUMN IF NOT EXISTS drawdown_model TEXT NOT NULL DEFAULT 'static';
+ALTER TABLE bot_accounts DROP CONSTRAINT IF EXISTS bot_accounts_drawdown_model_check;
+ALTER TABLE bot_accounts ADD CONSTRAINT bot_accounts_drawdown_model_check
+  CHECK (drawdown_model IN ('intraday_trailing', 'eod_trailing', 'static', 'trailing_lock'));
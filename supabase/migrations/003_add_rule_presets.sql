@@ -0,0 +1,5 @@
+-- Migration: Track which prop firm rule preset an account was created from
+-- Run this in your Supabase SQL Editor after 002_add_drawdown_model.sql
+
+ALTER TABLE bot_accounts ADD COLUMN IF NOT EXISTS rule_preset_id TEXT;
+ALTER TABLE journal_accounts ADD COLUMN IF NOT EXISTS rule_preset_id TEXT;
@@ -0,0 +1,4 @@
+-- Migration: Record automatic bot account status transitions
+-- Run this in your Supabase SQL Editor after 003_add_rule_presets.sql
+
+ALTER TABLE bot_accounts ADD COLUMN IF NOT EXISTS status_history JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,7 @@
+-- Migration: Per-account consistency rule (max share of profit from one day)
+-- Run this in your Supabase SQL Editor after 004_add_status_history.sql
+
+ALTER TABLE bot_accounts ADD COLUMN IF NOT EXISTS consistency_pct NUMERIC
+  CHECK (consistency_pct > 0 AND consistency_pct <= 100);
+ALTER TABLE journal_accounts ADD COLUMN IF NOT EXISTS consistency_pct NUMERIC
+  CHECK (consistency_pct > 0 AND consistency_pct <= 100);
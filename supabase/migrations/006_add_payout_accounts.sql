@@ -0,0 +1,6 @@
+-- Migration: Link payouts to the account they were withdrawn from
+-- Run this in your Supabase SQL Editor after 005_add_consistency_rule.sql
+
+ALTER TABLE journal_payouts ADD COLUMN IF NOT EXISTS gross_amount DECIMAL(12,2);
+ALTER TABLE journal_payouts ADD COLUMN IF NOT EXISTS account_id UUID;
+ALTER TABLE journal_payouts ADD COLUMN IF NOT EXISTS bot_account_id UUID;
@@ -0,0 +1,26 @@
+-- Migration: Per-mapping sync errors and fill-level dedupe for broker sync
+-- Run this in your Supabase SQL Editor after 006_add_payout_accounts.sql
+-- (requires tradovate_schema.sql)
+
+ALTER TABLE broker_account_mappings ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- Earlier syncs only kept the fill ID in raw_payload
+UPDATE bot_trades
+SET tradovate_fill_id = (raw_payload->>'tradovate_fill_id')::INTEGER,
+    tradovate_order_id = (raw_payload->>'tradovate_order_id')::INTEGER
+WHERE tradovate_fill_id IS NULL
+  AND raw_payload ? 'tradovate_fill_id';
+
+-- Drop duplicates from repeated syncs, keeping the first import.
+-- Account balances that included the duplicates need a manual correction.
+DELETE FROM bot_trades a
+USING bot_trades b
+WHERE a.tradovate_fill_id IS NOT NULL
+  AND a.bot_account_id = b.bot_account_id
+  AND a.tradovate_fill_id = b.tradovate_fill_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+-- A round trip is imported at most once per account, keyed by its closing fill
+DROP INDEX IF EXISTS idx_bot_trades_tradovate_fill;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bot_trades_tradovate_fill
+  ON bot_trades(bot_account_id, tradovate_fill_id);
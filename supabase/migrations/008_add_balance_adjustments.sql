@@ -0,0 +1,4 @@
+-- Migration: Record balance corrections made when reconciling against the broker
+-- Run this in your Supabase SQL Editor after 007_add_broker_sync_state.sql
+
+ALTER TABLE bot_accounts ADD COLUMN IF NOT EXISTS balance_adjustments JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,24 @@
+-- Migration: Broker-neutral account and fill ids for TradeStation and NinjaTrader
+-- Run this in your Supabase SQL Editor after 008_add_balance_adjustments.sql
+-- (requires tradovate_schema.sql)
+
+-- TradeStation and NinjaTrader account ids are text ('SIM101', '11827339')
+ALTER TABLE broker_account_mappings
+  ALTER COLUMN broker_account_id TYPE TEXT USING broker_account_id::TEXT;
+
+-- Derived fill ids (order id + leg, execution time) outgrow INTEGER
+ALTER TABLE broker_account_mappings
+  ALTER COLUMN last_fill_id TYPE BIGINT;
+
+ALTER TABLE bot_trades
+  ALTER COLUMN tradovate_fill_id TYPE BIGINT,
+  ALTER COLUMN tradovate_order_id TYPE BIGINT;
+
+-- Cached account lists keep their ids as strings too
+UPDATE broker_connections
+SET broker_accounts = (
+  SELECT jsonb_agg(jsonb_set(account, '{id}', to_jsonb(account->>'id')))
+  FROM jsonb_array_elements(broker_accounts) AS account
+)
+WHERE jsonb_typeof(broker_accounts) = 'array'
+  AND jsonb_array_length(broker_accounts) > 0;
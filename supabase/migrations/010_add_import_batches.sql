@@ -0,0 +1,34 @@
+-- Migration: Import batches, so a CSV import or broker sync can be rolled back
+-- Run this in your Supabase SQL Editor after 009_broker_neutral_ids.sql
+-- (requires journal_schema.sql and tradovate_schema.sql)
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  target TEXT NOT NULL CHECK (target IN ('journal', 'bot')),
+  source TEXT NOT NULL CHECK (source IN ('csv', 'broker')),
+  source_name TEXT NOT NULL, -- file name, or the broker account of a sync
+  format TEXT,               -- export preset or saved mapping
+  row_count INTEGER NOT NULL DEFAULT 0,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  rolled_back_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user ON import_batches(user_id, target);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import batches" ON import_batches FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own import batches" ON import_batches FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own import batches" ON import_batches FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own import batches" ON import_batches FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Trades remember the import they came from
+ALTER TABLE journal_trades ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE bot_trades ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_trades_import_batch ON journal_trades(import_batch_id);
+CREATE INDEX IF NOT EXISTS idx_bot_trades_import_batch ON bot_trades(import_batch_id);
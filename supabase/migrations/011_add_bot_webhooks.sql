@@ -0,0 +1,20 @@
+-- Migration: Per-bot webhook secrets and a dead-letter list for alerts the worker couldn't apply
+-- Run this in your Supabase SQL Editor after 010_add_import_batches.sql
+
+ALTER TABLE bots ADD COLUMN IF NOT EXISTS webhook_secret TEXT; -- checked by the worker's /webhook/:botId route
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bot_id TEXT,            -- as given in the URL, which may not be a bot
+  reason TEXT NOT NULL,
+  payload JSONB,          -- alert as received, minus the secret
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_received ON webhook_dead_letters(received_at);
+
+-- The worker writes with the service role key; users only read and dismiss
+ALTER TABLE webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view webhook_dead_letters" ON webhook_dead_letters FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can delete webhook_dead_letters" ON webhook_dead_letters FOR DELETE TO authenticated USING (true);
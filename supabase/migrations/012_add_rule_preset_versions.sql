@@ -0,0 +1,20 @@
+-- Migration: Store edited prop firm rule preset versions in the database instead of one browser's localStorage
+-- Run this in your Supabase SQL Editor after 011_add_bot_webhooks.sql
+
+CREATE TABLE IF NOT EXISTS rule_preset_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  preset_id TEXT NOT NULL,       -- built-in preset id, or a new one for a firm not in the catalog
+  version INTEGER NOT NULL,
+  effective_date DATE NOT NULL,
+  preset JSONB NOT NULL,         -- the full preset as edited
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (preset_id, version)
+);
+
+-- Shared like the bot accounts whose rules they set
+ALTER TABLE rule_preset_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view rule_preset_versions" ON rule_preset_versions FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can insert rule_preset_versions" ON rule_preset_versions FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can delete rule_preset_versions" ON rule_preset_versions FOR DELETE TO authenticated USING (true);
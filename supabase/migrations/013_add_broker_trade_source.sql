@@ -0,0 +1,8 @@
+-- Migration: Label trades pulled from a broker sync as 'broker' rather than 'webhook'
+-- Run this in your Supabase SQL Editor after 012_add_rule_preset_versions.sql
+
+ALTER TABLE bot_trades DROP CONSTRAINT IF EXISTS bot_trades_source_check;
+ALTER TABLE bot_trades ADD CONSTRAINT bot_trades_source_check CHECK (source IN ('webhook', 'manual', 'broker'));
+
+-- Synced trades carry the broker's closing fill id; webhook alerts never do
+UPDATE bot_trades SET source = 'broker' WHERE source = 'webhook' AND tradovate_fill_id IS NOT NULL;
@@ -18,6 +18,7 @@ CREATE TABLE IF NOT EXISTS bots (
   strategy_notes TEXT,
   strategy_code TEXT,  -- Store Pine Script or strategy source code
   webhook_url TEXT,    -- TradersPost or other webhook URL
+  webhook_secret TEXT, -- checked by the worker's /webhook/:botId route
   status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'retired')),
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -41,9 +42,14 @@ CREATE TABLE IF NOT EXISTS bot_accounts (
   -- Drawdown rules
   max_drawdown DECIMAL(12,2) NOT NULL,
   daily_drawdown DECIMAL(12,2) NOT NULL,
+  drawdown_model TEXT NOT NULL DEFAULT 'static' CHECK (drawdown_model IN ('intraday_trailing', 'eod_trailing', 'static', 'trailing_lock')),
   profit_target DECIMAL(12,2), -- nullable, for evaluations
   min_trading_days INTEGER,
   scaling_rules JSONB, -- flexible rules per firm
+  rule_preset_id TEXT, -- prop firm rule preset (src/data/propFirmPresets.ts)
+  consistency_pct NUMERIC CHECK (consistency_pct > 0 AND consistency_pct <= 100), -- max % of profit from one day
+  status_history JSONB NOT NULL DEFAULT '[]', -- automatic status transitions
+  balance_adjustments JSONB NOT NULL DEFAULT '[]', -- manual balance corrections (reconciliation)
   -- Balance tracking
   start_date DATE NOT NULL DEFAULT CURRENT_DATE,
   starting_balance DECIMAL(12,2) NOT NULL,
@@ -57,6 +63,26 @@ CREATE TABLE IF NOT EXISTS bot_accounts (
 CREATE INDEX IF NOT EXISTS idx_bot_accounts_bot_id ON bot_accounts(bot_id);
 CREATE INDEX IF NOT EXISTS idx_bot_accounts_status ON bot_accounts(status);
 
+-- ============================================
+-- IMPORT BATCHES (CSV imports and broker syncs, journal and bots)
+-- ============================================
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  target TEXT NOT NULL CHECK (target IN ('journal', 'bot')),
+  source TEXT NOT NULL CHECK (source IN ('csv', 'broker')),
+  source_name TEXT NOT NULL, -- file name, or the broker account of a sync
+  format TEXT,               -- export preset or saved mapping
+  row_count INTEGER NOT NULL DEFAULT 0,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  rolled_back_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user ON import_batches(user_id, target);
+
 -- ============================================
 -- BOT TRADES TABLE (Live trades from webhooks or manual entry)
 -- ============================================
@@ -74,9 +100,10 @@ CREATE TABLE IF NOT EXISTS bot_trades (
   pnl DECIMAL(12,2),
   commission DECIMAL(8,2) DEFAULT 0,
   status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'cancelled')),
-  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('webhook', 'manual')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('webhook', 'manual', 'broker')),
   raw_payload JSONB, -- store original webhook data
   notes TEXT,
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
@@ -85,6 +112,34 @@ CREATE INDEX IF NOT EXISTS idx_bot_trades_bot_id ON bot_trades(bot_id);
 CREATE INDEX IF NOT EXISTS idx_bot_trades_account_id ON bot_trades(bot_account_id);
 CREATE INDEX IF NOT EXISTS idx_bot_trades_timestamp ON bot_trades(timestamp);
 CREATE INDEX IF NOT EXISTS idx_bot_trades_external_id ON bot_trades(external_id);
+CREATE INDEX IF NOT EXISTS idx_bot_trades_import_batch ON bot_trades(import_batch_id);
+
+-- ============================================
+-- WEBHOOK DEAD LETTERS (alerts the worker couldn't apply)
+-- ============================================
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bot_id TEXT,            -- as given in the URL, which may not be a bot
+  reason TEXT NOT NULL,
+  payload JSONB,          -- alert as received, minus the secret
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_received ON webhook_dead_letters(received_at);
+
+-- ============================================
+-- RULE PRESET VERSIONS (edited prop firm rule presets; built-ins ship with the app)
+-- ============================================
+CREATE TABLE IF NOT EXISTS rule_preset_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  preset_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  effective_date DATE NOT NULL,
+  preset JSONB NOT NULL, -- the full preset as edited
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (preset_id, version)
+);
 
 -- ============================================
 -- BOT BACKTEST DATA TABLE (Historical performance baselines)
@@ -123,6 +178,9 @@ CREATE INDEX IF NOT EXISTS idx_bot_backtest_bot_id ON bot_backtest_data(bot_id);
 ALTER TABLE bots ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bot_accounts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bot_trades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rule_preset_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bot_backtest_data ENABLE ROW LEVEL SECURITY;
 
 -- Bots: all authenticated users can CRUD all bots
@@ -172,6 +230,36 @@ CREATE POLICY "Authenticated users can update bot_trades"
 CREATE POLICY "Authenticated users can delete bot_trades"
   ON bot_trades FOR DELETE TO authenticated USING (true);
 
+-- Import batches: users see their own
+CREATE POLICY "Users can view own import batches"
+  ON import_batches FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own import batches"
+  ON import_batches FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own import batches"
+  ON import_batches FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own import batches"
+  ON import_batches FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Webhook dead letters: written by the worker, read and dismissed by users
+CREATE POLICY "Authenticated users can view webhook_dead_letters"
+  ON webhook_dead_letters FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can delete webhook_dead_letters"
+  ON webhook_dead_letters FOR DELETE TO authenticated USING (true);
+
+-- Rule preset versions: shared like the bot accounts whose rules they set
+CREATE POLICY "Authenticated users can view rule_preset_versions"
+  ON rule_preset_versions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can insert rule_preset_versions"
+  ON rule_preset_versions FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete rule_preset_versions"
+  ON rule_preset_versions FOR DELETE TO authenticated USING (true);
+
 -- Bot Backtest Data: all authenticated users can CRUD
 CREATE POLICY "Authenticated users can view all bot_backtest_data"
   ON bot_backtest_data FOR SELECT TO authenticated USING (true);
@@ -12,8 +12,8 @@ CREATE TABLE IF NOT EXISTS broker_connections (
   environment TEXT NOT NULL DEFAULT 'demo' CHECK (environment IN ('demo', 'live')),
   -- Credentials (encrypted at rest by Supabase)
   username TEXT NOT NULL,
-  -- Note: In production, use Supabase Vault for sensitive credentials
-  -- For now, we'll store hashed/encrypted in the app layer
+  -- Password and API keys, AES-GCM encrypted by the worker
+  -- (key: the worker's BROKER_CREDENTIALS_KEY secret, never sent to the app)
   credentials_encrypted TEXT NOT NULL,
   -- Connection status
   is_active BOOLEAN NOT NULL DEFAULT true,
@@ -37,12 +37,13 @@ CREATE TABLE IF NOT EXISTS broker_account_mappings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   broker_connection_id UUID NOT NULL REFERENCES broker_connections(id) ON DELETE CASCADE,
   bot_account_id UUID NOT NULL REFERENCES bot_accounts(id) ON DELETE CASCADE,
-  broker_account_id INTEGER NOT NULL,  -- Tradovate account ID
+  broker_account_id TEXT NOT NULL,     -- Broker's account ID
   broker_account_name TEXT NOT NULL,   -- e.g., "APEX-12345"
   auto_sync BOOLEAN NOT NULL DEFAULT true,
   sync_interval_minutes INTEGER DEFAULT 5,
   last_sync_at TIMESTAMPTZ,
-  last_fill_id INTEGER,  -- Track last synced fill for incremental sync
+  last_fill_id BIGINT,   -- Track last synced fill for incremental sync
+  last_error TEXT,       -- Error from the most recent sync, cleared on success
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   UNIQUE(broker_connection_id, broker_account_id)
 );
@@ -52,15 +53,15 @@ CREATE INDEX IF NOT EXISTS idx_broker_mappings_connection ON broker_account_mapp
 CREATE INDEX IF NOT EXISTS idx_broker_mappings_bot_account ON broker_account_mappings(bot_account_id);
 
 -- ============================================
--- UPDATE bot_trades to track Tradovate IDs
+-- UPDATE bot_trades to track broker fill IDs (any broker)
 -- ============================================
 ALTER TABLE bot_trades
-ADD COLUMN IF NOT EXISTS tradovate_fill_id INTEGER,
-ADD COLUMN IF NOT EXISTS tradovate_order_id INTEGER,
+ADD COLUMN IF NOT EXISTS tradovate_fill_id BIGINT,
+ADD COLUMN IF NOT EXISTS tradovate_order_id BIGINT,
 ADD COLUMN IF NOT EXISTS broker_connection_id UUID REFERENCES broker_connections(id) ON DELETE SET NULL;
 
--- Index for deduplication
-CREATE INDEX IF NOT EXISTS idx_bot_trades_tradovate_fill ON bot_trades(tradovate_fill_id);
+-- Deduplication: a round trip is imported once per account, keyed by its closing fill
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bot_trades_tradovate_fill ON bot_trades(bot_account_id, tradovate_fill_id);
 
 -- ============================================
 -- ROW LEVEL SECURITY
@@ -0,0 +1,181 @@
+/**
+ * Scheduled broker sync.
+ *
+ * Runs on the worker's cron trigger so API-based broker accounts stay
+ * current without the app open (file-based brokers such as NinjaTrader
+ * are only synced from the app, when exports are imported). For every active connection it signs in once,
+ * syncs each auto-sync mapping whose interval has elapsed (same fill
+ * cursor and dedupe as the in-app sync, each sync's new trades stored as
+ * one import batch), and records the outcome on the mapping and the
+ * connection.
+ *
+ * Talks to Supabase through PostgREST with the service role key, so it
+ * bypasses RLS and sees every user's connections.
+ */
+
+import { createBrokerClient, UNATTENDED_BROKERS, type BrokerClient } from '../../src/lib/brokerClient';
+import { brokerImportSource, nextFillCursor, selectNewTrades, splitUnpriced, toBotTrade } from '../../src/lib/brokerSync';
+import type { ImportBatch } from '../../src/lib/importBatches';
+import type { BotAccount, BotTrade, BotTradeFormData, BrokerAccountMapping, BrokerConnection } from '../../src/types/bots';
+import { getConnectionCredentials, type CredentialsEnv } from './credentials';
+import { applyToBalance, patch, rest } from './supabase';
+
+export type SyncEnv = CredentialsEnv;
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+/**
+ * Whether a mapping's sync interval has elapsed
+ */
+export function isMappingDue(mapping: BrokerAccountMapping, now: Date): boolean {
+  if (!mapping.last_sync_at) return true;
+  const interval = (mapping.sync_interval_minutes || DEFAULT_INTERVAL_MINUTES) * 60_000;
+  return now.getTime() - Date.parse(mapping.last_sync_at) >= interval;
+}
+
+/**
+ * Insert a sync's round trips as one import batch; returns the new rows
+ */
+async function importBatch(
+  env: SyncEnv,
+  client: BrokerClient,
+  mapping: BrokerAccountMapping,
+  trades: BotTradeFormData[],
+  userId: string
+): Promise<BotTrade[]> {
+  const [batch] = await rest<ImportBatch[]>(env, 'import_batches', {
+    method: 'POST',
+    headers: { Prefer: 'return=representation' },
+    body: JSON.stringify({
+      ...brokerImportSource(mapping, client.broker, trades.length, 0),
+      user_id: userId,
+      target: 'bot',
+      imported_count: trades.length,
+    }),
+  });
+
+  let inserted: BotTrade[] = [];
+  try {
+    // The unique index on (bot_account_id, tradovate_fill_id) drops trades
+    // another sync already stored; only new rows come back
+    inserted = await rest<BotTrade[]>(env, 'bot_trades?on_conflict=bot_account_id,tradovate_fill_id', {
+      method: 'POST',
+      headers: { Prefer: 'resolution=ignore-duplicates,return=representation' },
+      body: JSON.stringify(trades.map(t => ({ ...t, import_batch_id: batch.id }))),
+    });
+  } finally {
+    if (inserted.length === 0) {
+      await rest<void>(env, `import_batches?id=eq.${batch.id}`, { method: 'DELETE' });
+    } else if (inserted.length < trades.length) {
+      await patch(env, 'import_batches', batch.id, {
+        imported_count: inserted.length,
+        duplicate_count: trades.length - inserted.length,
+      });
+    }
+  }
+  return inserted;
+}
+
+/**
+ * Sync one mapping; returns the error message, or the note on round trips
+ * it left out, if any
+ */
+async function syncMapping(
+  env: SyncEnv,
+  client: BrokerClient,
+  mapping: BrokerAccountMapping,
+  botId: string,
+  userId: string
+): Promise<string | null> {
+  try {
+    const trades = await client.fetchTrades(mapping.broker_account_id);
+    const selected = selectNewTrades(trades, mapping.last_fill_id);
+    const { priced: candidates, warning } = splitUnpriced(selected);
+
+    if (candidates.length > 0) {
+      const rows = candidates.map(t => toBotTrade(t, mapping, botId, client.broker));
+      const inserted = await importBatch(env, client, mapping, rows, userId);
+      await applyToBalance(env, mapping.bot_account_id, inserted);
+    }
+
+    await patch(env, 'broker_account_mappings', mapping.id, {
+      last_fill_id: nextFillCursor(selected, mapping.last_fill_id) ?? null,
+      last_sync_at: new Date().toISOString(),
+      last_error: warning ?? null,
+    });
+    return warning ?? null;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Sync failed';
+    await patch(env, 'broker_account_mappings', mapping.id, { last_error: message }).catch(() => undefined);
+    return message;
+  }
+}
+
+/**
+ * Sync every due mapping of one connection and record the outcome on it
+ */
+async function syncConnection(
+  env: SyncEnv,
+  connection: BrokerConnection,
+  mappings: BrokerAccountMapping[],
+  botIds: Map<string, string | undefined>
+): Promise<void> {
+  let error: string | null = null;
+
+  try {
+    const client = createBrokerClient(await getConnectionCredentials(env, connection));
+    await client.authenticate();
+
+    const failed: string[] = [];
+    for (const mapping of mappings) {
+      const botId = botIds.get(mapping.bot_account_id);
+      if (!botId) continue;
+      const mappingError = await syncMapping(env, client, mapping, botId, connection.user_id);
+      if (mappingError) failed.push(`${mapping.broker_account_name}: ${mappingError}`);
+    }
+    if (failed.length > 0) error = `Sync failed for ${failed.join('; ')}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Sync failed';
+  }
+
+  await patch(
+    env,
+    'broker_connections',
+    connection.id,
+    error ? { last_error: error } : { last_sync_at: new Date().toISOString(), last_error: null }
+  );
+}
+
+/**
+ * Cron entry point: sync all due auto-sync mappings across connections
+ */
+export async function runScheduledSync(env: SyncEnv, now = new Date()): Promise<void> {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY || !env.BROKER_CREDENTIALS_KEY) {
+    console.warn('Broker sync skipped: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and BROKER_CREDENTIALS_KEY are required');
+    return;
+  }
+
+  const [connections, mappings] = await Promise.all([
+    rest<BrokerConnection[]>(
+      env,
+      `broker_connections?is_active=eq.true&broker=in.(${UNATTENDED_BROKERS.join(',')})&credentials_encrypted=neq.&select=*`
+    ),
+    rest<BrokerAccountMapping[]>(env, 'broker_account_mappings?auto_sync=eq.true&select=*'),
+  ]);
+
+  const due = mappings.filter(m => isMappingDue(m, now));
+  if (due.length === 0) return;
+
+  const accountIds = [...new Set(due.map(m => m.bot_account_id))];
+  const accounts = await rest<Pick<BotAccount, 'id' | 'bot_id'>[]>(
+    env,
+    `bot_accounts?id=in.(${accountIds.join(',')})&select=id,bot_id`
+  );
+  const botIds = new Map(accounts.map(a => [a.id, a.bot_id]));
+
+  for (const connection of connections) {
+    const connectionMappings = due.filter(m => m.broker_connection_id === connection.id);
+    if (connectionMappings.length === 0) continue;
+    await syncConnection(env, connection, connectionMappings, botIds);
+  }
+}
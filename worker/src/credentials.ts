@@ -0,0 +1,145 @@
+/**
+ * Broker credentials.
+ *
+ * Broker passwords and API keys are AES-GCM encrypted with a key derived
+ * (SHA-256) from the BROKER_CREDENTIALS_KEY secret, which only the worker
+ * holds, and stored in broker_connections.credentials_encrypted. The app
+ * never sees the key or the decrypted credentials:
+ *
+ *   POST /broker/credentials             → { credentials_encrypted } for { password, cid?, sec? }
+ *   POST /broker/connections/:id/session → signs in to the connection's broker and
+ *                                          returns the short-lived session
+ *
+ * Both need the caller's Supabase access token as a Bearer token; sessions
+ * are only opened for the caller's own connections.
+ *
+ * Format: v1:<base64 iv>:<base64 ciphertext>
+ */
+
+import { createBrokerClient, type BrokerCredentials } from '../../src/lib/brokerClient';
+import type { BrokerConnection } from '../../src/types/bots';
+import { rest, type SupabaseEnv } from './supabase';
+
+export interface CredentialsEnv extends SupabaseEnv {
+  BROKER_CREDENTIALS_KEY: string;
+}
+
+// Encrypted part of a connection's credentials
+export interface StoredSecret {
+  password: string;
+  cid?: number;
+  sec?: string;
+}
+
+const VERSION = 'v1';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+async function getKey(env: CredentialsEnv): Promise<CryptoKey> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(env.BROKER_CREDENTIALS_KEY.trim()));
+  return crypto.subtle.importKey('raw', hash, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt a credentials object for storage
+ */
+export async function encryptCredentials(env: CredentialsEnv, secret: StoredSecret): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(env),
+    new TextEncoder().encode(JSON.stringify(secret))
+  );
+  return `${VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a value produced by encryptCredentials
+ */
+export async function decryptCredentials(env: CredentialsEnv, value: string): Promise<StoredSecret> {
+  const [version, iv, ciphertext] = value.split(':');
+  if (version !== VERSION || !iv || !ciphertext) {
+    throw new Error('Stored credentials are missing or in an unknown format');
+  }
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await getKey(env), fromBase64(ciphertext));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new Error('Could not decrypt stored credentials (was the key changed?)');
+  }
+}
+
+/**
+ * Broker credentials for a stored connection, decrypted
+ */
+export async function getConnectionCredentials(env: CredentialsEnv, connection: BrokerConnection): Promise<BrokerCredentials> {
+  const secret = await decryptCredentials(env, connection.credentials_encrypted);
+  return {
+    broker: connection.broker,
+    name: connection.name,
+    username: connection.username,
+    environment: connection.environment,
+    ...secret,
+  };
+}
+
+/**
+ * The Supabase user a request's Bearer token belongs to, or null
+ */
+async function getUserId(env: SupabaseEnv, request: Request): Promise<string | null> {
+  const auth = request.headers.get('Authorization');
+  if (!auth?.startsWith('Bearer ')) return null;
+  const res = await fetch(`${env.SUPABASE_URL}/auth/v1/user`, {
+    headers: { apikey: env.SUPABASE_SERVICE_ROLE_KEY, Authorization: auth },
+  });
+  if (!res.ok) return null;
+  const user: { id?: string } = await res.json();
+  return user.id ?? null;
+}
+
+/**
+ * Route /broker/* requests; `headers` are the CORS headers for the caller
+ */
+export async function handleCredentialsRequest(
+  request: Request,
+  env: CredentialsEnv,
+  path: string,
+  headers: Record<string, string>
+): Promise<Response> {
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...headers, 'Content-Type': 'application/json' } });
+
+  if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY || !env.BROKER_CREDENTIALS_KEY) {
+    return json({ error: 'Broker credentials are not set up on the worker (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and BROKER_CREDENTIALS_KEY)' }, 503);
+  }
+
+  const userId = await getUserId(env, request);
+  if (!userId) return json({ error: 'Unauthorized' }, 401);
+
+  if (path === '/broker/credentials') {
+    const body = await request.json().catch(() => null) as Partial<StoredSecret> | null;
+    if (!body || typeof body !== 'object') return json({ error: 'Expected { password, cid?, sec? }' }, 400);
+    const secret: StoredSecret = { password: body.password ?? '', cid: body.cid, sec: body.sec };
+    return json({ credentials_encrypted: await encryptCredentials(env, secret) });
+  }
+
+  const match = path.match(/^\/broker\/connections\/([^/]+)\/session$/);
+  if (!match) return json({ error: 'Not found' }, 404);
+
+  const [connection] = await rest<BrokerConnection[]>(
+    env,
+    `broker_connections?id=eq.${encodeURIComponent(decodeURIComponent(match[1]))}&user_id=eq.${userId}&select=*`
+  );
+  if (!connection) return json({ error: 'Connection not found' }, 404);
+
+  try {
+    const client = createBrokerClient(await getConnectionCredentials(env, connection));
+    const session = await client.authenticate();
+    if (!session) return json({ error: 'This broker has no sign-in' }, 400);
+    return json(session);
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : 'Sign-in failed' }, 502);
+  }
+}
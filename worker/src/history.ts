@@ -0,0 +1,101 @@
+/**
+ * Snapshot history for /sync.
+ *
+ * Every accepted PUT also stores a copy of the blob under history/<version>,
+ * where the version is the save time in epoch milliseconds. Snapshots from
+ * the last day are all kept; older ones are thinned to the newest of each
+ * UTC day and dropped after HISTORY_DAYS.
+ */
+
+const HISTORY_PREFIX = 'history/';
+const HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Snapshot {
+  version: string;
+  savedAt: string;
+  size: number;
+  counts: Record<string, number>; // records per top-level array in the blob
+}
+
+const versionOf = (key: string) => key.slice(HISTORY_PREFIX.length);
+
+export function isVersion(version: string): boolean {
+  return /^\d{13}$/.test(version);
+}
+
+/** Array lengths of the blob's top-level keys, kept so the history can be listed without reading every snapshot */
+function countRecords(data: unknown): Record<string, number> {
+  if (!data || typeof data !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(data as Record<string, unknown>)
+      .filter(([, value]) => Array.isArray(value))
+      .map(([key, value]) => [key, (value as unknown[]).length])
+  );
+}
+
+export async function saveSnapshot(bucket: R2Bucket, body: string, data: unknown, now = new Date()): Promise<void> {
+  const version = String(now.getTime()).padStart(13, '0');
+  await bucket.put(`${HISTORY_PREFIX}${version}`, body, {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { counts: JSON.stringify(countRecords(data)) },
+  });
+}
+
+async function listObjects(bucket: R2Bucket): Promise<R2Object[]> {
+  const objects: R2Object[] = [];
+  let cursor: string | undefined;
+  do {
+    // `include` is supported from compatibility date 2022-08-04 but missing from the base workers types
+    const options: R2ListOptions & { include: 'customMetadata'[] } = { prefix: HISTORY_PREFIX, cursor, include: ['customMetadata'] };
+    const page = await bucket.list(options);
+    objects.push(...page.objects);
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return objects;
+}
+
+/** Snapshots, newest first */
+export async function listSnapshots(bucket: R2Bucket): Promise<Snapshot[]> {
+  const objects = await listObjects(bucket);
+  return objects
+    .map(object => {
+      const version = versionOf(object.key);
+      let counts: Record<string, number> = {};
+      try {
+        counts = JSON.parse(object.customMetadata?.counts || '{}');
+      } catch {
+        // listed without counts
+      }
+      return { version, savedAt: new Date(Number(version)).toISOString(), size: object.size, counts };
+    })
+    .sort((a, b) => b.version.localeCompare(a.version));
+}
+
+export function getSnapshot(bucket: R2Bucket, version: string): Promise<R2ObjectBody | null> {
+  return bucket.get(`${HISTORY_PREFIX}${version}`);
+}
+
+/** Delete snapshots the retention policy no longer keeps */
+export async function pruneSnapshots(bucket: R2Bucket, now = new Date()): Promise<void> {
+  const snapshots = await listSnapshots(bucket);
+  const keptDays = new Set<string>();
+  const expired: string[] = [];
+
+  for (const snapshot of snapshots) {
+    const age = now.getTime() - Number(snapshot.version);
+    if (age < DAY_MS) continue;
+
+    const day = snapshot.savedAt.slice(0, 10);
+    if (age > HISTORY_DAYS * DAY_MS || keptDays.has(day)) {
+      expired.push(`${HISTORY_PREFIX}${snapshot.version}`);
+    } else {
+      keptDays.add(day);
+    }
+  }
+
+  // delete() takes up to 1000 keys at a time
+  for (let i = 0; i < expired.length; i += 1000) {
+    await bucket.delete(expired.slice(i, i + 1000));
+  }
+}
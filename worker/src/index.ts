@@ -2,15 +2,31 @@
  * Cloudflare Worker – R2-backed JSON storage for Prop Tracker.
  *
  * Endpoints:
- *   GET  /sync         → returns the stored JSON blob
- *   PUT  /sync         → overwrites the blob (requires Authorization header)
+ *   GET  /sync         → returns the stored JSON blob with its ETag
+ *   PUT  /sync         → replaces the blob (requires Authorization header). Send
+ *                        If-Match with the ETag last read; a stale or missing
+ *                        ETag gets 409 with the current blob so the client can
+ *                        merge and retry.
+ *   GET  /sync/history → saved snapshots of the blob, newest first (requires Authorization)
+ *   POST /sync/restore/:version → makes a snapshot the current blob (requires Authorization)
  *   OPTIONS /sync      → CORS preflight
+ *   POST /webhook/:botId → TradersPost/TradingView alert for a bot (src/webhook.ts)
+ *   POST /broker/credentials → encrypts broker credentials for storage (src/credentials.ts)
+ *   POST /broker/connections/:id/session → signs in to a stored broker connection
+ *
+ * Scheduled:
+ *   cron (see wrangler.toml) → Tradovate broker sync (src/brokerSync.ts)
  *
  * Deploy:
  *   cd worker && npx wrangler deploy
  */
 
-export interface Env {
+import { runScheduledSync, type SyncEnv } from './brokerSync';
+import { handleCredentialsRequest } from './credentials';
+import { getSnapshot, isVersion, listSnapshots, pruneSnapshots, saveSnapshot } from './history';
+import { handleWebhook } from './webhook';
+
+export interface Env extends SyncEnv {
   BUCKET: R2Bucket;
   AUTH_TOKEN: string;
   ALLOWED_ORIGINS: string; // comma-separated list of origins
@@ -25,14 +41,15 @@ function cors(env: Env, request: Request): Record<string, string> {
   const matched = allowed.includes(origin) ? origin : allowed[0];
   return {
     'Access-Control-Allow-Origin': matched,
-    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match',
+    'Access-Control-Expose-Headers': 'ETag',
     'Access-Control-Max-Age': '86400',
   };
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const headers = cors(env, request);
 
@@ -87,6 +104,67 @@ export default {
       }
     }
 
+    // Bot alerts – /webhook/:botId (authenticated by the bot's own secret)
+    if (url.pathname.startsWith('/webhook/')) {
+      const botId = decodeURIComponent(url.pathname.split('/')[2] || '');
+      try {
+        return await handleWebhook(request, env, botId);
+      } catch (err) {
+        console.error('Webhook failed', err);
+        return new Response(JSON.stringify({ error: 'Webhook failed' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // Broker credentials and sessions – /broker/* (authenticated by the caller's Supabase session)
+    if (url.pathname.startsWith('/broker/')) {
+      try {
+        return await handleCredentialsRequest(request, env, url.pathname, headers);
+      } catch (err) {
+        console.error('Broker credentials request failed', err);
+        return new Response(JSON.stringify({ error: 'Broker credentials request failed' }), {
+          status: 500,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // Snapshot history – /sync/history and /sync/restore/:version
+    if (url.pathname === '/sync/history' || url.pathname.startsWith('/sync/restore/')) {
+      const auth = request.headers.get('Authorization');
+      if (auth !== `Bearer ${env.AUTH_TOKEN}`) {
+        return new Response('Unauthorized', { status: 401, headers });
+      }
+
+      if (url.pathname === '/sync/history') {
+        if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers });
+        return new Response(JSON.stringify({ snapshots: await listSnapshots(env.BUCKET) }), {
+          status: 200,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (request.method !== 'POST') return new Response('Method not allowed', { status: 405, headers });
+      const version = url.pathname.split('/')[3];
+      const snapshot = isVersion(version) ? await getSnapshot(env.BUCKET, version) : null;
+      if (!snapshot) return new Response('Snapshot not found', { status: 404, headers });
+
+      // A restore is saved as a new version, so it can be undone like any other write
+      const body = await snapshot.text();
+      const written = await env.BUCKET.put(DATA_KEY, body, {
+        httpMetadata: { contentType: 'application/json' },
+      });
+      await saveSnapshot(env.BUCKET, body, JSON.parse(body));
+      ctx.waitUntil(pruneSnapshots(env.BUCKET));
+
+      return new Response(body, {
+        status: 200,
+        headers: { ...headers, 'Content-Type': 'application/json', ETag: written.httpEtag },
+      });
+    }
+
     // Handle /sync
     if (url.pathname !== '/sync') {
       return new Response('Not found', { status: 404 });
@@ -104,11 +182,11 @@ export default {
       const body = await object.text();
       return new Response(body, {
         status: 200,
-        headers: { ...headers, 'Content-Type': 'application/json' },
+        headers: { ...headers, 'Content-Type': 'application/json', ETag: object.httpEtag },
       });
     }
 
-    // PUT – write data to R2
+    // PUT – write data to R2 if the client saw the latest version
     if (request.method === 'PUT') {
       const auth = request.headers.get('Authorization');
       if (auth !== `Bearer ${env.AUTH_TOKEN}`) {
@@ -118,19 +196,46 @@ export default {
       const body = await request.text();
 
       // Validate it's proper JSON
+      let data: unknown;
       try {
-        JSON.parse(body);
+        data = JSON.parse(body);
       } catch {
         return new Response('Invalid JSON', { status: 400, headers });
       }
 
-      await env.BUCKET.put(DATA_KEY, body, {
+      // No If-Match is only fine while nothing has been stored yet
+      const ifMatch = request.headers.get('If-Match');
+      const current = await env.BUCKET.head(DATA_KEY);
+      const stale = ifMatch !== '*' && ifMatch !== (current?.httpEtag ?? null);
+
+      // The conditional put catches a write landing between head() and put()
+      const written = stale ? null : await env.BUCKET.put(DATA_KEY, body, {
         httpMetadata: { contentType: 'application/json' },
+        onlyIf: current ? { etagMatches: current.etag } : undefined,
       });
 
-      return new Response('OK', { status: 200, headers });
+      if (!written) {
+        const latest = await env.BUCKET.get(DATA_KEY);
+        return new Response(latest ? await latest.text() : '{}', {
+          status: 409,
+          headers: {
+            ...headers,
+            'Content-Type': 'application/json',
+            ...(latest ? { ETag: latest.httpEtag } : {}),
+          },
+        });
+      }
+
+      await saveSnapshot(env.BUCKET, body, data);
+      ctx.waitUntil(pruneSnapshots(env.BUCKET));
+
+      return new Response('OK', { status: 200, headers: { ...headers, ETag: written.httpEtag } });
     }
 
     return new Response('Method not allowed', { status: 405, headers });
   },
+
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(runScheduledSync(env));
+  },
 };
@@ -0,0 +1,78 @@
+/**
+ * PostgREST access for the scheduled broker sync and the webhook route.
+ *
+ * Uses the service role key, so it bypasses RLS.
+ */
+
+import { evaluateAccountStatus } from '../../src/lib/accountRules';
+import type { BotAccount, BotTrade } from '../../src/types/bots';
+
+export interface SupabaseEnv {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+export async function rest<T>(env: SupabaseEnv, path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`${env.SUPABASE_URL}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: env.SUPABASE_SERVICE_ROLE_KEY,
+      Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+  if (!res.ok) {
+    throw new Error(`Supabase ${res.status}: ${await res.text()}`);
+  }
+  const text = await res.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export function patch(env: SupabaseEnv, table: string, id: string, body: Record<string, unknown>): Promise<void> {
+  return rest<void>(env, `${table}?id=eq.${id}`, { method: 'PATCH', body: JSON.stringify(body) });
+}
+
+/**
+ * Add newly closed trades to the account balance and high water mark, then
+ * re-check the account against its rules
+ */
+export async function applyToBalance(env: SupabaseEnv, accountId: string, trades: BotTrade[]): Promise<void> {
+  const closed = trades
+    .filter(t => t.status === 'closed')
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  if (closed.length === 0) return;
+
+  const [account] = await rest<BotAccount[]>(env, `bot_accounts?id=eq.${accountId}&select=current_balance,high_water_mark`);
+  if (!account) return;
+
+  let balance = Number(account.current_balance);
+  let hwm = Number(account.high_water_mark);
+  for (const trade of closed) {
+    balance += trade.pnl || 0;
+    hwm = Math.max(hwm, balance);
+  }
+  await patch(env, 'bot_accounts', accountId, { current_balance: balance, high_water_mark: hwm });
+  await applyStatusRules(env, accountId);
+}
+
+/**
+ * Move an account to passed or breached when its trades say so, recording
+ * the transition in status_history (the app's rule module, so unattended
+ * syncs and alerts change status the same way the app does)
+ */
+export async function applyStatusRules(env: SupabaseEnv, accountId: string): Promise<void> {
+  const [[account], trades] = await Promise.all([
+    rest<BotAccount[]>(env, `bot_accounts?id=eq.${accountId}&select=*`),
+    rest<BotTrade[]>(env, `bot_trades?bot_account_id=eq.${accountId}&select=*&order=timestamp.asc&limit=50000`),
+  ]);
+  if (!account) return;
+
+  const transition = evaluateAccountStatus(account, trades);
+  if (!transition) return;
+
+  await patch(env, 'bot_accounts', accountId, {
+    status: transition.to,
+    status_history: [...(account.status_history || []), transition],
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Webhook route for TradersPost and TradingView alerts.
+ *
+ * POST /webhook/:botId[?account=<bot_account_id>] with the alert JSON. The
+ * bot's webhook_secret must come as `secret` in the body or in an
+ * X-Webhook-Secret header. Entries open a bot_trades row (closing an open
+ * trade in the other direction first, for reversals), exits close the
+ * bot's open trade and add its P&L to the account, cancels mark it
+ * cancelled. The alert is kept in raw_payload, minus the secret.
+ *
+ * Alerts for unknown bots, alerts that can't be read and exits or cancels
+ * with no open trade go to webhook_dead_letters and are acknowledged with
+ * 202 so senders don't retry them. Since no secret is checked for an
+ * unknown bot, only ids shaped like a bot id are kept (others get a 404),
+ * stored payloads are cut short, and oversized bodies are refused.
+ */
+
+import {
+  closeTradeUpdate,
+  findOpenTrade,
+  parseWebhookSignal,
+  toOpenTrade,
+  type WebhookSignal,
+} from '../../src/lib/webhooks';
+import type { Bot, BotTrade } from '../../src/types/bots';
+import { applyToBalance, patch, rest, type SupabaseEnv } from './supabase';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Alerts are a few hundred bytes; anything near this isn't one
+const MAX_BODY_BYTES = 64 * 1024;
+const DEAD_LETTER_MAX_CHARS = 4096;
+
+function json(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Compare secrets without returning early on the first mismatch
+ */
+function secretsMatch(given: string, expected: string): boolean {
+  if (given.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < given.length; i++) diff |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * A payload small enough to keep: as is, or the start of its JSON
+ */
+function capPayload(payload: unknown): unknown {
+  const text = typeof payload === 'string' ? payload : JSON.stringify(payload) ?? '';
+  if (text.length <= DEAD_LETTER_MAX_CHARS) return payload;
+  return { truncated: true, length: text.length, start: text.slice(0, DEAD_LETTER_MAX_CHARS) };
+}
+
+async function deadLetter(env: SupabaseEnv, botId: string, reason: string, payload: unknown): Promise<Response> {
+  await rest<void>(env, 'webhook_dead_letters', {
+    method: 'POST',
+    body: JSON.stringify({ bot_id: botId, reason, payload: capPayload(payload) }),
+  });
+  return json({ status: 'dead_letter', reason }, 202);
+}
+
+async function closeTrade(env: SupabaseEnv, trade: BotTrade, signal: WebhookSignal, payload: unknown): Promise<void> {
+  const update = closeTradeUpdate(trade, signal, payload);
+  await patch(env, 'bot_trades', trade.id, update);
+  if (trade.bot_account_id) {
+    await applyToBalance(env, trade.bot_account_id, [{ ...trade, ...update } as BotTrade]);
+  }
+}
+
+export async function handleWebhook(request: Request, env: SupabaseEnv, botId: string): Promise<Response> {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    return json({ error: 'Webhooks need SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY' }, 503);
+  }
+
+  if (Number(request.headers.get('Content-Length') || 0) > MAX_BODY_BYTES) {
+    return json({ error: 'Alert too large' }, 413);
+  }
+  // TradingView sends the alert message as is, which may not be JSON
+  const raw = await request.text();
+  if (new TextEncoder().encode(raw).length > MAX_BODY_BYTES) {
+    return json({ error: 'Alert too large' }, 413);
+  }
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    payload = raw;
+  }
+  const body = payload && typeof payload === 'object' && !Array.isArray(payload)
+    ? (payload as Record<string, unknown>)
+    : undefined;
+
+  // Not a bot id at all: nothing worth keeping
+  if (!UUID.test(botId)) return json({ error: 'Unknown bot' }, 404);
+
+  const [bot] = await rest<Pick<Bot, 'id' | 'default_contracts' | 'webhook_secret'>[]>(
+    env,
+    `bots?id=eq.${botId}&select=id,default_contracts,webhook_secret`
+  );
+
+  const given = request.headers.get('X-Webhook-Secret') ?? (typeof body?.secret === 'string' ? body.secret : '');
+  const { secret: _secret, ...alert } = body ?? {};
+  const kept = body ? alert : payload;
+
+  if (!bot) return deadLetter(env, botId, 'Unknown bot', kept);
+  if (!bot.webhook_secret || !secretsMatch(given, bot.webhook_secret)) {
+    return json({ error: 'Invalid secret' }, 401);
+  }
+
+  let signal: WebhookSignal;
+  try {
+    signal = parseWebhookSignal(kept);
+  } catch (err) {
+    return deadLetter(env, botId, err instanceof Error ? err.message : 'Unreadable alert', kept);
+  }
+
+  const accountId = new URL(request.url).searchParams.get('account') || undefined;
+  const openTrades = await rest<BotTrade[]>(
+    env,
+    `bot_trades?bot_id=eq.${bot.id}&status=eq.open&instrument=eq.${encodeURIComponent(signal.instrument)}&select=*`
+  );
+  const open = findOpenTrade(openTrades, signal, accountId);
+
+  if (signal.kind === 'entry') {
+    if (open && open.direction !== signal.direction) await closeTrade(env, open, signal, kept);
+    const [trade] = await rest<BotTrade[]>(env, 'bot_trades', {
+      method: 'POST',
+      headers: { Prefer: 'return=representation' },
+      body: JSON.stringify(toOpenTrade(signal, bot, accountId ?? open?.bot_account_id, kept)),
+    });
+    return json({ status: 'opened', trade_id: trade.id });
+  }
+
+  if (!open) {
+    return deadLetter(env, botId, `No open ${signal.instrument} trade to ${signal.kind === 'exit' ? 'close' : 'cancel'}`, kept);
+  }
+
+  if (signal.kind === 'exit') {
+    await closeTrade(env, open, signal, kept);
+    return json({ status: 'closed', trade_id: open.id });
+  }
+
+  await patch(env, 'bot_trades', open.id, {
+    status: 'cancelled',
+    raw_payload: { ...open.raw_payload, cancel: kept },
+  });
+  return json({ status: 'cancelled', trade_id: open.id });
+}